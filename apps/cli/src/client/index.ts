@@ -1,6 +1,8 @@
+import type { ThreadMessage } from '@btca/shared';
 import { Result } from 'better-result';
 import { hc } from 'hono/client';
 import type { AppType } from 'btca-server';
+import type { Transcript, TranscriptSummary } from 'btca-server/transcripts/types';
 
 export type Client = ReturnType<typeof hc<AppType>>;
 
@@ -133,8 +135,10 @@ export async function askQuestionStream(
 	baseUrl: string,
 	options: {
 		question: string;
+		messages?: ThreadMessage[];
 		resources?: string[];
 		quiet?: boolean;
+		profile?: string;
 		signal?: AbortSignal;
 	}
 ): Promise<Response> {
@@ -146,8 +150,10 @@ export async function askQuestionStream(
 		},
 		body: JSON.stringify({
 			question: options.question,
+			messages: options.messages,
 			resources: options.resources,
-			quiet: options.quiet
+			quiet: options.quiet,
+			profile: options.profile
 		}),
 		signal: options.signal
 	});
@@ -187,8 +193,14 @@ export interface GitResourceInput {
 	name: string;
 	url: string;
 	branch?: string;
+	ref?: string;
+	auth?: string;
 	searchPath?: string;
 	searchPaths?: string[];
+	include?: string[];
+	exclude?: string[];
+	submodules?: boolean;
+	lfs?: boolean;
 	specialNotes?: string;
 }
 
@@ -196,10 +208,46 @@ export interface LocalResourceInput {
 	type: 'local';
 	name: string;
 	path: string;
+	include?: string[];
+	exclude?: string[];
+	specialNotes?: string;
+}
+
+export interface NpmResourceInput {
+	type: 'npm';
+	name: string;
+	package: string;
+	version?: string;
+	registry?: string;
+	tarball?: string;
+	searchPaths?: string[];
+	specialNotes?: string;
+}
+
+export interface ArchiveResourceInput {
+	type: 'archive';
+	name: string;
+	source: string;
+	searchPaths?: string[];
 	specialNotes?: string;
 }
 
-export type ResourceInput = GitResourceInput | LocalResourceInput;
+export interface WebResourceInput {
+	type: 'web';
+	name: string;
+	url: string;
+	maxPages?: number;
+	maxDepth?: number;
+	searchPaths?: string[];
+	specialNotes?: string;
+}
+
+export type ResourceInput =
+	| GitResourceInput
+	| LocalResourceInput
+	| NpmResourceInput
+	| ArchiveResourceInput
+	| WebResourceInput;
 
 /**
  * Add a new resource
@@ -240,11 +288,38 @@ export async function removeResource(baseUrl: string, name: string): Promise<voi
 	}
 }
 
+/**
+ * Replace the include/exclude globs of a git or local resource. Omitted lists are kept;
+ * empty lists are removed.
+ */
+export async function updateResourceFilters(
+	baseUrl: string,
+	name: string,
+	filters: { include?: string[]; exclude?: string[] }
+): Promise<ResourceInput> {
+	const res = await fetch(`${baseUrl}/config/resources/${encodeURIComponent(name)}/filters`, {
+		method: 'PUT',
+		headers: {
+			'Content-Type': 'application/json'
+		},
+		body: JSON.stringify(filters)
+	});
+
+	if (!res.ok) {
+		throw await parseErrorResponse(res, `Failed to update resource filters: ${res.status}`);
+	}
+
+	return res.json() as Promise<ResourceInput>;
+}
+
 /**
  * Clear all locally cloned resources
  */
-export async function clearResources(baseUrl: string): Promise<{ cleared: number }> {
-	const res = await fetch(`${baseUrl}/clear`, {
+export async function clearResources(
+	baseUrl: string,
+	options: { all?: boolean } = {}
+): Promise<{ cleared: number }> {
+	const res = await fetch(`${baseUrl}/clear${options.all ? '?all=true' : ''}`, {
 		method: 'POST',
 		headers: {
 			'Content-Type': 'application/json'
@@ -257,3 +332,121 @@ export async function clearResources(baseUrl: string): Promise<{ cleared: number
 
 	return res.json() as Promise<{ cleared: number }>;
 }
+
+export interface ResourceRefreshResult {
+	name: string;
+	type: 'git' | 'local' | 'npm' | 'archive' | 'web';
+	/** Commit (git), "package@version" (npm), or content hash (archive, web) before and after */
+	previous: string | null;
+	current: string | null;
+	updated: boolean;
+}
+
+/**
+ * Fetch a resource from its remote now, ignoring its refresh policy. With `policy`, only
+ * fetch when the policy says it is due, the way asking a question would.
+ */
+export async function refreshResource(
+	baseUrl: string,
+	name: string,
+	options: { policy?: boolean } = {}
+): Promise<ResourceRefreshResult> {
+	const query = options.policy ? '?policy=true' : '';
+	const res = await fetch(`${baseUrl}/resources/${encodeURIComponent(name)}/refresh${query}`, {
+		method: 'POST'
+	});
+
+	if (!res.ok) {
+		throw await parseErrorResponse(res, `Failed to refresh resource: ${res.status}`);
+	}
+
+	return res.json() as Promise<ResourceRefreshResult>;
+}
+
+export interface ResourceHealthIssue {
+	level: 'error' | 'warning';
+	message: string;
+	hint?: string;
+}
+
+export interface ResourceHealth {
+	name: string;
+	type: 'git' | 'local' | 'npm' | 'archive' | 'web';
+	status: 'ok' | 'warning' | 'error';
+	path: string | null;
+	downloaded: boolean;
+	/** Branch or ref, version selector, archive source, or URL from the config */
+	expected: string | null;
+	/** Commit, "package@version", or content hash on disk */
+	current: string | null;
+	sizeBytes: number | null;
+	lastFetchedAt: string | null;
+	issues: ResourceHealthIssue[];
+}
+
+/**
+ * Check configured resources on disk. `remote: false` skips asking git remotes.
+ */
+export async function getResourceHealth(
+	baseUrl: string,
+	options: { names?: string[]; remote?: boolean } = {}
+): Promise<{ ok: boolean; resources: ResourceHealth[] }> {
+	const params = new URLSearchParams();
+	for (const name of options.names ?? []) params.append('name', name);
+	if (options.remote === false) params.set('remote', 'false');
+	const query = params.size > 0 ? `?${params}` : '';
+	const res = await fetch(`${baseUrl}/resources/health${query}`);
+
+	if (!res.ok) {
+		throw await parseErrorResponse(res, `Failed to check resources: ${res.status}`);
+	}
+
+	return res.json() as Promise<{ ok: boolean; resources: ResourceHealth[] }>;
+}
+
+/**
+ * Cancel an in-flight streamed question. Returns false if it had already finished.
+ */
+export async function cancelQuestion(baseUrl: string, questionId: string): Promise<boolean> {
+	const res = await fetch(`${baseUrl}/question/${encodeURIComponent(questionId)}`, {
+		method: 'DELETE'
+	});
+
+	if (res.status === 404) return false;
+	if (!res.ok) {
+		throw await parseErrorResponse(res, `Failed to cancel question: ${res.status}`);
+	}
+
+	return true;
+}
+
+/**
+ * List saved question transcripts, newest first
+ */
+export async function listTranscripts(
+	baseUrl: string,
+	options: { limit?: number } = {}
+): Promise<{ transcripts: TranscriptSummary[]; enabled: boolean }> {
+	const query = options.limit ? `?limit=${options.limit}` : '';
+	const res = await fetch(`${baseUrl}/transcripts${query}`);
+
+	if (!res.ok) {
+		throw await parseErrorResponse(res, `Failed to list transcripts: ${res.status}`);
+	}
+
+	return res.json() as Promise<{ transcripts: TranscriptSummary[]; enabled: boolean }>;
+}
+
+/**
+ * Get a saved question transcript. Returns null if it does not exist.
+ */
+export async function getTranscript(baseUrl: string, id: string): Promise<Transcript | null> {
+	const res = await fetch(`${baseUrl}/transcripts/${encodeURIComponent(id)}`);
+
+	if (res.status === 404) return null;
+	if (!res.ok) {
+		throw await parseErrorResponse(res, `Failed to get transcript: ${res.status}`);
+	}
+
+	return res.json() as Promise<Transcript>;
+}
@@ -19,9 +19,12 @@ function parseGitHubUrl(url: string): GitHubUrlParts | null {
 	// - https://github.com/owner/repo
 	// - https://github.com/owner/repo.git
 	// - github.com/owner/repo
+	// - git@github.com:owner/repo.git and ssh://git@github.com/owner/repo (SSH)
 	const patterns = [
 		/^https?:\/\/github\.com\/([^/]+)\/([^/]+?)(\.git)?$/,
-		/^github\.com\/([^/]+)\/([^/]+?)(\.git)?$/
+		/^github\.com\/([^/]+)\/([^/]+?)(\.git)?$/,
+		/^git@github\.com:([^/]+)\/([^/]+?)(\.git)?$/,
+		/^ssh:\/\/git@github\.com\/([^/]+)\/([^/]+?)(\.git)?$/
 	];
 
 	for (const pattern of patterns) {
@@ -37,15 +40,74 @@ function parseGitHubUrl(url: string): GitHubUrlParts | null {
 	return null;
 }
 
+const isSshUrl = (url: string) => url.startsWith('git@') || url.startsWith('ssh://');
+
 /**
- * Normalize GitHub URL to standard format.
+ * Normalize GitHub URL to standard format. SSH URLs are kept as written.
  */
 function normalizeGitHubUrl(url: string): string {
+	if (isSshUrl(url)) return url;
 	const parts = parseGitHubUrl(url);
 	if (!parts) return url;
 	return `https://github.com/${parts.owner}/${parts.repo}`;
 }
 
+const ARCHIVE_EXTENSION_REGEX = /\.(zip|tar\.gz|tgz)$/i;
+
+const isRemoteArchive = (source: string) => /^https?:\/\//.test(source);
+
+/**
+ * Whether the argument names a .zip, .tar.gz, or .tgz file, by path or URL.
+ */
+function isArchiveSource(source: string): boolean {
+	const name = isRemoteArchive(source)
+		? Result.try(() => new URL(source).pathname).match({ ok: (p) => p, err: () => source })
+		: source;
+	return ARCHIVE_EXTENSION_REGEX.test(name);
+}
+
+/**
+ * Resolve local archive paths against the working directory; URLs are kept as-is.
+ */
+function resolveArchiveSource(source: string): string {
+	if (isRemoteArchive(source) || path.isAbsolute(source)) return source;
+	return path.resolve(process.cwd(), source);
+}
+
+const LLMS_INDEX_REGEX = /\/llms(-full)?\.txt$/i;
+
+/**
+ * Parse a positive whole number flag such as --max-pages.
+ */
+function parseCount(value: string | undefined, flag: string): number | undefined {
+	if (value === undefined) return undefined;
+	const count = Number(value);
+	if (!Number.isInteger(count) || count < 0) {
+		console.error(`Error: ${flag} must be a whole number`);
+		process.exit(1);
+	}
+	return count;
+}
+
+interface NpmPackageSpec {
+	packageName: string;
+	version?: string;
+}
+
+/**
+ * Parse an npm package spec such as "npm:@scope/pkg@^1.2.0" or "react@19".
+ */
+function parseNpmSpec(spec: string): NpmPackageSpec {
+	const withoutPrefix = spec.replace(/^npm:/, '');
+	// The version separator is the last "@" that is not the scope prefix
+	const versionIndex = withoutPrefix.lastIndexOf('@');
+	if (versionIndex <= 0) return { packageName: withoutPrefix };
+	return {
+		packageName: withoutPrefix.slice(0, versionIndex),
+		version: withoutPrefix.slice(versionIndex + 1) || undefined
+	};
+}
+
 /**
  * Format an error for display, including hint if available.
  */
@@ -146,12 +208,32 @@ async function promptSelect<T extends string>(
 	});
 }
 
+/**
+ * Print the --include/--exclude globs in a wizard summary.
+ */
+function printPathFilters(options: { include?: string[]; exclude?: string[] }) {
+	if (options.include?.length) {
+		console.log(`  Include: ${options.include.join(', ')}`);
+	}
+	if (options.exclude?.length) {
+		console.log(`  Exclude: ${options.exclude.join(', ')}`);
+	}
+}
+
 /**
  * Interactive wizard for adding a git resource.
  */
 async function addGitResourceWizard(
 	url: string,
-	options: { global?: boolean },
+	options: {
+		global?: boolean;
+		ref?: string;
+		auth?: string;
+		include?: string[];
+		exclude?: string[];
+		submodules?: boolean;
+		lfs?: boolean;
+	},
 	globalOpts: { server?: string; port?: number } | undefined
 ): Promise<void> {
 	const urlParts = parseGitHubUrl(url);
@@ -179,14 +261,22 @@ async function addGitResourceWizard(
 		// Step 3: Branch (default = main)
 		const branch = await promptInput(rl, 'Branch', 'main');
 
-		// Step 4: Search paths (optional, repeated)
+		// Step 4: Ref (optional tag or commit to pin to)
+		const ref = await promptInput(rl, 'Ref (tag or commit, optional)', options.ref);
+
+		// Step 5: Credential name for private repositories (HTTPS only; SSH uses your keys)
+		const auth = isSshUrl(finalUrl)
+			? ''
+			: await promptInput(rl, 'Auth credential (private repos, optional)', options.auth);
+
+		// Step 6: Search paths (optional, repeated)
 		const wantSearchPaths = await promptConfirm(
 			rl,
 			'Do you want to add search paths (subdirectories to focus on)?'
 		);
 		const searchPaths = wantSearchPaths ? await promptRepeated(rl, 'Search path') : [];
 
-		// Step 5: Notes (optional)
+		// Step 7: Notes (optional)
 		const notes = await promptInput(rl, 'Notes (optional)');
 
 		rl.close();
@@ -197,9 +287,22 @@ async function addGitResourceWizard(
 		console.log(`  Name:    ${name}`);
 		console.log(`  URL:     ${finalUrl}`);
 		console.log(`  Branch:  ${branch}`);
+		if (ref) {
+			console.log(`  Ref:     ${ref}`);
+		}
+		if (auth) {
+			console.log(`  Auth:    ${auth}`);
+		}
+		printPathFilters(options);
 		if (searchPaths.length > 0) {
 			console.log(`  Search:  ${searchPaths.join(', ')}`);
 		}
+		if (options.submodules) {
+			console.log(`  Submodules: yes`);
+		}
+		if (options.lfs) {
+			console.log(`  LFS:     yes`);
+		}
 		if (notes) {
 			console.log(`  Notes:   ${notes}`);
 		}
@@ -228,8 +331,14 @@ async function addGitResourceWizard(
 			name,
 			url: finalUrl,
 			branch,
+			...(ref && { ref }),
+			...(auth && { auth }),
 			...(searchPaths.length === 1 && { searchPath: searchPaths[0] }),
 			...(searchPaths.length > 1 && { searchPaths }),
+			...(options.include?.length && { include: options.include }),
+			...(options.exclude?.length && { exclude: options.exclude }),
+			...(options.submodules && { submodules: true }),
+			...(options.lfs && { lfs: true }),
 			...(notes && { specialNotes: notes })
 		});
 
@@ -255,7 +364,7 @@ async function addGitResourceWizard(
  */
 async function addLocalResourceWizard(
 	localPath: string,
-	options: { global?: boolean },
+	options: { global?: boolean; include?: string[]; exclude?: string[] },
 	globalOpts: { server?: string; port?: number } | undefined
 ): Promise<void> {
 	// Resolve the path
@@ -286,6 +395,7 @@ async function addLocalResourceWizard(
 		console.log(`  Type:    local`);
 		console.log(`  Name:    ${name}`);
 		console.log(`  Path:    ${finalPath}`);
+		printPathFilters(options);
 		if (notes) {
 			console.log(`  Notes:   ${notes}`);
 		}
@@ -313,6 +423,283 @@ async function addLocalResourceWizard(
 			type: 'local',
 			name,
 			path: finalPath,
+			...(options.include?.length && { include: options.include }),
+			...(options.exclude?.length && { exclude: options.exclude }),
+			...(notes && { specialNotes: notes })
+		});
+
+		server.stop();
+
+		console.log(`\nAdded resource: ${name}`);
+		console.log('\nYou can now use this resource:');
+		console.log(`  btca ask -r ${name} -q "your question"`);
+	});
+
+	rl.close();
+
+	if (Result.isError(result)) {
+		throw result.error;
+	}
+}
+
+/**
+ * Interactive wizard for adding an archive (.zip/.tar.gz) resource.
+ */
+async function addArchiveResourceWizard(
+	source: string,
+	options: { global?: boolean },
+	globalOpts: { server?: string; port?: number } | undefined
+): Promise<void> {
+	const resolvedSource = resolveArchiveSource(source);
+
+	console.log('\n--- Add Archive Resource ---\n');
+	console.log(`Archive: ${resolvedSource}`);
+
+	const rl = createRl();
+
+	const result = await Result.tryPromise(async () => {
+		// Step 1: Source (prefilled, confirm)
+		const finalSource = await promptInput(rl, 'Source', resolvedSource);
+
+		// Step 2: Name (default = file name without the extension)
+		const defaultName = path.basename(finalSource).replace(ARCHIVE_EXTENSION_REGEX, '');
+		const name = await promptInput(rl, 'Name', defaultName);
+
+		// Step 3: Search paths (optional, repeated)
+		const wantSearchPaths = await promptConfirm(
+			rl,
+			'Do you want to add search paths (subdirectories to focus on)?'
+		);
+		const searchPaths = wantSearchPaths ? await promptRepeated(rl, 'Search path') : [];
+
+		// Step 4: Notes (optional)
+		const notes = await promptInput(rl, 'Notes (optional)');
+
+		rl.close();
+
+		// Summary
+		console.log('\n--- Summary ---\n');
+		console.log(`  Type:    archive`);
+		console.log(`  Name:    ${name}`);
+		console.log(`  Source:  ${finalSource}`);
+		if (searchPaths.length > 0) {
+			console.log(`  Search:  ${searchPaths.join(', ')}`);
+		}
+		if (notes) {
+			console.log(`  Notes:   ${notes}`);
+		}
+		console.log(`  Config:  ${options.global ? 'global' : 'project'}`);
+		console.log('');
+
+		// Confirm
+		const confirmRl = createRl();
+		const confirmed = await promptConfirm(confirmRl, 'Add this resource?');
+		confirmRl.close();
+
+		if (!confirmed) {
+			console.log('\nCancelled.');
+			process.exit(0);
+		}
+
+		// Add the resource via server
+		const server = await ensureServer({
+			serverUrl: globalOpts?.server,
+			port: globalOpts?.port,
+			quiet: true
+		});
+
+		await addResource(server.url, {
+			type: 'archive',
+			name,
+			source: finalSource,
+			...(searchPaths.length > 0 && { searchPaths }),
+			...(notes && { specialNotes: notes })
+		});
+
+		server.stop();
+
+		console.log(`\nAdded resource: ${name}`);
+		console.log('\nYou can now use this resource:');
+		console.log(`  btca ask -r ${name} -q "your question"`);
+	});
+
+	rl.close();
+
+	if (Result.isError(result)) {
+		throw result.error;
+	}
+}
+
+/**
+ * Interactive wizard for adding a website (crawled documentation) resource.
+ */
+async function addWebResourceWizard(
+	url: string,
+	options: { global?: boolean; maxPages?: string; maxDepth?: string },
+	globalOpts: { server?: string; port?: number } | undefined
+): Promise<void> {
+	console.log('\n--- Add Website Resource ---\n');
+	console.log(`URL: ${url}`);
+
+	const rl = createRl();
+
+	const result = await Result.tryPromise(async () => {
+		// Step 1: URL (prefilled, confirm)
+		const finalUrl = await promptInput(rl, 'URL', url);
+
+		// Step 2: Name (default = first part of the host name, e.g. "svelte" for svelte.dev)
+		const hostname = Result.try(() => new URL(finalUrl).hostname).match({
+			ok: (host) => host,
+			err: () => ''
+		});
+		const defaultName = hostname.replace(/^(www|docs)\./, '').split('.')[0] ?? '';
+		const name = await promptInput(rl, 'Name', defaultName || undefined);
+
+		// Step 3: Crawl limits
+		const maxPages = parseCount(
+			await promptInput(rl, 'Max pages', options.maxPages ?? '200'),
+			'Max pages'
+		);
+		const maxDepth = parseCount(
+			await promptInput(rl, 'Max link depth', options.maxDepth ?? '3'),
+			'Max link depth'
+		);
+
+		// Step 4: Notes (optional)
+		const notes = await promptInput(rl, 'Notes (optional)');
+
+		rl.close();
+
+		// Summary
+		console.log('\n--- Summary ---\n');
+		console.log(`  Type:    web`);
+		console.log(`  Name:    ${name}`);
+		console.log(`  URL:     ${finalUrl}`);
+		console.log(`  Limits:  ${maxPages} pages, depth ${maxDepth}`);
+		if (notes) {
+			console.log(`  Notes:   ${notes}`);
+		}
+		console.log(`  Config:  ${options.global ? 'global' : 'project'}`);
+		console.log('');
+
+		// Confirm
+		const confirmRl = createRl();
+		const confirmed = await promptConfirm(confirmRl, 'Add this resource?');
+		confirmRl.close();
+
+		if (!confirmed) {
+			console.log('\nCancelled.');
+			process.exit(0);
+		}
+
+		// Add the resource via server
+		const server = await ensureServer({
+			serverUrl: globalOpts?.server,
+			port: globalOpts?.port,
+			quiet: true
+		});
+
+		await addResource(server.url, {
+			type: 'web',
+			name,
+			url: finalUrl,
+			...(maxPages !== undefined && { maxPages }),
+			...(maxDepth !== undefined && { maxDepth }),
+			...(notes && { specialNotes: notes })
+		});
+
+		server.stop();
+
+		console.log(`\nAdded resource: ${name}`);
+		console.log('\nThe site is crawled the first time you ask about it:');
+		console.log(`  btca ask -r ${name} -q "your question"`);
+	});
+
+	rl.close();
+
+	if (Result.isError(result)) {
+		throw result.error;
+	}
+}
+
+/**
+ * Interactive wizard for adding an npm package resource.
+ */
+async function addNpmResourceWizard(
+	spec: string,
+	options: { global?: boolean; registry?: string; tarball?: string },
+	globalOpts: { server?: string; port?: number } | undefined
+): Promise<void> {
+	const parsed = parseNpmSpec(spec);
+	const tarball = options.tarball
+		? path.isAbsolute(options.tarball)
+			? options.tarball
+			: path.resolve(process.cwd(), options.tarball)
+		: undefined;
+
+	console.log('\n--- Add npm Package Resource ---\n');
+	console.log(`Package: ${parsed.packageName}`);
+
+	const rl = createRl();
+
+	const result = await Result.tryPromise(async () => {
+		// Step 1: Package (prefilled, confirm)
+		const packageName = await promptInput(rl, 'Package', parsed.packageName);
+
+		// Step 2: Version (exact version, semver range, or dist-tag)
+		const version = await promptInput(rl, 'Version', parsed.version ?? 'latest');
+
+		// Step 3: Name (default = package name without scope)
+		const defaultName = packageName.split('/').pop() ?? packageName;
+		const name = await promptInput(rl, 'Name', defaultName);
+
+		// Step 4: Notes (optional)
+		const notes = await promptInput(rl, 'Notes (optional)');
+
+		rl.close();
+
+		// Summary
+		console.log('\n--- Summary ---\n');
+		console.log(`  Type:     npm`);
+		console.log(`  Name:     ${name}`);
+		console.log(`  Package:  ${packageName}`);
+		console.log(`  Version:  ${version}`);
+		if (options.registry) {
+			console.log(`  Registry: ${options.registry}`);
+		}
+		if (tarball) {
+			console.log(`  Tarball:  ${tarball}`);
+		}
+		if (notes) {
+			console.log(`  Notes:    ${notes}`);
+		}
+		console.log(`  Config:   ${options.global ? 'global' : 'project'}`);
+		console.log('');
+
+		// Confirm
+		const confirmRl = createRl();
+		const confirmed = await promptConfirm(confirmRl, 'Add this resource?');
+		confirmRl.close();
+
+		if (!confirmed) {
+			console.log('\nCancelled.');
+			process.exit(0);
+		}
+
+		// Add the resource via server
+		const server = await ensureServer({
+			serverUrl: globalOpts?.server,
+			port: globalOpts?.port,
+			quiet: true
+		});
+
+		await addResource(server.url, {
+			type: 'npm',
+			name,
+			package: packageName,
+			version,
+			...(options.registry && { registry: options.registry }),
+			...(tarball && { tarball }),
 			...(notes && { specialNotes: notes })
 		});
 
@@ -331,14 +718,30 @@ async function addLocalResourceWizard(
 }
 
 export const addCommand = new Command('add')
-	.description('Add a resource (git repository or local directory)')
-	.argument('[url-or-path]', 'GitHub repository URL or local directory path')
+	.description('Add a resource (git repository, local directory, npm package, archive, or website)')
+	.argument(
+		'[url-or-path]',
+		'GitHub repository URL, local directory path, npm package (npm:<package>[@<version>]), .zip/.tar.gz archive, or docs website URL'
+	)
 	.option('-g, --global', 'Add to global config instead of project config')
 	.option('-n, --name <name>', 'Resource name')
 	.option('-b, --branch <branch>', 'Git branch (default: main)')
+	.option('--ref <ref>', 'Git tag or commit SHA to pin the resource to')
+	.option('--auth <credential>', 'Named credential for a private HTTPS git repository')
 	.option('-s, --search-path <path...>', 'Search paths within repo (can specify multiple)')
+	.option('--include <glob...>', 'Only import files matching these globs (git and local resources)')
+	.option('--exclude <glob...>', 'Skip files matching these globs (git and local resources)')
+	.option('--submodules', 'Check out git submodules')
+	.option('--lfs', 'Download Git LFS files (requires git-lfs)')
 	.option('--notes <notes>', 'Special notes for the agent')
-	.option('-t, --type <type>', 'Resource type: git or local (auto-detected if not specified)')
+	.option('--registry <url>', 'npm registry URL (default: https://registry.npmjs.org)')
+	.option('--tarball <path>', 'Local npm tarball or directory of tarballs (works offline)')
+	.option('--max-pages <n>', 'Maximum pages to crawl (web resources, default: 200)')
+	.option('--max-depth <n>', 'Maximum link depth to crawl (web resources, default: 3)')
+	.option(
+		'-t, --type <type>',
+		'Resource type: git, local, npm, archive, or web (auto-detected if not specified)'
+	)
 	.action(
 		async (
 			urlOrPath: string | undefined,
@@ -346,8 +749,18 @@ export const addCommand = new Command('add')
 				global?: boolean;
 				name?: string;
 				branch?: string;
+				ref?: string;
+				auth?: string;
 				searchPath?: string[];
+				include?: string[];
+				exclude?: string[];
+				submodules?: boolean;
+				lfs?: boolean;
 				notes?: string;
+				registry?: string;
+				tarball?: string;
+				maxPages?: string;
+				maxDepth?: string;
 				type?: string;
 			},
 			command
@@ -357,11 +770,14 @@ export const addCommand = new Command('add')
 			const result = await Result.tryPromise(async () => {
 				// If no argument provided, start interactive wizard
 				if (!urlOrPath) {
-					const resourceType = await promptSelect<'git' | 'local'>(
+					const resourceType = await promptSelect<'git' | 'local' | 'npm' | 'archive' | 'web'>(
 						'What type of resource do you want to add?',
 						[
 							{ label: 'Git repository', value: 'git' },
-							{ label: 'Local directory', value: 'local' }
+							{ label: 'Local directory', value: 'local' },
+							{ label: 'npm package', value: 'npm' },
+							{ label: 'Archive (.zip, .tar.gz)', value: 'archive' },
+							{ label: 'Documentation website (or llms.txt)', value: 'web' }
 						]
 					);
 
@@ -374,6 +790,30 @@ export const addCommand = new Command('add')
 							process.exit(1);
 						}
 						await addGitResourceWizard(url, options, globalOpts);
+					} else if (resourceType === 'npm') {
+						const spec = await promptInput(rl, 'Package');
+						rl.close();
+						if (!spec) {
+							console.error('Error: Package name is required.');
+							process.exit(1);
+						}
+						await addNpmResourceWizard(spec, options, globalOpts);
+					} else if (resourceType === 'archive') {
+						const source = await promptInput(rl, 'Archive path or URL');
+						rl.close();
+						if (!source) {
+							console.error('Error: Archive path or URL is required.');
+							process.exit(1);
+						}
+						await addArchiveResourceWizard(source, options, globalOpts);
+					} else if (resourceType === 'web') {
+						const url = await promptInput(rl, 'Website URL');
+						rl.close();
+						if (!url) {
+							console.error('Error: URL is required.');
+							process.exit(1);
+						}
+						await addWebResourceWizard(url, options, globalOpts);
 					} else {
 						const localPath = await promptInput(rl, 'Local path');
 						rl.close();
@@ -387,17 +827,24 @@ export const addCommand = new Command('add')
 				}
 
 				// Determine type from argument or explicit flag
-				let resourceType: 'git' | 'local' = 'git';
+				let resourceType: 'git' | 'local' | 'npm' | 'archive' | 'web' = 'git';
 
 				if (options.type) {
-					if (options.type !== 'git' && options.type !== 'local') {
-						console.error('Error: --type must be "git" or "local"');
+					if (!['git', 'local', 'npm', 'archive', 'web'].includes(options.type)) {
+						console.error('Error: --type must be "git", "local", "npm", "archive", or "web"');
 						process.exit(1);
 					}
-					resourceType = options.type as 'git' | 'local';
+					resourceType = options.type as 'git' | 'local' | 'npm' | 'archive' | 'web';
+				} else if (urlOrPath.startsWith('npm:')) {
+					resourceType = 'npm';
+				} else if (isArchiveSource(urlOrPath)) {
+					resourceType = 'archive';
+				} else if (LLMS_INDEX_REGEX.test(urlOrPath)) {
+					resourceType = 'web';
 				} else {
 					// Auto-detect: if it looks like a URL, it's git; otherwise local
 					const isUrl =
+						isSshUrl(urlOrPath) ||
 						urlOrPath.startsWith('http://') ||
 						urlOrPath.startsWith('https://') ||
 						urlOrPath.startsWith('github.com/') ||
@@ -421,8 +868,14 @@ export const addCommand = new Command('add')
 						name: options.name,
 						url: normalizedUrl,
 						branch: options.branch ?? 'main',
+						...(options.ref && { ref: options.ref }),
+						...(options.auth && { auth: options.auth }),
 						...(searchPaths.length === 1 && { searchPath: searchPaths[0] }),
 						...(searchPaths.length > 1 && { searchPaths }),
+						...(options.include?.length && { include: options.include }),
+						...(options.exclude?.length && { exclude: options.exclude }),
+						...(options.submodules && { submodules: true }),
+						...(options.lfs && { lfs: true }),
 						...(options.notes && { specialNotes: options.notes })
 					});
 
@@ -450,6 +903,8 @@ export const addCommand = new Command('add')
 						type: 'local',
 						name: options.name,
 						path: resolvedPath,
+						...(options.include?.length && { include: options.include }),
+						...(options.exclude?.length && { exclude: options.exclude }),
 						...(options.notes && { specialNotes: options.notes })
 					});
 
@@ -458,8 +913,95 @@ export const addCommand = new Command('add')
 					return;
 				}
 
+				if (options.name && resourceType === 'npm') {
+					// Non-interactive npm add
+					const { packageName, version } = parseNpmSpec(urlOrPath);
+					const tarball = options.tarball
+						? path.isAbsolute(options.tarball)
+							? options.tarball
+							: path.resolve(process.cwd(), options.tarball)
+						: undefined;
+					const server = await ensureServer({
+						serverUrl: globalOpts?.server,
+						port: globalOpts?.port,
+						quiet: true
+					});
+
+					const searchPaths = options.searchPath ?? [];
+					const resource = await addResource(server.url, {
+						type: 'npm',
+						name: options.name,
+						package: packageName,
+						...(version && { version }),
+						...(options.registry && { registry: options.registry }),
+						...(tarball && { tarball }),
+						...(searchPaths.length > 0 && { searchPaths }),
+						...(options.notes && { specialNotes: options.notes })
+					});
+
+					server.stop();
+					const addedVersion = resource.type === 'npm' ? resource.version : version;
+					console.log(`Added npm resource: ${options.name} (${packageName}@${addedVersion})`);
+					return;
+				}
+
+				if (options.name && resourceType === 'archive') {
+					// Non-interactive archive add
+					const source = resolveArchiveSource(urlOrPath);
+					const server = await ensureServer({
+						serverUrl: globalOpts?.server,
+						port: globalOpts?.port,
+						quiet: true
+					});
+
+					const searchPaths = options.searchPath ?? [];
+					await addResource(server.url, {
+						type: 'archive',
+						name: options.name,
+						source,
+						...(searchPaths.length > 0 && { searchPaths }),
+						...(options.notes && { specialNotes: options.notes })
+					});
+
+					server.stop();
+					console.log(`Added archive resource: ${options.name}`);
+					return;
+				}
+
+				if (options.name && resourceType === 'web') {
+					// Non-interactive web add
+					const maxPages = parseCount(options.maxPages, '--max-pages');
+					const maxDepth = parseCount(options.maxDepth, '--max-depth');
+					const server = await ensureServer({
+						serverUrl: globalOpts?.server,
+						port: globalOpts?.port,
+						quiet: true
+					});
+
+					const searchPaths = options.searchPath ?? [];
+					await addResource(server.url, {
+						type: 'web',
+						name: options.name,
+						url: urlOrPath,
+						...(maxPages !== undefined && { maxPages }),
+						...(maxDepth !== undefined && { maxDepth }),
+						...(searchPaths.length > 0 && { searchPaths }),
+						...(options.notes && { specialNotes: options.notes })
+					});
+
+					server.stop();
+					console.log(`Added web resource: ${options.name}`);
+					return;
+				}
+
 				// Interactive wizard based on type
-				if (resourceType === 'git') {
+				if (resourceType === 'web') {
+					await addWebResourceWizard(urlOrPath, options, globalOpts);
+				} else if (resourceType === 'archive') {
+					await addArchiveResourceWizard(urlOrPath, options, globalOpts);
+				} else if (resourceType === 'npm') {
+					await addNpmResourceWizard(urlOrPath, options, globalOpts);
+				} else if (resourceType === 'git') {
 					await addGitResourceWizard(urlOrPath, options, globalOpts);
 				} else {
 					await addLocalResourceWizard(urlOrPath, options, globalOpts);
@@ -0,0 +1,208 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { Result } from 'better-result';
+import {
+	createClient,
+	getConfig,
+	getResources,
+	refreshResource,
+	BtcaError
+} from '../client/index.ts';
+import { EXIT_CODES, getExitCode, type ExitCode } from '../lib/exit-codes.ts';
+import {
+	askForJsonResult,
+	formatCitation,
+	mapWithConcurrency,
+	parseQuestionEntry,
+	readQuestionFile,
+	resolveQuestionEntry,
+	toAskError,
+	type AskError,
+	type AskJsonResult,
+	type QuestionEntry
+} from '../lib/ask.ts';
+import { dim, green, red, yellow } from '../lib/utils/colors.ts';
+
+interface BatchJob extends QuestionEntry {
+	resourceNames: string[];
+	cleanedQuestion: string;
+}
+
+/**
+ * The `<id>.json` file written next to each markdown answer. The question, resources,
+ * model, profile, and commits decide whether the next run can skip the entry.
+ */
+interface SavedAnswer extends AskJsonResult {
+	id: string;
+	question: string;
+	profile: string | null;
+	answeredAt: string;
+}
+
+type BatchOutcome =
+	{ status: 'answered' | 'skipped' } | { status: 'failed'; error: AskError; exitCode: ExitCode };
+
+const sameList = (a: readonly string[], b: readonly string[]) =>
+	[...a].sort().join('\0') === [...b].sort().join('\0');
+
+/**
+ * Whether the saved answer was produced for the same question, resources, model, and
+ * profile, against the commits a question would be answered against now. Answers from
+ * resources without a commit (local folders) are never reused.
+ */
+function isStillValid(
+	saved: SavedAnswer,
+	job: BatchJob,
+	model: { provider: string; model: string },
+	profile: string | null,
+	revisions: Map<string, string | null>
+): boolean {
+	if (!saved.ok || !saved.commits || !saved.model) return false;
+	if (saved.question !== job.question || saved.profile !== profile) return false;
+	if (saved.model.provider !== model.provider || saved.model.model !== model.model) return false;
+	if (!sameList(saved.resources, job.resourceNames)) return false;
+	const commits = saved.commits;
+	return job.resourceNames.every((name) => {
+		const current = revisions.get(name);
+		return !!current && commits[name] === current;
+	});
+}
+
+/**
+ * Render a saved answer as markdown.
+ */
+function renderAnswer(saved: SavedAnswer): string {
+	const lines: string[] = [];
+	const resources = saved.resources.map((name) => {
+		const commit = saved.commits?.[name];
+		return commit ? `${name} (${commit.slice(0, 12)})` : name;
+	});
+
+	lines.push(`# ${saved.question}\n`);
+	if (saved.model) lines.push(`Model: ${saved.model.provider}/${saved.model.model}`);
+	lines.push(`Resources: ${resources.join(', ')}`);
+	lines.push(`Answered: ${saved.answeredAt}\n`);
+	lines.push(saved.answer);
+
+	const sources = saved.citations.filter((citation) => citation.source === 'answer');
+	if (sources.length > 0) {
+		lines.push('\n## Sources\n');
+		for (const citation of sources) lines.push(`- ${formatCitation(citation)}`);
+	}
+
+	return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Answer every question in a batch file against one server and write `<id>.md` and
+ * `<id>.json` for each into the output directory. Returns the exit code: the code of the
+ * first failed entry, or 0 when every entry was answered or skipped.
+ */
+export async function runAskBatch(args: {
+	serverUrl: string;
+	file: string;
+	outputDir: string;
+	concurrency: number;
+	force: boolean;
+	profile?: string;
+}): Promise<ExitCode> {
+	const entries = await readQuestionFile(args.file, parseQuestionEntry);
+
+	const client = createClient(args.serverUrl);
+	const [{ resources: available }, config] = await Promise.all([
+		getResources(client),
+		getConfig(client)
+	]);
+	if (available.length === 0) {
+		throw new BtcaError('No resources configured.', {
+			tag: 'ConfigError',
+			hint: 'Add resources to your btca config file.'
+		});
+	}
+	const model = { provider: config.provider, model: config.model };
+	const profile = args.profile ?? null;
+
+	// Resolve every entry up front so a typo fails before any question is asked
+	const jobs = entries.map((entry): BatchJob => ({
+		...entry,
+		...resolveQuestionEntry(entry, available)
+	}));
+
+	// Commits the questions would be answered against: each resource is fetched first when
+	// its refresh policy says so. A resource that fails to resolve is answered again.
+	const revisions = new Map<string, string | null>();
+	if (!args.force) {
+		const names = [...new Set(jobs.flatMap((job) => job.resourceNames))];
+		await mapWithConcurrency(names, args.concurrency, async (name) => {
+			const refreshed = await Result.tryPromise(() =>
+				refreshResource(args.serverUrl, name, { policy: true })
+			);
+			revisions.set(name, refreshed.isOk() ? refreshed.value.current : null);
+		});
+	}
+
+	await fs.mkdir(args.outputDir, { recursive: true });
+
+	const answerJob = async (job: BatchJob): Promise<BatchOutcome> => {
+		const jsonPath = path.join(args.outputDir, `${job.id}.json`);
+
+		if (!args.force) {
+			const saved = await Result.tryPromise(
+				async () => (await Bun.file(jsonPath).json()) as SavedAnswer
+			);
+			if (saved.isOk() && isStillValid(saved.value, job, model, profile, revisions)) {
+				console.log(`${dim('skipped')}   ${job.id} ${dim('(answer is up to date)')}`);
+				return { status: 'skipped' };
+			}
+		}
+
+		const startedAt = Date.now();
+		const answered = await Result.tryPromise(() =>
+			askForJsonResult(args.serverUrl, {
+				question: job.cleanedQuestion,
+				resources: job.resourceNames,
+				profile: args.profile
+			})
+		);
+
+		const fail = (error: AskError, exitCode: ExitCode): BatchOutcome => {
+			console.log(`${red('failed')}    ${job.id} ${dim(`[${error.tag}] ${error.message}`)}`);
+			return { status: 'failed', error, exitCode };
+		};
+		if (answered.isErr()) {
+			const error = toAskError(answered.error.cause);
+			return fail(error, getExitCode(error.tag));
+		}
+		const streamError = answered.value.error;
+		if (streamError) return fail(streamError, getExitCode(streamError.tag, { inStream: true }));
+		if (!answered.value.ok) {
+			return fail({ tag: 'Canceled', message: 'The answer was canceled' }, EXIT_CODES.unknown);
+		}
+
+		// A failed run keeps the previous answer files, so only successes are written
+		const saved: SavedAnswer = {
+			id: job.id,
+			question: job.question,
+			profile,
+			answeredAt: new Date().toISOString(),
+			...answered.value
+		};
+		await Bun.write(jsonPath, JSON.stringify(saved, null, 2));
+		await Bun.write(path.join(args.outputDir, `${job.id}.md`), renderAnswer(saved));
+
+		const seconds = ((Date.now() - startedAt) / 1000).toFixed(1);
+		console.log(`${green('answered')}  ${job.id} ${dim(`(${seconds}s)`)}`);
+		return { status: 'answered' };
+	};
+
+	const outcomes = await mapWithConcurrency(jobs, args.concurrency, answerJob);
+
+	const count = (status: BatchOutcome['status']) =>
+		outcomes.filter((outcome) => outcome.status === status).length;
+	const failed = count('failed');
+	const summary = `${count('answered')} answered, ${count('skipped')} skipped, ${failed} failed`;
+	console.log(`\n${failed > 0 ? yellow(summary) : summary}. Answers are in ${args.outputDir}`);
+
+	const firstFailure = outcomes.find((outcome) => outcome.status === 'failed');
+	return firstFailure?.status === 'failed' ? firstFailure.exitCode : EXIT_CODES.ok;
+}
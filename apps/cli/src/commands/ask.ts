@@ -1,9 +1,21 @@
 import { Result } from 'better-result';
-import { Command } from 'commander';
+import { Command, Option } from 'commander';
 import { ensureServer } from '../server/manager.ts';
 import { createClient, getResources, askQuestionStream, BtcaError } from '../client/index.ts';
 import { parseSSEStream } from '../client/stream.ts';
-import type { BtcaStreamEvent } from 'btca-server/stream/types';
+import { EXIT_CODES, getExitCode } from '../lib/exit-codes.ts';
+import {
+	cleanQueryOfValidResources,
+	collectJsonEvent,
+	createJsonResult,
+	extractMentions,
+	formatCitation,
+	mergeResources,
+	normalizeResourceNames,
+	type AskError
+} from '../lib/ask.ts';
+import { runAskBatch } from './ask-batch.ts';
+import type { BtcaCitation, BtcaStreamEvent } from 'btca-server/stream/types';
 
 /**
  * Format an error for display, including hint if available.
@@ -19,87 +31,50 @@ function formatError(error: unknown): string {
 	return `Error: ${error instanceof Error ? error.message : String(error)}`;
 }
 
-/**
- * Extract potential @mentions from query string (without modifying the query yet)
- */
-function extractMentions(query: string): string[] {
-	const mentionRegex = /(^|[^\w@])@([A-Za-z0-9._/-]+)/g;
-	const mentions: string[] = [];
-	let match;
-
-	while ((match = mentionRegex.exec(query)) !== null) {
-		if (match[2]) {
-			mentions.push(match[2]);
-		}
-	}
-
-	return mentions;
-}
-
-/**
- * Remove only the valid resource @mentions from the query, leaving others intact
- */
-function cleanQueryOfValidResources(query: string, validResources: string[]): string {
-	const validSet = new Set(validResources.map((r) => r.toLowerCase()));
-	return query
-		.replace(/(^|[^\w@])@([A-Za-z0-9._/-]+)/g, (match, prefix, mention) => {
-			return validSet.has(mention.toLowerCase()) ? prefix : match;
-		})
-		.replace(/\s+/g, ' ')
-		.trim();
-}
+type AskFormat = 'text' | 'json' | 'ndjson';
 
 /**
- * Merge CLI -r flags with @mentions, deduplicating
+ * Print an error that happened before the answer stream started and exit with its code.
  */
-function mergeResources(cliResources: string[], mentionedResources: string[]): string[] {
-	const all = [...cliResources, ...mentionedResources];
-	return [...new Set(all)];
-}
-
-type AvailableResource = { name: string };
-
-function resolveResourceName(input: string, available: AvailableResource[]): string | null {
-	const target = input.toLowerCase();
-	const direct = available.find((r) => r.name.toLowerCase() === target);
-	if (direct) return direct.name;
-
-	if (target.startsWith('@')) {
-		const withoutAt = target.slice(1);
-		const match = available.find((r) => r.name.toLowerCase() === withoutAt);
-		return match?.name ?? null;
+function exitWithError(format: AskFormat, error: AskError): never {
+	if (format === 'json') {
+		console.log(JSON.stringify({ ...createJsonResult([]), ok: false, error }, null, 2));
+	} else if (format === 'ndjson') {
+		console.log(JSON.stringify({ type: 'error', ...error }));
+	} else {
+		console.error(formatError(new BtcaError(error.message, { hint: error.hint })));
 	}
-
-	const withAt = `@${target}`;
-	const match = available.find((r) => r.name.toLowerCase() === withAt);
-	return match?.name ?? null;
-}
-
-function normalizeResourceNames(
-	inputs: string[],
-	available: AvailableResource[]
-): { names: string[]; invalid: string[] } {
-	const resolved: string[] = [];
-	const invalid: string[] = [];
-
-	for (const input of inputs) {
-		const resolvedName = resolveResourceName(input, available);
-		if (resolvedName) resolved.push(resolvedName);
-		else invalid.push(input);
-	}
-
-	return { names: [...new Set(resolved)], invalid };
+	process.exit(getExitCode(error.tag));
 }
 
 export const askCommand = new Command('ask')
 	.description('Ask a question about configured resources')
-	.requiredOption('-q, --question <text>', 'Question to ask')
+	.option('-q, --question <text>', 'Question to ask (required unless --file is given)')
 	.option('-r, --resource <name...>', 'Resources to search (can specify multiple)')
 	.option('--no-thinking', 'Hide reasoning output')
 	.option('--no-tools', 'Hide tool-call traces')
 	.option('--sub-agent', 'Emit clean output (no reasoning or tool traces)')
+	.option('--profile <name>', 'Agent profile preset (e.g. quick, deep)')
+	.addOption(
+		new Option(
+			'--format <format>',
+			'Output format: text, json (one final object), or ndjson (one stream event per line)'
+		)
+			.choices(['text', 'json', 'ndjson'])
+			.default('text')
+	)
+	.option('--file <path>', 'Answer every question in a .jsonl or .yaml file')
+	.option('-o, --output <dir>', 'Directory for --file answers', 'btca-answers')
+	.option(
+		'--concurrency <count>',
+		'Questions from --file to answer at once',
+		(value) => parseInt(value, 10),
+		2
+	)
+	.option('--force', 'With --file, answer again even if the saved answer is still valid')
 	.action(async (options, command) => {
 		const globalOpts = command.parent?.opts() as { server?: string; port?: number } | undefined;
+		const format = options.format as AskFormat;
 		const showThinking = options.subAgent ? false : (options.thinking ?? true);
 		const showTools = options.subAgent ? false : (options.tools ?? true);
 
@@ -112,6 +87,16 @@ export const askCommand = new Command('ask')
 			process.exit(1);
 		}
 
+		if (!options.question === !options.file) {
+			console.error('Error: Pass either -q/--question or --file.');
+			process.exit(1);
+		}
+		const concurrency = options.concurrency as number;
+		if (!Number.isInteger(concurrency) || concurrency < 1) {
+			console.error('Error: --concurrency must be a positive whole number.');
+			process.exit(1);
+		}
+
 		const result = await Result.tryPromise(async () => {
 			const server = await ensureServer({
 				serverUrl: globalOpts?.server,
@@ -119,13 +104,28 @@ export const askCommand = new Command('ask')
 				quiet: true
 			});
 
+			if (options.file) {
+				const exitCode = await runAskBatch({
+					serverUrl: server.url,
+					file: options.file as string,
+					outputDir: options.output as string,
+					concurrency,
+					force: options.force === true,
+					profile: options.profile as string | undefined
+				});
+				server.stop();
+				process.exit(exitCode);
+			}
+
 			const client = createClient(server.url);
 
 			const { resources } = await getResources(client);
 			if (resources.length === 0) {
-				console.error('Error: No resources configured.');
-				console.error('Add resources to your btca config file.');
-				process.exit(1);
+				exitWithError(format, {
+					tag: 'ConfigError',
+					message: 'No resources configured.',
+					hint: 'Add resources to your btca config file.'
+				});
 			}
 
 			const questionText = options.question as string;
@@ -141,20 +141,37 @@ export const askCommand = new Command('ask')
 
 			const cleanedQuery = cleanQueryOfValidResources(questionText, normalized.names);
 
-			console.log('loading resources...');
+			if (format === 'text') console.log('loading resources...');
 
 			// Stream the response
 			const response = await askQuestionStream(server.url, {
 				question: cleanedQuery,
 				resources: resourceNames,
-				quiet: true
+				quiet: true,
+				profile: options.profile as string | undefined
 			});
 
+			const jsonResult = createJsonResult(resourceNames);
+			let streamError: AskError | null = null;
+			let canceled = false;
 			let receivedMeta = false;
 			let inReasoning = false;
 			let hasText = false;
+			const citations: BtcaCitation[] = [];
 
 			for await (const event of parseSSEStream(response)) {
+				if (event.type === 'error') streamError = { tag: event.tag, message: event.message };
+				if (event.type === 'done') canceled = event.canceled ?? false;
+
+				if (format === 'ndjson') {
+					console.log(JSON.stringify(event));
+					continue;
+				}
+				if (format === 'json') {
+					collectJsonEvent(jsonResult, event);
+					continue;
+				}
+
 				handleStreamEvent(event, {
 					onMeta: () => {
 						if (!receivedMeta) {
@@ -189,24 +206,50 @@ export const askCommand = new Command('ask')
 						}
 						console.log(`[${tool}]`);
 					},
+					onCitation: (citation) => {
+						if (citation.source === 'answer') citations.push(citation);
+					},
 					onError: (message) => {
 						console.error(`\nError: ${message}`);
 					}
 				});
 			}
 
-			if (inReasoning) {
-				process.stdout.write('\n</thinking>\n');
+			if (format === 'json') {
+				jsonResult.ok = !streamError && !canceled;
+				console.log(JSON.stringify(jsonResult, null, 2));
+			}
+
+			if (format === 'text') {
+				if (inReasoning) {
+					process.stdout.write('\n</thinking>\n');
+				}
+
+				if (citations.length > 0) {
+					console.log('\n\nSources:');
+					for (const citation of citations) console.log(`- ${formatCitation(citation)}`);
+				}
+
+				console.log('\n');
 			}
 
-			console.log('\n');
 			server.stop();
-			process.exit(0);
+			process.exit(
+				streamError
+					? getExitCode(streamError.tag, { inStream: true })
+					: canceled
+						? EXIT_CODES.unknown
+						: EXIT_CODES.ok
+			);
 		});
 
 		if (Result.isError(result)) {
-			console.error(formatError(result.error));
-			process.exit(1);
+			const error = result.error.cause;
+			exitWithError(format, {
+				tag: (error instanceof BtcaError && error.tag) || 'UnknownError',
+				message: error instanceof Error ? error.message : String(error),
+				hint: error instanceof BtcaError ? error.hint : undefined
+			});
 		}
 	});
 
@@ -215,6 +258,7 @@ interface StreamHandlers {
 	onReasoningDelta?: (delta: string) => void;
 	onTextDelta?: (delta: string) => void;
 	onToolCall?: (tool: string) => void;
+	onCitation?: (citation: BtcaCitation) => void;
 	onError?: (message: string) => void;
 }
 
@@ -234,6 +278,9 @@ function handleStreamEvent(event: BtcaStreamEvent, handlers: StreamHandlers): vo
 				handlers.onToolCall?.(event.tool);
 			}
 			break;
+		case 'citation':
+			handlers.onCitation?.(event);
+			break;
 		case 'error':
 			handlers.onError?.(event.message);
 			break;
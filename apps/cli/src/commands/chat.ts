@@ -6,6 +6,7 @@ import { ensureServer } from '../server/manager.ts';
 import { createClient, getResources, getOpencodeInstance, BtcaError } from '../client/index.ts';
 import { RemoteClient, type RemoteThread } from '../client/remote.ts';
 import { loadAuth } from '../lib/auth.ts';
+import { launchRepl } from './repl.ts';
 import { dim } from '../lib/utils/colors.ts';
 
 /**
@@ -23,13 +24,28 @@ function formatError(error: unknown): string {
 }
 
 export const chatCommand = new Command('chat')
-	.description('Start an interactive OpenCode TUI session for resources')
-	.option('-r, --resource <name...>', 'Resources to include (can specify multiple)')
-	.option('--thread [id]', 'Resume a previous thread (omit id to select from list)')
+	.description('Start an interactive multi-turn chat about resources')
+	.option('-r, --resource <name...>', 'Resources to include (default: all resources)')
+	.option('--no-thinking', 'Hide reasoning output')
+	.option('--no-tools', 'Hide tool-call traces')
+	.option('--opencode', 'Open the resources in an OpenCode TUI session instead')
+	.option('--thread [id]', 'Resume a remote thread in OpenCode (omit id to select from list)')
 	.option('--project <name>', 'Remote project name (for thread lookup)')
 	.action(async (options, command) => {
 		const globalOpts = command.parent?.opts() as { server?: string; port?: number } | undefined;
 
+		// Local chat runs the built-in agent through the REPL loop, one thread per session
+		if (!options.opencode && options.thread === undefined) {
+			await launchRepl({
+				server: globalOpts?.server,
+				port: globalOpts?.port,
+				thinking: options.thinking,
+				tools: options.tools,
+				resources: (options.resource as string[] | undefined) ?? []
+			});
+			return;
+		}
+
 		const result = await Result.tryPromise(async () => {
 			const threadOption = options.thread as string | boolean | undefined;
 
@@ -112,7 +128,7 @@ export const chatCommand = new Command('chat')
 		});
 
 		if (Result.isError(result)) {
-			console.error(formatError(result.error));
+			console.error(formatError(result.error.cause));
 			process.exit(1);
 		}
 	});
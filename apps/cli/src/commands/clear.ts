@@ -18,8 +18,9 @@ function formatError(error: unknown): string {
 }
 
 export const clearCommand = new Command('clear')
-	.description('Clear all locally cloned resources')
-	.action(async (_options, command) => {
+	.description('Delete downloaded resources that are no longer configured')
+	.option('--all', 'Delete every downloaded resource, including configured ones')
+	.action(async (options: { all?: boolean }, command) => {
 		const globalOpts = command.parent?.opts() as { server?: string; port?: number } | undefined;
 
 		const result = await Result.tryPromise(async () => {
@@ -29,7 +30,7 @@ export const clearCommand = new Command('clear')
 				quiet: true
 			});
 
-			const result = await clearResources(server.url);
+			const result = await clearResources(server.url, { all: options.all });
 			console.log(`Cleared ${result.cleared} resource(s).`);
 
 			server.stop();
@@ -9,6 +9,7 @@ import {
 	updateModel,
 	addResource,
 	removeResource,
+	updateResourceFilters,
 	BtcaError
 } from '../client/index.ts';
 import { dim } from '../lib/utils/colors.ts';
@@ -21,8 +22,14 @@ interface GitResource {
 	name: string;
 	url: string;
 	branch: string;
+	ref?: string;
+	auth?: string;
 	searchPath?: string;
 	searchPaths?: string[];
+	include?: string[];
+	exclude?: string[];
+	submodules?: boolean;
+	lfs?: boolean;
 	specialNotes?: string;
 }
 
@@ -30,10 +37,36 @@ interface LocalResource {
 	type: 'local';
 	name: string;
 	path: string;
+	include?: string[];
+	exclude?: string[];
 	specialNotes?: string;
 }
 
-type ResourceDefinition = GitResource | LocalResource;
+interface NpmResource {
+	type: 'npm';
+	name: string;
+	package: string;
+	version: string;
+	specialNotes?: string;
+}
+
+interface ArchiveResource {
+	type: 'archive';
+	name: string;
+	source: string;
+	searchPaths?: string[];
+	specialNotes?: string;
+}
+
+interface WebResource {
+	type: 'web';
+	name: string;
+	url: string;
+	searchPaths?: string[];
+	specialNotes?: string;
+}
+
+type ResourceDefinition = GitResource | LocalResource | NpmResource | ArchiveResource | WebResource;
 
 const isGitResource = (r: ResourceDefinition): r is GitResource => r.type === 'git';
 
@@ -50,7 +83,14 @@ async function selectSingleResource(resources: ResourceDefinition[]): Promise<st
 
 		console.log('\nSelect a resource to remove:\n');
 		resources.forEach((r, idx) => {
-			const location = isGitResource(r) ? r.url : r.path;
+			const location =
+				isGitResource(r) || r.type === 'web'
+					? r.url
+					: r.type === 'npm'
+						? `${r.package}@${r.version}`
+						: r.type === 'archive'
+							? r.source
+							: r.path;
 			console.log(`  ${idx + 1}. ${r.name} ${dim(`(${location})`)}`);
 		});
 		console.log('');
@@ -67,6 +107,14 @@ async function selectSingleResource(resources: ResourceDefinition[]): Promise<st
 	});
 }
 
+/**
+ * Print a resource's include/exclude globs in the indented list format.
+ */
+function printPathFilters(r: { include?: string[] | null; exclude?: string[] | null }) {
+	if (r.include && r.include.length > 0) console.log(`    Include: ${r.include.join(', ')}`);
+	if (r.exclude && r.exclude.length > 0) console.log(`    Exclude: ${r.exclude.join(', ')}`);
+}
+
 /**
  * Format an error for display, including hint if available.
  */
@@ -174,15 +222,47 @@ const resourcesListCommand = new Command('list')
 						console.log(`  ${r.name} (git)`);
 						console.log(`    URL: ${r.url}`);
 						console.log(`    Branch: ${r.branch}`);
+						if (r.ref) console.log(`    Ref: ${r.ref}`);
+						if (r.auth) console.log(`    Auth: ${r.auth}`);
 						if (r.searchPaths && r.searchPaths.length > 0) {
 							console.log(`    Search Paths: ${r.searchPaths.join(', ')}`);
 						} else if (r.searchPath) {
 							console.log(`    Search Path: ${r.searchPath}`);
 						}
+						printPathFilters(r);
+						if (r.submodules) console.log('    Submodules: yes');
+						if (r.lfs) console.log('    LFS: yes');
+						if (r.specialNotes) console.log(`    Notes: ${r.specialNotes}`);
+					} else if (r.type === 'npm') {
+						console.log(`  ${r.name} (npm)`);
+						console.log(`    Package: ${r.package}@${r.version}`);
+						if (r.registry) console.log(`    Registry: ${r.registry}`);
+						if (r.tarball) console.log(`    Tarball: ${r.tarball}`);
+						if (r.searchPaths && r.searchPaths.length > 0) {
+							console.log(`    Search Paths: ${r.searchPaths.join(', ')}`);
+						}
+						if (r.specialNotes) console.log(`    Notes: ${r.specialNotes}`);
+					} else if (r.type === 'archive') {
+						console.log(`  ${r.name} (archive)`);
+						console.log(`    Source: ${r.source}`);
+						if (r.searchPaths && r.searchPaths.length > 0) {
+							console.log(`    Search Paths: ${r.searchPaths.join(', ')}`);
+						}
+						if (r.specialNotes) console.log(`    Notes: ${r.specialNotes}`);
+					} else if (r.type === 'web') {
+						console.log(`  ${r.name} (web)`);
+						console.log(`    URL: ${r.url}`);
+						if (r.maxPages || r.maxDepth) {
+							console.log(`    Limits: ${r.maxPages ?? 200} pages, depth ${r.maxDepth ?? 3}`);
+						}
+						if (r.searchPaths && r.searchPaths.length > 0) {
+							console.log(`    Search Paths: ${r.searchPaths.join(', ')}`);
+						}
 						if (r.specialNotes) console.log(`    Notes: ${r.specialNotes}`);
 					} else {
 						console.log(`  ${r.name} (local)`);
 						console.log(`    Path: ${r.path}`);
+						printPathFilters(r);
 						if (r.specialNotes) console.log(`    Notes: ${r.specialNotes}`);
 					}
 					console.log('');
@@ -205,8 +285,13 @@ const resourcesAddCommand = new Command('add')
 	.requiredOption('-t, --type <type>', 'Resource type (git or local)')
 	.option('-u, --url <url>', 'Git repository URL (required for git type)')
 	.option('-b, --branch <branch>', 'Git branch (default: main)')
+	.option('--ref <ref>', 'Git tag or commit SHA to pin the resource to')
 	.option('--path <path>', 'Local path (required for local type)')
 	.option('--search-path <searchPath...>', 'Subdirectory to focus on (repeatable)')
+	.option('--include <glob...>', 'Only import files matching these globs')
+	.option('--exclude <glob...>', 'Skip files matching these globs')
+	.option('--submodules', 'Check out git submodules')
+	.option('--lfs', 'Download Git LFS files (requires git-lfs)')
 	.option('--notes <notes>', 'Special notes for the AI')
 	.action(async (options, command) => {
 		const globalOpts = command.parent?.parent?.parent?.opts() as
@@ -241,8 +326,13 @@ const resourcesAddCommand = new Command('add')
 					name: options.name as string,
 					url: inputUrl,
 					branch: (options.branch as string) ?? 'main',
+					...(options.ref && { ref: options.ref as string }),
 					...(searchPaths.length === 1 && { searchPath: searchPaths[0] }),
 					...(searchPaths.length > 1 && { searchPaths }),
+					...(options.include && { include: options.include as string[] }),
+					...(options.exclude && { exclude: options.exclude as string[] }),
+					...(options.submodules && { submodules: true }),
+					...(options.lfs && { lfs: true }),
 					...(options.notes && { specialNotes: options.notes as string })
 				});
 				// Show normalized URL if it differs from input
@@ -262,6 +352,8 @@ const resourcesAddCommand = new Command('add')
 					type: 'local',
 					name: options.name as string,
 					path: options.path as string,
+					...(options.include && { include: options.include as string[] }),
+					...(options.exclude && { exclude: options.exclude as string[] }),
 					...(options.notes && { specialNotes: options.notes as string })
 				});
 				console.log(`Added local resource: ${options.name}`);
@@ -340,12 +432,59 @@ const resourcesRemoveCommand = new Command('remove')
 		}
 	});
 
+// Resources filter subcommand
+const resourcesFilterCommand = new Command('filter')
+	.description('Set the include/exclude globs of a git or local resource')
+	.requiredOption('-n, --name <name>', 'Resource name')
+	.option('--include <glob...>', 'Only import files matching these globs (replaces the list)')
+	.option('--exclude <glob...>', 'Skip files matching these globs (replaces the list)')
+	.option('--clear', 'Remove all include and exclude globs')
+	.action(async (options, command) => {
+		const globalOpts = command.parent?.parent?.parent?.opts() as
+			| { server?: string; port?: number }
+			| undefined;
+
+		const include = options.clear ? [] : (options.include as string[] | undefined);
+		const exclude = options.clear ? [] : (options.exclude as string[] | undefined);
+		if (!include && !exclude) {
+			console.error('Error: Nothing to change');
+			console.error('\nHint: Pass --include, --exclude, or --clear.');
+			process.exit(1);
+		}
+
+		const result = await Result.tryPromise(async () => {
+			const server = await ensureServer({
+				serverUrl: globalOpts?.server,
+				port: globalOpts?.port,
+				quiet: true
+			});
+
+			const updated = await updateResourceFilters(server.url, options.name as string, {
+				...(include && { include }),
+				...(exclude && { exclude })
+			});
+			console.log(`Updated filters for ${updated.name}`);
+			if (updated.type === 'git' || updated.type === 'local') {
+				printPathFilters(updated);
+				if (!updated.include && !updated.exclude) console.log('    All files are imported');
+			}
+
+			server.stop();
+		});
+
+		if (Result.isError(result)) {
+			console.error(formatError(result.error));
+			process.exit(1);
+		}
+	});
+
 // Resources subcommand group
 const resourcesCommand = new Command('resources').description('Manage resources');
 
 resourcesCommand.addCommand(resourcesListCommand);
 resourcesCommand.addCommand(resourcesAddCommand);
 resourcesCommand.addCommand(resourcesRemoveCommand);
+resourcesCommand.addCommand(resourcesFilterCommand);
 
 // Config command group
 export const configCommand = new Command('config').description('Manage btca configuration');
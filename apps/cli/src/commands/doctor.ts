@@ -0,0 +1,105 @@
+import { Result } from 'better-result';
+import { Command } from 'commander';
+import { ensureServer } from '../server/manager.ts';
+import { getResourceHealth, BtcaError, type ResourceHealth } from '../client/index.ts';
+import { dim, green, red, yellow } from '../lib/utils/colors.ts';
+
+/**
+ * Format an error for display, including hint if available.
+ */
+function formatError(error: unknown): string {
+	if (error instanceof BtcaError) {
+		let output = `Error: ${error.message}`;
+		if (error.hint) {
+			output += `\n\nHint: ${error.hint}`;
+		}
+		return output;
+	}
+	return `Error: ${error instanceof Error ? error.message : String(error)}`;
+}
+
+const formatBytes = (bytes: number) => {
+	const units = ['B', 'KB', 'MB', 'GB'];
+	let value = bytes;
+	let unit = 0;
+	while (value >= 1024 && unit < units.length - 1) {
+		value /= 1024;
+		unit += 1;
+	}
+	return `${unit === 0 ? value : value.toFixed(1)} ${units[unit]}`;
+};
+
+// Commits and checksums are shortened like `git log --oneline`
+const formatRevision = (revision: string) =>
+	/^[0-9a-f]{40,64}$/.test(revision) ? revision.slice(0, 12) : revision;
+
+const STATUS_MARKERS: Record<ResourceHealth['status'], string> = {
+	ok: green('ok'),
+	warning: yellow('warning'),
+	error: red('error')
+};
+
+function printReport(report: ResourceHealth) {
+	console.log(`${STATUS_MARKERS[report.status]}  ${report.name} (${report.type})`);
+	const details = [
+		report.expected && `expected ${report.expected}`,
+		report.current && `on ${formatRevision(report.current)}`,
+		report.sizeBytes !== null && formatBytes(report.sizeBytes),
+		report.lastFetchedAt && `fetched ${new Date(report.lastFetchedAt).toLocaleString()}`
+	].filter(Boolean);
+	if (details.length > 0) console.log(dim(`    ${details.join(', ')}`));
+	if (report.path) console.log(dim(`    ${report.path}`));
+	for (const issue of report.issues) {
+		const label = issue.level === 'error' ? red('error') : yellow('warning');
+		const [first, ...rest] = issue.message.split('\n');
+		console.log(`    ${label}: ${first}`);
+		for (const line of rest) if (line) console.log(`      ${line}`);
+		if (issue.hint) console.log(dim(`      Hint: ${issue.hint.split('\n').join('\n      ')}`));
+	}
+}
+
+export const doctorCommand = new Command('doctor')
+	.description('Check that configured resources are downloaded, up to date, and valid')
+	.argument('[names...]', 'Resources to check (default: all resources)')
+	.option('--json', 'Output the report as JSON')
+	.option('--no-remote', 'Do not contact git remotes')
+	.action(
+		async (names: string[], options: { json?: boolean; remote: boolean }, command: Command) => {
+			const globalOpts = command.parent?.opts() as { server?: string; port?: number } | undefined;
+
+			const result = await Result.tryPromise(async () => {
+				const server = await ensureServer({
+					serverUrl: globalOpts?.server,
+					port: globalOpts?.port,
+					quiet: true
+				});
+
+				try {
+					return await getResourceHealth(server.url, { names, remote: options.remote });
+				} finally {
+					server.stop();
+				}
+			});
+
+			if (Result.isError(result)) {
+				console.error(formatError(result.error));
+				process.exit(1);
+			}
+
+			const report = result.value;
+			if (options.json) {
+				console.log(JSON.stringify(report, null, 2));
+			} else if (report.resources.length === 0) {
+				console.log('No resources configured.');
+			} else {
+				for (const resource of report.resources) printReport(resource);
+				const errors = report.resources.filter((r) => r.status === 'error').length;
+				const warnings = report.resources.filter((r) => r.status === 'warning').length;
+				console.log(
+					`\n${report.resources.length} resource(s): ${errors} with errors, ${warnings} with warnings.`
+				);
+			}
+			// Errors fail the command so CI can gate on it; warnings do not
+			if (!report.ok) process.exit(1);
+		}
+	);
@@ -0,0 +1,371 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { Result } from 'better-result';
+import { Command } from 'commander';
+import { ensureServer } from '../server/manager.ts';
+import { createClient, getConfig, getResources, BtcaError } from '../client/index.ts';
+import { EXIT_CODES, getExitCode, type ExitCode } from '../lib/exit-codes.ts';
+import {
+	askForJsonResult,
+	mapWithConcurrency,
+	readQuestionFile,
+	resolveQuestionEntry,
+	toAskError
+} from '../lib/ask.ts';
+import {
+	compareRuns,
+	erroredCase,
+	parseEvalCase,
+	scoreCase,
+	summarize,
+	type EvalCaseResult,
+	type EvalCheck,
+	type EvalRun
+} from '../lib/eval.ts';
+import { dim, green, red, yellow } from '../lib/utils/colors.ts';
+
+// Must match Recordings.RECORD_ENV and Recordings.REPLAY_ENV in the server
+const RECORD_ENV = 'BTCA_RECORD';
+const REPLAY_ENV = 'BTCA_REPLAY';
+
+/**
+ * Format an error for display, including hint if available.
+ */
+function formatError(error: unknown): string {
+	if (error instanceof BtcaError) {
+		let output = `Error: ${error.message}`;
+		if (error.hint) {
+			output += `\n\nHint: ${error.hint}`;
+		}
+		return output;
+	}
+	return `Error: ${error instanceof Error ? error.message : String(error)}`;
+}
+
+const formatSeconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+const formatScore = (score: number) => `${Math.round(score * 100)}%`;
+const formatTokens = (result: EvalCaseResult) =>
+	result.usage ? result.usage.totalTokens.toLocaleString() : '-';
+
+const CHECK_FAILURES: Record<EvalCheck['kind'], (expected: string) => string> = {
+	contains: (expected) => `missing "${expected}"`,
+	matches: (expected) => `no match for ${expected}`,
+	cites: (expected) => `does not cite ${expected}`,
+	forbidden: (expected) => `claims "${expected}"`
+};
+
+function printResult(result: EvalCaseResult) {
+	const status = result.error ? red('error') : result.passed ? green('pass ') : yellow('fail ');
+	const passedChecks = result.checks.filter((check) => check.passed).length;
+	const details = result.error
+		? `[${result.error.tag}] ${result.error.message}`
+		: `${passedChecks}/${result.checks.length} checks, ${result.toolCalls} tool calls, ${formatSeconds(result.latencyMs)}, ${formatTokens(result)} tokens`;
+	console.log(`${status}  ${result.id} ${dim(`(${details})`)}`);
+	if (result.error) return;
+	for (const check of result.checks) {
+		if (!check.passed) console.log(`       ${CHECK_FAILURES[check.kind](check.expected)}`);
+	}
+}
+
+function printSummary(run: EvalRun) {
+	const { summary } = run;
+	const cost = summary.costUsd === null ? '' : `, $${summary.costUsd.toFixed(4)}`;
+	const counts = `${summary.passed}/${summary.total} passed, ${summary.failed} failed, ${summary.errored} errored`;
+	console.log(
+		`\n${summary.passed === summary.total ? green(counts) : yellow(counts)} ${dim(
+			`(score ${formatScore(summary.score)}, ${summary.toolCalls} tool calls, ${formatSeconds(summary.latencyMs)}, ${summary.totalTokens.toLocaleString()} tokens${cost})`
+		)}`
+	);
+}
+
+const cell = (result: EvalCaseResult | null) => {
+	if (!result) return '-';
+	if (result.error) return 'error';
+	return `${result.passed ? 'pass' : 'fail'} ${formatScore(result.score)}`;
+};
+
+const change = (
+	before: number | undefined,
+	after: number | undefined,
+	format: (value: number) => string = String
+) =>
+	before === undefined || after === undefined
+		? '-'
+		: format(before) === format(after)
+			? format(after)
+			: `${format(before)} → ${format(after)}`;
+
+const CHANGE_MARKERS = {
+	fixed: green('fixed'),
+	regressed: red('regressed'),
+	same: '',
+	added: dim('added'),
+	removed: dim('removed')
+};
+
+/**
+ * Print two runs side by side, case by case.
+ */
+function printComparison(baseline: EvalRun, candidate: EvalRun) {
+	const label = (run: EvalRun) =>
+		`${run.model ? `${run.model.provider}/${run.model.model}` : 'unknown model'}${run.profile ? ` (${run.profile})` : ''}${run.mode === 'replay' ? ', replayed' : ''}, ${new Date(run.startedAt).toLocaleString()}`;
+	console.log(`A: ${label(baseline)}`);
+	console.log(`B: ${label(candidate)}\n`);
+
+	const rows = compareRuns(baseline, candidate);
+	const idWidth = Math.max(4, ...rows.map((row) => row.id.length));
+	console.log(
+		dim(
+			`${'case'.padEnd(idWidth)}  ${'A'.padEnd(9)}  ${'B'.padEnd(9)}  ${'tool calls'.padEnd(10)}  ${'latency'.padEnd(13)}  tokens`
+		)
+	);
+	for (const row of rows) {
+		const { baseline: a, candidate: b } = row;
+		const line = [
+			row.id.padEnd(idWidth),
+			cell(a).padEnd(9),
+			cell(b).padEnd(9),
+			change(a?.toolCalls, b?.toolCalls).padEnd(10),
+			change(a?.latencyMs, b?.latencyMs, formatSeconds).padEnd(13),
+			change(a?.usage?.totalTokens, b?.usage?.totalTokens, (n) => n.toLocaleString())
+		].join('  ');
+		console.log(`${line}  ${CHANGE_MARKERS[row.change]}`.trimEnd());
+	}
+
+	const a = baseline.summary;
+	const b = candidate.summary;
+	console.log(
+		`\n${'total'.padEnd(idWidth)}  ${`${a.passed}/${a.total}`.padEnd(9)}  ${`${b.passed}/${b.total}`.padEnd(9)}  ${change(a.toolCalls, b.toolCalls).padEnd(10)}  ${change(a.latencyMs, b.latencyMs, formatSeconds).padEnd(13)}  ${change(a.totalTokens, b.totalTokens, (n) => n.toLocaleString())}`
+	);
+	const count = (kind: 'fixed' | 'regressed') => rows.filter((row) => row.change === kind).length;
+	console.log(
+		dim(
+			`score ${formatScore(a.score)} → ${formatScore(b.score)}, ${count('fixed')} fixed, ${count('regressed')} regressed`
+		)
+	);
+}
+
+async function readRun(file: string): Promise<EvalRun> {
+	const run = await Result.tryPromise(async () => (await Bun.file(file).json()) as EvalRun);
+	if (run.isErr() || run.value?.version !== 1 || !Array.isArray(run.value.results)) {
+		throw new BtcaError(`"${file}" is not a btca eval run`, {
+			tag: 'RequestError',
+			hint: 'Pass the JSON files written by "btca eval run".'
+		});
+	}
+	return run.value;
+}
+
+const defaultOutput = (suite: string, startedAt: Date) => {
+	const stamp = startedAt.toISOString().replace(/[:.]/g, '-').slice(0, 19);
+	return path.join('btca-evals', `${path.parse(suite).name}-${stamp}.json`);
+};
+
+/**
+ * Run every case of a suite against one server. Returns the run and its exit code: the code
+ * of the first case that could not be answered, else evalFailed when a check failed.
+ */
+async function runSuite(args: {
+	serverUrl: string;
+	suite: string;
+	concurrency: number;
+	profile?: string;
+	mode: EvalRun['mode'];
+	quiet: boolean;
+}): Promise<{ run: EvalRun; exitCode: ExitCode }> {
+	const cases = await readQuestionFile(args.suite, parseEvalCase);
+
+	const client = createClient(args.serverUrl);
+	const [{ resources: available }, config] = await Promise.all([
+		getResources(client),
+		getConfig(client)
+	]);
+	if (available.length === 0) {
+		throw new BtcaError('No resources configured.', {
+			tag: 'ConfigError',
+			hint: 'Add resources to your btca config file.'
+		});
+	}
+
+	// Resolve every case up front so a typo fails before any question is asked
+	const jobs = cases.map((evalCase) => ({
+		evalCase,
+		...resolveQuestionEntry(evalCase, available)
+	}));
+
+	const startedAt = new Date();
+	const exitCodes = new Map<string, ExitCode>();
+	const results = await mapWithConcurrency(jobs, args.concurrency, async (job) => {
+		const started = Date.now();
+		const answered = await Result.tryPromise(() =>
+			askForJsonResult(args.serverUrl, {
+				question: job.cleanedQuestion,
+				resources: job.resourceNames,
+				profile: args.profile
+			})
+		);
+		const latencyMs = Date.now() - started;
+
+		let result: EvalCaseResult;
+		if (answered.isErr()) {
+			const error = toAskError(answered.error.cause);
+			exitCodes.set(job.evalCase.id, getExitCode(error.tag));
+			result = erroredCase(job.evalCase, error, latencyMs);
+		} else {
+			result = scoreCase(job.evalCase, answered.value, latencyMs);
+			if (answered.value.error) {
+				exitCodes.set(job.evalCase.id, getExitCode(answered.value.error.tag, { inStream: true }));
+			} else if (answered.value.canceled) {
+				exitCodes.set(job.evalCase.id, EXIT_CODES.unknown);
+			}
+		}
+		if (!args.quiet) printResult(result);
+		return result;
+	});
+
+	const run: EvalRun = {
+		version: 1,
+		suite: args.suite,
+		startedAt: startedAt.toISOString(),
+		finishedAt: new Date().toISOString(),
+		model: { provider: config.provider, model: config.model },
+		profile: args.profile ?? null,
+		mode: args.mode,
+		summary: summarize(results),
+		results
+	};
+
+	const firstError = results.map((result) => exitCodes.get(result.id)).find((code) => code);
+	const exitCode =
+		firstError ?? (run.summary.passed < run.summary.total ? EXIT_CODES.evalFailed : EXIT_CODES.ok);
+	return { run, exitCode };
+}
+
+/**
+ * btca eval run - Answer and score every case in a suite
+ */
+const runCommand = new Command('run')
+	.description('Answer every question in a suite and score the answers')
+	.argument('<suite>', 'Suite file (.yaml or .jsonl) with questions and expected facts')
+	.option('-o, --output <file>', 'Where to save the run (default: btca-evals/<suite>-<time>.json)')
+	.option('--compare <run>', 'Compare against an earlier run when done')
+	.option('--profile <name>', 'Agent profile preset (e.g. quick, deep)')
+	.option(
+		'--concurrency <count>',
+		'Questions to answer at once (1 keeps latencies comparable)',
+		(value) => parseInt(value, 10),
+		1
+	)
+	.option('--record <file>', 'Save every model response to this file for later --replay')
+	.option('--replay <file>', 'Answer from responses saved with --record instead of the provider')
+	.option('--json', 'Print the run as JSON instead of a report')
+	.action(
+		async (
+			suite: string,
+			options: {
+				output?: string;
+				compare?: string;
+				profile?: string;
+				concurrency: number;
+				record?: string;
+				replay?: string;
+				json?: boolean;
+			},
+			command: Command
+		) => {
+			const globalOpts = command.parent?.parent?.opts() as
+				{ server?: string; port?: number } | undefined;
+
+			if (!Number.isInteger(options.concurrency) || options.concurrency < 1) {
+				console.error('Error: --concurrency must be a positive whole number.');
+				process.exit(1);
+			}
+			if (options.record && options.replay) {
+				console.error('Error: Pass either --record or --replay, not both.');
+				process.exit(1);
+			}
+			if ((options.record || options.replay) && globalOpts?.server) {
+				console.error(
+					`Error: --record and --replay need the built-in server.\n\nHint: Start your server with ${RECORD_ENV}=<file> or ${REPLAY_ENV}=<file> instead.`
+				);
+				process.exit(1);
+			}
+
+			// The built-in server reads these when it creates the model
+			if (options.record) process.env[RECORD_ENV] = path.resolve(options.record);
+			if (options.replay) process.env[REPLAY_ENV] = path.resolve(options.replay);
+			const mode = options.replay ? 'replay' : options.record ? 'record' : 'live';
+
+			const result = await Result.tryPromise(async () => {
+				const baseline = options.compare ? await readRun(options.compare) : null;
+				const server = await ensureServer({
+					serverUrl: globalOpts?.server,
+					port: globalOpts?.port,
+					quiet: true
+				});
+
+				try {
+					const { run, exitCode } = await runSuite({
+						serverUrl: server.url,
+						suite,
+						concurrency: options.concurrency,
+						profile: options.profile,
+						mode,
+						quiet: options.json === true
+					});
+
+					const output = options.output ?? defaultOutput(suite, new Date(run.startedAt));
+					await fs.mkdir(path.dirname(output), { recursive: true });
+					await Bun.write(output, JSON.stringify(run, null, 2));
+
+					if (options.json) {
+						console.log(JSON.stringify(run, null, 2));
+					} else {
+						printSummary(run);
+						console.log(dim(`Saved to ${output}`));
+						if (baseline) {
+							console.log('');
+							printComparison(baseline, run);
+						}
+					}
+					return exitCode;
+				} finally {
+					server.stop();
+				}
+			});
+
+			if (Result.isError(result)) {
+				const error = result.error.cause;
+				console.error(formatError(error));
+				process.exit(getExitCode(error instanceof BtcaError ? error.tag : undefined));
+			}
+			process.exit(result.value);
+		}
+	);
+
+/**
+ * btca eval compare - Show two saved runs side by side
+ */
+const compareCommand = new Command('compare')
+	.description('Show two saved runs side by side')
+	.argument('<baseline>', 'Earlier run (A)')
+	.argument('<candidate>', 'Later run (B)')
+	.action(async (baselineFile: string, candidateFile: string) => {
+		const result = await Result.tryPromise(async () => {
+			const [baseline, candidate] = await Promise.all([
+				readRun(baselineFile),
+				readRun(candidateFile)
+			]);
+			printComparison(baseline, candidate);
+		});
+
+		if (Result.isError(result)) {
+			console.error(formatError(result.error.cause));
+			process.exit(1);
+		}
+	});
+
+export const evalCommand = new Command('eval')
+	.description('Score answers against a suite of questions with expected facts')
+	.addCommand(runCommand, { isDefault: true })
+	.addCommand(compareCommand);
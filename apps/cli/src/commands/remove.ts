@@ -25,7 +25,29 @@ interface LocalResource {
 	specialNotes?: string;
 }
 
-type ResourceDefinition = GitResource | LocalResource;
+interface NpmResource {
+	type: 'npm';
+	name: string;
+	package: string;
+	version: string;
+	specialNotes?: string;
+}
+
+interface ArchiveResource {
+	type: 'archive';
+	name: string;
+	source: string;
+	specialNotes?: string;
+}
+
+interface WebResource {
+	type: 'web';
+	name: string;
+	url: string;
+	specialNotes?: string;
+}
+
+type ResourceDefinition = GitResource | LocalResource | NpmResource | ArchiveResource | WebResource;
 
 const isGitResource = (r: ResourceDefinition): r is GitResource => r.type === 'git';
 
@@ -42,7 +64,14 @@ async function selectSingleResource(resources: ResourceDefinition[]): Promise<st
 
 		console.log('\nSelect a resource to remove:\n');
 		resources.forEach((r, idx) => {
-			const location = isGitResource(r) ? r.url : r.path;
+			const location =
+				isGitResource(r) || r.type === 'web'
+					? r.url
+					: r.type === 'npm'
+						? `${r.package}@${r.version}`
+						: r.type === 'archive'
+							? r.source
+							: r.path;
 			console.log(`  ${idx + 1}. ${r.name} ${dim(`(${location})`)}`);
 		});
 		console.log('');
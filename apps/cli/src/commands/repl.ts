@@ -1,7 +1,22 @@
 import { Result } from 'better-result';
 import { ensureServer, type ServerManager } from '../server/manager.ts';
-import { createClient, getResources, askQuestionStream, BtcaError } from '../client/index.ts';
+import {
+	createClient,
+	getConfig,
+	getResources,
+	askQuestionStream,
+	BtcaError
+} from '../client/index.ts';
 import { parseSSEStream } from '../client/stream.ts';
+import { normalizeResourceNames } from '../lib/ask.ts';
+import {
+	createThreadId,
+	getThreadTitle,
+	loadThread,
+	saveThread,
+	toThreadMessages,
+	type LocalThreadMessage
+} from '../lib/threads.ts';
 import type { BtcaStreamEvent } from 'btca-server/stream/types';
 
 type ResourceInfo = { name: string; type: string; url?: string };
@@ -12,6 +27,12 @@ export interface ReplOptions {
 	thinking?: boolean;
 	tools?: boolean;
 	subAgent?: boolean;
+	thread?: string;
+	/**
+	 * Start with these resources instead of waiting for an @mention (used by `btca chat`).
+	 * An empty list starts with every configured resource.
+	 */
+	resources?: string[];
 }
 
 /**
@@ -145,25 +166,76 @@ export async function launchRepl(options: ReplOptions): Promise<void> {
 		const client = createClient(server.url);
 		const { resources } = await getResources(client);
 
+		const resumed = options.thread ? await loadThread(options.thread) : null;
+		if (options.thread && !resumed) {
+			throw new BtcaError(`Thread "${options.thread}" not found`, {
+				hint: 'Run "btca threads list" to see saved threads.'
+			});
+		}
+
 		if (resources.length === 0) {
 			console.error('Error: No resources configured.');
 			console.error('Add resources to your btca config file.');
 			process.exit(1);
 		}
 
-		console.log('btca REPL mode (--no-tui)');
-		console.log(`Available resources: ${resources.map((r) => r.name).join(', ')}`);
-		console.log('Use @resource to specify context. Type /help for commands, /quit to exit.\n');
+		// Resources every new thread starts with; @mentions add to them
+		let initialResources: string[] = [];
+		if (options.resources) {
+			const normalized = normalizeResourceNames(options.resources, resources);
+			if (normalized.invalid.length > 0) {
+				throw new BtcaError(`Unknown resource(s): ${normalized.invalid.join(', ')}`, {
+					hint: `Available resources: ${resources.map((r) => r.name).join(', ')}`
+				});
+			}
+			initialResources =
+				normalized.names.length > 0 ? normalized.names : resources.map((r) => r.name);
+		}
+
+		if (options.resources) {
+			console.log(`btca chat (${initialResources.join(', ')})`);
+			console.log(
+				'Ask follow-up questions in one thread. Type /help for commands, /quit to exit.\n'
+			);
+		} else {
+			console.log('btca REPL mode (--no-tui)');
+			console.log(`Available resources: ${resources.map((r) => r.name).join(', ')}`);
+			console.log('Use @resource to specify context. Type /help for commands, /quit to exit.\n');
+		}
 
 		// Track accumulated resources for the session
-		let sessionResources: string[] = [];
+		let sessionResources: string[] = resumed?.resources ?? initialResources;
+
+		// The conversation is saved as a local thread after each answer
+		let threadId = resumed?.id ?? null;
+		let threadCreatedAt = resumed?.createdAt ?? '';
+		let conversation: LocalThreadMessage[] = resumed?.messages ?? [];
+
+		if (resumed) {
+			console.log(`Resumed thread ${resumed.id}: ${resumed.title}`);
+			console.log(`Session: ${sessionResources.join(', ')}\n`);
+		}
+
+		const persistThread = async () => {
+			if (!threadId) return;
+			const { provider, model } = await getConfig(client);
+			await saveThread({
+				id: threadId,
+				title: getThreadTitle(conversation),
+				createdAt: threadCreatedAt,
+				updatedAt: new Date().toISOString(),
+				resources: sessionResources,
+				model: { provider, model },
+				messages: conversation
+			});
+		};
 
 		const printHelp = () => {
 			console.log(`
 Commands:
   /help           Show this help message
   /resources      List available resources
-  /clear          Clear session resources
+  /clear          Start a new thread (the current one stays saved)
   /quit, /exit    Exit the REPL
 
 Usage:
@@ -199,8 +271,10 @@ Examples:
 						console.log(`Session: ${sessionResources.join(', ')}`);
 					}
 				} else if (cmd === '/clear') {
-					sessionResources = [];
-					console.log('Session resources cleared.');
+					sessionResources = initialResources;
+					threadId = null;
+					conversation = [];
+					console.log('Session cleared.');
 				} else if (cmd === '/quit' || cmd === '/exit') {
 					console.log('Goodbye!');
 					break;
@@ -243,12 +317,14 @@ Examples:
 
 				const response = await askQuestionStream(activeServer.url, {
 					question,
+					messages: toThreadMessages(conversation),
 					resources: sessionResources,
 					quiet: true
 				});
 
 				let inReasoning = false;
 				let hasText = false;
+				let answer = '';
 
 				for await (const event of parseSSEStream(response)) {
 					handleStreamEvent(event, {
@@ -266,6 +342,7 @@ Examples:
 								inReasoning = false;
 							}
 							hasText = true;
+							answer += delta;
 							process.stdout.write(delta);
 						},
 						onToolCall: (tool) => {
@@ -288,10 +365,21 @@ Examples:
 				}
 
 				console.log('\n');
+
+				if (!threadId) {
+					threadId = createThreadId();
+					threadCreatedAt = new Date().toISOString();
+				}
+				conversation = [
+					...conversation,
+					{ role: 'user', content: [{ type: 'text', content: question }] },
+					{ role: 'assistant', content: answer }
+				];
+				await persistThread();
 			});
 
 			if (Result.isError(streamResult)) {
-				console.error(formatError(streamResult.error));
+				console.error(formatError(streamResult.error.cause));
 			}
 		}
 
@@ -300,7 +388,7 @@ Examples:
 	});
 
 	if (Result.isError(result)) {
-		console.error(formatError(result.error));
+		console.error(formatError(result.error.cause));
 		process.exit(1);
 	}
 }
@@ -23,13 +23,14 @@ function formatError(error: unknown): string {
 export const serveCommand = new Command('serve')
 	.description('Start the btca server and listen for requests')
 	.option('-p, --port <port>', 'Port to listen on (default: 8080)')
-	.action(async (options: { port?: string }) => {
+	.option('--offline', 'Never fetch resources; answer from what is already downloaded')
+	.action(async (options: { port?: string; offline?: boolean }) => {
 		const port = options.port ? parseInt(options.port, 10) : DEFAULT_PORT;
 
 		const result = await Result.tryPromise(async () => {
 			console.log(`Starting btca server on port ${port}...`);
-			const server = await startServer({ port });
-			console.log(`btca server running at ${server.url}`);
+			const server = await startServer({ port, offline: options.offline });
+			console.log(`btca server running at ${server.url}${options.offline ? ' (offline)' : ''}`);
 			console.log('Press Ctrl+C to stop');
 
 			// Handle graceful shutdown
@@ -0,0 +1,146 @@
+import { Result } from 'better-result';
+import { Command } from 'commander';
+import { extractMessageText } from '@btca/shared';
+import { BtcaError } from '../client/index.ts';
+import {
+	deleteThread,
+	getUserMessageText,
+	listThreads,
+	loadThread,
+	type LocalThread
+} from '../lib/threads.ts';
+import { dim } from '../lib/utils/colors.ts';
+
+/**
+ * Format an error for display, including hint if available.
+ */
+function formatError(error: unknown): string {
+	if (error instanceof BtcaError) {
+		let output = `Error: ${error.message}`;
+		if (error.hint) {
+			output += `\n\nHint: ${error.hint}`;
+		}
+		return output;
+	}
+	return `Error: ${error instanceof Error ? error.message : String(error)}`;
+}
+
+/**
+ * Run a threads subcommand. Threads are local files, so no server is needed.
+ */
+async function run(action: () => Promise<void>): Promise<void> {
+	const result = await Result.tryPromise(action);
+	if (Result.isError(result)) {
+		console.error(formatError(result.error.cause));
+		process.exit(1);
+	}
+}
+
+async function requireThread(id: string): Promise<LocalThread> {
+	const thread = await loadThread(id);
+	if (!thread) {
+		throw new BtcaError(`Thread "${id}" not found`, {
+			hint: 'Run "btca threads list" to see saved threads.'
+		});
+	}
+	return thread;
+}
+
+/**
+ * Render a thread as readable markdown.
+ */
+function renderThread(thread: LocalThread): string {
+	const lines: string[] = [];
+
+	lines.push(`# ${thread.title}\n`);
+	lines.push(`Thread: ${thread.id}`);
+	lines.push(`Created: ${thread.createdAt}`);
+	lines.push(`Updated: ${thread.updatedAt}`);
+	lines.push(`Model: ${thread.model.provider}/${thread.model.model}`);
+	lines.push(`Resources: ${thread.resources.join(', ')}`);
+
+	for (const message of thread.messages) {
+		if (message.role === 'user') {
+			lines.push(`\n## You\n`);
+			lines.push(getUserMessageText(message));
+		} else {
+			lines.push(`\n## btca${message.canceled ? ' (canceled)' : ''}\n`);
+			lines.push(extractMessageText(message) || '(no answer)');
+		}
+	}
+
+	return lines.join('\n');
+}
+
+/**
+ * btca threads list - List saved local threads
+ */
+const listCommand = new Command('list')
+	.description('List saved local threads, most recently updated first')
+	.option('-n, --limit <count>', 'Maximum number of threads to show', (value) =>
+		parseInt(value, 10)
+	)
+	.option('--json', 'Output as JSON')
+	.action(async (options: { limit?: number; json?: boolean }) => {
+		await run(async () => {
+			const threads = (await listThreads()).slice(0, options.limit);
+
+			if (options.json) {
+				console.log(JSON.stringify(threads, null, 2));
+				return;
+			}
+
+			if (threads.length === 0) {
+				console.log('No threads saved.');
+				return;
+			}
+
+			for (const thread of threads) {
+				const updated = new Date(thread.updatedAt).toLocaleString();
+				console.log(`${thread.id}  ${thread.title}`);
+				console.log(
+					dim(
+						`  ${updated}, ${thread.messageCount} messages, ${thread.resources.map((r) => `@${r}`).join(' ')}`
+					)
+				);
+			}
+			console.log(dim('\nResume one with "btca --thread <id>".'));
+		});
+	});
+
+/**
+ * btca threads show - Print a saved thread
+ */
+const showCommand = new Command('show')
+	.description('Print a saved thread as markdown')
+	.argument('<id>', 'Thread ID')
+	.option('--json', 'Output the saved thread as JSON')
+	.action(async (id: string, options: { json?: boolean }) => {
+		await run(async () => {
+			const thread = await requireThread(id);
+			console.log(options.json ? JSON.stringify(thread, null, 2) : renderThread(thread));
+		});
+	});
+
+/**
+ * btca threads delete - Delete a saved thread
+ */
+const deleteCommand = new Command('delete')
+	.description('Delete a saved thread')
+	.argument('<id>', 'Thread ID')
+	.action(async (id: string) => {
+		await run(async () => {
+			if (!(await deleteThread(id))) {
+				throw new BtcaError(`Thread "${id}" not found`, {
+					hint: 'Run "btca threads list" to see saved threads.'
+				});
+			}
+			console.log(`Deleted thread ${id}.`);
+		});
+	});
+
+export const threadsCommand = new Command('threads')
+	.description('Browse saved local TUI and REPL threads')
+	.addCommand(listCommand, { isDefault: true })
+	.addCommand(showCommand)
+	.addCommand(deleteCommand);
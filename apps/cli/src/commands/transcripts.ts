@@ -0,0 +1,175 @@
+import { Result } from 'better-result';
+import { Command } from 'commander';
+import type { Transcript } from 'btca-server/transcripts/types';
+import { ensureServer } from '../server/manager.ts';
+import { listTranscripts, getTranscript, BtcaError } from '../client/index.ts';
+
+type GlobalOpts = { server?: string; port?: number } | undefined;
+
+/**
+ * Format an error for display, including hint if available.
+ */
+function formatError(error: unknown): string {
+	if (error instanceof BtcaError) {
+		let output = `Error: ${error.message}`;
+		if (error.hint) {
+			output += `\n\nHint: ${error.hint}`;
+		}
+		return output;
+	}
+	return `Error: ${error instanceof Error ? error.message : String(error)}`;
+}
+
+const truncate = (text: string, max: number) =>
+	text.length > max ? `${text.slice(0, max - 1)}…` : text;
+
+const formatMs = (ms?: number) =>
+	ms === undefined ? '?' : ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+
+/**
+ * Run a transcripts subcommand against the local (or configured) server.
+ */
+async function withServer(
+	command: Command,
+	run: (serverUrl: string) => Promise<void>
+): Promise<void> {
+	const globalOpts = command.parent?.parent?.opts() as GlobalOpts;
+
+	const result = await Result.tryPromise(async () => {
+		const server = await ensureServer({
+			serverUrl: globalOpts?.server,
+			port: globalOpts?.port,
+			quiet: true
+		});
+		await run(server.url).finally(() => server.stop());
+	});
+
+	if (Result.isError(result)) {
+		console.error(formatError(result.error));
+		process.exit(1);
+	}
+}
+
+async function requireTranscript(serverUrl: string, id: string): Promise<Transcript> {
+	const transcript = await getTranscript(serverUrl, id);
+	if (!transcript) {
+		throw new BtcaError(`Transcript "${id}" not found`, {
+			hint: 'Run "btca transcripts list" to see saved transcripts.'
+		});
+	}
+	return transcript;
+}
+
+/**
+ * Re-render a transcript as readable markdown.
+ */
+function renderTranscript(transcript: Transcript): string {
+	const lines: string[] = [];
+	const usage = transcript.usage;
+
+	lines.push(`# ${transcript.question}\n`);
+	lines.push(`Transcript: ${transcript.id}`);
+	lines.push(`Created: ${transcript.createdAt}`);
+	lines.push(`Model: ${transcript.model.provider}/${transcript.model.model}`);
+	lines.push(`Profile: ${transcript.profile}`);
+	lines.push(`Resources: ${transcript.resources.join(', ')}`);
+	lines.push(`Duration: ${formatMs(transcript.durationMs)}`);
+	if (usage) {
+		const cost = usage.costUsd !== undefined ? ` (~$${usage.costUsd.toFixed(4)})` : '';
+		lines.push(`Tokens: ${usage.totalTokens}${cost}`);
+	}
+	if (transcript.canceled) lines.push('Status: canceled');
+	if (transcript.error) lines.push(`Error: [${transcript.error.tag}] ${transcript.error.message}`);
+
+	lines.push('\n## System prompt\n');
+	lines.push(transcript.systemPrompt);
+	lines.push('\n## Initial context\n');
+	lines.push(transcript.initialContext);
+
+	lines.push(`\n## Tool calls (${transcript.toolCalls.length})\n`);
+	transcript.toolCalls.forEach((call, index) => {
+		lines.push(`### ${index + 1}. ${call.tool} (${formatMs(call.durationMs)})\n`);
+		lines.push('```json');
+		lines.push(JSON.stringify(call.input, null, 2));
+		lines.push('```\n');
+		lines.push('```');
+		lines.push(call.output ?? '(no output)');
+		lines.push('```\n');
+	});
+
+	lines.push('## Answer\n');
+	lines.push(transcript.answer || '(no answer)');
+
+	if (transcript.spans.length > 0) {
+		lines.push('\n## Timings\n');
+		for (const span of transcript.spans) {
+			lines.push(`- ${span.name}: ${formatMs(span.ms)}${span.ok ? '' : ' (failed)'}`);
+		}
+	}
+
+	return lines.join('\n');
+}
+
+/**
+ * btca transcripts list - List saved transcripts
+ */
+const listCommand = new Command('list')
+	.description('List saved question transcripts, newest first')
+	.option('-n, --limit <count>', 'Maximum number of transcripts to show', (value) =>
+		parseInt(value, 10)
+	)
+	.action(async (options: { limit?: number }, command: Command) => {
+		await withServer(command, async (serverUrl) => {
+			const { transcripts, enabled } = await listTranscripts(serverUrl, {
+				limit: options.limit
+			});
+
+			if (transcripts.length === 0) {
+				console.log('No transcripts saved.');
+				if (!enabled) {
+					console.log('\nEnable them with "saveTranscripts": true in btca.config.jsonc.');
+				}
+				return;
+			}
+
+			for (const item of transcripts) {
+				const status = item.error ? ' [error]' : item.canceled ? ' [canceled]' : '';
+				console.log(`${item.id}  ${item.createdAt}  ${item.collectionKey}${status}`);
+				console.log(
+					`  ${truncate(item.question.replace(/\s+/g, ' '), 80)} (${item.toolCallCount} tool calls, ${formatMs(item.durationMs)})`
+				);
+			}
+		});
+	});
+
+/**
+ * btca transcripts show - Output a transcript as JSON
+ */
+const showCommand = new Command('show')
+	.description('Output a saved transcript as JSON')
+	.argument('<id>', 'Transcript ID (the request ID)')
+	.action(async (id: string, _options, command: Command) => {
+		await withServer(command, async (serverUrl) => {
+			const transcript = await requireTranscript(serverUrl, id);
+			console.log(JSON.stringify(transcript, null, 2));
+		});
+	});
+
+/**
+ * btca transcripts render - Re-render a transcript as markdown
+ */
+const renderCommand = new Command('render')
+	.description('Re-render a saved transcript as readable markdown')
+	.argument('<id>', 'Transcript ID (the request ID)')
+	.action(async (id: string, _options, command: Command) => {
+		await withServer(command, async (serverUrl) => {
+			const transcript = await requireTranscript(serverUrl, id);
+			console.log(renderTranscript(transcript));
+		});
+	});
+
+export const transcriptsCommand = new Command('transcripts')
+	.description('Inspect saved question transcripts')
+	.addCommand(listCommand, { isDefault: true })
+	.addCommand(showCommand)
+	.addCommand(renderCommand);
@@ -1,4 +1,6 @@
 import { ensureServer, type ServerManager } from '../server/manager.ts';
+import { BtcaError } from '../client/index.ts';
+import { loadThread, type LocalThread } from '../lib/threads.ts';
 
 // Store server reference globally so TUI can access it
 declare global {
@@ -11,6 +13,8 @@ declare global {
 				showTools: boolean;
 		  }
 		| undefined;
+	// eslint-disable-next-line no-var
+	var __BTCA_RESUME_THREAD__: LocalThread | undefined;
 }
 
 export interface TuiOptions {
@@ -19,12 +23,21 @@ export interface TuiOptions {
 	thinking?: boolean;
 	tools?: boolean;
 	subAgent?: boolean;
+	thread?: string;
 }
 
 /**
  * Launch the interactive TUI
  */
 export async function launchTui(options: TuiOptions): Promise<void> {
+	// Load the thread before starting anything so a bad id fails with a plain error
+	const thread = options.thread ? await loadThread(options.thread) : null;
+	if (options.thread && !thread) {
+		throw new BtcaError(`Thread "${options.thread}" not found`, {
+			hint: 'Run "btca threads list" to see saved threads.'
+		});
+	}
+
 	const server = await ensureServer({
 		serverUrl: options.server,
 		port: options.port
@@ -36,6 +49,7 @@ export async function launchTui(options: TuiOptions): Promise<void> {
 		showThinking: options.subAgent ? false : (options.thinking ?? true),
 		showTools: options.subAgent ? false : (options.tools ?? true)
 	};
+	globalThis.__BTCA_RESUME_THREAD__ = thread ?? undefined;
 
 	// Import and run TUI (dynamic import to avoid loading TUI deps when not needed)
 	await import('../tui/App.tsx');
@@ -0,0 +1,87 @@
+import { Result } from 'better-result';
+import { Command } from 'commander';
+import { ensureServer } from '../server/manager.ts';
+import {
+	createClient,
+	getResources,
+	refreshResource,
+	BtcaError,
+	type ResourceRefreshResult
+} from '../client/index.ts';
+
+/**
+ * Format an error for display, including hint if available.
+ */
+function formatError(error: unknown): string {
+	if (error instanceof BtcaError) {
+		let output = `Error: ${error.message}`;
+		if (error.hint) {
+			output += `\n\nHint: ${error.hint}`;
+		}
+		return output;
+	}
+	return `Error: ${error instanceof Error ? error.message : String(error)}`;
+}
+
+// Commits and checksums are shortened like `git log --oneline`; npm revisions are already short
+const formatRevision = (revision: string | null) =>
+	revision === null
+		? 'none'
+		: /^[0-9a-f]{40,64}$/.test(revision)
+			? revision.slice(0, 12)
+			: revision;
+
+function formatRefresh(result: ResourceRefreshResult): string {
+	if (result.type === 'local') return `${result.name}: local directory, nothing to update`;
+	if (!result.updated) return `${result.name}: up to date (${formatRevision(result.current)})`;
+	return `${result.name}: ${formatRevision(result.previous)} -> ${formatRevision(result.current)}`;
+}
+
+export const updateCommand = new Command('update')
+	.description('Fetch the latest version of one resource, or all resources')
+	.argument('[name]', 'Resource to update (default: all resources)')
+	.action(async (name: string | undefined, _options, command: Command) => {
+		const globalOpts = command.parent?.opts() as { server?: string; port?: number } | undefined;
+
+		const result = await Result.tryPromise(async () => {
+			const server = await ensureServer({
+				serverUrl: globalOpts?.server,
+				port: globalOpts?.port,
+				quiet: true
+			});
+
+			try {
+				const names = name
+					? [name]
+					: (await getResources(createClient(server.url))).resources.map((r) => r.name);
+
+				if (names.length === 0) {
+					console.log('No resources configured.');
+					return 0;
+				}
+
+				// Keep going after a failure so one broken resource does not block the rest
+				let failed = 0;
+				for (const resourceName of names) {
+					const refreshed = await Result.tryPromise(() =>
+						refreshResource(server.url, resourceName)
+					);
+					if (Result.isError(refreshed)) {
+						failed += 1;
+						console.error(`${resourceName}: ${formatError(refreshed.error)}`);
+					} else {
+						console.log(formatRefresh(refreshed.value));
+					}
+				}
+				return failed;
+			} finally {
+				server.stop();
+			}
+		});
+
+		if (Result.isError(result)) {
+			console.error(formatError(result.error));
+			process.exit(1);
+		}
+		if (result.value > 0) process.exit(1);
+	});
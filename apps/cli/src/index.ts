@@ -2,14 +2,21 @@ import { Result } from 'better-result';
 import { Command } from 'commander';
 import { addCommand } from './commands/add.ts';
 import { askCommand } from './commands/ask.ts';
+import { chatCommand } from './commands/chat.ts';
 import { clearCommand } from './commands/clear.ts';
 import { connectCommand } from './commands/connect.ts';
+import { doctorCommand } from './commands/doctor.ts';
+import { evalCommand } from './commands/eval.ts';
 import { initCommand } from './commands/init.ts';
 import { removeCommand } from './commands/remove.ts';
 import { remoteCommand } from './commands/remote.ts';
 import { serveCommand } from './commands/serve.ts';
+import { threadsCommand } from './commands/threads.ts';
+import { transcriptsCommand } from './commands/transcripts.ts';
+import { updateCommand } from './commands/update.ts';
 import { launchTui } from './commands/tui.ts';
 import { launchRepl } from './commands/repl.ts';
+import { BtcaError } from './client/index.ts';
 import packageJson from '../package.json';
 
 // Version is injected at build time via Bun's define option
@@ -31,14 +38,18 @@ const program = new Command()
 	)
 	.option('--no-thinking', 'Hide reasoning output in REPL mode')
 	.option('--no-tools', 'Hide tool-call traces in REPL mode')
-	.option('--sub-agent', 'Emit clean output (no reasoning/tool traces) in REPL mode');
+	.option('--sub-agent', 'Emit clean output (no reasoning/tool traces) in REPL mode')
+	.option('--thread <id>', 'Resume a saved local thread (see "btca threads list")');
 
 // Resource management commands
 program.addCommand(addCommand);
 program.addCommand(removeCommand);
+program.addCommand(updateCommand);
 
 // Query commands
 program.addCommand(askCommand);
+program.addCommand(chatCommand);
+program.addCommand(evalCommand);
 
 // Configuration commands
 program.addCommand(connectCommand);
@@ -46,7 +57,10 @@ program.addCommand(initCommand);
 
 // Utility commands
 program.addCommand(clearCommand);
+program.addCommand(doctorCommand);
 program.addCommand(serveCommand);
+program.addCommand(threadsCommand);
+program.addCommand(transcriptsCommand);
 
 // Remote mode commands
 program.addCommand(remoteCommand);
@@ -60,6 +74,7 @@ program.action(
 		thinking?: boolean;
 		tools?: boolean;
 		subAgent?: boolean;
+		thread?: string;
 	}) => {
 		const result = await Result.tryPromise(async () => {
 			// --no-tui sets tui to false
@@ -71,10 +86,11 @@ program.action(
 		});
 
 		if (Result.isError(result)) {
-			console.error(
-				'Error:',
-				result.error instanceof Error ? result.error.message : String(result.error)
-			);
+			const error = result.error.cause;
+			console.error('Error:', error instanceof Error ? error.message : String(error));
+			if (error instanceof BtcaError && error.hint) {
+				console.error(`\nHint: ${error.hint}`);
+			}
 			process.exit(1);
 		}
 	}
@@ -0,0 +1,341 @@
+/**
+ * Helpers shared by `btca ask`, its batch mode, and `btca eval`
+ */
+
+import path from 'node:path';
+import { Result } from 'better-result';
+import type {
+	BtcaCitation,
+	BtcaStreamDoneEvent,
+	BtcaStreamEvent,
+	BtcaUsage
+} from 'btca-server/stream/types';
+import { askQuestionStream, BtcaError } from '../client/index.ts';
+import { parseSSEStream } from '../client/stream.ts';
+
+/**
+ * Extract potential @mentions from query string (without modifying the query yet)
+ */
+export function extractMentions(query: string): string[] {
+	const mentionRegex = /(^|[^\w@])@([A-Za-z0-9._/-]+)/g;
+	const mentions: string[] = [];
+	let match;
+
+	while ((match = mentionRegex.exec(query)) !== null) {
+		if (match[2]) {
+			mentions.push(match[2]);
+		}
+	}
+
+	return mentions;
+}
+
+/**
+ * Remove only the valid resource @mentions from the query, leaving others intact
+ */
+export function cleanQueryOfValidResources(query: string, validResources: string[]): string {
+	const validSet = new Set(validResources.map((r) => r.toLowerCase()));
+	return query
+		.replace(/(^|[^\w@])@([A-Za-z0-9._/-]+)/g, (match, prefix, mention) => {
+			return validSet.has(mention.toLowerCase()) ? prefix : match;
+		})
+		.replace(/\s+/g, ' ')
+		.trim();
+}
+
+/**
+ * Merge CLI -r flags with @mentions, deduplicating
+ */
+export function mergeResources(cliResources: string[], mentionedResources: string[]): string[] {
+	const all = [...cliResources, ...mentionedResources];
+	return [...new Set(all)];
+}
+
+type AvailableResource = { name: string };
+
+function resolveResourceName(input: string, available: AvailableResource[]): string | null {
+	const target = input.toLowerCase();
+	const direct = available.find((r) => r.name.toLowerCase() === target);
+	if (direct) return direct.name;
+
+	if (target.startsWith('@')) {
+		const withoutAt = target.slice(1);
+		const match = available.find((r) => r.name.toLowerCase() === withoutAt);
+		return match?.name ?? null;
+	}
+
+	const withAt = `@${target}`;
+	const match = available.find((r) => r.name.toLowerCase() === withAt);
+	return match?.name ?? null;
+}
+
+export function normalizeResourceNames(
+	inputs: string[],
+	available: AvailableResource[]
+): { names: string[]; invalid: string[] } {
+	const resolved: string[] = [];
+	const invalid: string[] = [];
+
+	for (const input of inputs) {
+		const resolvedName = resolveResourceName(input, available);
+		if (resolvedName) resolved.push(resolvedName);
+		else invalid.push(input);
+	}
+
+	return { names: [...new Set(resolved)], invalid };
+}
+
+export type AskError = { tag: string; message: string; hint?: string };
+
+// Ids become file names in the output directory
+const ENTRY_ID_REGEX = /^[A-Za-z0-9._-]+$/;
+
+/**
+ * One question from a `--file` batch or an eval suite
+ */
+export interface QuestionEntry {
+	id: string;
+	question: string;
+	resources: string[];
+}
+
+export const invalidQuestionFile = (message: string, hint?: string) =>
+	new BtcaError(message, { tag: 'RequestError', hint });
+
+/**
+ * Check the id, question, and resources of one entry. `where` names it in error messages.
+ */
+export function parseQuestionEntry(value: unknown, where: string): QuestionEntry {
+	if (!value || typeof value !== 'object' || Array.isArray(value)) {
+		throw invalidQuestionFile(`${where} must be an object with "id" and "question"`);
+	}
+	const { id, question, resources } = value as Record<string, unknown>;
+	if (typeof id !== 'string' || !ENTRY_ID_REGEX.test(id)) {
+		throw invalidQuestionFile(
+			`${where} needs an "id" made of letters, numbers, ".", "_", or "-"`,
+			'The id is used as the file name of the answer.'
+		);
+	}
+	if (typeof question !== 'string' || !question.trim()) {
+		throw invalidQuestionFile(`${where} ("${id}") needs a non-empty "question"`);
+	}
+	if (
+		resources !== undefined &&
+		(!Array.isArray(resources) || resources.some((r) => typeof r !== 'string'))
+	) {
+		throw invalidQuestionFile(`${where} ("${id}") has "resources" that are not a list of names`);
+	}
+	return { id, question, resources: (resources as string[] | undefined) ?? [] };
+}
+
+/**
+ * Read a JSONL (one entry per line) or YAML (a list of entries) question file, checking
+ * each entry with `parse`. Ids must be unique.
+ */
+export async function readQuestionFile<T extends { id: string }>(
+	file: string,
+	parse: (value: unknown, where: string) => T
+): Promise<T[]> {
+	const text = await Result.tryPromise(() => Bun.file(file).text());
+	if (text.isErr()) throw invalidQuestionFile(`Cannot read question file "${file}"`);
+
+	const extension = path.extname(file).toLowerCase();
+	let entries: T[];
+	if (extension === '.jsonl' || extension === '.ndjson') {
+		entries = text.value.split(/\r?\n/).flatMap((line, index) => {
+			if (!line.trim()) return [];
+			const parsed = Result.try(() => JSON.parse(line) as unknown);
+			if (parsed.isErr()) {
+				throw invalidQuestionFile(`Line ${index + 1} of "${file}" is not valid JSON`);
+			}
+			return [parse(parsed.value, `Line ${index + 1}`)];
+		});
+	} else if (extension === '.yaml' || extension === '.yml') {
+		const parsed = Result.try(() => Bun.YAML.parse(text.value) as unknown);
+		if (parsed.isErr()) throw invalidQuestionFile(`"${file}" is not valid YAML`);
+		if (!Array.isArray(parsed.value)) {
+			throw invalidQuestionFile(`"${file}" must contain a list of questions`);
+		}
+		entries = parsed.value.map((value, index) => parse(value, `Entry ${index + 1}`));
+	} else {
+		throw invalidQuestionFile(
+			`Unsupported question file "${file}"`,
+			'Use a .jsonl file with one question per line, or a .yaml file with a list of questions.'
+		);
+	}
+
+	if (entries.length === 0) throw invalidQuestionFile(`"${file}" has no questions`);
+	const seen = new Set<string>();
+	for (const entry of entries) {
+		if (seen.has(entry.id)) throw invalidQuestionFile(`Duplicate id "${entry.id}" in "${file}"`);
+		seen.add(entry.id);
+	}
+	return entries;
+}
+
+/**
+ * Resolve an entry's resources (its list plus @mentions) against the configured ones.
+ * Entries without resources search all of them.
+ */
+export function resolveQuestionEntry(
+	entry: QuestionEntry,
+	available: AvailableResource[]
+): { resourceNames: string[]; cleanedQuestion: string } {
+	const requested = mergeResources(entry.resources, extractMentions(entry.question));
+	const normalized = normalizeResourceNames(requested, available);
+	if (normalized.invalid.length > 0) {
+		throw invalidQuestionFile(
+			`"${entry.id}" uses unknown resource(s): ${normalized.invalid.join(', ')}`,
+			'Check the resource names in your btca config file.'
+		);
+	}
+	return {
+		resourceNames: normalized.names.length > 0 ? normalized.names : available.map((r) => r.name),
+		cleanedQuestion: cleanQueryOfValidResources(entry.question, normalized.names)
+	};
+}
+
+/**
+ * Run `run` over every item with at most `limit` calls in flight.
+ */
+export async function mapWithConcurrency<T, R>(
+	items: readonly T[],
+	limit: number,
+	run: (item: T) => Promise<R>
+): Promise<R[]> {
+	const results: R[] = new Array(items.length);
+	let next = 0;
+	const worker = async () => {
+		while (next < items.length) {
+			const index = next++;
+			results[index] = await run(items[index]!);
+		}
+	};
+	await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+	return results;
+}
+
+type AskToolCall = {
+	callID: string;
+	tool: string;
+	status: BtcaStreamDoneEvent['tools'][number]['state']['status'];
+	input: unknown;
+	output?: string;
+	error?: string;
+};
+
+/**
+ * Final object printed by `--format json`
+ */
+export interface AskJsonResult {
+	ok: boolean;
+	answer: string;
+	model: { provider: string; model: string } | null;
+	resources: string[];
+	collectionKey: string | null;
+	commits: Record<string, string> | null;
+	cached: boolean;
+	canceled: boolean;
+	toolCalls: AskToolCall[];
+	usage: BtcaUsage | null;
+	citations: BtcaCitation[];
+	error: AskError | null;
+}
+
+export const createJsonResult = (resources: string[]): AskJsonResult => ({
+	ok: true,
+	answer: '',
+	model: null,
+	resources,
+	collectionKey: null,
+	commits: null,
+	cached: false,
+	canceled: false,
+	toolCalls: [],
+	usage: null,
+	citations: [],
+	error: null
+});
+
+/**
+ * Fold one stream event into the `--format json` result.
+ */
+export function collectJsonEvent(result: AskJsonResult, event: BtcaStreamEvent): void {
+	switch (event.type) {
+		case 'meta':
+			result.model = event.model;
+			result.resources = event.resources;
+			result.collectionKey = event.collection.key;
+			result.commits = event.commits ?? null;
+			result.cached = event.cached ?? false;
+			break;
+		case 'text.delta':
+			result.answer += event.delta;
+			break;
+		case 'citation': {
+			const { type: _type, ...citation } = event;
+			result.citations.push(citation);
+			break;
+		}
+		case 'done':
+			result.answer = event.text || result.answer;
+			result.canceled = event.canceled ?? false;
+			result.usage = event.usage ?? null;
+			result.toolCalls = event.tools.map(({ callID, tool, state }) => ({
+				callID,
+				tool,
+				status: state.status,
+				input: state.input,
+				...(state.status === 'completed' && { output: state.output }),
+				...(state.status === 'error' && { error: state.error })
+			}));
+			break;
+		case 'error':
+			result.error = { tag: event.tag, message: event.message };
+			break;
+		case 'reasoning.delta':
+		case 'tool.updated':
+			break;
+	}
+}
+
+/**
+ * Ask one question and fold the whole answer stream into a `--format json` result.
+ * Errors before the stream starts are thrown; errors in the stream end up in `error`.
+ */
+export async function askForJsonResult(
+	serverUrl: string,
+	args: { question: string; resources: string[]; profile?: string }
+): Promise<AskJsonResult> {
+	const response = await askQuestionStream(serverUrl, {
+		question: args.question,
+		resources: args.resources,
+		quiet: true,
+		profile: args.profile
+	});
+	const result = createJsonResult(args.resources);
+	for await (const event of parseSSEStream(response)) collectJsonEvent(result, event);
+	result.ok = !result.error && !result.canceled;
+	return result;
+}
+
+/**
+ * The tag and message of an error thrown while asking (the `cause` of a failed
+ * `Result.tryPromise`).
+ */
+export function toAskError(cause: unknown): AskError {
+	const tag = (cause instanceof BtcaError && cause.tag) || 'UnknownError';
+	const message = cause instanceof Error ? cause.message : String(cause);
+	return { tag, message };
+}
+
+/**
+ * Format a citation as "resource/path:start-end", followed by its permalink when known.
+ */
+export function formatCitation(citation: BtcaCitation): string {
+	const lines = citation.startLine
+		? `:${citation.startLine}${citation.endLine && citation.endLine !== citation.startLine ? `-${citation.endLine}` : ''}`
+		: '';
+	const location = `${citation.resource}/${citation.path}${lines}`;
+	return citation.url ? `${location} ${citation.url}` : location;
+}
@@ -0,0 +1,265 @@
+/**
+ * Eval suites for `btca eval`
+ * A suite is a question file whose entries also list the facts a good answer must contain,
+ * the files it must cite, and the claims it must not make. Runs are saved as JSON so two
+ * of them (models, profiles, or prompt changes) can be compared later.
+ */
+
+import type { BtcaUsage } from 'btca-server/stream/types';
+import {
+	invalidQuestionFile,
+	parseQuestionEntry,
+	type AskError,
+	type AskJsonResult,
+	type QuestionEntry
+} from './ask.ts';
+
+export type EvalCheckKind = 'contains' | 'matches' | 'cites' | 'forbidden';
+
+const CHECK_KINDS: EvalCheckKind[] = ['contains', 'matches', 'cites', 'forbidden'];
+
+export interface EvalCase extends QuestionEntry {
+	expect: Record<EvalCheckKind, string[]>;
+}
+
+export interface EvalCheck {
+	kind: EvalCheckKind;
+	expected: string;
+	passed: boolean;
+}
+
+export interface EvalCaseResult {
+	id: string;
+	question: string;
+	/** Answered without errors and every check passed */
+	passed: boolean;
+	/** Share of checks that passed, 0 when the question could not be answered */
+	score: number;
+	checks: EvalCheck[];
+	answer: string;
+	citations: string[];
+	toolCalls: number;
+	latencyMs: number;
+	usage: BtcaUsage | null;
+	error: AskError | null;
+}
+
+export interface EvalSummary {
+	total: number;
+	passed: number;
+	failed: number;
+	errored: number;
+	score: number;
+	toolCalls: number;
+	latencyMs: number;
+	totalTokens: number;
+	costUsd: number | null;
+}
+
+/**
+ * The file written by `btca eval run` and read by `btca eval compare`
+ */
+export interface EvalRun {
+	version: 1;
+	suite: string;
+	startedAt: string;
+	finishedAt: string;
+	model: { provider: string; model: string } | null;
+	profile: string | null;
+	/** 'replay' runs answered from recorded responses, 'record' runs saved them */
+	mode: 'live' | 'record' | 'replay';
+	summary: EvalSummary;
+	results: EvalCaseResult[];
+}
+
+// "/pattern/flags" is a regex; anything else in `matches` is a case-insensitive pattern
+const REGEX_LITERAL = /^\/(.+)\/([dgimsuy]*)$/;
+
+const toRegex = (value: string) => {
+	const literal = REGEX_LITERAL.exec(value);
+	return literal ? new RegExp(literal[1]!, literal[2]) : new RegExp(value, 'i');
+};
+
+/**
+ * Check one suite entry: the question fields plus an optional `expect` block.
+ */
+export function parseEvalCase(value: unknown, where: string): EvalCase {
+	const entry = parseQuestionEntry(value, where);
+	const raw = (value as Record<string, unknown>).expect ?? {};
+	if (typeof raw !== 'object' || Array.isArray(raw) || raw === null) {
+		throw invalidQuestionFile(`${where} ("${entry.id}") has an "expect" that is not an object`);
+	}
+
+	const expect = {} as EvalCase['expect'];
+	for (const kind of CHECK_KINDS) {
+		const list = (raw as Record<string, unknown>)[kind] ?? [];
+		const values = typeof list === 'string' ? [list] : list;
+		if (!Array.isArray(values) || values.some((v) => typeof v !== 'string' || !v)) {
+			throw invalidQuestionFile(
+				`${where} ("${entry.id}") has "expect.${kind}" that is not a list of strings`
+			);
+		}
+		expect[kind] = values as string[];
+	}
+
+	const unknown = Object.keys(raw).filter((key) => !CHECK_KINDS.includes(key as EvalCheckKind));
+	if (unknown.length > 0) {
+		throw invalidQuestionFile(
+			`${where} ("${entry.id}") has unknown checks: ${unknown.join(', ')}`,
+			`Use ${CHECK_KINDS.join(', ')}.`
+		);
+	}
+
+	// Bad patterns should fail before any question is asked
+	for (const pattern of [
+		...expect.matches,
+		...expect.forbidden.filter((f) => REGEX_LITERAL.test(f))
+	]) {
+		try {
+			toRegex(pattern);
+		} catch {
+			throw invalidQuestionFile(`${where} ("${entry.id}") has an invalid pattern: ${pattern}`);
+		}
+	}
+
+	return { ...entry, expect };
+}
+
+const containsText = (answer: string, value: string) =>
+	answer.toLowerCase().includes(value.toLowerCase());
+
+// A forbidden claim is a substring, or a regex when written as "/pattern/flags"
+const makesClaim = (answer: string, claim: string) =>
+	REGEX_LITERAL.test(claim) ? toRegex(claim).test(answer) : containsText(answer, claim);
+
+// "path/file.ts" matches that file in any resource, "resource/path/file.ts" only in one
+const isCited = (cited: string[], file: string) =>
+	cited.some((location) => location === file || location.endsWith(`/${file}`));
+
+/**
+ * Score one answer against the case's expectations.
+ */
+export function scoreCase(
+	evalCase: EvalCase,
+	answer: AskJsonResult,
+	latencyMs: number
+): EvalCaseResult {
+	const cited = answer.citations
+		.filter((citation) => citation.source === 'answer')
+		.map((citation) => `${citation.resource}/${citation.path}`);
+	const { expect } = evalCase;
+
+	const checks: EvalCheck[] = [
+		...expect.contains.map((expected) => ({
+			kind: 'contains' as const,
+			expected,
+			passed: containsText(answer.answer, expected)
+		})),
+		...expect.matches.map((expected) => ({
+			kind: 'matches' as const,
+			expected,
+			passed: toRegex(expected).test(answer.answer)
+		})),
+		...expect.cites.map((expected) => ({
+			kind: 'cites' as const,
+			expected,
+			passed: isCited(cited, expected)
+		})),
+		...expect.forbidden.map((expected) => ({
+			kind: 'forbidden' as const,
+			expected,
+			passed: !makesClaim(answer.answer, expected)
+		}))
+	];
+
+	const error =
+		answer.error ??
+		(answer.canceled ? { tag: 'Canceled', message: 'The answer was canceled' } : null);
+	const passedChecks = checks.filter((check) => check.passed).length;
+	const score = error ? 0 : checks.length === 0 ? 1 : passedChecks / checks.length;
+
+	return {
+		id: evalCase.id,
+		question: evalCase.question,
+		passed: !error && passedChecks === checks.length,
+		score,
+		checks,
+		answer: answer.answer,
+		citations: [...new Set(cited)],
+		toolCalls: answer.toolCalls.length,
+		latencyMs,
+		usage: answer.usage,
+		error
+	};
+}
+
+/**
+ * Result for a case whose question could not be asked at all
+ */
+export const erroredCase = (
+	evalCase: EvalCase,
+	error: AskError,
+	latencyMs: number
+): EvalCaseResult => ({
+	id: evalCase.id,
+	question: evalCase.question,
+	passed: false,
+	score: 0,
+	checks: [],
+	answer: '',
+	citations: [],
+	toolCalls: 0,
+	latencyMs,
+	usage: null,
+	error
+});
+
+export function summarize(results: EvalCaseResult[]): EvalSummary {
+	const costs = results.map((result) => result.usage?.costUsd);
+	const total = results.length;
+	return {
+		total,
+		passed: results.filter((result) => result.passed).length,
+		failed: results.filter((result) => !result.passed && !result.error).length,
+		errored: results.filter((result) => result.error).length,
+		score: total ? results.reduce((sum, result) => sum + result.score, 0) / total : 0,
+		toolCalls: results.reduce((sum, result) => sum + result.toolCalls, 0),
+		latencyMs: results.reduce((sum, result) => sum + result.latencyMs, 0),
+		totalTokens: results.reduce((sum, result) => sum + (result.usage?.totalTokens ?? 0), 0),
+		costUsd: costs.some((cost) => cost !== undefined)
+			? costs.reduce<number>((sum, cost) => sum + (cost ?? 0), 0)
+			: null
+	};
+}
+
+/**
+ * One row of `btca eval compare`: the same case in the baseline and candidate runs.
+ * A side is null when the case is missing from that run.
+ */
+export interface EvalComparisonRow {
+	id: string;
+	baseline: EvalCaseResult | null;
+	candidate: EvalCaseResult | null;
+	change: 'fixed' | 'regressed' | 'same' | 'added' | 'removed';
+}
+
+export function compareRuns(baseline: EvalRun, candidate: EvalRun): EvalComparisonRow[] {
+	const before = new Map(baseline.results.map((result) => [result.id, result]));
+	const after = new Map(candidate.results.map((result) => [result.id, result]));
+	const ids = [...new Set([...before.keys(), ...after.keys()])];
+
+	return ids.map((id) => {
+		const a = before.get(id) ?? null;
+		const b = after.get(id) ?? null;
+		const change = !a
+			? 'added'
+			: !b
+				? 'removed'
+				: a.passed === b.passed
+					? 'same'
+					: b.passed
+						? 'fixed'
+						: 'regressed';
+		return { id, baseline: a, candidate: b, change };
+	});
+}
@@ -0,0 +1,49 @@
+/**
+ * Exit codes for commands that ask questions
+ * Scripts can tell a broken config from a failing resource, missing provider auth, or a
+ * model failure without parsing error messages
+ */
+
+export const EXIT_CODES = {
+	ok: 0,
+	/** Anything not covered below, such as the server being unreachable */
+	unknown: 1,
+	/** Invalid config, request, provider, model name, agent profile, or replay file */
+	config: 2,
+	/** A resource could not be cloned, downloaded, or loaded */
+	resource: 3,
+	/** The provider is not connected or not authenticated */
+	providerAuth: 4,
+	/** The model or agent failed while answering, including a replay with no recorded response */
+	model: 5,
+	/** Every question was answered, but some failed their `btca eval` checks */
+	evalFailed: 6
+} as const;
+
+export type ExitCode = (typeof EXIT_CODES)[keyof typeof EXIT_CODES];
+
+const EXIT_CODES_BY_TAG: Record<string, ExitCode> = {
+	ConfigError: EXIT_CODES.config,
+	RequestError: EXIT_CODES.config,
+	InvalidProviderError: EXIT_CODES.config,
+	InvalidModelError: EXIT_CODES.config,
+	AgentProfileError: EXIT_CODES.config,
+	ProviderNotFoundError: EXIT_CODES.config,
+	RecordingFileError: EXIT_CODES.config,
+	ResourceError: EXIT_CODES.resource,
+	CollectionError: EXIT_CODES.resource,
+	ProviderNotConnectedError: EXIT_CODES.providerAuth,
+	ProviderNotAuthenticatedError: EXIT_CODES.providerAuth,
+	AgentError: EXIT_CODES.model,
+	RecordingNotFoundError: EXIT_CODES.model
+};
+
+/**
+ * Exit code for a server error tag. Untagged errors in the answer stream come from the
+ * model provider, so `inStream` maps them to a model failure.
+ */
+export function getExitCode(tag: string | undefined, options?: { inStream?: boolean }): ExitCode {
+	const code = tag ? EXIT_CODES_BY_TAG[tag] : undefined;
+	if (code !== undefined) return code;
+	return options?.inStream ? EXIT_CODES.model : EXIT_CODES.unknown;
+}
@@ -0,0 +1,125 @@
+/**
+ * Local thread store for the TUI and REPL
+ * Each conversation is saved as JSON under ~/.local/share/btca/threads, so it can be
+ * reopened later without remote auth
+ */
+
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+import { promises as fs } from 'node:fs';
+import type { ThreadMessage } from '@btca/shared';
+import { Result } from 'better-result';
+import type { Message } from '../tui/types.ts';
+
+const THREADS_DIR = join(homedir(), '.local', 'share', 'btca', 'threads');
+const THREAD_ID_REGEX = /^[a-z0-9-]+$/;
+const MAX_TITLE_LENGTH = 60;
+
+export type LocalThreadMessage = Exclude<Message, { role: 'system' }>;
+
+export interface LocalThread {
+	id: string;
+	title: string;
+	createdAt: string;
+	updatedAt: string;
+	resources: string[];
+	model: { provider: string; model: string };
+	messages: LocalThreadMessage[];
+}
+
+export interface LocalThreadSummary {
+	id: string;
+	title: string;
+	createdAt: string;
+	updatedAt: string;
+	resources: string[];
+	model: { provider: string; model: string };
+	messageCount: number;
+}
+
+const getThreadPath = (id: string) => join(THREADS_DIR, `${id}.json`);
+
+export const isValidThreadId = (id: string) => THREAD_ID_REGEX.test(id);
+
+export const createThreadId = () => crypto.randomUUID().slice(0, 8);
+
+/**
+ * Plain text of a stored user message
+ */
+export const getUserMessageText = (message: Extract<Message, { role: 'user' }>) =>
+	message.content.map((s) => s.content).join('');
+
+/**
+ * Title for a thread, taken from its first question
+ */
+export function getThreadTitle(messages: LocalThreadMessage[]): string {
+	const first = messages.find((m) => m.role === 'user');
+	const text = first ? getUserMessageText(first).replace(/\s+/g, ' ').trim() : '';
+	if (!text) return 'Untitled thread';
+	return text.length > MAX_TITLE_LENGTH ? `${text.slice(0, MAX_TITLE_LENGTH - 1)}…` : text;
+}
+
+/**
+ * Convert stored messages to the conversation history sent with the next question
+ */
+export function toThreadMessages(messages: LocalThreadMessage[]): ThreadMessage[] {
+	return messages.map((m): ThreadMessage => {
+		if (m.role === 'user') {
+			return { role: 'user', content: getUserMessageText(m) };
+		}
+		return { role: 'assistant', content: m.content, canceled: m.canceled };
+	});
+}
+
+/**
+ * Load a thread by id, or null if it does not exist or cannot be read
+ */
+export async function loadThread(id: string): Promise<LocalThread | null> {
+	if (!isValidThreadId(id)) return null;
+	const result = await Result.tryPromise(
+		async () => (await Bun.file(getThreadPath(id)).json()) as LocalThread
+	);
+	return result.isOk() ? result.value : null;
+}
+
+/**
+ * Save a thread, replacing any previous version
+ */
+export async function saveThread(thread: LocalThread): Promise<void> {
+	await fs.mkdir(THREADS_DIR, { recursive: true });
+	await Bun.write(getThreadPath(thread.id), JSON.stringify(thread, null, 2));
+}
+
+/**
+ * Delete a thread. Returns false if it did not exist.
+ */
+export async function deleteThread(id: string): Promise<boolean> {
+	if (!isValidThreadId(id)) return false;
+	const result = await Result.tryPromise(() => fs.unlink(getThreadPath(id)));
+	return result.isOk();
+}
+
+/**
+ * List saved threads, most recently updated first. Unreadable files are skipped.
+ */
+export async function listThreads(): Promise<LocalThreadSummary[]> {
+	const entries = await Result.tryPromise(() => fs.readdir(THREADS_DIR));
+	if (entries.isErr()) return [];
+
+	const summaries: LocalThreadSummary[] = [];
+	for (const entry of entries.value) {
+		if (!entry.endsWith('.json')) continue;
+		const thread = await loadThread(entry.slice(0, -'.json'.length));
+		if (!thread) continue;
+		summaries.push({
+			id: thread.id,
+			title: thread.title,
+			createdAt: thread.createdAt,
+			updatedAt: thread.updatedAt,
+			resources: thread.resources,
+			model: thread.model,
+			messageCount: thread.messages.length
+		});
+	}
+	return summaries.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
@@ -13,8 +13,13 @@ export const COMMANDS: Command[] = [
 	},
 	{
 		name: 'clear',
-		description: 'Clear chat history',
+		description: 'Start a new chat (the current one stays saved)',
 		mode: 'clear'
+	},
+	{
+		name: 'threads',
+		description: 'Browse and reopen saved threads',
+		mode: 'threads'
 	}
 ];
 
@@ -10,6 +10,7 @@ import { CommandPalette } from './command-palette.tsx';
 import { RepoMentionPalette } from './repo-mention-palette.tsx';
 import { BlessedModelSelect } from './blessed-model-select.tsx';
 import { AddResourceWizard } from './add-resource-wizard.tsx';
+import { ThreadSelect } from './thread-select.tsx';
 import { inputHistory } from '../history.ts';
 
 export const InputSection: Component = () => {
@@ -140,6 +141,9 @@ export const InputSection: Component = () => {
 				messages.clearMessages();
 				messages.addSystemMessage('Chat cleared.');
 				break;
+			case 'threads':
+				setActiveWizard('threads');
+				break;
 		}
 	};
 
@@ -245,6 +249,9 @@ export const InputSection: Component = () => {
 			<Show when={activeWizard() === 'add-repo'}>
 				<AddResourceWizard onClose={closeWizard} onStepChange={setCurrentWizardStep} />
 			</Show>
+			<Show when={activeWizard() === 'threads'}>
+				<ThreadSelect onClose={closeWizard} />
+			</Show>
 
 			<StatusBar
 				cursorIn={cursorIsCurrentlyIn()}
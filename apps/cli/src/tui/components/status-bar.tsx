@@ -32,6 +32,10 @@ export const StatusBar: Component<StatusBarProps> = (props) => {
 			return ' [Up/Down] Navigate  [Enter] Select  [Esc] Cancel';
 		}
 
+		if (props.activeWizard === 'threads') {
+			return ' [Up/Down] Navigate  [Enter] Open  [Esc] Cancel';
+		}
+
 		if (props.activeWizard === 'add-repo') {
 			if (props.wizardStep === 'confirm') {
 				return ' [Enter] Get config snippet  [Esc] Cancel';
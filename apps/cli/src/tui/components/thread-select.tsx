@@ -0,0 +1,114 @@
+import { For, Show, createSignal, createMemo, createResource, type Component } from 'solid-js';
+import { useKeyboard } from '@opentui/solid';
+
+import { colors } from '../theme.ts';
+import { useMessagesContext } from '../context/messages-context.tsx';
+import { listThreads, loadThread } from '../../lib/threads.ts';
+
+const VISIBLE_THREADS = 10;
+
+interface ThreadSelectProps {
+	onClose: () => void;
+}
+
+export const ThreadSelect: Component<ThreadSelectProps> = (props) => {
+	const messages = useMessagesContext();
+
+	const [threads] = createResource(listThreads);
+	const [selectedIndex, setSelectedIndex] = createSignal(0);
+
+	const count = () => threads()?.length ?? 0;
+
+	// Scroll the list so the selected thread stays visible
+	const visibleThreads = createMemo(() => {
+		const all = threads() ?? [];
+		const offset = Math.max(0, selectedIndex() - VISIBLE_THREADS + 1);
+		return all.slice(offset, offset + VISIBLE_THREADS).map((thread, i) => ({
+			thread,
+			index: offset + i
+		}));
+	});
+
+	const handleSelect = async () => {
+		const summary = threads()?.[selectedIndex()];
+		if (!summary) return;
+
+		const thread = await loadThread(summary.id);
+		if (thread) {
+			messages.openThread(thread);
+		} else {
+			messages.addSystemMessage(`Error: Thread ${summary.id} could not be read.`);
+		}
+		props.onClose();
+	};
+
+	useKeyboard((key) => {
+		switch (key.name) {
+			case 'escape':
+				props.onClose();
+				break;
+			case 'up':
+				if (count() === 0) break;
+				setSelectedIndex(selectedIndex() > 0 ? selectedIndex() - 1 : count() - 1);
+				break;
+			case 'down':
+				if (count() === 0) break;
+				setSelectedIndex(selectedIndex() < count() - 1 ? selectedIndex() + 1 : 0);
+				break;
+			case 'return':
+				handleSelect();
+				break;
+		}
+	});
+
+	return (
+		<box
+			style={{
+				position: 'absolute',
+				bottom: 4,
+				left: 0,
+				width: '100%',
+				zIndex: 100,
+				backgroundColor: colors.bgSubtle,
+				border: true,
+				borderColor: colors.accent,
+				flexDirection: 'column',
+				padding: 1
+			}}
+		>
+			<text fg={colors.accent} content=" Saved Threads" />
+			<text
+				fg={colors.textMuted}
+				content=" Use arrow keys to navigate, Enter to open, Esc to cancel"
+			/>
+			<text content="" style={{ height: 1 }} />
+			<Show when={!threads.loading && count() === 0}>
+				<text fg={colors.textSubtle} content="  No saved threads yet." />
+			</Show>
+			<For each={visibleThreads()}>
+				{(item) => {
+					const isSelected = () => item.index === selectedIndex();
+					const isCurrent = () => item.thread.id === messages.threadId();
+					const details = () =>
+						`${new Date(item.thread.updatedAt).toLocaleString()}  ${item.thread.resources
+							.map((r) => `@${r}`)
+							.join(' ')}${isCurrent() ? ' (current)' : ''}`;
+					return (
+						<box style={{ flexDirection: 'row' }}>
+							<text
+								fg={isSelected() ? colors.accent : colors.text}
+								content={isSelected() ? '> ' : '  '}
+							/>
+							<text
+								fg={isSelected() ? colors.accent : colors.text}
+								content={item.thread.title}
+								style={{ width: 62 }}
+							/>
+							<text fg={isCurrent() ? colors.success : colors.textSubtle} content={details()} />
+						</box>
+					);
+				}}
+			</For>
+		</box>
+	);
+};
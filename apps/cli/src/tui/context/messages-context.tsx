@@ -6,13 +6,21 @@ import {
 	type Component,
 	type ParentProps
 } from 'solid-js';
-import { formatConversationHistory, type ThreadMessage } from '@btca/shared';
 import { Result } from 'better-result';
 
 import type { Message, InputState, CancelState, BtcaChunk } from '../types.ts';
 import { services, type ChunkUpdate } from '../services.ts';
 import { copyToClipboard } from '../clipboard.ts';
 import { formatError } from '../lib/format-error.ts';
+import { useConfigContext } from './config-context.tsx';
+import {
+	createThreadId,
+	getThreadTitle,
+	saveThread,
+	toThreadMessages,
+	type LocalThread,
+	type LocalThreadMessage
+} from '../../lib/threads.ts';
 
 type MessagesState = {
 	// Message history
@@ -20,6 +28,10 @@ type MessagesState = {
 	addSystemMessage: (content: string) => void;
 	clearMessages: () => void;
 
+	// Saved thread - null until the first question of a new conversation
+	threadId: Accessor<string | null>;
+	openThread: (thread: LocalThread) => void;
+
 	// Thread resources - accumulates @mentions across the conversation
 	threadResources: Accessor<string[]>;
 
@@ -50,8 +62,12 @@ const defaultMessageHistory: Message[] = [
 ];
 
 export const MessagesProvider: Component<ParentProps> = (props) => {
+	const config = useConfigContext();
+
 	const [messages, setMessages] = createSignal<Message[]>(defaultMessageHistory);
 	const [threadResources, setThreadResources] = createSignal<string[]>([]);
+	const [threadId, setThreadId] = createSignal<string | null>(null);
+	const [threadCreatedAt, setThreadCreatedAt] = createSignal('');
 	const [isStreaming, setIsStreaming] = createSignal(false);
 	const [cancelState, setCancelState] = createSignal<CancelState>('none');
 
@@ -98,7 +114,12 @@ export const MessagesProvider: Component<ParentProps> = (props) => {
 							return { ...c, text: updates.text as string };
 						}
 						if (c.type === 'tool' && 'state' in updates) {
-							return { ...c, state: updates.state as 'pending' | 'running' | 'completed' };
+							return {
+								...c,
+								state: updates.state as 'pending' | 'running' | 'completed',
+								...('input' in updates && { input: updates.input }),
+								...('output' in updates && { output: updates.output as string | undefined })
+							};
 						}
 						return c;
 					});
@@ -135,31 +156,35 @@ export const MessagesProvider: Component<ParentProps> = (props) => {
 		}
 	};
 
+	// User and assistant messages, in the form they are saved and sent as history
+	const getConversation = (): LocalThreadMessage[] =>
+		messages().filter((m): m is LocalThreadMessage => m.role === 'user' || m.role === 'assistant');
+
 	/**
-	 * Convert local TUI messages to ThreadMessage format for history building.
-	 * The TUI uses InputState for user messages, which needs to be flattened to string.
+	 * Save the current conversation as a local thread so it can be reopened with /threads
 	 */
-	const convertToThreadMessages = (): ThreadMessage[] => {
-		return messages()
-			.filter(
-				(m): m is Exclude<Message, { role: 'system' }> =>
-					m.role === 'user' || m.role === 'assistant'
-			)
-			.map((m): ThreadMessage => {
-				if (m.role === 'user') {
-					// Flatten InputState segments to plain string
-					return {
-						role: 'user',
-						content: m.content.map((s) => s.content).join('')
-					};
-				}
-				// Assistant messages - content is already compatible with ThreadMessage
-				return {
-					role: 'assistant',
-					content: m.content,
-					canceled: m.canceled
-				};
+	const persistThread = async () => {
+		const id = threadId();
+		const conversation = getConversation();
+		if (!id || conversation.length === 0) return;
+
+		const result = await Result.tryPromise(() =>
+			saveThread({
+				id,
+				title: getThreadTitle(conversation),
+				createdAt: threadCreatedAt(),
+				updatedAt: new Date().toISOString(),
+				resources: threadResources(),
+				model: { provider: config.selectedProvider(), model: config.selectedModel() },
+				messages: conversation
+			})
+		);
+		if (result.isErr()) {
+			addMessage({
+				role: 'system',
+				content: `Could not save thread: ${formatError(result.error)}`
 			});
+		}
 	};
 
 	// Main send method
@@ -176,8 +201,14 @@ export const MessagesProvider: Component<ParentProps> = (props) => {
 		const updatedResources = [...new Set([...currentResources, ...newResources])];
 		setThreadResources(updatedResources);
 
-		// Convert messages to thread format for history building (before adding new message)
-		const threadMessages = convertToThreadMessages();
+		// Convert messages to thread format for conversation history (before adding new message)
+		const threadMessages = toThreadMessages(getConversation());
+
+		// The first question of a conversation starts a new saved thread
+		if (!threadId()) {
+			setThreadId(createThreadId());
+			setThreadCreatedAt(new Date().toISOString());
+		}
 
 		// Add user message
 		addMessage({ role: 'user', content: input });
@@ -188,13 +219,11 @@ export const MessagesProvider: Component<ParentProps> = (props) => {
 		setIsStreaming(true);
 		setCancelState('none');
 
-		// Build the full question with history using shared formatting
-		const questionWithHistory = formatConversationHistory(threadMessages, question);
-
 		const result = await Result.tryPromise(async () => {
 			const finalChunks = await services.askQuestion(
 				updatedResources,
-				questionWithHistory,
+				question,
+				threadMessages,
 				handleChunkUpdate
 			);
 
@@ -214,6 +243,7 @@ export const MessagesProvider: Component<ParentProps> = (props) => {
 		}
 		setIsStreaming(false);
 		setCancelState('none');
+		await persistThread();
 	};
 
 	const requestCancel = () => {
@@ -228,17 +258,45 @@ export const MessagesProvider: Component<ParentProps> = (props) => {
 		addMessage({ role: 'system', content: 'Request canceled.' });
 		setIsStreaming(false);
 		setCancelState('none');
+		await persistThread();
 	};
 
+	// The current thread stays saved; the next question starts a new one
 	const clearMessages = () => {
 		setMessages(defaultMessageHistory);
 		setThreadResources([]);
+		setThreadId(null);
+	};
+
+	const openThread = (thread: LocalThread) => {
+		const threadModel = `${thread.model.provider}/${thread.model.model}`;
+		const currentModel = `${config.selectedProvider()}/${config.selectedModel()}`;
+		const notes: Message[] = [
+			{ role: 'system', content: `Resumed thread ${thread.id}: ${thread.title}` }
+		];
+		// The model is server config, so reopening a thread does not switch it
+		if (config.selectedModel() && threadModel !== currentModel) {
+			notes.push({
+				role: 'system',
+				content: `This thread was answered by ${threadModel}. Use /model to switch from ${currentModel}.`
+			});
+		}
+		setMessages([...defaultMessageHistory, ...thread.messages, ...notes]);
+		setThreadResources(thread.resources);
+		setThreadId(thread.id);
+		setThreadCreatedAt(thread.createdAt);
 	};
 
+	// Thread passed with `btca --thread <id>`
+	const resumeThread = globalThis.__BTCA_RESUME_THREAD__;
+	if (resumeThread) openThread(resumeThread);
+
 	const state: MessagesState = {
 		messages,
 		addSystemMessage: (content) => addMessage({ role: 'system', content }),
 		clearMessages,
+		threadId,
+		openThread,
 		threadResources,
 		isStreaming,
 		cancelState,
@@ -1,3 +1,4 @@
+import type { ThreadMessage } from '@btca/shared';
 import { Result } from 'better-result';
 import type { BtcaStreamEvent } from 'btca-server/stream/types';
 
@@ -6,6 +7,7 @@ import {
 	getConfig,
 	getResources,
 	askQuestionStream,
+	cancelQuestion,
 	updateModel as updateModelClient,
 	addResource as addResourceClient,
 	removeResource as removeResourceClient,
@@ -21,8 +23,9 @@ const getServerUrl = (): string => {
 	return server.url;
 };
 
-// Current request abort controller for cancellation
+// Current request abort controller and server-side question id for cancellation
 let currentAbortController: AbortController | null = null;
+let currentQuestionId: string | null = null;
 
 export type ChunkUpdate =
 	| { type: 'add'; chunk: BtcaChunk }
@@ -67,6 +70,7 @@ export const services = {
 	askQuestion: async (
 		resourceNames: string[],
 		question: string,
+		history: ThreadMessage[],
 		onChunkUpdate: (update: ChunkUpdate) => void
 	): Promise<BtcaChunk[]> => {
 		const serverUrl = getServerUrl();
@@ -77,6 +81,7 @@ export const services = {
 
 		const response = await askQuestionStream(serverUrl, {
 			question,
+			messages: history,
 			resources: resourceNames,
 			quiet: true,
 			signal
@@ -89,6 +94,7 @@ export const services = {
 		const streamResult = await Result.tryPromise(async () => {
 			for await (const event of parseSSEStream(response)) {
 				if (signal.aborted) break;
+				if (event.type === 'meta') currentQuestionId = event.questionId ?? null;
 				processStreamEvent(event, chunksById, chunkOrder, onChunkUpdate);
 			}
 		});
@@ -100,6 +106,7 @@ export const services = {
 		}
 
 		currentAbortController = null;
+		currentQuestionId = null;
 		return chunkOrder.map((id) => chunksById.get(id)!);
 	},
 
@@ -107,6 +114,12 @@ export const services = {
 	 * Cancel the current request
 	 */
 	cancelCurrentRequest: async (): Promise<void> => {
+		// Stop the agent on the server first so it doesn't keep running tools and model calls
+		if (currentQuestionId) {
+			const questionId = currentQuestionId;
+			currentQuestionId = null;
+			await Result.tryPromise(() => cancelQuestion(getServerUrl(), questionId));
+		}
 		if (currentAbortController) {
 			currentAbortController.abort();
 			currentAbortController = null;
@@ -193,15 +206,25 @@ function processStreamEvent(
 						? 'running'
 						: 'completed';
 
+			const output = event.state.status === 'completed' ? event.state.output : undefined;
+
 			if (existing && existing.type === 'tool') {
 				existing.state = state;
-				onChunkUpdate({ type: 'update', id: event.callID, chunk: { state } });
+				existing.input = event.state.input;
+				existing.output = output;
+				onChunkUpdate({
+					type: 'update',
+					id: event.callID,
+					chunk: { state, input: event.state.input, output }
+				});
 			} else {
 				const chunk: BtcaChunk = {
 					type: 'tool',
 					id: event.callID,
 					toolName: event.tool,
-					state
+					state,
+					input: event.state.input,
+					output
 				};
 				chunksById.set(event.callID, chunk);
 				chunkOrder.push(event.callID);
@@ -211,6 +234,7 @@ function processStreamEvent(
 		}
 
 		case 'meta':
+		case 'citation':
 		case 'done':
 		case 'error':
 			// Handled elsewhere or informational
@@ -47,9 +47,9 @@ export type Message =
 			content: string;
 	  };
 
-export type CommandMode = 'add-repo' | 'select-blessed-model' | 'clear';
+export type CommandMode = 'add-repo' | 'select-blessed-model' | 'clear' | 'threads';
 
-export type ActiveWizard = 'none' | 'add-repo' | 'blessed-model';
+export type ActiveWizard = 'none' | 'add-repo' | 'blessed-model' | 'threads';
 
 export type WizardStep =
 	| 'type'
@@ -0,0 +1,158 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+
+import {
+	clearVirtualCollectionMetadata,
+	setVirtualCollectionMetadata
+} from '../collections/virtual-metadata.ts';
+import { AnswerCache } from './cache.ts';
+import { AgentProfiles } from './profiles.ts';
+
+const model = { provider: 'anthropic', model: 'claude-sonnet-4' };
+const answer = (text: string): AnswerCache.Answer => ({ text, tools: [], citations: [] });
+const lookup = (question: string, commit = 'aaa'): AnswerCache.Lookup => ({
+	question,
+	collectionKey: 'svelte',
+	commits: { svelte: commit },
+	model,
+	profile: 'default',
+	instructions: 'notes'
+});
+
+describe('AnswerCache', () => {
+	let maxEntries: number;
+	let cache: AnswerCache.Service;
+
+	beforeEach(() => {
+		maxEntries = 200;
+		cache = AnswerCache.create({ getMaxEntries: () => maxEntries });
+	});
+
+	it('returns cached answers for repeated questions', () => {
+		cache.set({ ...lookup('How do I create a store?'), answer: answer('Use writable.') });
+
+		const hit = cache.get(lookup('  how do I   create a store? '));
+		expect(hit?.text).toBe('Use writable.');
+		expect(hit?.hits).toBe(1);
+		expect(
+			cache.get({ ...lookup('How do I create a store?'), model: { ...model, model: 'x' } })
+		).toBeNull();
+		expect(cache.get({ ...lookup('How do I create a store?'), profile: 'deep' })).toBeNull();
+		expect(cache.get({ ...lookup('How do I create a store?'), instructions: 'new' })).toBeNull();
+	});
+
+	it('skips partial answers when a complete one is required', () => {
+		cache.set({
+			...lookup('How do I create a store?'),
+			answer: { ...answer('Use writable.'), partial: true }
+		});
+
+		expect(cache.get(lookup('How do I create a store?'), { complete: true })).toBeNull();
+		expect(cache.get(lookup('How do I create a store?'))?.text).toBe('Use writable.');
+
+		cache.set({ ...lookup('How do I create a store?'), answer: answer('Use writable().') });
+		expect(cache.get(lookup('How do I create a store?'), { complete: true })?.text).toBe(
+			'Use writable().'
+		);
+	});
+
+	it('expires entries when a resource commit changes', () => {
+		cache.set({ ...lookup('What is a rune?'), answer: answer('A compiler hint.') });
+
+		expect(cache.get(lookup('What is a rune?', 'bbb'))).toBeNull();
+		expect(cache.get(lookup('What is a rune?'))).toBeNull();
+		expect(cache.list()).toHaveLength(0);
+	});
+
+	it('evicts the least recently used entry when full', () => {
+		maxEntries = 2;
+		cache.set({ ...lookup('one'), answer: answer('1') });
+		cache.set({ ...lookup('two'), answer: answer('2') });
+		cache.get(lookup('one'));
+		cache.set({ ...lookup('three'), answer: answer('3') });
+
+		expect(cache.list().map((entry) => entry.question)).toEqual(['three', 'one']);
+
+		maxEntries = 0;
+		expect(cache.get(lookup('one'))).toBeNull();
+	});
+
+	it('purges by id and collection', () => {
+		cache.set({ ...lookup('one'), answer: answer('1') });
+		cache.set({ ...lookup('two'), answer: answer('2') });
+		cache.set({
+			...lookup('three'),
+			collectionKey: 'hono',
+			commits: { hono: 'ccc' },
+			answer: answer('3')
+		});
+
+		const [first] = cache.list();
+		expect(cache.purge({ id: first!.id })).toBe(1);
+		expect(cache.purge({ id: 'missing' })).toBe(0);
+		expect(cache.purge({ collectionKey: 'svelte' })).toBe(2);
+		expect(cache.list()).toHaveLength(0);
+	});
+
+	describe('createLookup', () => {
+		const vfsId = 'answer-cache-test';
+
+		afterEach(() => clearVirtualCollectionMetadata(vfsId));
+
+		const setResources = (commits: (string | undefined)[]) =>
+			setVirtualCollectionMetadata({
+				vfsId,
+				collectionKey: 'svelte',
+				createdAt: new Date().toISOString(),
+				resources: commits.map((commit, index) => ({
+					name: `resource-${index}`,
+					fsName: `resource-${index}`,
+					type: commit ? 'git' : 'local',
+					path: `/tmp/resource-${index}`,
+					repoSubPaths: [],
+					...(commit ? { commit } : {}),
+					loadedAt: new Date().toISOString()
+				}))
+			});
+
+		const create = (history: unknown[] = [], agentInstructions = '') =>
+			AnswerCache.createLookup({
+				question: 'q',
+				history,
+				collectionKey: 'svelte',
+				vfsId,
+				agentInstructions,
+				model,
+				profile: AgentProfiles.resolve({})
+			});
+
+		it('skips follow-up questions and uncommitted resources', () => {
+			setResources(['aaa', 'bbb']);
+			expect(create()?.commits).toEqual({ 'resource-0': 'aaa', 'resource-1': 'bbb' });
+			expect(create([{ role: 'user', content: 'earlier' }])).toBeNull();
+
+			setResources(['aaa', undefined]);
+			expect(create()).toBeNull();
+		});
+
+		it('keys on the collection instructions', () => {
+			setResources(['aaa']);
+			const notes = 'Prefer the v5 docs.';
+			expect(create([], notes)?.instructions).toBe(create([], notes)?.instructions);
+			expect(create([], notes)?.instructions).not.toBe(create([], 'Prefer v4.')?.instructions);
+		});
+
+		it('skips inline profiles', () => {
+			setResources(['aaa']);
+			expect(
+				AnswerCache.createLookup({
+					question: 'q',
+					collectionKey: 'svelte',
+					vfsId,
+					agentInstructions: '',
+					model,
+					profile: AgentProfiles.resolve({ requested: { maxSteps: 5 } })
+				})
+			).toBeNull();
+		});
+	});
+});
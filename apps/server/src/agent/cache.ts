@@ -0,0 +1,208 @@
+import { createHash } from 'node:crypto';
+
+import { getVirtualCollectionMetadata } from '../collections/virtual-metadata.ts';
+import { Metrics } from '../metrics/index.ts';
+import { AgentProfiles } from './profiles.ts';
+import type { BtcaCitation, BtcaStreamDoneEvent, BtcaUsage } from '../stream/types.ts';
+
+/**
+ * In-memory cache of answers to repeated questions.
+ *
+ * Entries are keyed by the normalized question, collection key, provider/model, agent profile,
+ * and a hash of the collection's agent instructions (which include resource notes), and record
+ * the commit of every resource in the collection. A lookup against different commits expires
+ * the entry. Collections with resources that have no commit (local directories) are never
+ * cached, since there is no cheap way to tell when they change.
+ */
+export namespace AnswerCache {
+	export type Model = { provider: string; model: string };
+
+	export type Answer = {
+		text: string;
+		tools: BtcaStreamDoneEvent['tools'];
+		citations: BtcaCitation[];
+		usage?: BtcaUsage;
+		/** Answers from POST /question do not collect tools or citations, so streams skip them */
+		partial?: boolean;
+	};
+
+	export type Entry = Answer & {
+		id: string;
+		question: string;
+		collectionKey: string;
+		commits: Record<string, string>;
+		model: Model;
+		profile: string;
+		createdAt: string;
+		hits: number;
+	};
+
+	export type Summary = Omit<Entry, 'text' | 'tools' | 'citations'> & { answerLength: number };
+
+	export type Lookup = {
+		question: string;
+		collectionKey: string;
+		commits: Record<string, string>;
+		model: Model;
+		profile: string;
+		/** Hash of the collection's agent instructions */
+		instructions: string;
+	};
+
+	export type Service = {
+		get: (args: Lookup, options?: { complete?: boolean }) => Entry | null;
+		set: (args: Lookup & { answer: Answer }) => void;
+		list: () => Summary[];
+		purge: (filter?: { id?: string; collectionKey?: string }) => number;
+	};
+
+	export const normalizeQuestion = (question: string) =>
+		question.trim().replace(/\s+/g, ' ').toLowerCase();
+
+	const getId = (args: Omit<Lookup, 'commits'>) =>
+		createHash('sha256')
+			.update(
+				[
+					normalizeQuestion(args.question),
+					args.collectionKey,
+					args.model.provider,
+					args.model.model,
+					args.profile,
+					args.instructions
+				].join('\0')
+			)
+			.digest('hex')
+			.slice(0, 16);
+
+	const sameCommits = (a: Record<string, string>, b: Record<string, string>) => {
+		const keys = Object.keys(a);
+		return keys.length === Object.keys(b).length && keys.every((key) => a[key] === b[key]);
+	};
+
+	/**
+	 * Read the per-resource commits of a loaded collection.
+	 * Returns null if any resource has no commit, which makes the collection uncacheable.
+	 */
+	export const getCollectionCommits = (vfsId?: string) => {
+		const metadata = vfsId ? getVirtualCollectionMetadata(vfsId) : undefined;
+		if (!metadata || metadata.resources.length === 0) return null;
+		const commits: Record<string, string> = {};
+		for (const resource of metadata.resources) {
+			if (!resource.commit) return null;
+			commits[resource.name] = resource.commit;
+		}
+		return commits;
+	};
+
+	/**
+	 * Build the cache lookup for a question, or null when its answer cannot be cached.
+	 * Follow-up questions depend on their history, so only standalone questions are cached.
+	 * Inline profiles have no stable name to key on, so their answers are not cached either.
+	 */
+	export const createLookup = (args: {
+		question: string;
+		history?: readonly unknown[];
+		collectionKey: string;
+		vfsId?: string;
+		agentInstructions: string;
+		model: Model;
+		profile: AgentProfiles.Resolved;
+	}): Lookup | null => {
+		if (args.history && args.history.length > 0) return null;
+		if (args.profile.name === AgentProfiles.INLINE_PROFILE) return null;
+		const commits = getCollectionCommits(args.vfsId);
+		if (!commits) return null;
+		return {
+			question: args.question,
+			collectionKey: args.collectionKey,
+			commits,
+			model: args.model,
+			profile: args.profile.name,
+			instructions: createHash('sha256').update(args.agentInstructions).digest('hex').slice(0, 16)
+		};
+	};
+
+	export const create = (args: { getMaxEntries: () => number }): Service => {
+		// Map iteration order doubles as LRU order (oldest first)
+		const entries = new Map<string, Entry>();
+
+		const remove = (entry: Entry, reason: string) => {
+			entries.delete(entry.id);
+			Metrics.info('answers.cache.evict', {
+				id: entry.id,
+				collectionKey: entry.collectionKey,
+				reason
+			});
+		};
+
+		return {
+			get: (lookup, options = {}) => {
+				if (args.getMaxEntries() === 0) return null;
+				const entry = entries.get(getId(lookup));
+				if (!entry) return null;
+				if (!sameCommits(entry.commits, lookup.commits)) {
+					remove(entry, 'stale');
+					return null;
+				}
+				if (options.complete && entry.partial) return null;
+				entries.delete(entry.id);
+				entries.set(entry.id, entry);
+				entry.hits += 1;
+				Metrics.info('answers.cache.hit', {
+					id: entry.id,
+					collectionKey: entry.collectionKey,
+					hits: entry.hits
+				});
+				return entry;
+			},
+
+			set: ({ answer, ...lookup }) => {
+				const maxEntries = args.getMaxEntries();
+				if (maxEntries === 0 || !answer.text.trim()) return;
+
+				const id = getId(lookup);
+				entries.delete(id);
+				entries.set(id, {
+					...answer,
+					id,
+					question: lookup.question,
+					collectionKey: lookup.collectionKey,
+					commits: lookup.commits,
+					model: lookup.model,
+					profile: lookup.profile,
+					createdAt: new Date().toISOString(),
+					hits: 0
+				});
+				for (const entry of Array.from(entries.values())) {
+					if (entries.size <= maxEntries) break;
+					remove(entry, 'capacity');
+				}
+				Metrics.info('answers.cache.store', {
+					id,
+					collectionKey: lookup.collectionKey,
+					entries: entries.size
+				});
+			},
+
+			list: () =>
+				Array.from(entries.values())
+					.reverse()
+					.map(({ text, tools: _tools, citations: _citations, ...summary }) => ({
+						...summary,
+						answerLength: text.length
+					})),
+
+			purge: (filter = {}) => {
+				let purged = 0;
+				for (const entry of Array.from(entries.values())) {
+					if (filter.id && entry.id !== filter.id) continue;
+					if (filter.collectionKey && entry.collectionKey !== filter.collectionKey) continue;
+					entries.delete(entry.id);
+					purged += 1;
+				}
+				Metrics.info('answers.cache.purge', { ...filter, purged });
+				return purged;
+			}
+		};
+	};
+}
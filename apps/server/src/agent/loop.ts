@@ -2,22 +2,32 @@
  * Custom Agent Loop
  * Uses AI SDK's streamText with custom tools
  */
-import { streamText, tool, stepCountIs, type ModelMessage } from 'ai';
+import { extractMessageText, type ThreadMessage, type ToolChunk } from '@btca/shared';
+import { streamText, tool, stepCountIs, type LanguageModelUsage, type ModelMessage } from 'ai';
 
+import { Metrics } from '../metrics/index.ts';
 import { Model } from '../providers/index.ts';
-import { ReadTool, GrepTool, GlobTool, ListTool } from '../tools/index.ts';
+import { AgentProfiles } from './profiles.ts';
+import { ReadTool, GrepTool, GlobTool, ListTool, SearchTool } from '../tools/index.ts';
 
 export namespace AgentLoop {
+	export type Usage = {
+		inputTokens?: number;
+		outputTokens?: number;
+		reasoningTokens?: number;
+		totalTokens?: number;
+	};
+
 	// Event types for streaming
 	export type AgentEvent =
+		| { type: 'start'; system: string; initialContext: string }
 		| { type: 'text-delta'; text: string }
-		| { type: 'tool-call'; toolName: string; input: unknown }
-		| { type: 'tool-result'; toolName: string; output: string }
-		| {
-				type: 'finish';
-				finishReason: string;
-				usage?: { inputTokens?: number; outputTokens?: number };
-		  }
+		| { type: 'tool-call'; toolCallId: string; toolName: string; input: unknown }
+		| { type: 'tool-result'; toolCallId: string; toolName: string; output: string }
+		// Usage of the steps finished so far, so canceled or failed answers can still be counted
+		| { type: 'usage'; usage: Usage }
+		| { type: 'finish'; finishReason: string; usage?: Usage }
+		| { type: 'canceled' }
 		| { type: 'error'; error: Error };
 
 	// Options for the agent loop
@@ -28,7 +38,12 @@ export namespace AgentLoop {
 		vfsId?: string;
 		agentInstructions: string;
 		question: string;
+		history?: ThreadMessage[];
 		maxSteps?: number;
+		// Limits for this question; defaults to the built-in default profile
+		profile?: AgentProfiles.Resolved;
+		// Aborts the model call and any running tools
+		abortSignal?: AbortSignal;
 	};
 
 	// Result type
@@ -38,6 +53,20 @@ export namespace AgentLoop {
 		events: AgentEvent[];
 	};
 
+	const toUsage = (usage: LanguageModelUsage | undefined): Usage => ({
+		inputTokens: usage?.inputTokens,
+		outputTokens: usage?.outputTokens,
+		reasoningTokens: usage?.outputTokenDetails?.reasoningTokens,
+		totalTokens: usage?.totalTokens
+	});
+
+	const addUsage = (total: Usage, step: Usage): Usage => ({
+		inputTokens: (total.inputTokens ?? 0) + (step.inputTokens ?? 0),
+		outputTokens: (total.outputTokens ?? 0) + (step.outputTokens ?? 0),
+		reasoningTokens: (total.reasoningTokens ?? 0) + (step.reasoningTokens ?? 0),
+		totalTokens: (total.totalTokens ?? 0) + (step.totalTokens ?? 0)
+	});
+
 	/**
 	 * Build the system prompt for the agent
 	 */
@@ -51,8 +80,10 @@ export namespace AgentLoop {
 			'- grep: Search file contents using regex patterns',
 			'- glob: Find files matching glob patterns',
 			'- list: List directory contents',
+			'- search: Rank file sections against a natural-language query',
 			'',
 			'Guidelines:',
+			'- Use search for conceptual questions, then read the top results',
 			'- Use glob to find relevant files first, then read them',
 			'- Use grep to search for specific code patterns or text',
 			'- Always cite the source files in your answers',
@@ -63,17 +94,43 @@ export namespace AgentLoop {
 		].join('\n');
 	}
 
+	/**
+	 * Cut tool output down to the profile's byte budget, keeping whole characters
+	 */
+	function limitOutput(output: string, maxBytes?: number) {
+		if (!maxBytes) return output;
+		const bytes = Buffer.from(output);
+		if (bytes.byteLength <= maxBytes) return output;
+		const kept = bytes
+			.subarray(0, maxBytes)
+			.toString('utf8')
+			.replace(/\uFFFD$/, '');
+		return `${kept}\n\n[Truncated: Output limited to ${maxBytes} bytes. Narrow the query or read a smaller range.]`;
+	}
+
 	/**
 	 * Create the tools for the agent
 	 */
-	function createTools(basePath: string, vfsId?: string) {
+	function createTools(
+		basePath: string,
+		vfsId: string | undefined,
+		profile: AgentProfiles.Resolved
+	) {
+		const limits = profile.toolLimits;
 		return {
 			read: tool({
 				description: 'Read the contents of a file. Returns the file contents with line numbers.',
 				inputSchema: ReadTool.Parameters,
-				execute: async (params: ReadTool.ParametersType) => {
-					const result = await ReadTool.execute(params, { basePath, vfsId });
-					return result.output;
+				execute: async (params: ReadTool.ParametersType, { abortSignal }) => {
+					const result = await Metrics.span('tool.read', () =>
+						ReadTool.execute(params, {
+							basePath,
+							vfsId,
+							signal: abortSignal,
+							maxResults: limits.read
+						})
+					);
+					return limitOutput(result.output, profile.maxToolOutputBytes);
 				}
 			}),
 
@@ -81,9 +138,16 @@ export namespace AgentLoop {
 				description:
 					'Search for a regex pattern in file contents. Returns matching lines with file paths and line numbers.',
 				inputSchema: GrepTool.Parameters,
-				execute: async (params: GrepTool.ParametersType) => {
-					const result = await GrepTool.execute(params, { basePath, vfsId });
-					return result.output;
+				execute: async (params: GrepTool.ParametersType, { abortSignal }) => {
+					const result = await Metrics.span('tool.grep', () =>
+						GrepTool.execute(params, {
+							basePath,
+							vfsId,
+							signal: abortSignal,
+							maxResults: limits.grep
+						})
+					);
+					return limitOutput(result.output, profile.maxToolOutputBytes);
 				}
 			}),
 
@@ -91,9 +155,33 @@ export namespace AgentLoop {
 				description:
 					'Find files matching a glob pattern (e.g. "**/*.ts", "src/**/*.js"). Returns a list of matching file paths sorted by modification time.',
 				inputSchema: GlobTool.Parameters,
-				execute: async (params: GlobTool.ParametersType) => {
-					const result = await GlobTool.execute(params, { basePath, vfsId });
-					return result.output;
+				execute: async (params: GlobTool.ParametersType, { abortSignal }) => {
+					const result = await Metrics.span('tool.glob', () =>
+						GlobTool.execute(params, {
+							basePath,
+							vfsId,
+							signal: abortSignal,
+							maxResults: limits.glob
+						})
+					);
+					return limitOutput(result.output, profile.maxToolOutputBytes);
+				}
+			}),
+
+			search: tool({
+				description:
+					'Search file contents with a natural-language or keyword query. Returns the best-matching file sections ranked by relevance, with file paths and line ranges.',
+				inputSchema: SearchTool.Parameters,
+				execute: async (params: SearchTool.ParametersType, { abortSignal }) => {
+					const result = await Metrics.span('tool.search', () =>
+						SearchTool.execute(params, {
+							basePath,
+							vfsId,
+							signal: abortSignal,
+							maxResults: limits.search
+						})
+					);
+					return limitOutput(result.output, profile.maxToolOutputBytes);
 				}
 			}),
 
@@ -101,9 +189,15 @@ export namespace AgentLoop {
 				description:
 					'List the contents of a directory. Returns files and subdirectories with their types.',
 				inputSchema: ListTool.Parameters,
-				execute: async (params: ListTool.ParametersType) => {
-					const result = await ListTool.execute(params, { basePath, vfsId });
-					return result.output;
+				execute: async (params: ListTool.ParametersType, { abortSignal }) => {
+					const result = await Metrics.span('tool.list', () =>
+						ListTool.execute(params, {
+							basePath,
+							vfsId,
+							signal: abortSignal
+						})
+					);
+					return limitOutput(result.output, profile.maxToolOutputBytes);
 				}
 			})
 		};
@@ -117,6 +211,83 @@ export namespace AgentLoop {
 		return `Collection contents:\n${result.output}`;
 	}
 
+	/**
+	 * Convert prior thread messages into model messages.
+	 * Completed tool calls are replayed as tool-call/tool-result pairs so the model
+	 * can reuse what it already read instead of searching again.
+	 */
+	function buildHistoryMessages(history: ThreadMessage[]): ModelMessage[] {
+		const messages: ModelMessage[] = [];
+
+		history.forEach((message, index) => {
+			if (message.canceled) return;
+
+			if (message.role === 'user') {
+				const text = extractMessageText(message).trim();
+				if (text) messages.push({ role: 'user', content: text });
+				return;
+			}
+
+			if (message.role !== 'assistant') return;
+
+			const { content } = message;
+			const toolChunks =
+				typeof content === 'object' && content.type === 'chunks'
+					? content.chunks.filter(
+							(chunk): chunk is ToolChunk & { output: string } =>
+								chunk.type === 'tool' &&
+								chunk.state === 'completed' &&
+								typeof chunk.output === 'string'
+						)
+					: [];
+
+			if (toolChunks.length > 0) {
+				const toolCallId = (chunk: ToolChunk) => `history-${index}-${chunk.id}`;
+				messages.push({
+					role: 'assistant',
+					content: toolChunks.map((chunk) => ({
+						type: 'tool-call' as const,
+						toolCallId: toolCallId(chunk),
+						toolName: chunk.toolName,
+						input: chunk.input ?? {}
+					}))
+				});
+				messages.push({
+					role: 'tool',
+					content: toolChunks.map((chunk) => ({
+						type: 'tool-result' as const,
+						toolCallId: toolCallId(chunk),
+						toolName: chunk.toolName,
+						output: { type: 'text' as const, value: chunk.output }
+					}))
+				});
+			}
+
+			const text = extractMessageText(message).trim();
+			if (text) messages.push({ role: 'assistant', content: text });
+		});
+
+		return messages;
+	}
+
+	/**
+	 * Build the full message list: prior history followed by the current question
+	 */
+	function buildMessages(args: {
+		initialContext: string;
+		question: string;
+		history?: ThreadMessage[];
+	}): ModelMessage[] {
+		const { initialContext } = args;
+		return [
+			...buildHistoryMessages(args.history ?? []),
+			{
+				role: 'user',
+				content: `${initialContext}\n\nQuestion: ${args.question}`
+			}
+		];
+	}
+
 	/**
 	 * Run the agent loop and return the final answer
 	 */
@@ -128,37 +299,38 @@ export namespace AgentLoop {
 			vfsId,
 			agentInstructions,
 			question,
-			maxSteps = 40
+			history,
+			profile = AgentProfiles.resolve({}),
+			maxSteps = profile.maxSteps,
+			abortSignal
 		} = options;
 
 		// Get the model
 		const model = await Model.getModel(providerId, modelId);
 
-		// Get initial context
+		// Build the prompt (system prompt, then history + initial context + question)
+		const system = buildSystemPrompt(agentInstructions);
 		const initialContext = await getInitialContext(collectionPath, vfsId);
-
-		// Build messages
-		const messages: ModelMessage[] = [
-			{
-				role: 'user',
-				content: `${initialContext}\n\nQuestion: ${question}`
-			}
-		];
+		const messages = buildMessages({ initialContext, question, history });
 
 		// Create tools
-		const tools = createTools(collectionPath, vfsId);
+		const tools = createTools(collectionPath, vfsId, profile);
 
 		// Collect events
-		const events: AgentEvent[] = [];
+		const events: AgentEvent[] = [{ type: 'start', system, initialContext }];
 		let fullText = '';
+		let usage: Usage = {};
 
 		// Run streamText with tool execution
 		const result = streamText({
 			model,
-			system: buildSystemPrompt(agentInstructions),
+			system,
 			messages,
 			tools,
-			stopWhen: stepCountIs(maxSteps)
+			stopWhen: stepCountIs(maxSteps),
+			temperature: profile.temperature,
+			timeout: profile.timeoutMs,
+			abortSignal
 		});
 
 		// Process the stream
@@ -172,6 +344,7 @@ export namespace AgentLoop {
 				case 'tool-call':
 					events.push({
 						type: 'tool-call',
+						toolCallId: part.toolCallId,
 						toolName: part.toolName,
 						input: part.input
 					});
@@ -180,22 +353,29 @@ export namespace AgentLoop {
 				case 'tool-result':
 					events.push({
 						type: 'tool-result',
+						toolCallId: part.toolCallId,
 						toolName: part.toolName,
 						output: typeof part.output === 'string' ? part.output : JSON.stringify(part.output)
 					});
 					break;
 
+				case 'finish-step':
+					usage = addUsage(usage, toUsage(part.usage));
+					events.push({ type: 'usage', usage });
+					break;
+
 				case 'finish':
 					events.push({
 						type: 'finish',
 						finishReason: part.finishReason ?? 'unknown',
-						usage: {
-							inputTokens: part.totalUsage?.inputTokens,
-							outputTokens: part.totalUsage?.outputTokens
-						}
+						usage: toUsage(part.totalUsage)
 					});
 					break;
 
+				case 'abort':
+					events.push({ type: 'canceled' });
+					break;
+
 				case 'error':
 					events.push({
 						type: 'error',
@@ -223,36 +403,38 @@ export namespace AgentLoop {
 			vfsId,
 			agentInstructions,
 			question,
-			maxSteps = 40
+			history,
+			profile = AgentProfiles.resolve({}),
+			maxSteps = profile.maxSteps,
+			abortSignal
 		} = options;
 
 		// Get the model
 		const model = await Model.getModel(providerId, modelId);
 
-		// Get initial context
+		// Build the prompt (system prompt, then history + initial context + question)
+		const system = buildSystemPrompt(agentInstructions);
 		const initialContext = await getInitialContext(collectionPath, vfsId);
-
-		// Build messages
-		const messages: ModelMessage[] = [
-			{
-				role: 'user',
-				content: `${initialContext}\n\nQuestion: ${question}`
-			}
-		];
+		const messages = buildMessages({ initialContext, question, history });
 
 		// Create tools
-		const tools = createTools(collectionPath, vfsId);
+		const tools = createTools(collectionPath, vfsId, profile);
 
 		// Run streamText with tool execution
 		const result = streamText({
 			model,
-			system: buildSystemPrompt(agentInstructions),
+			system,
 			messages,
 			tools,
-			stopWhen: stepCountIs(maxSteps)
+			stopWhen: stepCountIs(maxSteps),
+			temperature: profile.temperature,
+			timeout: profile.timeoutMs,
+			abortSignal
 		});
 
 		// Stream events
+		yield { type: 'start', system, initialContext };
+		let usage: Usage = {};
 		for await (const part of result.fullStream) {
 			switch (part.type) {
 				case 'text-delta':
@@ -262,6 +444,7 @@ export namespace AgentLoop {
 				case 'tool-call':
 					yield {
 						type: 'tool-call',
+						toolCallId: part.toolCallId,
 						toolName: part.toolName,
 						input: part.input
 					};
@@ -270,22 +453,29 @@ export namespace AgentLoop {
 				case 'tool-result':
 					yield {
 						type: 'tool-result',
+						toolCallId: part.toolCallId,
 						toolName: part.toolName,
 						output: typeof part.output === 'string' ? part.output : JSON.stringify(part.output)
 					};
 					break;
 
+				case 'finish-step':
+					usage = addUsage(usage, toUsage(part.usage));
+					yield { type: 'usage', usage };
+					break;
+
 				case 'finish':
 					yield {
 						type: 'finish',
 						finishReason: part.finishReason ?? 'unknown',
-						usage: {
-							inputTokens: part.totalUsage?.inputTokens,
-							outputTokens: part.totalUsage?.outputTokens
-						}
+						usage: toUsage(part.totalUsage)
 					};
 					break;
 
+				case 'abort':
+					yield { type: 'canceled' };
+					break;
+
 				case 'error':
 					yield {
 						type: 'error',
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'bun:test';
+
+import { AgentProfiles } from './profiles.ts';
+
+describe('AgentProfiles', () => {
+	it('defaults to the built-in default profile', () => {
+		expect(AgentProfiles.resolve({})).toEqual({
+			name: 'default',
+			maxSteps: 40,
+			toolLimits: { grep: 100, glob: 100, search: 25, read: 2000 }
+		});
+	});
+
+	it('prefers the request, then resources, then the config default', () => {
+		const presets = { docs: { maxSteps: 60, toolLimits: { grep: 200 } } };
+
+		expect(
+			AgentProfiles.resolve({
+				requested: 'quick',
+				resourceProfiles: ['docs'],
+				configProfile: 'deep',
+				presets
+			}).name
+		).toBe('quick');
+
+		const fromResources = AgentProfiles.resolve({
+			resourceProfiles: ['quick', undefined, 'docs'],
+			configProfile: 'deep',
+			presets
+		});
+		expect(fromResources.name).toBe('docs');
+		expect(fromResources.toolLimits).toEqual({ grep: 200, glob: 100, search: 25, read: 2000 });
+
+		expect(
+			AgentProfiles.resolve({ resourceProfiles: [undefined], configProfile: 'deep' }).name
+		).toBe('deep');
+	});
+
+	it('accepts inline profiles and lets config presets override built-ins', () => {
+		const inline = AgentProfiles.resolve({ requested: { maxSteps: 5, temperature: 0 } });
+		expect(inline.name).toBe(AgentProfiles.INLINE_PROFILE);
+		expect(inline.maxSteps).toBe(5);
+		expect(inline.temperature).toBe(0);
+
+		expect(
+			AgentProfiles.resolve({ requested: 'quick', presets: { quick: { maxSteps: 3 } } }).maxSteps
+		).toBe(3);
+	});
+
+	it('rejects unknown profile names', () => {
+		expect(() => AgentProfiles.resolve({ requested: 'thorough' })).toThrow(
+			AgentProfiles.AgentProfileError
+		);
+	});
+});
@@ -0,0 +1,137 @@
+import { z } from 'zod';
+
+import type { TaggedErrorOptions } from '../errors.ts';
+
+export const AgentProfileNameSchema = z
+	.string()
+	.min(1, 'Profile name cannot be empty')
+	.max(64, 'Profile name too long (max 64 chars)')
+	.regex(/^[a-zA-Z0-9_-]+$/, 'Profile name must contain only letters, numbers, _ and -');
+
+export const AgentProfileSchema = z.object({
+	maxSteps: z.number().int().positive().max(200).optional(),
+	// Tool output beyond this many bytes is cut off before it reaches the model
+	maxToolOutputBytes: z.number().int().positive().optional(),
+	// Result caps per tool (lines for read)
+	toolLimits: z
+		.object({
+			grep: z.number().int().positive().optional(),
+			glob: z.number().int().positive().optional(),
+			search: z.number().int().positive().optional(),
+			read: z.number().int().positive().optional()
+		})
+		.optional(),
+	temperature: z.number().min(0).max(2).optional(),
+	timeoutMs: z.number().int().positive().optional()
+});
+
+// A preset name, or an inline profile
+export const AgentProfileRefSchema = z.union([AgentProfileNameSchema, AgentProfileSchema]);
+
+/**
+ * Agent profiles bound how much work the agent does for a question: how many steps it may
+ * take, how much each tool may return, and how long the model call may run.
+ *
+ * Profiles are chosen per request, falling back to the profile of the question's resources
+ * and then the config default. Presets from the config override the built-in ones by name.
+ */
+export namespace AgentProfiles {
+	export type Profile = z.infer<typeof AgentProfileSchema>;
+	export type Ref = z.infer<typeof AgentProfileRefSchema>;
+
+	export type Resolved = {
+		name: string;
+		maxSteps: number;
+		maxToolOutputBytes?: number;
+		toolLimits: { grep: number; glob: number; search: number; read: number };
+		temperature?: number;
+		timeoutMs?: number;
+	};
+
+	export const DEFAULT_PROFILE = 'default';
+	// Name given to profiles passed inline rather than by preset name
+	export const INLINE_PROFILE = 'custom';
+
+	const DEFAULTS: Omit<Resolved, 'name'> = {
+		maxSteps: 40,
+		toolLimits: { grep: 100, glob: 100, search: 25, read: 2000 }
+	};
+
+	export const BUILTIN_PROFILES: Record<string, Profile> = {
+		default: {},
+		quick: {
+			maxSteps: 10,
+			maxToolOutputBytes: 20 * 1024,
+			toolLimits: { grep: 30, glob: 30, search: 5, read: 400 },
+			timeoutMs: 60_000
+		},
+		deep: {
+			maxSteps: 100,
+			maxToolOutputBytes: 200 * 1024,
+			toolLimits: { grep: 300, glob: 300, search: 25, read: 2000 },
+			timeoutMs: 900_000
+		}
+	};
+
+	export class AgentProfileError extends Error {
+		readonly _tag = 'AgentProfileError';
+		override readonly cause?: unknown;
+		readonly hint?: string;
+
+		constructor(args: TaggedErrorOptions) {
+			super(args.message);
+			this.cause = args.cause;
+			this.hint = args.hint;
+		}
+	}
+
+	const apply = (name: string, profile: Profile): Resolved => ({
+		name,
+		maxSteps: profile.maxSteps ?? DEFAULTS.maxSteps,
+		...(profile.maxToolOutputBytes ? { maxToolOutputBytes: profile.maxToolOutputBytes } : {}),
+		toolLimits: { ...DEFAULTS.toolLimits, ...profile.toolLimits },
+		...(profile.temperature !== undefined ? { temperature: profile.temperature } : {}),
+		...(profile.timeoutMs ? { timeoutMs: profile.timeoutMs } : {})
+	});
+
+	/**
+	 * Resolve the profile for a question.
+	 *
+	 * Without an explicit request profile, resources that name a profile win over the config
+	 * default; when they disagree, the profile allowing the most steps is used so that the
+	 * deepest resource is still explored properly.
+	 */
+	export const resolve = (args: {
+		requested?: Ref;
+		resourceProfiles?: readonly (string | undefined)[];
+		configProfile?: Ref;
+		presets?: Record<string, Profile>;
+	}): Resolved => {
+		const presets = { ...BUILTIN_PROFILES, ...args.presets };
+
+		const resolveRef = (ref: Ref): Resolved => {
+			if (typeof ref !== 'string') return apply(INLINE_PROFILE, ref);
+			const preset = presets[ref];
+			if (!preset) {
+				throw new AgentProfileError({
+					message: `Unknown agent profile "${ref}"`,
+					hint: `Available profiles: ${Object.keys(presets).join(', ')}. Define custom profiles under "agentProfiles" in btca.config.jsonc.`
+				});
+			}
+			return apply(ref, preset);
+		};
+
+		if (args.requested) return resolveRef(args.requested);
+
+		const fromResources = [...new Set(args.resourceProfiles ?? [])]
+			.filter((name): name is string => Boolean(name))
+			.map(resolveRef)
+			.sort((a, b) => b.maxSteps - a.maxSteps)[0];
+		if (fromResources) return fromResources;
+
+		return resolveRef(args.configProfile ?? DEFAULT_PROFILE);
+	};
+
+	export const listNames = (presets?: Record<string, Profile>) =>
+		Object.keys({ ...BUILTIN_PROFILES, ...presets });
+}
@@ -0,0 +1,55 @@
+import { Metrics } from '../metrics/index.ts';
+
+/**
+ * Registry of in-flight streamed questions.
+ *
+ * Each question gets an id and an AbortController. Canceling aborts the model call and any
+ * running tools; the stream then finishes with a `done` event marked `canceled`.
+ */
+export namespace ActiveQuestions {
+	export type Handle = {
+		id: string;
+		signal: AbortSignal;
+		/** Abort the question (used when the client disconnects) */
+		abort: (reason: string) => void;
+		/** Remove the question from the registry once its stream has closed */
+		finish: () => void;
+	};
+
+	export type Service = {
+		start: (args: { collectionKey: string }) => Handle;
+		cancel: (id: string) => boolean;
+	};
+
+	export const create = (): Service => {
+		const questions = new Map<string, { collectionKey: string; controller: AbortController }>();
+
+		const abort = (id: string, reason: string) => {
+			const question = questions.get(id);
+			if (!question || question.controller.signal.aborted) return false;
+			question.controller.abort(new DOMException(`Question ${reason}`, 'AbortError'));
+			Metrics.info('question.cancel', { id, collectionKey: question.collectionKey, reason });
+			return true;
+		};
+
+		return {
+			start: ({ collectionKey }) => {
+				const id = crypto.randomUUID();
+				const controller = new AbortController();
+				questions.set(id, { collectionKey, controller });
+				return {
+					id,
+					signal: controller.signal,
+					abort: (reason) => {
+						abort(id, reason);
+					},
+					finish: () => {
+						questions.delete(id);
+					}
+				};
+			},
+
+			cancel: (id) => abort(id, 'canceled')
+		};
+	};
+}
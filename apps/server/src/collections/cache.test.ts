@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'bun:test';
+
+import { VirtualFs } from '../vfs/virtual-fs.ts';
+import { CollectionCache } from './cache.ts';
+
+describe('CollectionCache', () => {
+	it('reuses an entry while the fingerprint matches', () => {
+		const cache = CollectionCache.create({ getMaxBytes: () => 1000 });
+		const vfsId = VirtualFs.create();
+
+		const stored = cache.store({ collectionKey: 'svelte', fingerprint: 'a', vfsId, bytes: 100 });
+		stored.release();
+
+		const hit = cache.acquire('svelte', 'a');
+		expect(hit?.vfsId).toBe(vfsId);
+		hit?.release();
+		expect(VirtualFs.has(vfsId)).toBe(true);
+
+		cache.clear();
+		expect(VirtualFs.has(vfsId)).toBe(false);
+	});
+
+	it('evicts and disposes an entry when the fingerprint changes', () => {
+		const cache = CollectionCache.create({ getMaxBytes: () => 1000 });
+		const vfsId = VirtualFs.create();
+
+		cache.store({ collectionKey: 'svelte', fingerprint: 'a', vfsId, bytes: 100 }).release();
+
+		expect(cache.acquire('svelte', 'b')).toBeNull();
+		expect(VirtualFs.has(vfsId)).toBe(false);
+		expect(cache.stats().entries).toBe(0);
+	});
+
+	it('evicts least recently used entries over the memory budget', () => {
+		const cache = CollectionCache.create({ getMaxBytes: () => 250 });
+		const first = VirtualFs.create();
+		const second = VirtualFs.create();
+		const third = VirtualFs.create();
+
+		cache.store({ collectionKey: 'one', fingerprint: 'a', vfsId: first, bytes: 100 }).release();
+		cache.store({ collectionKey: 'two', fingerprint: 'a', vfsId: second, bytes: 100 }).release();
+		cache.acquire('one', 'a')?.release();
+		cache.store({ collectionKey: 'three', fingerprint: 'a', vfsId: third, bytes: 100 }).release();
+
+		expect(VirtualFs.has(first)).toBe(true);
+		expect(VirtualFs.has(second)).toBe(false);
+		expect(VirtualFs.has(third)).toBe(true);
+		expect(cache.stats().bytes).toBe(200);
+
+		cache.clear();
+	});
+
+	it('defers disposal of evicted entries until they are released', () => {
+		const cache = CollectionCache.create({ getMaxBytes: () => 1000 });
+		const vfsId = VirtualFs.create();
+
+		const lease = cache.store({ collectionKey: 'svelte', fingerprint: 'a', vfsId, bytes: 100 });
+		cache.clear();
+		expect(VirtualFs.has(vfsId)).toBe(true);
+
+		lease.release();
+		expect(VirtualFs.has(vfsId)).toBe(false);
+	});
+
+	it('does not keep entries larger than the budget', () => {
+		const cache = CollectionCache.create({ getMaxBytes: () => 50 });
+		const vfsId = VirtualFs.create();
+
+		const lease = cache.store({ collectionKey: 'svelte', fingerprint: 'a', vfsId, bytes: 100 });
+		expect(cache.stats().entries).toBe(0);
+
+		lease.release();
+		expect(VirtualFs.has(vfsId)).toBe(false);
+	});
+});
@@ -0,0 +1,147 @@
+import { Metrics } from '../metrics/index.ts';
+import { SearchTool } from '../tools/search.ts';
+import { VirtualFs } from '../vfs/virtual-fs.ts';
+import { clearVirtualCollectionMetadata } from './virtual-metadata.ts';
+
+/**
+ * In-memory cache of loaded collections.
+ *
+ * Entries are keyed by collection key and validated against a fingerprint built from
+ * each resource's git commit (or local mtimes). A fingerprint mismatch evicts the old
+ * entry. Entries are evicted least-recently-used first once the memory budget is exceeded.
+ * Entries still in use by a question are only disposed once released.
+ */
+export namespace CollectionCache {
+	type Entry = {
+		collectionKey: string;
+		fingerprint: string;
+		vfsId: string;
+		bytes: number;
+		refs: number;
+		evicted: boolean;
+	};
+
+	export type Lease = {
+		vfsId: string;
+		release: () => void;
+	};
+
+	export type Service = {
+		acquire: (collectionKey: string, fingerprint: string) => Lease | null;
+		store: (args: {
+			collectionKey: string;
+			fingerprint: string;
+			vfsId: string;
+			bytes: number;
+		}) => Lease;
+		clear: () => void;
+		stats: () => { entries: number; bytes: number; maxBytes: number };
+	};
+
+	const disposeVirtual = (vfsId: string) => {
+		VirtualFs.dispose(vfsId);
+		clearVirtualCollectionMetadata(vfsId);
+		SearchTool.clearCorpora(vfsId);
+	};
+
+	export const create = (args: { getMaxBytes: () => number }): Service => {
+		// Map iteration order doubles as LRU order (oldest first)
+		const entries = new Map<string, Entry>();
+
+		const totalBytes = () => {
+			let total = 0;
+			for (const entry of entries.values()) total += entry.bytes;
+			return total;
+		};
+
+		const evict = (entry: Entry, reason: string) => {
+			entries.delete(entry.collectionKey);
+			entry.evicted = true;
+			Metrics.info('collections.cache.evict', {
+				collectionKey: entry.collectionKey,
+				bytes: entry.bytes,
+				inUse: entry.refs > 0,
+				reason
+			});
+			// Search indexes are rebuilt on demand, so they can go before the collection does
+			SearchTool.clearCorpora(entry.vfsId);
+			if (entry.refs === 0) disposeVirtual(entry.vfsId);
+		};
+
+		const lease = (entry: Entry): Lease => {
+			entry.refs += 1;
+			let released = false;
+			return {
+				vfsId: entry.vfsId,
+				release: () => {
+					if (released) return;
+					released = true;
+					entry.refs -= 1;
+					if (entry.evicted && entry.refs === 0) disposeVirtual(entry.vfsId);
+				}
+			};
+		};
+
+		const enforceBudget = () => {
+			const maxBytes = args.getMaxBytes();
+			let total = totalBytes();
+			for (const entry of Array.from(entries.values())) {
+				if (total <= maxBytes) break;
+				total -= entry.bytes;
+				evict(entry, 'budget');
+			}
+		};
+
+		return {
+			acquire: (collectionKey, fingerprint) => {
+				const entry = entries.get(collectionKey);
+				if (!entry) return null;
+				if (entry.fingerprint !== fingerprint) {
+					evict(entry, 'stale');
+					return null;
+				}
+				// Move to the end of the LRU order
+				entries.delete(collectionKey);
+				entries.set(collectionKey, entry);
+				Metrics.info('collections.cache.hit', { collectionKey, bytes: entry.bytes });
+				return lease(entry);
+			},
+
+			store: ({ collectionKey, fingerprint, vfsId, bytes }) => {
+				const entry: Entry = { collectionKey, fingerprint, vfsId, bytes, refs: 0, evicted: false };
+				const maxBytes = args.getMaxBytes();
+
+				if (bytes > maxBytes) {
+					// Too large to keep around - dispose as soon as the caller is done
+					entry.evicted = true;
+					Metrics.info('collections.cache.skip', { collectionKey, bytes, maxBytes });
+					return lease(entry);
+				}
+
+				const existing = entries.get(collectionKey);
+				if (existing) evict(existing, 'replaced');
+
+				entries.set(collectionKey, entry);
+				const result = lease(entry);
+				enforceBudget();
+				Metrics.info('collections.cache.store', {
+					collectionKey,
+					bytes,
+					totalBytes: totalBytes(),
+					entries: entries.size
+				});
+				return result;
+			},
+
+			clear: () => {
+				for (const entry of Array.from(entries.values())) evict(entry, 'clear');
+			},
+
+			stats: () => ({
+				entries: entries.size,
+				bytes: totalBytes(),
+				maxBytes: args.getMaxBytes()
+			})
+		};
+	};
+}
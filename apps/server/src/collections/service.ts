@@ -1,3 +1,4 @@
+import { promises as fs } from 'node:fs';
 import path from 'node:path';
 
 import { Result } from 'better-result';
@@ -6,11 +7,21 @@ import { Config } from '../config/index.ts';
 import { Transaction } from '../context/transaction.ts';
 import { CommonHints, getErrorHint, getErrorMessage } from '../errors.ts';
 import { Metrics } from '../metrics/index.ts';
+import { ResourceError } from '../resources/helpers.ts';
+import { createPathFilter, getPathFilterKey, readGitignore } from '../resources/path-filter.ts';
 import { Resources } from '../resources/service.ts';
-import { isGitResource } from '../resources/schema.ts';
+import {
+	isArchiveResource,
+	isGitResource,
+	isNpmResource,
+	isWebResource
+} from '../resources/schema.ts';
 import { FS_RESOURCE_SYSTEM_NOTE, type BtcaFsResource } from '../resources/types.ts';
+import { TrigramIndex } from '../search/trigram-index.ts';
 import { CollectionError, getCollectionKey, type CollectionResult } from './types.ts';
+import { SearchTool } from '../tools/search.ts';
 import { VirtualFs } from '../vfs/virtual-fs.ts';
+import { CollectionCache } from './cache.ts';
 import {
 	clearVirtualCollectionMetadata,
 	setVirtualCollectionMetadata,
@@ -23,9 +34,21 @@ export namespace Collections {
 			resourceNames: readonly string[];
 			quiet?: boolean;
 		}) => Promise<CollectionResult>;
+		clearCache: () => void;
+	};
+
+	/**
+	 * Describe the version of a resource the agent is reading: the pinned ref or branch
+	 * plus the checked-out commit for git, or the package version for npm.
+	 */
+	const describeVersion = (resource: BtcaFsResource, commit?: string) => {
+		if (resource.type !== 'git' || !commit) return resource.version;
+		const shortCommit = commit.slice(0, 12);
+		if (!resource.version || commit.startsWith(resource.version)) return `commit ${shortCommit}`;
+		return `${resource.version} (commit ${shortCommit})`;
 	};
 
-	const createCollectionInstructionBlock = (resource: BtcaFsResource): string => {
+	const createCollectionInstructionBlock = (resource: BtcaFsResource, version?: string): string => {
 		const focusLines = resource.repoSubPaths.map(
 			(subPath) => `Focus: ./${resource.fsName}/${subPath}`
 		);
@@ -33,6 +56,7 @@ export namespace Collections {
 			`## Resource: ${resource.name}`,
 			FS_RESOURCE_SYSTEM_NOTE,
 			`Path: ./${resource.fsName}`,
+			version ? `Version: ${version}` : '',
 			...focusLines,
 			resource.specialAgentInstructions ? `Notes: ${resource.specialAgentInstructions}` : ''
 		].filter(Boolean);
@@ -63,8 +87,11 @@ export namespace Collections {
 		Result.tryPromise({
 			try: () => resources.load(name, { quiet }),
 			catch: (cause) => {
-				const underlyingHint = getErrorHint(cause);
-				const underlyingMessage = getErrorMessage(cause);
+				// Metrics.span rethrows better-result's wrapper; report our own errors unchanged
+				const underlying =
+					cause instanceof Error && cause.cause instanceof ResourceError ? cause.cause : cause;
+				const underlyingHint = getErrorHint(underlying);
+				const underlyingMessage = getErrorMessage(underlying);
 				return new CollectionError({
 					message: `Failed to load resource "${name}": ${underlyingMessage}`,
 					hint:
@@ -86,6 +113,20 @@ export namespace Collections {
 				})
 		});
 
+	/**
+	 * Files of the resource that are never imported: `.git`, the resource's exclude globs,
+	 * anything outside its include globs, for local folders the root `.gitignore`, and for
+	 * git resources anything outside their searchPaths that another resource on the same
+	 * clone checked out.
+	 */
+	const getPathFilter = async (resource: BtcaFsResource, resourcePath: string) =>
+		createPathFilter({
+			include: resource.include,
+			exclude: resource.exclude,
+			gitignore: resource.useGitignore ? await readGitignore(resourcePath) : undefined,
+			searchPaths: resource.type === 'git' ? resource.repoSubPaths : undefined
+		});
+
 	const virtualizeResource = (args: {
 		resource: BtcaFsResource;
 		resourcePath: string;
@@ -93,19 +134,12 @@ export namespace Collections {
 		vfsId: string;
 	}) =>
 		Result.tryPromise({
-			try: () =>
+			try: async () =>
 				VirtualFs.importDirectoryFromDisk({
 					sourcePath: args.resourcePath,
 					destinationPath: args.virtualResourcePath,
 					vfsId: args.vfsId,
-					ignore: (relativePath) => {
-						const normalized = relativePath.split(path.sep).join('/');
-						return (
-							normalized === '.git' ||
-							normalized.startsWith('.git/') ||
-							normalized.includes('/.git/')
-						);
-					}
+					ignore: await getPathFilter(args.resource, args.resourcePath)
 				}),
 			catch: (cause) =>
 				new CollectionError({
@@ -135,10 +169,98 @@ export namespace Collections {
 		});
 	};
 
-	const buildVirtualMetadata = async (args: {
+	/**
+	 * Fingerprint a local resource by walking its files and recording count, size, and latest mtime.
+	 * Much cheaper than importing, and changes whenever a file is added, removed, or modified.
+	 */
+	const getLocalFingerprint = async (resource: BtcaFsResource, resourcePath: string) => {
+		const isIgnored = await getPathFilter(resource, resourcePath);
+		let files = 0;
+		let bytes = 0;
+		let latestMtimeMs = 0;
+
+		const walk = async (currentPath: string): Promise<void> => {
+			const direntsResult = await Result.tryPromise(() =>
+				fs.readdir(currentPath, { withFileTypes: true })
+			);
+			const dirents = direntsResult.match({
+				ok: (value) => value,
+				err: () => []
+			});
+
+			for (const dirent of dirents) {
+				const entryPath = path.join(currentPath, dirent.name);
+				if (isIgnored(path.relative(resourcePath, entryPath), dirent.isDirectory())) continue;
+				if (dirent.isDirectory()) {
+					await walk(entryPath);
+					continue;
+				}
+				const statResult = await Result.tryPromise(() => fs.lstat(entryPath));
+				statResult.match({
+					ok: (stat) => {
+						files += 1;
+						bytes += stat.size;
+						latestMtimeMs = Math.max(latestMtimeMs, stat.mtimeMs);
+					},
+					err: () => undefined
+				});
+			}
+		};
+
+		await walk(resourcePath);
+		return `local:${files}:${bytes}:${Math.round(latestMtimeMs)}`;
+	};
+
+	/**
+	 * Identify the on-disk state of a resource. Git resources without a readable HEAD
+	 * have no fingerprint, which disables caching for any collection that includes them.
+	 * Resources with an immutable revision (npm packages, archives, crawled sites) use it in
+	 * place of a commit.
+	 */
+	const getResourceState = async (
+		resource: BtcaFsResource,
+		resourcePath: string
+	): Promise<{ commit?: string; fingerprint?: string }> => {
+		const filters = getPathFilterKey(resource);
+		if (resource.type === 'git') {
+			const commit = await getGitHeadHash(resourcePath);
+			const subPaths = resource.repoSubPaths.join(',');
+			// Enabling submodules or LFS changes the files without moving HEAD
+			const extras = `${resource.submodules ? '+submodules' : ''}${resource.lfs ? '+lfs' : ''}`;
+			return {
+				commit,
+				fingerprint: commit
+					? `${resource.name}@${commit}[${subPaths}]${filters}${extras}`
+					: undefined
+			};
+		}
+		if (resource.revision) {
+			const subPaths = resource.repoSubPaths.join(',');
+			return {
+				commit: resource.revision,
+				fingerprint: `${resource.name}@${resource.revision}[${subPaths}]`
+			};
+		}
+		const fingerprint = await getLocalFingerprint(resource, resourcePath);
+		return { fingerprint: `${resource.name}@${fingerprint}${filters}` };
+	};
+
+	/**
+	 * Load the resource's grep index, if it has one built for the commit being loaded.
+	 */
+	const loadSearchIndex = async (resource: BtcaFsResource, commit?: string) => {
+		if (!resource.searchIndexPath || !commit) return undefined;
+		const index = await TrigramIndex.read(resource.searchIndexPath);
+		return index?.commit === commit ? index : undefined;
+	};
+
+	const buildVirtualMetadata = (args: {
 		resource: BtcaFsResource;
 		resourcePath: string;
 		loadedAt: string;
+		commit?: string;
+		version?: string;
+		searchIndex?: TrigramIndex.Index;
 		definition?: ReturnType<Config.Service['getResource']>;
 	}) => {
 		if (!args.definition) return null;
@@ -148,15 +270,23 @@ export namespace Collections {
 			type: args.resource.type,
 			path: args.resourcePath,
 			repoSubPaths: args.resource.repoSubPaths,
-			loadedAt: args.loadedAt
+			loadedAt: args.loadedAt,
+			version: args.version,
+			searchIndex: args.searchIndex
 		};
+		if (isNpmResource(args.definition) || isArchiveResource(args.definition)) {
+			return { ...base, commit: args.commit };
+		}
+		if (isWebResource(args.definition)) {
+			return { ...base, url: args.definition.url, commit: args.commit };
+		}
 		if (!isGitResource(args.definition)) return base;
-		const commit = await getGitHeadHash(args.resourcePath);
 		return {
 			...base,
 			url: args.definition.url,
 			branch: args.definition.branch,
-			commit
+			ref: args.definition.ref,
+			commit: args.commit
 		};
 	};
 
@@ -164,6 +294,10 @@ export namespace Collections {
 		config: Config.Service;
 		resources: Resources.Service;
 	}): Service => {
+		const cache = CollectionCache.create({
+			getMaxBytes: () => args.config.collectionCacheMaxBytes
+		});
+
 		return {
 			load: ({ resourceNames, quiet = false }) =>
 				Transaction.run('collections.load', async () => {
@@ -179,32 +313,66 @@ export namespace Collections {
 					const sortedNames = [...uniqueNames].sort((a, b) => a.localeCompare(b));
 					const key = getCollectionKey(sortedNames);
 					const collectionPath = '/';
-					const vfsId = VirtualFs.create();
+					let vfsId: string | undefined;
 					const cleanupVirtual = () => {
+						if (!vfsId) return;
 						VirtualFs.dispose(vfsId);
 						clearVirtualCollectionMetadata(vfsId);
+						SearchTool.clearCorpora(vfsId);
 					};
 
 					const result = await Result.gen(async function* () {
-						yield* Result.await(initVirtualRoot(collectionPath, vfsId));
-
-						const loadedResources: BtcaFsResource[] = [];
+						const loadedResources: { resource: BtcaFsResource; resourcePath: string }[] = [];
 						for (const name of sortedNames) {
 							const resource = yield* Result.await(loadResource(args.resources, name, quiet));
-							loadedResources.push(resource);
+							const resourcePath = yield* Result.await(resolveResourcePath(resource));
+							loadedResources.push({ resource, resourcePath });
 						}
 
+						const states = await Promise.all(
+							loadedResources.map(({ resource, resourcePath }) =>
+								getResourceState(resource, resourcePath)
+							)
+						);
+						const versions = loadedResources.map(({ resource }, index) =>
+							describeVersion(resource, states[index]?.commit)
+						);
+
+						const instructionBlocks = loadedResources.map(({ resource }, index) =>
+							createCollectionInstructionBlock(resource, versions[index])
+						);
+						const agentInstructions = instructionBlocks.join('\n\n');
+						const fingerprint = states.every((state) => state.fingerprint !== undefined)
+							? states.map((state) => state.fingerprint).join('+')
+							: undefined;
+
+						if (fingerprint) {
+							const cached = cache.acquire(key, fingerprint);
+							if (cached) {
+								return Result.ok({
+									path: collectionPath,
+									agentInstructions,
+									vfsId: cached.vfsId,
+									release: cached.release
+								});
+							}
+						}
+
+						vfsId = VirtualFs.create();
+						yield* Result.await(initVirtualRoot(collectionPath, vfsId));
+
 						const metadataResources: VirtualResourceMetadata[] = [];
 						const loadedAt = new Date().toISOString();
-						for (const resource of loadedResources) {
-							const resourcePath = yield* Result.await(resolveResourcePath(resource));
+						let totalBytes = 0;
+						for (const [index, { resource, resourcePath }] of loadedResources.entries()) {
 							const virtualResourcePath = path.posix.join('/', resource.fsName);
+							const targetVfsId = vfsId;
 
 							await ignoreErrors(() =>
-								VirtualFs.rm(virtualResourcePath, { recursive: true, force: true }, vfsId)
+								VirtualFs.rm(virtualResourcePath, { recursive: true, force: true }, targetVfsId)
 							);
 
-							yield* Result.await(
+							const imported = yield* Result.await(
 								virtualizeResource({
 									resource,
 									resourcePath,
@@ -212,12 +380,17 @@ export namespace Collections {
 									vfsId
 								})
 							);
+							totalBytes += imported.bytes;
 
+							const commit = states[index]?.commit;
 							const definition = args.config.getResource(resource.name);
-							const metadata = await buildVirtualMetadata({
+							const metadata = buildVirtualMetadata({
 								resource,
 								resourcePath,
 								loadedAt,
+								commit,
+								version: versions[index],
+								searchIndex: await loadSearchIndex(resource, commit),
 								definition
 							});
 							if (metadata) metadataResources.push(metadata);
@@ -230,12 +403,26 @@ export namespace Collections {
 							resources: metadataResources
 						});
 
-						const instructionBlocks = loadedResources.map(createCollectionInstructionBlock);
+						if (!fingerprint || args.config.collectionCacheMaxBytes === 0) {
+							return Result.ok({
+								path: collectionPath,
+								agentInstructions,
+								vfsId,
+								release: cleanupVirtual
+							});
+						}
 
+						const lease = cache.store({
+							collectionKey: key,
+							fingerprint,
+							vfsId,
+							bytes: totalBytes
+						});
 						return Result.ok({
 							path: collectionPath,
-							agentInstructions: instructionBlocks.join('\n\n'),
-							vfsId
+							agentInstructions,
+							vfsId: lease.vfsId,
+							release: lease.release
 						});
 					});
 
@@ -246,7 +433,9 @@ export namespace Collections {
 							throw error;
 						}
 					});
-				})
+				}),
+
+			clearCache: () => cache.clear()
 		};
 	};
 }
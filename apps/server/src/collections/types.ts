@@ -5,6 +5,11 @@ export type CollectionResult = {
 	path: string;
 	agentInstructions: string;
 	vfsId?: string;
+	/**
+	 * Release the collection once the question is answered.
+	 * Cached collections stay loaded; uncached ones are disposed.
+	 */
+	release?: () => void;
 };
 
 export class CollectionError extends Error {
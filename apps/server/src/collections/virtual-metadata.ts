@@ -1,13 +1,18 @@
+import type { TrigramIndex } from '../search/trigram-index.ts';
+
 export type VirtualResourceMetadata = {
 	name: string;
 	fsName: string;
-	type: 'git' | 'local';
+	type: 'git' | 'local' | 'npm' | 'archive' | 'web';
 	path: string;
 	repoSubPaths: readonly string[];
 	url?: string;
 	branch?: string;
+	ref?: string;
 	commit?: string;
+	version?: string;
 	loadedAt: string;
+	searchIndex?: TrigramIndex.Index;
 };
 
 export type VirtualCollectionMetadata = {
@@ -4,9 +4,20 @@ import path from 'node:path';
 import { Result } from 'better-result';
 import { z } from 'zod';
 
+import {
+	AgentProfileNameSchema,
+	AgentProfileRefSchema,
+	AgentProfileSchema,
+	type AgentProfiles
+} from '../agent/profiles.ts';
 import { CommonHints, type TaggedErrorOptions } from '../errors.ts';
 import { Metrics } from '../metrics/index.ts';
-import { ResourceDefinitionSchema, type ResourceDefinition } from '../resources/schema.ts';
+import {
+	RefreshPolicySchema,
+	ResourceDefinitionSchema,
+	type RefreshPolicy,
+	type ResourceDefinition
+} from '../resources/schema.ts';
 
 export const GLOBAL_CONFIG_DIR = '~/.config/btca';
 export const GLOBAL_CONFIG_FILENAME = 'btca.config.jsonc';
@@ -18,6 +29,8 @@ export const CONFIG_SCHEMA_URL = 'https://btca.dev/btca.schema.json';
 export const DEFAULT_MODEL = 'claude-haiku-4-5';
 export const DEFAULT_PROVIDER = 'opencode';
 export const DEFAULT_PROVIDER_TIMEOUT_MS = 300_000;
+export const DEFAULT_COLLECTION_CACHE_MAX_BYTES = 512 * 1024 * 1024;
+export const DEFAULT_ANSWER_CACHE_MAX_ENTRIES = 200;
 
 export const DEFAULT_RESOURCES: ResourceDefinition[] = [
 	{
@@ -53,6 +66,20 @@ const StoredConfigSchema = z.object({
 	$schema: z.string().optional(),
 	dataDirectory: z.string().optional(),
 	providerTimeoutMs: z.number().int().positive().optional(),
+	// Memory budget for loaded collections kept between questions (0 disables caching)
+	collectionCacheMaxBytes: z.number().int().nonnegative().optional(),
+	// Maximum number of answers reused for repeated questions (0 disables caching)
+	answerCacheMaxEntries: z.number().int().nonnegative().optional(),
+	// Default agent profile: a preset name or inline limits
+	agentProfile: AgentProfileRefSchema.optional(),
+	// Named presets, merged over the built-in "default", "quick", and "deep" profiles
+	agentProfiles: z.record(AgentProfileNameSchema, AgentProfileSchema).optional(),
+	// Write a transcript of every question to <dataDirectory>/transcripts for debugging
+	saveTranscripts: z.boolean().optional(),
+	// How often git and npm resources are fetched again; resources can override it
+	refresh: RefreshPolicySchema.optional(),
+	// Allow git resources with SSH URLs, cloned with the user's SSH agent and keys
+	allowSshGitUrls: z.boolean().optional(),
 	resources: z.array(ResourceDefinitionSchema),
 	// Provider and model are optional - defaults are applied when loading
 	model: z.string().optional(),
@@ -119,12 +146,23 @@ export namespace Config {
 		model: string;
 		provider: string;
 		providerTimeoutMs?: number;
+		collectionCacheMaxBytes: number;
+		answerCacheMaxEntries: number;
+		agentProfile?: AgentProfiles.Ref;
+		agentProfiles: Record<string, AgentProfiles.Profile>;
+		saveTranscripts: boolean;
+		refresh: RefreshPolicy;
+		allowSshGitUrls: boolean;
 		configPath: string;
 		getResource: (name: string) => ResourceDefinition | undefined;
 		updateModel: (provider: string, model: string) => Promise<{ provider: string; model: string }>;
 		addResource: (resource: ResourceDefinition) => Promise<ResourceDefinition>;
 		removeResource: (name: string) => Promise<void>;
-		clearResources: () => Promise<{ cleared: number }>;
+		/** Replace a git or local resource's include/exclude globs; an empty list removes them */
+		updateResourceFilters: (
+			name: string,
+			filters: { include?: string[]; exclude?: string[] }
+		) => Promise<ResourceDefinition>;
 		reload: () => Promise<void>;
 	};
 
@@ -618,6 +656,31 @@ export namespace Config {
 			get providerTimeoutMs() {
 				return getActiveConfig().providerTimeoutMs;
 			},
+			get collectionCacheMaxBytes() {
+				return getActiveConfig().collectionCacheMaxBytes ?? DEFAULT_COLLECTION_CACHE_MAX_BYTES;
+			},
+			get answerCacheMaxEntries() {
+				return getActiveConfig().answerCacheMaxEntries ?? DEFAULT_ANSWER_CACHE_MAX_ENTRIES;
+			},
+			get agentProfile() {
+				return currentProjectConfig?.agentProfile ?? currentGlobalConfig.agentProfile;
+			},
+			// Presets merge like resources: project presets override global ones by name
+			get agentProfiles() {
+				return {
+					...currentGlobalConfig.agentProfiles,
+					...currentProjectConfig?.agentProfiles
+				};
+			},
+			get saveTranscripts() {
+				return getActiveConfig().saveTranscripts ?? false;
+			},
+			get refresh() {
+				return getActiveConfig().refresh ?? 'always';
+			},
+			get allowSshGitUrls() {
+				return getActiveConfig().allowSshGitUrls ?? false;
+			},
 			getResource: (name: string) => getMergedResources().find((r) => r.name === name),
 
 			updateModel: async (provider: string, model: string) => {
@@ -710,30 +773,48 @@ export namespace Config {
 				}
 			},
 
-			clearResources: async () => {
-				// Clear the resources directory
-				let clearedCount = 0;
-
-				const resourcesResult = await Result.tryPromise(() => fs.readdir(resourcesDirectory));
-				const resourcesDir = resourcesResult.match({
-					ok: (value) => value,
-					err: () => []
-				});
-
-				for (const item of resourcesDir) {
-					const removeResult = await Result.tryPromise(() =>
-						fs.rm(`${resourcesDirectory}/${item}`, { recursive: true, force: true })
-					);
-					const removed = removeResult.match({
-						ok: () => true,
-						err: () => false
+			updateResourceFilters: async (name, filters) => {
+				const mutableConfig = getMutableConfig();
+				const existing = mutableConfig.resources.find((r) => r.name === name);
+				if (!existing) {
+					const inGlobal =
+						currentProjectConfig && currentGlobalConfig.resources.some((r) => r.name === name);
+					throw new ConfigError({
+						message: inGlobal
+							? `Resource "${name}" is defined in the global config`
+							: `Resource "${name}" not found`,
+						hint: inGlobal
+							? `Edit the global config at "${expandHome(GLOBAL_CONFIG_DIR)}/${GLOBAL_CONFIG_FILENAME}" or run the command without a project config present.`
+							: CommonHints.LIST_RESOURCES
+					});
+				}
+				if (existing.type !== 'git' && existing.type !== 'local') {
+					throw new ConfigError({
+						message: `Resource "${name}" is a ${existing.type} resource`,
+						hint: 'Include and exclude globs apply to git and local resources. Use searchPaths to narrow other resources.'
 					});
-					if (!removed) break;
-					clearedCount++;
 				}
 
-				Metrics.info('config.resources.cleared', { count: clearedCount });
-				return { cleared: clearedCount };
+				const updatedResource = { ...existing };
+				for (const key of ['include', 'exclude'] as const) {
+					const globs = filters[key];
+					if (globs === undefined) continue;
+					if (globs.length > 0) updatedResource[key] = globs;
+					else delete updatedResource[key];
+				}
+
+				const updated = {
+					...mutableConfig,
+					resources: mutableConfig.resources.map((r) => (r.name === name ? updatedResource : r))
+				};
+				setMutableConfig(updated);
+				await saveConfig(configPath, updated);
+				Metrics.info('config.resource.filters.updated', {
+					name,
+					include: updatedResource.include?.length ?? 0,
+					exclude: updatedResource.exclude?.length ?? 0
+				});
+				return updatedResource;
 			},
 
 			reload: async () => {
@@ -1,8 +1,17 @@
 import { AsyncLocalStorage } from 'node:async_hooks';
 
+export type SpanTiming = {
+	name: string;
+	ms: number;
+	ok: boolean;
+	[field: string]: unknown;
+};
+
 export type ContextStore = {
 	requestId: string;
 	txDepth: number;
+	// Timings recorded by Metrics.span during this request
+	spans?: SpanTiming[];
 };
 
 const storage = new AsyncLocalStorage<ContextStore>();
@@ -57,7 +57,7 @@ export interface TaggedErrorOptions {
  * Common hints that can be reused across error types.
  */
 export const CommonHints = {
-	CLEAR_CACHE: 'Try running "btca clear" to reset cached resources and try again.',
+	CLEAR_CACHE: 'Try running "btca clear --all" to reset cached resources and try again.',
 	CHECK_NETWORK: 'Check your internet connection and try again.',
 	CHECK_URL: 'Verify the URL is correct and the repository exists.',
 	CHECK_BRANCH:
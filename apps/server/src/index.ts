@@ -1,8 +1,14 @@
+import * as path from 'node:path';
+
 import { Result } from 'better-result';
 import { Hono } from 'hono';
 import type { Context as HonoContext, Next } from 'hono';
 import { z } from 'zod';
 
+import { AnswerCache } from './agent/cache.ts';
+import { AgentProfileRefSchema, AgentProfiles } from './agent/profiles.ts';
+import { ActiveQuestions } from './agent/questions.ts';
+import type { AgentLoop } from './agent/loop.ts';
 import { Agent } from './agent/service.ts';
 import { Collections } from './collections/service.ts';
 import { getCollectionKey } from './collections/types.ts';
@@ -11,11 +17,21 @@ import { Context } from './context/index.ts';
 import { getErrorMessage, getErrorTag, getErrorHint } from './errors.ts';
 import { Metrics } from './metrics/index.ts';
 import { Resources } from './resources/service.ts';
-import { GitResourceSchema, LocalResourceSchema } from './resources/schema.ts';
+import {
+	ArchiveResourceSchema,
+	GitResourceSchema,
+	LocalResourceSchema,
+	NpmResourceSchema,
+	WebResourceSchema,
+	isSshGitUrl
+} from './resources/schema.ts';
 import { StreamService } from './stream/service.ts';
+import { Transcripts } from './transcripts/service.ts';
+import { UsageLedger } from './usage/ledger.ts';
 import type { BtcaStreamMetaEvent } from './stream/types.ts';
 import { LIMITS, normalizeGitHubUrl } from './validation/index.ts';
 import { clearAllVirtualCollectionMetadata } from './collections/virtual-metadata.ts';
+import { SearchTool } from './tools/search.ts';
 import { VirtualFs } from './vfs/virtual-fs.ts';
 
 /**
@@ -28,7 +44,13 @@ import { VirtualFs } from './vfs/virtual-fs.ts';
  * GET  /resources         - Lists all configured resources
  * POST /question          - Ask a question (non-streaming)
  * POST /question/stream   - Ask a question (streaming SSE response)
+ * DELETE /question/:id    - Cancel an in-flight streamed question
  * POST /opencode          - Get OpenCode instance URL for a collection
+ * GET  /usage             - Token usage and estimated cost (?from=&to=&resource=)
+ * GET  /cache/answers     - Lists cached answers
+ * DELETE /cache/answers   - Purges cached answers (all, or one collection via ?collectionKey=)
+ * GET  /transcripts       - Lists saved question transcripts (?limit=)
+ * GET  /transcripts/:id   - Returns one saved transcript
  */
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -64,14 +86,70 @@ const ResourceNameField = z
 	.refine((name) => !name.includes('//'), 'Resource name must not contain "//"')
 	.refine((name) => !name.endsWith('/'), 'Resource name must not end with "/"');
 
+/**
+ * Thread message chunks - mirrors BtcaChunk from @btca/shared.
+ */
+const ThreadChunkSchema = z.discriminatedUnion('type', [
+	z.object({ type: z.literal('text'), id: z.string(), text: z.string() }),
+	z.object({ type: z.literal('reasoning'), id: z.string(), text: z.string() }),
+	z.object({
+		type: z.literal('tool'),
+		id: z.string(),
+		toolName: z.string(),
+		state: z.enum(['pending', 'running', 'completed']),
+		input: z.unknown().optional(),
+		output: z.string().optional()
+	}),
+	z.object({ type: z.literal('file'), id: z.string(), filePath: z.string() })
+]);
+
+/**
+ * Prior conversation message - mirrors ThreadMessage from @btca/shared.
+ */
+const ThreadMessageSchema = z.object({
+	role: z.enum(['user', 'assistant', 'system']),
+	content: z.union([
+		z.string(),
+		z.object({ type: z.literal('text'), content: z.string() }),
+		z.object({ type: z.literal('chunks'), chunks: z.array(ThreadChunkSchema) })
+	]),
+	canceled: z.boolean().optional()
+});
+
+/**
+ * Characters of a prior message that reach the model: its text and replayed tool output.
+ */
+const getMessageLength = ({ content }: z.infer<typeof ThreadMessageSchema>) => {
+	if (typeof content === 'string') return content.length;
+	if (content.type === 'text') return content.content.length;
+	return content.chunks.reduce((total, chunk) => {
+		if (chunk.type === 'text') return total + chunk.text.length;
+		if (chunk.type === 'tool') return total + (chunk.output?.length ?? 0);
+		return total;
+	}, 0);
+};
+
 const QuestionRequestSchema = z.object({
 	question: z
 		.string()
 		.min(1, 'Question cannot be empty')
 		.max(
 			LIMITS.QUESTION_MAX,
-			`Question too long (max ${LIMITS.QUESTION_MAX.toLocaleString()} chars). This includes conversation history - try starting a new thread or clearing the chat.`
+			`Question too long (max ${LIMITS.QUESTION_MAX.toLocaleString()} chars).`
 		),
+	messages: z
+		.array(ThreadMessageSchema)
+		.max(
+			LIMITS.MAX_MESSAGES_PER_REQUEST,
+			`Too many messages (max ${LIMITS.MAX_MESSAGES_PER_REQUEST}). Try starting a new thread or clearing the chat.`
+		)
+		.refine(
+			(messages) =>
+				messages.reduce((total, message) => total + getMessageLength(message), 0) <=
+				LIMITS.HISTORY_CHARS_MAX,
+			`Conversation history too long (max ${LIMITS.HISTORY_CHARS_MAX.toLocaleString()} chars). Try starting a new thread or clearing the chat.`
+		)
+		.optional(),
 	resources: z
 		.array(ResourceNameField)
 		.max(
@@ -79,7 +157,9 @@ const QuestionRequestSchema = z.object({
 			`Too many resources (max ${LIMITS.MAX_RESOURCES_PER_REQUEST})`
 		)
 		.optional(),
-	quiet: z.boolean().optional()
+	quiet: z.boolean().optional(),
+	// Agent profile preset name or inline limits (defaults to resource/config profile)
+	profile: AgentProfileRefSchema.optional()
 });
 
 const OpencodeRequestSchema = z.object({
@@ -115,8 +195,14 @@ const AddGitResourceRequestSchema = z.object({
 	name: GitResourceSchema.shape.name,
 	url: GitResourceSchema.shape.url,
 	branch: GitResourceSchema.shape.branch.optional().default('main'),
+	ref: GitResourceSchema.shape.ref,
+	auth: GitResourceSchema.shape.auth,
 	searchPath: GitResourceSchema.shape.searchPath,
 	searchPaths: GitResourceSchema.shape.searchPaths,
+	include: GitResourceSchema.shape.include,
+	exclude: GitResourceSchema.shape.exclude,
+	submodules: GitResourceSchema.shape.submodules,
+	lfs: GitResourceSchema.shape.lfs,
 	specialNotes: GitResourceSchema.shape.specialNotes
 });
 
@@ -144,18 +230,60 @@ const AddLocalResourceRequestSchema = z.object({
 	type: z.literal('local'),
 	name: LocalResourceSchema.shape.name,
 	path: LocalPathRequestSchema,
+	include: LocalResourceSchema.shape.include,
+	exclude: LocalResourceSchema.shape.exclude,
 	specialNotes: LocalResourceSchema.shape.specialNotes
 });
 
+const AddNpmResourceRequestSchema = z.object({
+	type: z.literal('npm'),
+	name: NpmResourceSchema.shape.name,
+	package: NpmResourceSchema.shape.package,
+	version: NpmResourceSchema.shape.version.optional().default('latest'),
+	registry: NpmResourceSchema.shape.registry,
+	tarball: LocalPathRequestSchema.optional(),
+	searchPaths: NpmResourceSchema.shape.searchPaths,
+	specialNotes: NpmResourceSchema.shape.specialNotes
+});
+
+const AddArchiveResourceRequestSchema = z.object({
+	type: z.literal('archive'),
+	name: ArchiveResourceSchema.shape.name,
+	source: z.preprocess(
+		(value) => (typeof value === 'string' ? normalizeWslPath(value) : value),
+		ArchiveResourceSchema.shape.source
+	) as z.ZodType<string>,
+	searchPaths: ArchiveResourceSchema.shape.searchPaths,
+	specialNotes: ArchiveResourceSchema.shape.specialNotes
+});
+
+const AddWebResourceRequestSchema = z.object({
+	type: z.literal('web'),
+	name: WebResourceSchema.shape.name,
+	url: WebResourceSchema.shape.url,
+	maxPages: WebResourceSchema.shape.maxPages,
+	maxDepth: WebResourceSchema.shape.maxDepth,
+	searchPaths: WebResourceSchema.shape.searchPaths,
+	specialNotes: WebResourceSchema.shape.specialNotes
+});
+
 const AddResourceRequestSchema = z.discriminatedUnion('type', [
 	AddGitResourceRequestSchema,
-	AddLocalResourceRequestSchema
+	AddLocalResourceRequestSchema,
+	AddNpmResourceRequestSchema,
+	AddArchiveResourceRequestSchema,
+	AddWebResourceRequestSchema
 ]);
 
 const RemoveResourceRequestSchema = z.object({
 	name: ResourceNameField
 });
 
+const UpdateResourceFiltersRequestSchema = z.object({
+	include: GitResourceSchema.shape.include,
+	exclude: GitResourceSchema.shape.exclude
+});
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Errors & Helpers
 // ─────────────────────────────────────────────────────────────────────────────
@@ -168,6 +296,20 @@ class RequestError extends Error {
 	}
 }
 
+/**
+ * Parse a date query parameter. Date-only values cover the whole day, so `?to=2026-01-31`
+ * includes questions asked on the 31st.
+ */
+const parseDateQuery = (value: string | undefined, bound: 'start' | 'end') => {
+	if (!value) return undefined;
+	const dateOnly = /^\d{4}-\d{2}-\d{2}$/.test(value);
+	const date = new Date(
+		dateOnly ? `${value}T${bound === 'start' ? '00:00:00.000' : '23:59:59.999'}Z` : value
+	);
+	if (Number.isNaN(date.getTime())) throw new RequestError(`Invalid date: ${value}`);
+	return date;
+};
+
 const decodeJson = async <T>(req: Request, schema: z.ZodType<T>): Promise<T> => {
 	const bodyResult = await Result.tryPromise(() => req.json());
 	return bodyResult.match({
@@ -191,8 +333,21 @@ const createApp = (deps: {
 	resources: Resources.Service;
 	collections: Collections.Service;
 	agent: Agent.Service;
+	answers: AnswerCache.Service;
+	questions: ActiveQuestions.Service;
+	usageLedger: UsageLedger.Service;
+	transcripts: Transcripts.Service;
 }) => {
-	const { config, collections, agent } = deps;
+	const { config, resources, collections, agent, answers, questions, usageLedger, transcripts } =
+		deps;
+
+	const resolveProfile = (requested: AgentProfiles.Ref | undefined, resourceNames: string[]) =>
+		AgentProfiles.resolve({
+			requested,
+			resourceProfiles: resourceNames.map((name) => config.getResource(name)?.profile),
+			configProfile: config.agentProfile,
+			presets: config.agentProfiles
+		});
 
 	const app = new Hono()
 		// ─────────────────────────────────────────────────────────────────────
@@ -200,7 +355,7 @@ const createApp = (deps: {
 		// ─────────────────────────────────────────────────────────────────────
 		.use('*', async (c: HonoContext, next: Next) => {
 			const requestId = crypto.randomUUID();
-			return Context.run({ requestId, txDepth: 0 }, async () => {
+			return Context.run({ requestId, txDepth: 0, spans: [] }, async () => {
 				Metrics.info('http.request', { method: c.req.method, path: c.req.path });
 				try {
 					await next();
@@ -224,7 +379,8 @@ const createApp = (deps: {
 				tag === 'ConfigError' ||
 				tag === 'InvalidProviderError' ||
 				tag === 'InvalidModelError' ||
-				tag === 'ProviderNotConnectedError'
+				tag === 'ProviderNotConnectedError' ||
+				tag === 'AgentProfileError'
 					? 400
 					: 500;
 			return c.json({ error: message, tag, ...(hint && { hint }) }, status);
@@ -249,6 +405,14 @@ const createApp = (deps: {
 				provider: config.provider,
 				model: config.model,
 				providerTimeoutMs: config.providerTimeoutMs ?? null,
+				collectionCacheMaxBytes: config.collectionCacheMaxBytes,
+				answerCacheMaxEntries: config.answerCacheMaxEntries,
+				agentProfile: config.agentProfile ?? AgentProfiles.DEFAULT_PROFILE,
+				agentProfiles: AgentProfiles.listNames(config.agentProfiles),
+				saveTranscripts: config.saveTranscripts,
+				refresh: config.refresh,
+				offline: resources.offline,
+				allowSshGitUrls: config.allowSshGitUrls,
 				resourcesDirectory: config.resourcesDirectory,
 				resourceCount: config.resources.length
 			});
@@ -264,8 +428,47 @@ const createApp = (deps: {
 							type: r.type,
 							url: r.url,
 							branch: r.branch,
+							ref: r.ref ?? null,
+							auth: r.auth ?? null,
+							refresh: r.refresh ?? null,
 							searchPath: r.searchPath ?? null,
 							searchPaths: r.searchPaths ?? null,
+							include: r.include ?? null,
+							exclude: r.exclude ?? null,
+							submodules: r.submodules ?? false,
+							lfs: r.lfs ?? false,
+							specialNotes: r.specialNotes ?? null
+						};
+					} else if (r.type === 'npm') {
+						return {
+							name: r.name,
+							type: r.type,
+							package: r.package,
+							version: r.version,
+							registry: r.registry ?? null,
+							tarball: r.tarball ?? null,
+							refresh: r.refresh ?? null,
+							searchPaths: r.searchPaths ?? null,
+							specialNotes: r.specialNotes ?? null
+						};
+					} else if (r.type === 'archive') {
+						return {
+							name: r.name,
+							type: r.type,
+							source: r.source,
+							refresh: r.refresh ?? null,
+							searchPaths: r.searchPaths ?? null,
+							specialNotes: r.specialNotes ?? null
+						};
+					} else if (r.type === 'web') {
+						return {
+							name: r.name,
+							type: r.type,
+							url: r.url,
+							maxPages: r.maxPages ?? null,
+							maxDepth: r.maxDepth ?? null,
+							refresh: r.refresh ?? null,
+							searchPaths: r.searchPaths ?? null,
 							specialNotes: r.specialNotes ?? null
 						};
 					} else {
@@ -273,6 +476,8 @@ const createApp = (deps: {
 							name: r.name,
 							type: r.type,
 							path: r.path,
+							include: r.include ?? null,
+							exclude: r.exclude ?? null,
 							specialNotes: r.specialNotes ?? null
 						};
 					}
@@ -280,6 +485,32 @@ const createApp = (deps: {
 			});
 		})
 
+		// GET /resources/health - Check configured resources on disk (and their git remotes)
+		// ?name=<resource> (repeatable) limits the check; ?remote=false skips the network
+		.get('/resources/health', async (c: HonoContext) => {
+			const names = c.req.queries('name');
+			const reports = await resources.health({
+				...(names && names.length > 0 ? { names } : {}),
+				remote: c.req.query('remote') !== 'false'
+			});
+			return c.json({
+				ok: reports.every((report) => report.status !== 'error'),
+				resources: reports
+			});
+		})
+
+		// POST /resources/:name/refresh - Fetch a resource now and report its old and new revision
+		// ?policy=true only fetches when the refresh policy says it is due
+		.post('/resources/:name/refresh', async (c: HonoContext) => {
+			const name = c.req.param('name') ?? '';
+			if (!config.getResource(name)) {
+				return c.json({ error: 'Resource not found', name }, 404);
+			}
+			const policy = c.req.query('policy') === 'true';
+			const result = await resources.refresh(name, { quiet: true, policy });
+			return c.json(result);
+		})
+
 		// GET /providers
 		.get('/providers', async (c: HonoContext) => {
 			const providers = await agent.listProviders();
@@ -308,25 +539,98 @@ const createApp = (deps: {
 				stream: false,
 				quiet: decoded.quiet ?? false,
 				questionLength: decoded.question.length,
+				historyLength: decoded.messages?.length ?? 0,
 				resources: resourceNames,
 				collectionKey
 			});
 
+			const profile = resolveProfile(decoded.profile, resourceNames);
 			const collection = await collections.load({ resourceNames, quiet: decoded.quiet });
 			Metrics.info('collection.ready', { collectionKey, path: collection.path });
 
-			const result = await agent.ask({ collection, question: decoded.question });
+			const cacheLookup = AnswerCache.createLookup({
+				question: decoded.question,
+				history: decoded.messages,
+				collectionKey,
+				vfsId: collection.vfsId,
+				agentInstructions: collection.agentInstructions,
+				model: { provider: config.provider, model: config.model },
+				profile
+			});
+			const cached = cacheLookup ? answers.get(cacheLookup) : null;
+			if (cached) {
+				collection.release?.();
+				Metrics.info('question.done', {
+					collectionKey,
+					answerLength: cached.text.length,
+					model: cached.model,
+					cached: true
+				});
+				return c.json({
+					answer: cached.text,
+					model: cached.model,
+					resources: resourceNames,
+					collection: { key: collectionKey, path: collection.path },
+					usage: cached.usage,
+					cached: true
+				});
+			}
+
+			const recorder = transcripts.isEnabled()
+				? Transcripts.createRecorder({
+						question: decoded.question,
+						historyLength: decoded.messages?.length ?? 0,
+						collectionKey,
+						resources: resourceNames,
+						model: { provider: config.provider, model: config.model },
+						profile: profile.name,
+						stream: false
+					})
+				: null;
+			const result = await agent.ask({
+				collection,
+				question: decoded.question,
+				history: decoded.messages,
+				profile
+			});
+			if (recorder) {
+				result.events.forEach(recorder.observe);
+				await transcripts.save(recorder.finish());
+			}
+			// A canceled or failed answer has no finish event, but still used its finished steps
+			const lastUsage = result.events.findLast(
+				(event): event is Extract<AgentLoop.AgentEvent, { type: 'finish' | 'usage' }> =>
+					event.type === 'finish' || event.type === 'usage'
+			);
+			const usage = UsageLedger.summarize(result.model, lastUsage?.usage);
 			Metrics.info('question.done', {
 				collectionKey,
 				answerLength: result.answer.length,
-				model: result.model
+				model: result.model,
+				profile: profile.name,
+				totalTokens: usage.totalTokens
+			});
+			await usageLedger.record({
+				...usage,
+				collectionKey,
+				resources: resourceNames,
+				provider: result.model.provider,
+				model: result.model.model,
+				stream: false
 			});
+			if (cacheLookup) {
+				answers.set({
+					...cacheLookup,
+					answer: { text: result.answer, tools: [], citations: [], usage, partial: true }
+				});
+			}
 
 			return c.json({
 				answer: result.answer,
 				model: result.model,
 				resources: resourceNames,
-				collection: { key: collectionKey, path: collection.path }
+				collection: { key: collectionKey, path: collection.path },
+				usage
 			});
 		})
 
@@ -343,17 +647,61 @@ const createApp = (deps: {
 				stream: true,
 				quiet: decoded.quiet ?? false,
 				questionLength: decoded.question.length,
+				historyLength: decoded.messages?.length ?? 0,
 				resources: resourceNames,
 				collectionKey
 			});
 
+			const profile = resolveProfile(decoded.profile, resourceNames);
 			const collection = await collections.load({ resourceNames, quiet: decoded.quiet });
 			Metrics.info('collection.ready', { collectionKey, path: collection.path });
 
-			const { stream: eventStream, model } = await agent.askStream({
-				collection,
-				question: decoded.question
+			const cacheLookup = AnswerCache.createLookup({
+				question: decoded.question,
+				history: decoded.messages,
+				collectionKey,
+				vfsId: collection.vfsId,
+				agentInstructions: collection.agentInstructions,
+				model: { provider: config.provider, model: config.model },
+				profile
 			});
+			// Replays need the tool calls and citations that only streamed answers record
+			const cached = cacheLookup ? answers.get(cacheLookup, { complete: true }) : null;
+			if (cached) {
+				collection.release?.();
+				const stream = StreamService.createReplayStream({
+					meta: {
+						type: 'meta',
+						model: cached.model,
+						resources: resourceNames,
+						collection: { key: collectionKey, path: collection.path },
+						commits: cached.commits,
+						cached: true
+					},
+					answer: cached
+				});
+				return new Response(stream, {
+					headers: {
+						'content-type': 'text/event-stream',
+						'cache-control': 'no-cache',
+						connection: 'keep-alive'
+					}
+				});
+			}
+
+			const activeQuestion = questions.start({ collectionKey });
+			const { stream: agentEvents, model } = await agent
+				.askStream({
+					collection,
+					question: decoded.question,
+					history: decoded.messages,
+					profile,
+					signal: activeQuestion.signal
+				})
+				.catch((error: unknown) => {
+					activeQuestion.finish();
+					throw error;
+				});
 
 			const meta = {
 				type: 'meta',
@@ -362,14 +710,50 @@ const createApp = (deps: {
 				collection: {
 					key: collectionKey,
 					path: collection.path
-				}
+				},
+				commits: AnswerCache.getCollectionCommits(collection.vfsId) ?? undefined,
+				questionId: activeQuestion.id
 			} satisfies BtcaStreamMetaEvent;
 
-			Metrics.info('question.stream.start', { collectionKey });
+			const eventStream = transcripts.record({
+				events: agentEvents,
+				meta: {
+					question: decoded.question,
+					historyLength: decoded.messages?.length ?? 0,
+					collectionKey,
+					resources: resourceNames,
+					model,
+					profile: profile.name,
+					stream: true
+				}
+			});
+
+			Metrics.info('question.stream.start', {
+				collectionKey,
+				questionId: activeQuestion.id,
+				profile: profile.name
+			});
 			const stream = StreamService.createSseStream({
 				meta,
 				eventStream,
-				question: decoded.question
+				question: decoded.question,
+				vfsId: collection.vfsId,
+				onComplete: (answer) => {
+					if (cacheLookup) answers.set({ ...cacheLookup, answer });
+				},
+				signal: activeQuestion.signal,
+				onDisconnect: () => activeQuestion.abort('disconnected'),
+				onClose: activeQuestion.finish,
+				onUsage: (usage) => {
+					void usageLedger.record({
+						...usage,
+						collectionKey,
+						resources: resourceNames,
+						provider: model.provider,
+						model: model.model,
+						stream: true
+					});
+				}
 			});
 
 			return new Response(stream, {
@@ -399,7 +783,9 @@ const createApp = (deps: {
 			const collection = await collections.load({ resourceNames, quiet: decoded.quiet });
 			Metrics.info('collection.ready', { collectionKey, path: collection.path });
 
-			const { url, model, instanceId } = await agent.getOpencodeInstance({ collection });
+			const { url, model, instanceId } = await agent
+				.getOpencodeInstance({ collection })
+				.finally(() => collection.release?.());
 			Metrics.info('opencode.ready', { collectionKey, url, instanceId });
 
 			return c.json({
@@ -447,6 +833,12 @@ const createApp = (deps: {
 			const decoded = await decodeJson(c.req.raw, AddResourceRequestSchema);
 
 			if (decoded.type === 'git') {
+				if (isSshGitUrl(decoded.url) && !config.allowSshGitUrls) {
+					throw new Config.ConfigError({
+						message: 'SSH git URLs are disabled',
+						hint: 'Set "allowSshGitUrls": true in your btca config to use SSH URLs, or add the HTTPS URL with a named "auth" credential.'
+					});
+				}
 				// Normalize GitHub URLs (e.g., /blob/main/file.txt → base repo URL)
 				const normalizedUrl = normalizeGitHubUrl(decoded.url);
 				const resource = {
@@ -454,8 +846,49 @@ const createApp = (deps: {
 					name: decoded.name,
 					url: normalizedUrl,
 					branch: decoded.branch ?? 'main',
+					...(decoded.ref && { ref: decoded.ref }),
+					...(decoded.auth && { auth: decoded.auth }),
 					...(decoded.searchPath && { searchPath: decoded.searchPath }),
 					...(decoded.searchPaths && { searchPaths: decoded.searchPaths }),
+					...(decoded.include?.length && { include: decoded.include }),
+					...(decoded.exclude?.length && { exclude: decoded.exclude }),
+					...(decoded.submodules && { submodules: true }),
+					...(decoded.lfs && { lfs: true }),
+					...(decoded.specialNotes && { specialNotes: decoded.specialNotes })
+				};
+				const added = await config.addResource(resource);
+				return c.json(added, 201);
+			} else if (decoded.type === 'npm') {
+				const resource = {
+					type: 'npm' as const,
+					name: decoded.name,
+					package: decoded.package,
+					version: decoded.version ?? 'latest',
+					...(decoded.registry && { registry: decoded.registry }),
+					...(decoded.tarball && { tarball: decoded.tarball }),
+					...(decoded.searchPaths && { searchPaths: decoded.searchPaths }),
+					...(decoded.specialNotes && { specialNotes: decoded.specialNotes })
+				};
+				const added = await config.addResource(resource);
+				return c.json(added, 201);
+			} else if (decoded.type === 'archive') {
+				const resource = {
+					type: 'archive' as const,
+					name: decoded.name,
+					source: decoded.source,
+					...(decoded.searchPaths && { searchPaths: decoded.searchPaths }),
+					...(decoded.specialNotes && { specialNotes: decoded.specialNotes })
+				};
+				const added = await config.addResource(resource);
+				return c.json(added, 201);
+			} else if (decoded.type === 'web') {
+				const resource = {
+					type: 'web' as const,
+					name: decoded.name,
+					url: decoded.url,
+					...(decoded.maxPages !== undefined && { maxPages: decoded.maxPages }),
+					...(decoded.maxDepth !== undefined && { maxDepth: decoded.maxDepth }),
+					...(decoded.searchPaths && { searchPaths: decoded.searchPaths }),
 					...(decoded.specialNotes && { specialNotes: decoded.specialNotes })
 				};
 				const added = await config.addResource(resource);
@@ -465,6 +898,8 @@ const createApp = (deps: {
 					type: 'local' as const,
 					name: decoded.name,
 					path: decoded.path,
+					...(decoded.include?.length && { include: decoded.include }),
+					...(decoded.exclude?.length && { exclude: decoded.exclude }),
 					...(decoded.specialNotes && { specialNotes: decoded.specialNotes })
 				};
 				const added = await config.addResource(resource);
@@ -472,6 +907,13 @@ const createApp = (deps: {
 			}
 		})
 
+		// PUT /config/resources/:name/filters - Replace a resource's include/exclude globs
+		.put('/config/resources/:name/filters', async (c: HonoContext) => {
+			const decoded = await decodeJson(c.req.raw, UpdateResourceFiltersRequestSchema);
+			const updated = await config.updateResourceFilters(c.req.param('name') ?? '', decoded);
+			return c.json(updated);
+		})
+
 		// DELETE /config/resources - Remove a resource
 		.delete('/config/resources', async (c: HonoContext) => {
 			const decoded = await decodeJson(c.req.raw, RemoveResourceRequestSchema);
@@ -479,9 +921,74 @@ const createApp = (deps: {
 			return c.json({ success: true, name: decoded.name });
 		})
 
-		// POST /clear - Clear all locally cloned resources
+		// DELETE /question/:id - Cancel an in-flight streamed question
+		.delete('/question/:id', (c: HonoContext) => {
+			const questionId = c.req.param('id');
+			if (!questionId || !questions.cancel(questionId)) {
+				return c.json({ error: 'Question not found', questionId }, 404);
+			}
+			return c.json({ canceled: true, questionId });
+		})
+
+		// GET /usage - Token usage and estimated cost from the local ledger
+		.get('/usage', async (c: HonoContext) => {
+			const resource = c.req.query('resource');
+			const result = await usageLedger.query({
+				from: parseDateQuery(c.req.query('from'), 'start'),
+				to: parseDateQuery(c.req.query('to'), 'end'),
+				...(resource ? { resource } : {})
+			});
+			return c.json(result);
+		})
+
+		// GET /cache/answers - List cached answers, most recently used first
+		.get('/cache/answers', (c: HonoContext) => {
+			const entries = answers.list();
+			return c.json({ entries, count: entries.length });
+		})
+
+		// DELETE /cache/answers - Purge cached answers, optionally for one collection
+		.delete('/cache/answers', (c: HonoContext) => {
+			const collectionKey = c.req.query('collectionKey');
+			const purged = answers.purge(collectionKey ? { collectionKey } : undefined);
+			return c.json({ purged });
+		})
+
+		// DELETE /cache/answers/:id - Purge a single cached answer
+		.delete('/cache/answers/:id', (c: HonoContext) => {
+			const id = c.req.param('id');
+			const purged = answers.purge({ id });
+			if (purged === 0) {
+				return c.json({ error: 'Cached answer not found', id }, 404);
+			}
+			return c.json({ purged, id });
+		})
+
+		// GET /transcripts - List saved question transcripts, newest first
+		.get('/transcripts', async (c: HonoContext) => {
+			const limitParam = c.req.query('limit');
+			const limit = limitParam ? Number(limitParam) : undefined;
+			if (limit !== undefined && (!Number.isInteger(limit) || limit <= 0)) {
+				throw new RequestError(`Invalid limit: ${limitParam}`);
+			}
+			const items = await transcripts.list({ limit });
+			return c.json({ transcripts: items, enabled: transcripts.isEnabled() });
+		})
+
+		// GET /transcripts/:id - Get a single saved transcript
+		.get('/transcripts/:id', async (c: HonoContext) => {
+			const id = c.req.param('id') ?? '';
+			const transcript = await transcripts.get(id);
+			if (!transcript) {
+				return c.json({ error: 'Transcript not found', id }, 404);
+			}
+			return c.json(transcript);
+		})
+
+		// POST /clear - Delete downloaded data no resource uses anymore (?all=true: everything)
 		.post('/clear', async (c: HonoContext) => {
-			const result = await config.clearResources();
+			collections.clearCache();
+			const result = await resources.clear({ all: c.req.query('all') === 'true' });
 			return c.json(result);
 		});
 
@@ -506,6 +1013,8 @@ export interface ServerInstance {
 export interface StartServerOptions {
 	port?: number;
 	quiet?: boolean;
+	/** Never fetch resources; answer from what is already downloaded (default: BTCA_OFFLINE=1) */
+	offline?: boolean;
 }
 
 /**
@@ -530,11 +1039,33 @@ export const startServer = async (options: StartServerOptions = {}): Promise<Ser
 		resourcesDirectory: config.resourcesDirectory
 	});
 
-	const resources = Resources.create(config);
+	const offline = options.offline ?? process.env.BTCA_OFFLINE === '1';
+	const resources = Resources.create(config, { offline });
 	const collections = Collections.create({ config, resources });
 	const agent = Agent.create(config);
+	const answers = AnswerCache.create({ getMaxEntries: () => config.answerCacheMaxEntries });
+
+	const questions = ActiveQuestions.create();
 
-	const app = createApp({ config, resources, collections, agent });
+	// The ledger lives at the data directory root, next to the resources directory
+	const usageLedger = UsageLedger.create({
+		dataDirectory: path.dirname(config.resourcesDirectory)
+	});
+	const transcripts = Transcripts.create({
+		dataDirectory: path.dirname(config.resourcesDirectory),
+		isEnabled: () => config.saveTranscripts
+	});
+
+	const app = createApp({
+		config,
+		resources,
+		collections,
+		agent,
+		answers,
+		questions,
+		usageLedger,
+		transcripts
+	});
 
 	const server = Bun.serve({
 		port: requestedPort,
@@ -552,6 +1083,7 @@ export const startServer = async (options: StartServerOptions = {}): Promise<Ser
 			void agent.closeAllInstances();
 			VirtualFs.disposeAll();
 			clearAllVirtualCollectionMetadata();
+			SearchTool.clearAllCorpora();
 			server.stop();
 		}
 	};
@@ -39,6 +39,10 @@ export namespace Metrics {
 	export const info = (event: string, fields?: Fields) => emit('info', event, fields);
 	export const error = (event: string, fields?: Fields) => emit('error', event, fields);
 
+	/**
+	 * Time an async operation. Timings are logged and also collected on the request context,
+	 * so a request can report where its time went.
+	 */
 	export const span = async <T>(
 		name: string,
 		fn: () => Promise<T>,
@@ -46,20 +50,15 @@ export namespace Metrics {
 	): Promise<T> => {
 		const start = performance.now();
 		const result = await Result.tryPromise(fn);
-		return result.match({
-			ok: (value) => {
-				info('span.ok', { name, ms: Math.round(performance.now() - start), ...fields });
-				return value;
-			},
-			err: (cause) => {
-				error('span.err', {
-					name,
-					ms: Math.round(performance.now() - start),
-					...fields,
-					error: errorInfo(cause)
-				});
-				throw cause;
-			}
-		});
+		const ms = Math.round(performance.now() - start);
+		Context.get()?.spans?.push({ name, ms, ok: result.isOk(), ...fields });
+
+		if (result.isErr()) {
+			error('span.err', { name, ms, ...fields, error: errorInfo(result.error) });
+			throw result.error;
+		}
+
+		info('span.ok', { name, ms, ...fields });
+		return result.value;
 	};
 }
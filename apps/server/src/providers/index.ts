@@ -4,6 +4,7 @@
  */
 export { Auth } from './auth.ts';
 export { Model } from './model.ts';
+export { Recordings } from './recorded.ts';
 export {
 	PROVIDER_REGISTRY,
 	PROVIDER_ALIASES,
@@ -12,3 +13,4 @@ export {
 	getProviderFactory,
 	getSupportedProviders
 } from './registry.ts';
+export { MODEL_PRICING, getModelPrice, estimateCost, type ModelPrice } from './pricing.ts';
@@ -14,6 +14,7 @@ import {
 	type ProviderOptions
 } from './registry.ts';
 import { getCustomProviderApiKey, isCustomProvider } from './opencode-config.ts';
+import { Recordings } from './recorded.ts';
 
 export namespace Model {
 	export class ProviderNotFoundError extends Error {
@@ -64,6 +65,16 @@ export namespace Model {
 	): Promise<LanguageModel> {
 		const normalizedProviderId = normalizeProviderId(providerId);
 
+		// Replays never reach the provider, so they need neither its package nor auth
+		const replayFile = Recordings.getReplayFile();
+		if (replayFile) {
+			return Recordings.createReplayModel({
+				providerId: normalizedProviderId,
+				modelId,
+				file: replayFile
+			});
+		}
+
 		// Check if provider is supported (including custom providers)
 		const isSupported = await isProviderSupportedAsync(normalizedProviderId);
 		if (!isSupported) {
@@ -109,9 +120,18 @@ export namespace Model {
 
 		// Create the provider and get the model
 		const provider = factory(providerOptions);
-		const model = provider(modelId);
+		const model = provider(modelId) as LanguageModel;
+
+		const recordFile = Recordings.getRecordFile();
+		if (recordFile) {
+			return Recordings.record(model, {
+				providerId: normalizedProviderId,
+				modelId,
+				file: recordFile
+			});
+		}
 
-		return model as LanguageModel;
+		return model;
 	}
 
 	/**
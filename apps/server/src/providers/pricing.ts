@@ -0,0 +1,74 @@
+/**
+ * Model Pricing
+ * Approximate list prices used to estimate the cost of a question locally
+ */
+import type { OpenCodeZenModel } from './opencode.ts';
+
+// USD per million tokens. Reasoning tokens are billed as output tokens.
+export type ModelPrice = {
+	input: number;
+	output: number;
+};
+
+export type TokenUsage = {
+	inputTokens?: number;
+	outputTokens?: number;
+};
+
+// Keyed by OpenCode Zen model id; other providers' ids are normalized onto these
+export const MODEL_PRICING: Record<OpenCodeZenModel, ModelPrice> = {
+	// GPT models
+	'gpt-5.2': { input: 1.75, output: 14 },
+	'gpt-5.2-codex': { input: 1.75, output: 14 },
+	'gpt-5.1': { input: 1.25, output: 10 },
+	'gpt-5.1-codex': { input: 1.25, output: 10 },
+	'gpt-5.1-codex-max': { input: 1.25, output: 10 },
+	'gpt-5.1-codex-mini': { input: 0.25, output: 2 },
+	'gpt-5': { input: 1.25, output: 10 },
+	'gpt-5-codex': { input: 1.25, output: 10 },
+	'gpt-5-nano': { input: 0.05, output: 0.4 },
+	// Claude models
+	'claude-sonnet-4-5': { input: 3, output: 15 },
+	'claude-sonnet-4': { input: 3, output: 15 },
+	'claude-haiku-4-5': { input: 1, output: 5 },
+	'claude-3-5-haiku': { input: 0.8, output: 4 },
+	'claude-opus-4-5': { input: 5, output: 25 },
+	'claude-opus-4-1': { input: 15, output: 75 },
+	// Gemini models
+	'gemini-3-pro': { input: 2, output: 12 },
+	'gemini-3-flash': { input: 0.5, output: 3 },
+	// Other models
+	'glm-4.7': { input: 0.6, output: 2.2 },
+	'glm-4.6': { input: 0.6, output: 2.2 },
+	'kimi-k2': { input: 0.4, output: 2.5 },
+	'kimi-k2-thinking': { input: 0.4, output: 2.5 },
+	'qwen3-coder': { input: 0.45, output: 1.8 },
+	'big-pickle': { input: 0, output: 0 }
+};
+
+/**
+ * Map a provider model id onto a pricing key, e.g. "anthropic/claude-sonnet-4-5-20250929"
+ * or "gemini-3-pro-preview" both resolve to the base model.
+ */
+const normalizeModelId = (modelId: string) =>
+	(modelId.split('/').pop() ?? modelId)
+		.toLowerCase()
+		.replace(/-\d{8}$/, '')
+		.replace(/-(preview|latest)$/, '');
+
+export const getModelPrice = (modelId: string): ModelPrice | undefined => {
+	const key = normalizeModelId(modelId);
+	return key in MODEL_PRICING ? MODEL_PRICING[key as OpenCodeZenModel] : undefined;
+};
+
+/**
+ * Estimate the cost of a question in USD, or undefined if the model has no known price.
+ */
+export const estimateCost = (modelId: string, usage: TokenUsage): number | undefined => {
+	const price = getModelPrice(modelId);
+	if (!price) return undefined;
+	const cost =
+		((usage.inputTokens ?? 0) * price.input + (usage.outputTokens ?? 0) * price.output) / 1_000_000;
+	// Micro-dollar precision keeps ledger totals readable
+	return Math.round(cost * 1_000_000) / 1_000_000;
+};
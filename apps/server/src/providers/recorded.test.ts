@@ -0,0 +1,133 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { simulateReadableStream, streamText, type LanguageModel } from 'ai';
+import { MockLanguageModelV3 } from 'ai/test';
+
+import { Recordings } from './recorded.ts';
+
+const usage = {
+	inputTokens: { total: 12, noCache: 12, cacheRead: undefined, cacheWrite: undefined },
+	outputTokens: { total: 4, text: 4, reasoning: undefined }
+};
+
+const createModel = (text: string) => {
+	let calls = 0;
+	const model = new MockLanguageModelV3({
+		doStream: async () => {
+			calls++;
+			return {
+				stream: simulateReadableStream({
+					chunks: [
+						{ type: 'stream-start' as const, warnings: [] },
+						{ type: 'response-metadata' as const, id: 'r1', timestamp: new Date(0) },
+						{ type: 'text-start' as const, id: 't1' },
+						{ type: 'text-delta' as const, id: 't1', delta: text },
+						{ type: 'text-end' as const, id: 't1' },
+						{
+							type: 'finish' as const,
+							finishReason: { unified: 'stop' as const, raw: 'stop' },
+							usage
+						}
+					]
+				})
+			};
+		}
+	});
+	return { model, calls: () => calls };
+};
+
+const ask = async (model: LanguageModel, question: string) => {
+	const result = streamText({ model, prompt: question });
+	return { text: await result.text, usage: await result.usage };
+};
+
+describe('Recordings', () => {
+	let dir: string;
+
+	beforeEach(async () => {
+		dir = await fs.mkdtemp(path.join(os.tmpdir(), 'btca-recordings-'));
+	});
+
+	afterEach(async () => {
+		await fs.rm(dir, { recursive: true, force: true });
+	});
+
+	it('replays a recorded response without calling the provider', async () => {
+		const file = path.join(dir, 'recordings.json');
+		const source = createModel('Use createRouter().');
+		const args = { providerId: 'anthropic', modelId: 'claude-haiku-4-5', file };
+
+		const recorded = await ask(Recordings.record(source.model, args), 'How do I route?');
+		expect(recorded.text).toBe('Use createRouter().');
+		expect(source.calls()).toBe(1);
+
+		const saved = (await Bun.file(file).json()) as Recordings.File;
+		expect(Object.keys(saved.responses)).toHaveLength(1);
+
+		const replayed = await ask(Recordings.createReplayModel(args), 'How do I route?');
+		expect(replayed.text).toBe('Use createRouter().');
+		expect(replayed.usage.inputTokens).toBe(12);
+		expect(source.calls()).toBe(1);
+	});
+
+	it('fails clearly when a request was never recorded', async () => {
+		const file = path.join(dir, 'recordings.json');
+		const args = { providerId: 'anthropic', modelId: 'claude-haiku-4-5', file };
+		await ask(Recordings.record(createModel('Yes.').model, args), 'Is it typed?');
+
+		const otherModel = Recordings.createReplayModel({ ...args, modelId: 'claude-opus-4-5' });
+		const result = streamText({ model: otherModel, prompt: 'Is it typed?', onError: () => {} });
+		const errors: unknown[] = [];
+		for await (const part of result.fullStream) {
+			if (part.type === 'error') errors.push(part.error);
+		}
+		expect(errors).toHaveLength(1);
+		expect(errors[0]).toBeInstanceOf(Recordings.RecordingNotFoundError);
+	});
+
+	it('rejects a replay file that does not exist', async () => {
+		const model = Recordings.createReplayModel({
+			providerId: 'anthropic',
+			modelId: 'claude-haiku-4-5',
+			file: path.join(dir, 'missing.json')
+		});
+		const result = streamText({ model, prompt: 'Hello', onError: () => {} });
+		const errors: unknown[] = [];
+		for await (const part of result.fullStream) {
+			if (part.type === 'error') errors.push(part.error);
+		}
+		expect(errors[0]).toBeInstanceOf(Recordings.RecordingFileError);
+	});
+
+	it('ignores tool call ids and tool output in the key', () => {
+		const prompt = (id: string, output: string) => [
+			{ role: 'user' as const, content: [{ type: 'text' as const, text: 'Where is it?' }] },
+			{
+				role: 'assistant' as const,
+				content: [
+					{ type: 'tool-call' as const, toolCallId: id, toolName: 'glob', input: { pattern: '*' } }
+				]
+			},
+			{
+				role: 'tool' as const,
+				content: [
+					{
+						type: 'tool-result' as const,
+						toolCallId: id,
+						toolName: 'glob',
+						output: { type: 'text' as const, value: output }
+					}
+				]
+			}
+		];
+		const key = (id: string, output: string) =>
+			Recordings.getKey({ providerId: 'openai', modelId: 'gpt-5', prompt: prompt(id, output) });
+
+		expect(key('call-1', 'a.ts')).toBe(key('call-2', 'b.ts'));
+		expect(
+			Recordings.getKey({ providerId: 'openai', modelId: 'gpt-4o', prompt: prompt('x', '') })
+		).not.toBe(key('x', ''));
+	});
+});
@@ -0,0 +1,230 @@
+/**
+ * Recorded Responses
+ * Saves model responses to a file while answering, and replays them later without calling
+ * the provider. Evals use this to run offline (in CI) with the same answers every time.
+ *
+ * - BTCA_RECORD=<file>: answer with the configured model and save each response
+ * - BTCA_REPLAY=<file>: answer from the saved responses only; no provider auth is needed
+ *
+ * Responses are keyed by provider, model, and the conversation the model sees, minus the
+ * system prompt and tool output. Tools still run during replay, so changed file contents do
+ * not break a recording, but a changed question or tool call does.
+ */
+import { createHash } from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { Result } from 'better-result';
+import {
+	simulateReadableStream,
+	wrapLanguageModel,
+	type LanguageModel,
+	type LanguageModelMiddleware
+} from 'ai';
+
+import { Metrics } from '../metrics/index.ts';
+
+type WrapStream = NonNullable<LanguageModelMiddleware['wrapStream']>;
+type LanguageModelV3 = Parameters<WrapStream>[0]['model'];
+type CallOptions = Parameters<WrapStream>[0]['params'];
+type StreamPart =
+	Awaited<ReturnType<WrapStream>>['stream'] extends ReadableStream<infer Part> ? Part : never;
+
+export namespace Recordings {
+	export const RECORD_ENV = 'BTCA_RECORD';
+	export const REPLAY_ENV = 'BTCA_REPLAY';
+
+	export class RecordingNotFoundError extends Error {
+		readonly _tag = 'RecordingNotFoundError';
+		readonly key: string;
+		readonly hint: string;
+
+		constructor(args: { key: string; file: string }) {
+			super(`No recorded response in "${args.file}" for this request (${args.key.slice(0, 12)})`);
+			this.key = args.key;
+			this.hint = `Record it again with ${RECORD_ENV}=${args.file} (or "btca eval --record"). The question, model, or a tool call changed since it was recorded.`;
+		}
+	}
+
+	export class RecordingFileError extends Error {
+		readonly _tag = 'RecordingFileError';
+		readonly hint: string;
+
+		constructor(file: string) {
+			super(`Cannot read recorded responses from "${file}"`);
+			this.hint = 'Check that the file exists and was written by a recording run.';
+		}
+	}
+
+	export type File = {
+		version: 1;
+		responses: Record<string, StreamPart[]>;
+	};
+
+	const readEnv = (key: string) => {
+		const value = process.env[key];
+		return value && value.trim().length > 0 ? path.resolve(value.trim()) : undefined;
+	};
+
+	export const getRecordFile = () => readEnv(RECORD_ENV);
+	export const getReplayFile = () => readEnv(REPLAY_ENV);
+	export const isReplaying = () => getReplayFile() !== undefined;
+
+	/**
+	 * Key a request by what decides the model's response. Tool-call ids and tool output are
+	 * left out so replays match even though ids differ and files change between runs.
+	 */
+	export const getKey = (args: {
+		providerId: string;
+		modelId: string;
+		prompt: CallOptions['prompt'];
+	}) => {
+		const conversation = args.prompt.flatMap((message) => {
+			if (message.role === 'user' || message.role === 'assistant') {
+				const parts: unknown[] = [];
+				for (const part of message.content) {
+					if (part.type === 'text') parts.push(part.text);
+					if (part.type === 'tool-call') parts.push({ tool: part.toolName, input: part.input });
+				}
+				return [{ role: message.role, parts }];
+			}
+			return [];
+		});
+		return createHash('sha256')
+			.update(JSON.stringify({ provider: args.providerId, model: args.modelId, conversation }))
+			.digest('hex');
+	};
+
+	// Loaded files by path; recordings add to the same object they save
+	const files = new Map<string, Promise<File>>();
+	const writes = new Map<string, Promise<void>>();
+
+	const loadFile = (file: string, options: { create: boolean }) => {
+		let loaded = files.get(file);
+		if (!loaded) {
+			loaded = (async () => {
+				const result = await Result.tryPromise(async () => (await Bun.file(file).json()) as File);
+				if (result.isOk() && result.value?.responses) return result.value;
+				if (options.create && !(await Bun.file(file).exists())) {
+					return { version: 1 as const, responses: {} };
+				}
+				throw new RecordingFileError(file);
+			})();
+			files.set(file, loaded);
+			loaded.catch(() => files.delete(file));
+		}
+		return loaded;
+	};
+
+	const saveFile = (file: string, data: File) => {
+		// Chain writes so concurrent answers never interleave partial files
+		const previous = writes.get(file) ?? Promise.resolve();
+		const next = previous.then(async () => {
+			await fs.mkdir(path.dirname(file), { recursive: true });
+			await Bun.write(file, JSON.stringify(data, null, 2));
+		});
+		writes.set(
+			file,
+			next.catch(() => undefined)
+		);
+		return next;
+	};
+
+	// Timestamps come back from JSON as strings
+	const reviveParts = (parts: StreamPart[]) =>
+		parts.map((part) =>
+			part.type === 'response-metadata' && part.timestamp
+				? { ...part, timestamp: new Date(part.timestamp) }
+				: part
+		);
+
+	/**
+	 * A model that answers only from a recording file
+	 */
+	export const createReplayModel = (args: {
+		providerId: string;
+		modelId: string;
+		file: string;
+	}): LanguageModel => {
+		const model: LanguageModelV3 = {
+			specificationVersion: 'v3',
+			provider: args.providerId,
+			modelId: args.modelId,
+			supportedUrls: {},
+			doGenerate: async () => {
+				throw new Error('Recorded responses can only be replayed as a stream');
+			},
+			doStream: async (options) => {
+				const key = getKey({ ...args, prompt: options.prompt });
+				const recording = (await loadFile(args.file, { create: false })).responses[key];
+				if (!recording) {
+					Metrics.error('recordings.replay.missing', { file: args.file, key });
+					throw new RecordingNotFoundError({ key, file: args.file });
+				}
+				Metrics.info('recordings.replay', { key, parts: recording.length });
+				return {
+					stream: simulateReadableStream({
+						chunks: reviveParts(recording),
+						initialDelayInMs: null,
+						chunkDelayInMs: null
+					})
+				};
+			}
+		};
+		return model;
+	};
+
+	/**
+	 * Wrap a provider model so every completed streamed response is saved to `file`
+	 */
+	export const record = (
+		model: LanguageModel,
+		args: { providerId: string; modelId: string; file: string }
+	): LanguageModel => {
+		if (typeof model !== 'object' || model.specificationVersion !== 'v3') {
+			Metrics.error('recordings.record.unsupported', { provider: args.providerId });
+			return model;
+		}
+
+		return wrapLanguageModel({
+			model,
+			middleware: {
+				specificationVersion: 'v3',
+				wrapStream: async ({ doStream, params }) => {
+					const key = getKey({ ...args, prompt: params.prompt });
+					const result = await doStream();
+					const parts: StreamPart[] = [];
+
+					const stream = result.stream.pipeThrough(
+						new TransformStream<StreamPart, StreamPart>({
+							transform(part, controller) {
+								if (part.type !== 'raw') parts.push(part);
+								controller.enqueue(part);
+							},
+							async flush() {
+								// Failed or cut-off responses are not worth replaying
+								const finished = parts.some((part) => part.type === 'finish');
+								if (!finished || parts.some((part) => part.type === 'error')) return;
+								// The answer is already streamed, so a failed save is only logged
+								const saved = await Result.tryPromise(async () => {
+									const data = await loadFile(args.file, { create: true });
+									data.responses[key] = parts;
+									await saveFile(args.file, data);
+								});
+								if (saved.isErr()) {
+									Metrics.error('recordings.record.error', {
+										file: args.file,
+										error: Metrics.errorInfo(saved.error.cause)
+									});
+									return;
+								}
+								Metrics.info('recordings.record', { key, parts: parts.length });
+							}
+						})
+					);
+
+					return { ...result, stream };
+				}
+			}
+		});
+	};
+}
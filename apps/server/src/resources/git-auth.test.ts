@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+
+import { getCredentialEnvName, getGitAuthEnv, resolveGitCredential } from './git-auth.ts';
+import { GitResourceSchema } from './schema.ts';
+
+describe('Git auth', () => {
+	let dataDir: string;
+	const originalEnv = { ...process.env };
+
+	beforeEach(async () => {
+		dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'btca-git-auth-test-'));
+		process.env.XDG_DATA_HOME = dataDir;
+		delete process.env.BTCA_GIT_AUTH_GITHUB_WORK;
+		delete process.env.GIT_CONFIG_COUNT;
+	});
+
+	afterEach(async () => {
+		process.env = { ...originalEnv };
+		await fs.rm(dataDir, { recursive: true, force: true });
+	});
+
+	it('resolves credentials from the environment before the auth store', async () => {
+		await fs.mkdir(path.join(dataDir, 'opencode'), { recursive: true });
+		await fs.writeFile(
+			path.join(dataDir, 'opencode', 'auth.json'),
+			JSON.stringify({ 'github-work': { type: 'api', key: 'stored-token' } })
+		);
+
+		expect(getCredentialEnvName('github-work')).toBe('BTCA_GIT_AUTH_GITHUB_WORK');
+		expect(await resolveGitCredential('github-work')).toBe('stored-token');
+
+		process.env.BTCA_GIT_AUTH_GITHUB_WORK = 'env-token';
+		expect(await resolveGitCredential('github-work')).toBe('env-token');
+	});
+
+	it('fails with a hint when a credential is missing', async () => {
+		await expect(resolveGitCredential('github-work')).rejects.toThrow(
+			'Git credential "github-work" not found'
+		);
+	});
+
+	it('passes the credential as a host-scoped header, not in the URL', async () => {
+		process.env.BTCA_GIT_AUTH_GITHUB_WORK = 'secret';
+
+		const env = await getGitAuthEnv({
+			url: 'https://github.com/acme/private-docs',
+			auth: 'github-work'
+		});
+
+		expect(env.GIT_TERMINAL_PROMPT).toBe('0');
+		expect(env.GIT_CONFIG_KEY_0).toBe('http.https://github.com/.extraHeader');
+		expect(env.GIT_CONFIG_VALUE_0).toBe(
+			`Authorization: Basic ${Buffer.from('x-access-token:secret').toString('base64')}`
+		);
+	});
+
+	it('keeps GIT_CONFIG entries already in the environment', async () => {
+		process.env.BTCA_GIT_AUTH_GITHUB_WORK = 'secret';
+		process.env.GIT_CONFIG_COUNT = '1';
+		process.env.GIT_CONFIG_KEY_0 = 'http.sslCAInfo';
+		process.env.GIT_CONFIG_VALUE_0 = '/etc/ssl/corp.pem';
+
+		const env = await getGitAuthEnv({
+			url: 'https://github.com/acme/private-docs',
+			auth: 'github-work'
+		});
+
+		expect(env.GIT_CONFIG_COUNT).toBe('2');
+		expect(env.GIT_CONFIG_KEY_0).toBeUndefined();
+		expect(env.GIT_CONFIG_KEY_1).toBe('http.https://github.com/.extraHeader');
+	});
+
+	it('accepts SSH URLs in config but not credentials for them', async () => {
+		const ssh = 'git@github.com:acme/private-docs.git';
+		expect(GitResourceSchema.shape.url.safeParse(ssh).success).toBe(true);
+		expect(GitResourceSchema.shape.url.safeParse('ssh://git@github.com/acme/docs').success).toBe(
+			true
+		);
+		expect(GitResourceSchema.shape.url.safeParse('git@-oProxyCommand=x:acme/docs').success).toBe(
+			false
+		);
+		expect(GitResourceSchema.shape.url.safeParse('git@localhost:acme/docs').success).toBe(false);
+
+		expect((await getGitAuthEnv({ url: ssh })).GIT_SSH_COMMAND).toBeDefined();
+		await expect(getGitAuthEnv({ url: ssh, auth: 'github-work' })).rejects.toThrow(
+			'cannot be used with an SSH URL'
+		);
+	});
+});
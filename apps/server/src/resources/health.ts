@@ -0,0 +1,73 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+
+import { Result } from 'better-result';
+
+import { ResourceError, unwrapCause } from './helpers.ts';
+import type { ResourceHealth, ResourceHealthIssue } from './types.ts';
+
+/**
+ * Total size of the files below a folder, without following symlinks. Null when the
+ * folder cannot be read.
+ */
+export const getDirectorySize = async (root: string): Promise<number | null> => {
+	const walk = async (directory: string): Promise<number> => {
+		let total = 0;
+		for (const entry of await fs.readdir(directory, { withFileTypes: true })) {
+			const entryPath = path.join(directory, entry.name);
+			if (entry.isDirectory()) total += await walk(entryPath);
+			else if (entry.isFile()) total += (await fs.lstat(entryPath)).size;
+		}
+		return total;
+	};
+	const result = await Result.tryPromise(() => walk(root));
+	return result.match({
+		ok: (size) => size,
+		err: () => null
+	});
+};
+
+/**
+ * Turn an error thrown by a resource check into an issue, keeping its hint.
+ */
+export const issueFromError = (
+	level: ResourceHealthIssue['level'],
+	error: unknown
+): ResourceHealthIssue => {
+	const cause = unwrapCause(error);
+	return {
+		level,
+		message: cause instanceof Error ? cause.message : String(cause),
+		...(cause instanceof ResourceError && cause.hint ? { hint: cause.hint } : {})
+	};
+};
+
+/**
+ * Run `check` for each search path and report the ones that fail as errors.
+ */
+export const checkSearchPaths = async (
+	searchPaths: readonly string[],
+	check: (searchPath: string) => Promise<void>
+) => {
+	const issues: ResourceHealthIssue[] = [];
+	for (const searchPath of searchPaths) {
+		const result = await Result.tryPromise(() => check(searchPath));
+		if (Result.isError(result)) issues.push(issueFromError('error', result.error));
+	}
+	return issues;
+};
+
+export const toIsoTime = (time: number | null) =>
+	time === null ? null : new Date(time).toISOString();
+
+/**
+ * Finish a report: the status is the most severe issue.
+ */
+export const createHealthReport = (report: Omit<ResourceHealth, 'status'>): ResourceHealth => ({
+	...report,
+	status: report.issues.some((issue) => issue.level === 'error')
+		? 'error'
+		: report.issues.length > 0
+			? 'warning'
+			: 'ok'
+});
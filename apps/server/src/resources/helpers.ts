@@ -1,3 +1,7 @@
+import { promises as fs } from 'node:fs';
+
+import { Result } from 'better-result';
+
 import type { TaggedErrorOptions } from '../errors.ts';
 
 export class ResourceError extends Error {
@@ -16,3 +20,15 @@ export class ResourceError extends Error {
 export const resourceNameToKey = (name: string): string => {
 	return encodeURIComponent(name);
 };
+
+/**
+ * Result.tryPromise wraps thrown errors; this returns our own errors unchanged.
+ */
+export const unwrapCause = (error: unknown) =>
+	error instanceof Error && error.cause instanceof ResourceError ? error.cause : error;
+
+export const pathExists = async (target: string) =>
+	(await Result.tryPromise(() => fs.stat(target))).match({
+		ok: () => true,
+		err: () => false
+	});
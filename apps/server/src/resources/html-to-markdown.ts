@@ -0,0 +1,307 @@
+/**
+ * Small HTML to markdown converter for crawled documentation pages. It only needs to keep
+ * what matters for reading and grepping docs: headings, paragraphs, lists, links, tables,
+ * and code blocks. Everything else is reduced to its text.
+ */
+import { Result } from 'better-result';
+
+const NAMED_ENTITIES: Record<string, string> = {
+	amp: '&',
+	lt: '<',
+	gt: '>',
+	quot: '"',
+	apos: "'",
+	nbsp: ' ',
+	ndash: '–',
+	mdash: '—',
+	hellip: '…',
+	copy: '©',
+	rsquo: '’',
+	lsquo: '‘',
+	rdquo: '”',
+	ldquo: '“'
+};
+
+// Elements whose content is never documentation
+const SKIPPED_ELEMENTS = ['script', 'style', 'noscript', 'template', 'svg', 'iframe', 'head'];
+
+const BLOCK_ELEMENTS = new Set([
+	'p',
+	'div',
+	'section',
+	'article',
+	'main',
+	'header',
+	'footer',
+	'aside',
+	'nav',
+	'figure',
+	'figcaption',
+	'details',
+	'summary',
+	'dl',
+	'dt',
+	'dd',
+	'table',
+	'form'
+]);
+
+export const decodeEntities = (text: string) =>
+	text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+		if (entity[0] === '#') {
+			const code =
+				entity[1] === 'x' || entity[1] === 'X'
+					? parseInt(entity.slice(2), 16)
+					: parseInt(entity.slice(1), 10);
+			return Number.isNaN(code) || code > 0x10ffff ? match : String.fromCodePoint(code);
+		}
+		return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+	});
+
+const getAttribute = (attributes: string, name: string) => {
+	const match = new RegExp(
+		`(?:^|\\s)${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s"'>]+))`,
+		'i'
+	).exec(attributes);
+	if (!match) return undefined;
+	return decodeEntities(match[1] ?? match[2] ?? match[3] ?? '');
+};
+
+const resolveHref = (href: string | undefined, baseUrl: string) => {
+	if (!href || href.startsWith('#') || /^(javascript|mailto|tel|data):/i.test(href)) return null;
+	return Result.try(() => new URL(href, baseUrl).toString()).match({
+		ok: (url) => url,
+		err: () => null
+	});
+};
+
+const stripSkippedElements = (html: string) => {
+	let result = html.replace(/<!--[\s\S]*?-->/g, '');
+	for (const element of SKIPPED_ELEMENTS) {
+		result = result.replace(new RegExp(`<${element}\\b[\\s\\S]*?<\\/${element}\\s*>`, 'gi'), '');
+	}
+	return result;
+};
+
+/**
+ * Prefer the page's main content so navigation and footers do not drown out the docs.
+ */
+const selectContent = (html: string) => {
+	for (const element of ['main', 'article', 'body']) {
+		const match = new RegExp(`<${element}\\b[^>]*>([\\s\\S]*)<\\/${element}\\s*>`, 'i').exec(html);
+		if (match?.[1]) return match[1];
+	}
+	return html;
+};
+
+/**
+ * Every link on the page, resolved against `baseUrl`. Includes navigation links, which are
+ * how a crawler finds the rest of the docs.
+ */
+export const extractHtmlLinks = (html: string, baseUrl: string) => {
+	const links = new Set<string>();
+	const cleaned = stripSkippedElements(html);
+	for (const match of cleaned.matchAll(/<a\b([^>]*)>/gi)) {
+		const resolved = resolveHref(getAttribute(match[1] ?? '', 'href'), baseUrl);
+		if (resolved) links.add(resolved);
+	}
+	return [...links];
+};
+
+/**
+ * Every link in a markdown or llms.txt document, resolved against `baseUrl`.
+ */
+export const extractMarkdownLinks = (markdown: string, baseUrl: string) => {
+	const links = new Set<string>();
+	for (const match of markdown.matchAll(/\[[^\]]*\]\(\s*<?([^)\s>]+)>?(?:\s+"[^"]*")?\s*\)/g)) {
+		const resolved = resolveHref(match[1], baseUrl);
+		if (resolved) links.add(resolved);
+	}
+	return [...links];
+};
+
+export const extractHtmlTitle = (html: string) => {
+	const match = /<title\b[^>]*>([\s\S]*?)<\/title\s*>/i.exec(html);
+	const title = match?.[1] ? decodeEntities(match[1]).replace(/\s+/g, ' ').trim() : '';
+	return title || undefined;
+};
+
+type ListState = { ordered: boolean; index: number };
+
+type Frame = { element: 'pre' | 'blockquote'; output: string; language?: string };
+
+export const htmlToMarkdown = (html: string, baseUrl: string) => {
+	const content = selectContent(stripSkippedElements(html));
+	const lists: ListState[] = [];
+	const links: (string | null)[] = [];
+	const frames: Frame[] = [];
+	let output = '';
+	let tableHasHeader = false;
+	let rowCells = 0;
+	let rowIsHeader = false;
+
+	const write = (text: string) => {
+		const frame = frames.at(-1);
+		if (frame) frame.output += text;
+		else output += text;
+	};
+	const current = () => frames.at(-1)?.output ?? output;
+	const inPre = () => frames.some((frame) => frame.element === 'pre');
+
+	for (const match of content.matchAll(
+		/<(\/?)([a-zA-Z][a-zA-Z0-9]*)\b([^>]*)>|<[!?][^>]*>|([^<]+)|</g
+	)) {
+		const [raw, closing, rawTag, attributes = '', text] = match;
+
+		if (!rawTag) {
+			// Doctypes and processing instructions carry no content
+			if (text === undefined && raw !== '<') continue;
+			const decoded = decodeEntities(text ?? '<');
+			if (inPre()) {
+				write(decoded);
+				continue;
+			}
+			const collapsed = decoded.replace(/\s+/g, ' ');
+			write(/(^|\s)$/.test(current()) ? collapsed.trimStart() : collapsed);
+			continue;
+		}
+
+		const tag = rawTag.toLowerCase();
+		const isClosing = closing === '/';
+
+		if (inPre() && tag !== 'pre') {
+			// Keep the language of highlighted code blocks and ignore every other tag
+			const frame = frames.at(-1);
+			if (!isClosing && tag === 'code' && frame?.element === 'pre' && !frame.language) {
+				frame.language = /language-([\w+-]+)/.exec(getAttribute(attributes, 'class') ?? '')?.[1];
+			}
+			continue;
+		}
+
+		const heading = /^h([1-6])$/.exec(tag);
+		if (heading) {
+			write(isClosing ? '\n\n' : `\n\n${'#'.repeat(Number(heading[1]))} `);
+			continue;
+		}
+
+		switch (tag) {
+			case 'br':
+				write('\n');
+				break;
+			case 'hr':
+				write('\n\n---\n\n');
+				break;
+			case 'strong':
+			case 'b':
+				write('**');
+				break;
+			case 'em':
+			case 'i':
+				write('_');
+				break;
+			case 'code':
+				write('`');
+				break;
+			case 'pre':
+				if (isClosing) {
+					const frame = frames.pop();
+					if (frame?.element === 'pre') {
+						const code = frame.output.replace(/^\n+|\s+$/g, '');
+						write(`\n\n\`\`\`${frame.language ?? ''}\n${code}\n\`\`\`\n\n`);
+					}
+				} else {
+					frames.push({
+						element: 'pre',
+						output: '',
+						language: /language-([\w+-]+)/.exec(getAttribute(attributes, 'class') ?? '')?.[1]
+					});
+				}
+				break;
+			case 'blockquote':
+				if (isClosing) {
+					const frame = frames.pop();
+					const quoted = (frame?.output ?? '')
+						.replace(/\n\s*\n+/g, '\n\n')
+						.trim()
+						.split('\n')
+						.map((line) => `> ${line}`.trimEnd())
+						.join('\n');
+					write(`\n\n${quoted}\n\n`);
+				} else {
+					frames.push({ element: 'blockquote', output: '' });
+				}
+				break;
+			case 'ul':
+			case 'ol':
+				if (isClosing) lists.pop();
+				else lists.push({ ordered: tag === 'ol', index: 0 });
+				// Nested lists continue the parent list without a blank line
+				if (lists.length === (isClosing ? 0 : 1)) write('\n\n');
+				break;
+			case 'li': {
+				if (isClosing) break;
+				const list = lists.at(-1);
+				const indent = '  '.repeat(Math.max(0, lists.length - 1));
+				if (list) list.index += 1;
+				write(`\n${indent}${list?.ordered ? `${list.index}.` : '-'} `);
+				break;
+			}
+			case 'a':
+				if (isClosing) {
+					const href = links.pop();
+					if (href) write(`](${href})`);
+				} else {
+					const href = resolveHref(getAttribute(attributes, 'href'), baseUrl);
+					links.push(href);
+					if (href) write('[');
+				}
+				break;
+			case 'img': {
+				const alt = getAttribute(attributes, 'alt');
+				const src = resolveHref(getAttribute(attributes, 'src'), baseUrl);
+				if (alt && src) write(`![${alt}](${src})`);
+				break;
+			}
+			case 'tr':
+				if (isClosing) {
+					write('\n');
+					if (rowIsHeader && !tableHasHeader) {
+						write(`|${' --- |'.repeat(rowCells)}\n`);
+						tableHasHeader = true;
+					}
+				} else {
+					write(current().endsWith('\n') ? '|' : '\n|');
+					rowCells = 0;
+					rowIsHeader = false;
+				}
+				break;
+			case 'th':
+			case 'td':
+				if (isClosing) {
+					write(' |');
+				} else {
+					write(' ');
+					rowCells += 1;
+					if (tag === 'th') rowIsHeader = true;
+				}
+				break;
+			default:
+				if (tag === 'table') tableHasHeader = false;
+				if (BLOCK_ELEMENTS.has(tag)) write('\n\n');
+		}
+	}
+
+	// Unclosed <pre> or <blockquote>: keep whatever they collected
+	while (frames.length > 0) {
+		const frame = frames.pop();
+		write(frame?.output ?? '');
+	}
+
+	return output
+		.split('\n')
+		.map((line) => line.trimEnd())
+		.join('\n')
+		.replace(/\n{3,}/g, '\n\n')
+		.replace(/\[\s*\]\([^)]*\)/g, '')
+		.trim();
+};
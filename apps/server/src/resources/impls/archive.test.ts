@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+
+import { loadArchiveResource } from './archive.ts';
+import { ArchiveResourceSchema } from '../schema.ts';
+import type { BtcaArchiveResourceArgs } from '../types.ts';
+
+const run = async (command: string[], cwd: string) => {
+	const proc = Bun.spawn(command, { cwd, stdout: 'ignore', stderr: 'ignore' });
+	expect(await proc.exited).toBe(0);
+};
+
+describe('Archive Resource', () => {
+	let testDir: string;
+
+	beforeEach(async () => {
+		testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'btca-archive-test-'));
+		await fs.mkdir(path.join(testDir, 'bundle', 'docs-1.0', 'guides'), { recursive: true });
+		await fs.writeFile(path.join(testDir, 'bundle', 'docs-1.0', 'index.md'), '# Docs 1.0\n');
+		await fs.writeFile(
+			path.join(testDir, 'bundle', 'docs-1.0', 'guides', 'start.md'),
+			'Getting started\n'
+		);
+	});
+
+	afterEach(async () => {
+		await fs.rm(testDir, { recursive: true, force: true });
+	});
+
+	const baseArgs = (overrides: Partial<BtcaArchiveResourceArgs>): BtcaArchiveResourceArgs => ({
+		type: 'archive',
+		name: 'vendor-docs',
+		source: path.join(testDir, 'docs.zip'),
+		repoSubPaths: [],
+		resourcesDirectoryPath: path.join(testDir, 'resources'),
+		specialAgentInstructions: '',
+		refresh: 'always',
+		offline: false,
+		...overrides
+	});
+
+	it('extracts a zip, unwrapping its single top-level folder', async () => {
+		const source = path.join(testDir, 'docs.zip');
+		await run(['zip', '-qr', source, 'docs-1.0'], path.join(testDir, 'bundle'));
+
+		const resource = await loadArchiveResource(baseArgs({ source, repoSubPaths: ['guides'] }));
+
+		expect(resource.type).toBe('archive');
+		expect(resource.revision).toHaveLength(64);
+		expect(resource.version).toStartWith('docs.zip (sha256 ');
+		const resourcePath = await resource.getAbsoluteDirectoryPath();
+		expect(await fs.readFile(path.join(resourcePath, 'guides', 'start.md'), 'utf8')).toBe(
+			'Getting started\n'
+		);
+	});
+
+	it('skips extraction while the checksum is unchanged', async () => {
+		const source = path.join(testDir, 'docs.tar.gz');
+		const bundleDir = path.join(testDir, 'bundle');
+		await run(['tar', '-czf', source, 'docs-1.0'], bundleDir);
+
+		const first = await loadArchiveResource(baseArgs({ source }));
+		const resourcePath = await first.getAbsoluteDirectoryPath();
+		await fs.writeFile(path.join(resourcePath, 'marker'), '');
+
+		const unchanged = await loadArchiveResource(baseArgs({ source }));
+		expect(unchanged.revision).toBe(first.revision);
+		expect(await Bun.file(path.join(resourcePath, 'marker')).exists()).toBe(true);
+
+		await fs.writeFile(path.join(bundleDir, 'docs-1.0', 'index.md'), '# Docs 1.1\n');
+		await run(['tar', '-czf', source, 'docs-1.0'], bundleDir);
+
+		const changed = await loadArchiveResource(baseArgs({ source }));
+		expect(changed.revision).not.toBe(first.revision);
+		expect(await Bun.file(path.join(resourcePath, 'marker')).exists()).toBe(false);
+		expect(await fs.readFile(path.join(resourcePath, 'index.md'), 'utf8')).toBe('# Docs 1.1\n');
+	});
+
+	it('rejects archives with entries outside the extraction folder', async () => {
+		const source = path.join(testDir, 'evil.tgz');
+		await run(
+			['tar', '-czPf', source, '--transform=s,^,../,', 'index.md'],
+			path.join(testDir, 'bundle', 'docs-1.0')
+		);
+
+		await expect(loadArchiveResource(baseArgs({ source }))).rejects.toThrow(
+			'Archive contains an unsafe path'
+		);
+		expect(await Bun.file(path.join(testDir, 'resources', '..', 'index.md')).exists()).toBe(false);
+	});
+
+	it('fails with a hint when a local archive is missing', async () => {
+		const source = path.join(testDir, 'missing.zip');
+		await expect(loadArchiveResource(baseArgs({ source }))).rejects.toThrow('Archive not found');
+	});
+
+	it('refuses archive URLs on private hosts', () => {
+		const source = ArchiveResourceSchema.shape.source;
+		expect(source.safeParse('https://example.com/docs.tgz').success).toBe(true);
+		expect(source.safeParse('https://localhost/docs.tgz').success).toBe(false);
+		expect(source.safeParse('https://10.0.0.5/docs.zip').success).toBe(false);
+	});
+});
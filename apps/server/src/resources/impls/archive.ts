@@ -0,0 +1,424 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+
+import { Result } from 'better-result';
+
+import { Metrics } from '../../metrics/index.ts';
+import { CommonHints } from '../../errors.ts';
+import { TrigramIndex } from '../../search/trigram-index.ts';
+import { checkSearchPaths, createHealthReport, getDirectorySize, toIsoTime } from '../health.ts';
+import { pathExists, ResourceError, resourceNameToKey, unwrapCause } from '../helpers.ts';
+import { describeRefreshPolicy, isRefreshDue, markRefreshed, readLastRefresh } from '../refresh.ts';
+import { ArchiveEntryPathSchema, isPrivateHostname } from '../schema.ts';
+import type {
+	BtcaArchiveResourceArgs,
+	BtcaFsResource,
+	ResourceHealth,
+	ResourceHealthIssue
+} from '../types.ts';
+
+type ArchiveFormat = 'zip' | 'tar.gz';
+
+/**
+ * Written next to the extracted archive so an unchanged archive is not extracted again.
+ */
+type ArchiveManifest = {
+	source: string;
+	sha256: string;
+	extractedAt: string;
+};
+
+const isRemoteSource = (source: string) => /^https:\/\//i.test(source);
+
+const getFormat = (source: string): ArchiveFormat => {
+	const name = isRemoteSource(source) ? new URL(source).pathname : source;
+	return /\.zip$/i.test(name) ? 'zip' : 'tar.gz';
+};
+
+const getLocalPath = (config: BtcaArchiveResourceArgs) =>
+	path.join(config.resourcesDirectoryPath, resourceNameToKey(config.name));
+
+const getManifestPath = (config: BtcaArchiveResourceArgs) =>
+	path.join(config.resourcesDirectoryPath, `${resourceNameToKey(config.name)}.archive.json`);
+
+const getSearchIndexPath = (config: BtcaArchiveResourceArgs) =>
+	path.join(config.resourcesDirectoryPath, `${resourceNameToKey(config.name)}.trigrams`);
+
+const readManifest = async (config: BtcaArchiveResourceArgs) =>
+	(await Result.tryPromise(() => fs.readFile(getManifestPath(config), 'utf8'))).match({
+		ok: (content) =>
+			Result.try(() => JSON.parse(content) as ArchiveManifest).match({
+				ok: (manifest) => (manifest.source === config.source ? manifest : null),
+				err: () => null
+			}),
+		err: () => null
+	});
+
+const hashFile = async (file: string) => {
+	const hasher = new Bun.CryptoHasher('sha256');
+	for await (const chunk of Bun.file(file).stream()) hasher.update(chunk);
+	return hasher.digest('hex');
+};
+
+const runTool = async (command: string[]) => {
+	const proc = Bun.spawn(command, { stdout: 'pipe', stderr: 'pipe' });
+	const [stdout, stderr] = await Promise.all([
+		new Response(proc.stdout).text(),
+		new Response(proc.stderr).text()
+	]);
+	return { exitCode: await proc.exited, stdout, stderr };
+};
+
+const downloadArchive = async (source: string, destination: string) => {
+	const response = await Result.tryPromise({
+		try: () => fetch(source),
+		catch: (cause) =>
+			new ResourceError({
+				message: `Failed to download ${source}`,
+				hint: CommonHints.CHECK_NETWORK,
+				cause
+			})
+	});
+	if (Result.isError(response)) throw response.error;
+	if (response.value.redirected && isPrivateHostname(new URL(response.value.url).hostname)) {
+		throw new ResourceError({
+			message: `Failed to download ${source}: redirected to a private address`,
+			hint: 'Archive URLs must not redirect to localhost or private IP addresses.'
+		});
+	}
+	if (!response.value.ok) {
+		throw new ResourceError({
+			message: `Failed to download ${source}: status ${response.value.status}`,
+			hint: CommonHints.CHECK_NETWORK
+		});
+	}
+	await Bun.write(destination, response.value);
+};
+
+/**
+ * Reject archives with entries that would land outside the extraction folder.
+ */
+const assertSafeEntries = async (archivePath: string, format: ArchiveFormat) => {
+	const listing = await runTool(
+		format === 'zip' ? ['unzip', '-Z1', archivePath] : ['tar', '-tzf', archivePath]
+	);
+	if (listing.exitCode !== 0) {
+		throw new ResourceError({
+			message: `Failed to read archive "${archivePath}"`,
+			hint: 'Check that the file is a valid .zip or gzipped tar archive.',
+			cause: new Error(`listing failed with exit code ${listing.exitCode}: ${listing.stderr}`)
+		});
+	}
+
+	for (const entry of listing.stdout.split('\n').filter(Boolean)) {
+		const result = ArchiveEntryPathSchema.safeParse(entry);
+		if (!result.success) {
+			throw new ResourceError({
+				message: `Archive contains an unsafe path: "${entry}"`,
+				hint: result.error.errors[0]?.message ?? 'Remove the entry from the archive.'
+			});
+		}
+	}
+};
+
+/**
+ * Symlinks are extracted as-is, so make sure none of them point outside the folder.
+ */
+const assertNoEscapingLinks = async (root: string) => {
+	const realRoot = await fs.realpath(root);
+	const entries = await fs.readdir(root, { recursive: true, withFileTypes: true });
+	for (const entry of entries) {
+		if (!entry.isSymbolicLink()) continue;
+		const linkPath = path.join(entry.parentPath, entry.name);
+		const target = await Result.tryPromise(() => fs.realpath(linkPath));
+		const resolved = Result.isOk(target) ? target.value : null;
+		if (resolved && (resolved === realRoot || resolved.startsWith(`${realRoot}${path.sep}`))) {
+			continue;
+		}
+		throw new ResourceError({
+			message: `Archive contains a link that points outside of it: "${path.relative(root, linkPath)}"`,
+			hint: 'Replace the link with the file it points to, then rebuild the archive.'
+		});
+	}
+};
+
+const extractArchive = async (archivePath: string, format: ArchiveFormat, destination: string) => {
+	await fs.mkdir(destination, { recursive: true });
+	const result = await runTool(
+		format === 'zip'
+			? ['unzip', '-qq', '-o', archivePath, '-d', destination]
+			: ['tar', '-xzf', archivePath, '-C', destination, '--no-same-owner']
+	);
+	if (result.exitCode !== 0) {
+		throw new ResourceError({
+			message: `Failed to extract archive "${archivePath}"`,
+			hint: 'Check that the file is a valid .zip or gzipped tar archive.',
+			cause: new Error(`extraction failed with exit code ${result.exitCode}: ${result.stderr}`)
+		});
+	}
+	await assertNoEscapingLinks(destination);
+
+	// Bundles usually wrap everything in one versioned folder; search paths start inside it
+	const entries = await fs.readdir(destination, { withFileTypes: true });
+	const [only] = entries;
+	return entries.length === 1 && only?.isDirectory()
+		? path.join(destination, only.name)
+		: destination;
+};
+
+/**
+ * Extract into a staging folder, then swap it into place so a failed extraction never
+ * leaves a half-written resource behind.
+ */
+const installArchive = async (
+	config: BtcaArchiveResourceArgs,
+	archivePath: string,
+	sha256: string
+) => {
+	const localPath = getLocalPath(config);
+	const stagingPath = `${localPath}.staging-${crypto.randomUUID()}`;
+
+	const result = await Result.tryPromise(async () => {
+		await assertSafeEntries(archivePath, getFormat(config.source));
+		const root = await extractArchive(archivePath, getFormat(config.source), stagingPath);
+		await fs.rm(localPath, { recursive: true, force: true });
+		await fs.rename(root, localPath);
+
+		const manifest: ArchiveManifest = {
+			source: config.source,
+			sha256,
+			extractedAt: new Date().toISOString()
+		};
+		await fs.writeFile(getManifestPath(config), JSON.stringify(manifest, null, 2));
+		return manifest;
+	});
+
+	await fs.rm(stagingPath, { recursive: true, force: true });
+
+	if (Result.isError(result)) {
+		const error = unwrapCause(result.error);
+		throw error instanceof ResourceError
+			? error
+			: new ResourceError({
+					message: `Failed to extract archive for "${config.name}"`,
+					hint: `${CommonHints.CLEAR_CACHE} Check that you have write permissions to the btca data directory.`,
+					cause: error
+				});
+	}
+	return result.value;
+};
+
+/**
+ * Make the archive's file available locally: download remote archives into `staging`,
+ * or use local files in place.
+ */
+const fetchArchive = async (config: BtcaArchiveResourceArgs, stagingFile: string) => {
+	if (isRemoteSource(config.source)) {
+		await fs.mkdir(config.resourcesDirectoryPath, { recursive: true });
+		await downloadArchive(config.source, stagingFile);
+		await markRefreshed(config.resourcesDirectoryPath, config.name);
+		return stagingFile;
+	}
+	if (!(await pathExists(config.source))) {
+		throw new ResourceError({
+			message: `Archive not found: "${config.source}"`,
+			hint: 'Check the "source" path, or rebuild the archive if it is a build artifact.'
+		});
+	}
+	return config.source;
+};
+
+/**
+ * Fetch and extract the archive when its contents changed. Unless `strict` is set, an
+ * archive that cannot be fetched falls back to the last extracted copy.
+ */
+const ensureArchiveResource = async (
+	config: BtcaArchiveResourceArgs,
+	strict: boolean
+): Promise<ArchiveManifest> => {
+	const localPath = getLocalPath(config);
+
+	return Metrics.span(
+		'resource.archive.ensure',
+		async () => {
+			const installed = (await pathExists(localPath)) ? await readManifest(config) : null;
+
+			if (isRemoteSource(config.source)) {
+				if (installed && config.offline) return installed;
+				if (installed) {
+					const lastRefresh = await readLastRefresh(config.resourcesDirectoryPath, config.name);
+					if (!isRefreshDue(config.refresh, lastRefresh)) {
+						Metrics.info('resource.archive.update.skipped', {
+							name: config.name,
+							refresh: describeRefreshPolicy(config.refresh)
+						});
+						return installed;
+					}
+				}
+				if (config.offline) {
+					throw new ResourceError({
+						message: `Resource "${config.name}" has not been downloaded yet`,
+						hint: 'The server is running offline. Restart it without --offline (or unset BTCA_OFFLINE), or point "source" at a local copy.'
+					});
+				}
+			}
+
+			const stagingFile = `${localPath}.download-${crypto.randomUUID()}`;
+			const result = await Result.tryPromise(async () => {
+				const archivePath = await fetchArchive(config, stagingFile);
+				const sha256 = await hashFile(archivePath);
+				if (installed?.sha256 === sha256) return installed;
+
+				Metrics.info('resource.archive.extract', {
+					name: config.name,
+					source: config.source,
+					sha256
+				});
+				return installArchive(config, archivePath, sha256);
+			});
+			await fs.rm(stagingFile, { force: true });
+
+			if (Result.isError(result)) {
+				const error = unwrapCause(result.error);
+				if (!installed || strict) throw error;
+				// Keep answering from the last extracted copy
+				Metrics.error('resource.archive.unavailable', {
+					name: config.name,
+					sha256: installed.sha256,
+					error: Metrics.errorInfo(error)
+				});
+				return installed;
+			}
+			return result.value;
+		},
+		{ resource: config.name }
+	);
+};
+
+const ensureSearchPathsExist = async (localPath: string, config: BtcaArchiveResourceArgs) => {
+	for (const repoSubPath of config.repoSubPaths) {
+		if (await pathExists(path.join(localPath, repoSubPath))) continue;
+		throw new ResourceError({
+			message: `Invalid searchPath for resource "${config.name}"\n\nPath not found: "${repoSubPath}"\nArchive: ${localPath}`,
+			hint: `Verify the path exists in the archive. To see available directories, run:\n  ls ${localPath}`
+		});
+	}
+};
+
+/**
+ * Rebuild the grep index when the archive changed. Failures are logged and otherwise
+ * ignored - grep falls back to scanning every file.
+ */
+const ensureSearchIndex = async (
+	config: BtcaArchiveResourceArgs,
+	localPath: string,
+	revision: string
+) => {
+	const indexPath = getSearchIndexPath(config);
+	const result = await Result.tryPromise(async () => {
+		if ((await TrigramIndex.readCommit(indexPath)) === revision) return;
+		const index = await TrigramIndex.build(localPath, revision);
+		await TrigramIndex.write(indexPath, index);
+		Metrics.info('resource.archive.index', {
+			name: config.name,
+			revision,
+			files: index.files.size,
+			trigrams: index.trigrams.size
+		});
+	});
+	result.match({
+		ok: () => undefined,
+		err: (cause) =>
+			Metrics.error('resource.archive.index.error', {
+				name: config.name,
+				error: Metrics.errorInfo(cause)
+			})
+	});
+};
+
+const loadResource = async (
+	config: BtcaArchiveResourceArgs,
+	strict: boolean
+): Promise<BtcaFsResource> => {
+	const manifest = await ensureArchiveResource(config, strict);
+	const localPath = getLocalPath(config);
+
+	await ensureSearchPathsExist(localPath, config);
+	await ensureSearchIndex(config, localPath, manifest.sha256);
+
+	const fileName = path.basename(
+		isRemoteSource(config.source) ? new URL(config.source).pathname : config.source
+	);
+	return {
+		_tag: 'fs-based',
+		name: config.name,
+		fsName: resourceNameToKey(config.name),
+		type: 'archive',
+		repoSubPaths: config.repoSubPaths,
+		specialAgentInstructions: config.specialAgentInstructions,
+		searchIndexPath: getSearchIndexPath(config),
+		revision: manifest.sha256,
+		version: `${fileName} (sha256 ${manifest.sha256.slice(0, 12)})`,
+		getAbsoluteDirectoryPath: async () => localPath
+	};
+};
+
+export const loadArchiveResource = (config: BtcaArchiveResourceArgs) => loadResource(config, false);
+
+/**
+ * Fetch the archive now, regardless of the refresh policy, and re-extract it if it changed.
+ */
+export const refreshArchiveResource = async (config: BtcaArchiveResourceArgs) => {
+	const installed = (await pathExists(getLocalPath(config))) ? await readManifest(config) : null;
+	const resource = await loadResource({ ...config, refresh: 'always' }, true);
+	return { previous: installed?.sha256 ?? null, current: resource.revision ?? null };
+};
+
+/**
+ * Check the extracted archive without fetching it: that it was extracted from the
+ * configured source and that its search paths exist.
+ */
+export const checkArchiveResourceHealth = async (
+	config: BtcaArchiveResourceArgs
+): Promise<ResourceHealth> => {
+	const localPath = getLocalPath(config);
+	const extracted = await pathExists(localPath);
+	const manifest = extracted ? await readManifest(config) : null;
+	const issues: ResourceHealthIssue[] = [];
+
+	if (!extracted) {
+		issues.push({
+			level: config.offline && isRemoteSource(config.source) ? 'error' : 'warning',
+			message: 'Not downloaded yet',
+			hint: `It is extracted the first time it is used. Run "btca update ${config.name}" to extract it now.`
+		});
+	} else {
+		if (!manifest) {
+			issues.push({
+				level: 'warning',
+				message: 'Extracted from a different source than the config',
+				hint: `Run "btca update ${config.name}" to extract the configured archive.`
+			});
+		}
+		issues.push(
+			...(await checkSearchPaths(config.repoSubPaths, (searchPath) =>
+				ensureSearchPathsExist(localPath, { ...config, repoSubPaths: [searchPath] })
+			))
+		);
+	}
+
+	const lastRefresh = isRemoteSource(config.source)
+		? await readLastRefresh(config.resourcesDirectoryPath, config.name)
+		: null;
+	return createHealthReport({
+		name: config.name,
+		type: 'archive',
+		path: localPath,
+		downloaded: extracted,
+		expected: config.source,
+		current: manifest?.sha256 ?? null,
+		sizeBytes: extracted ? await getDirectorySize(localPath) : null,
+		lastFetchedAt: toIsoTime(lastRefresh) ?? manifest?.extractedAt ?? null,
+		issues
+	});
+};
@@ -3,7 +3,7 @@ import { promises as fs } from 'node:fs';
 import path from 'node:path';
 import os from 'node:os';
 
-import { loadGitResource } from './git.ts';
+import { getGitCloneKey, getGitClonePath, loadGitResource } from './git.ts';
 import type { BtcaGitResourceArgs } from '../types.ts';
 
 describe('Git Resource', () => {
@@ -28,6 +28,8 @@ describe('Git Resource', () => {
 					repoSubPaths: ['docs'],
 					resourcesDirectoryPath: testDir,
 					specialAgentInstructions: 'Test notes',
+					refresh: 'always',
+					offline: false,
 					quiet: true
 				};
 
@@ -40,7 +42,7 @@ describe('Git Resource', () => {
 				expect(resource.specialAgentInstructions).toBe('Test notes');
 
 				const resourcePath = await resource.getAbsoluteDirectoryPath();
-				expect(resourcePath).toBe(path.join(testDir, 'test-repo'));
+				expect(resourcePath).toBe(getGitClonePath(args));
 
 				const stat = await fs.stat(resourcePath);
 				expect(stat.isDirectory()).toBe(true);
@@ -58,6 +60,8 @@ describe('Git Resource', () => {
 					repoSubPaths: [],
 					resourcesDirectoryPath: testDir,
 					specialAgentInstructions: '',
+					refresh: 'always',
+					offline: false,
 					quiet: true
 				};
 
@@ -80,6 +84,8 @@ describe('Git Resource', () => {
 				repoSubPaths: [],
 				resourcesDirectoryPath: testDir,
 				specialAgentInstructions: '',
+				refresh: 'always',
+				offline: false,
 				quiet: true
 			};
 
@@ -95,12 +101,219 @@ describe('Git Resource', () => {
 				repoSubPaths: [],
 				resourcesDirectoryPath: testDir,
 				specialAgentInstructions: '',
+				refresh: 'always',
+				offline: false,
 				quiet: true
 			};
 
 			expect(loadGitResource(args)).rejects.toThrow('Branch name must contain only');
 		});
 
+		it('throws error for invalid ref', async () => {
+			const args: BtcaGitResourceArgs = {
+				type: 'git',
+				name: 'invalid-ref',
+				url: 'https://github.com/test/repo',
+				branch: 'main',
+				ref: '--upload-pack=evil',
+				repoSubPaths: [],
+				resourcesDirectoryPath: testDir,
+				specialAgentInstructions: '',
+				refresh: 'always',
+				offline: false,
+				quiet: true
+			};
+
+			expect(loadGitResource(args)).rejects.toThrow('Ref must');
+		});
+
+		it('refuses to clone while offline', async () => {
+			const args: BtcaGitResourceArgs = {
+				type: 'git',
+				name: 'offline',
+				url: 'https://github.com/test/repo',
+				branch: 'main',
+				repoSubPaths: [],
+				resourcesDirectoryPath: testDir,
+				specialAgentInstructions: '',
+				refresh: 'always',
+				offline: true,
+				quiet: true
+			};
+
+			expect(loadGitResource(args)).rejects.toThrow('has not been downloaded yet');
+		});
+
+		it('refuses SSH URLs unless they are enabled', async () => {
+			const args: BtcaGitResourceArgs = {
+				type: 'git',
+				name: 'ssh',
+				url: 'git@github.com:test/repo.git',
+				branch: 'main',
+				repoSubPaths: [],
+				resourcesDirectoryPath: testDir,
+				specialAgentInstructions: '',
+				refresh: 'always',
+				offline: false,
+				quiet: true
+			};
+
+			expect(loadGitResource(args)).rejects.toThrow('SSH git URLs are disabled');
+		});
+
+		it('refuses submodules that point to plain http or private hosts', async () => {
+			const args: BtcaGitResourceArgs = {
+				type: 'git',
+				name: 'submodules',
+				url: 'https://github.com/test/repo',
+				branch: 'main',
+				repoSubPaths: [],
+				submodules: true,
+				resourcesDirectoryPath: testDir,
+				specialAgentInstructions: '',
+				refresh: 'manual',
+				offline: false,
+				quiet: true
+			};
+			const clonePath = getGitClonePath(args);
+			await fs.mkdir(clonePath, { recursive: true });
+			await fs.writeFile(
+				path.join(clonePath, '.gitmodules'),
+				'[submodule "docs"]\n\tpath = docs\n\turl = http://localhost/docs.git\n'
+			);
+			const git = (...gitArgs: string[]) =>
+				Bun.spawnSync(['git', '-c', 'user.name=btca', '-c', 'user.email=btca@test', ...gitArgs], {
+					cwd: clonePath
+				});
+			git('init', '-q', '-b', 'main');
+			git('add', '.');
+			git('commit', '-q', '-m', 'submodule');
+
+			await expect(loadGitResource(args)).rejects.toThrow(
+				'Submodule URL is not allowed: "http://localhost/docs.git"'
+			);
+		});
+
+		it.skipIf(!Bun.which('openssl'))(
+			'sends credentials while a blobless sparse clone fetches blobs',
+			async () => {
+				const git = (cwd: string, ...gitArgs: string[]) =>
+					Bun.spawnSync(['git', '-c', 'user.name=btca', '-c', 'user.email=btca@test', ...gitArgs], {
+						cwd
+					});
+				const sourcePath = path.join(testDir, 'source');
+				await fs.mkdir(path.join(sourcePath, 'docs'), { recursive: true });
+				await fs.writeFile(path.join(sourcePath, 'docs', 'guide.md'), '# Guide\n');
+				await fs.writeFile(path.join(sourcePath, 'README.md'), '# Readme\n');
+				git(sourcePath, 'init', '-q', '-b', 'main');
+				git(sourcePath, 'add', '.');
+				git(sourcePath, 'commit', '-q', '-m', 'docs');
+				const projectRoot = path.join(testDir, 'served');
+				await fs.mkdir(projectRoot);
+				git(projectRoot, 'clone', '-q', '--bare', sourcePath, 'docs.git');
+				git(path.join(projectRoot, 'docs.git'), 'config', 'uploadpack.allowFilter', 'true');
+
+				Bun.spawnSync([
+					'openssl',
+					'req',
+					'-x509',
+					'-newkey',
+					'rsa:2048',
+					'-nodes',
+					'-subj',
+					'/CN=git.example.com',
+					'-days',
+					'1',
+					'-keyout',
+					path.join(testDir, 'key.pem'),
+					'-out',
+					path.join(testDir, 'cert.pem')
+				]);
+
+				const authorization = `Basic ${Buffer.from('x-access-token:secret').toString('base64')}`;
+				const unauthorized: string[] = [];
+				// Serves the bare repository through git http-backend, like a private git host
+				const server = Bun.serve({
+					port: 0,
+					tls: {
+						key: Bun.file(path.join(testDir, 'key.pem')),
+						cert: Bun.file(path.join(testDir, 'cert.pem'))
+					},
+					fetch: async (request) => {
+						const url = new URL(request.url);
+						if (request.headers.get('authorization') !== authorization) {
+							unauthorized.push(`${request.method} ${url.pathname}${url.search}`);
+							return new Response('Unauthorized', {
+								status: 401,
+								headers: { 'WWW-Authenticate': 'Basic realm="git"' }
+							});
+						}
+						const proc = Bun.spawn(['git', 'http-backend'], {
+							stdin: new Uint8Array(await request.arrayBuffer()),
+							stdout: 'pipe',
+							env: {
+								...process.env,
+								GIT_PROJECT_ROOT: projectRoot,
+								GIT_HTTP_EXPORT_ALL: '1',
+								REQUEST_METHOD: request.method,
+								PATH_INFO: url.pathname,
+								QUERY_STRING: url.search.slice(1),
+								CONTENT_TYPE: request.headers.get('content-type') ?? '',
+								HTTP_CONTENT_ENCODING: request.headers.get('content-encoding') ?? '',
+								GIT_PROTOCOL: request.headers.get('git-protocol') ?? ''
+							}
+						});
+						const output = Buffer.from(await new Response(proc.stdout).arrayBuffer());
+						const split = output.indexOf('\r\n\r\n');
+						const headers = new Headers();
+						let status = 200;
+						for (const line of output.subarray(0, split).toString().split('\r\n')) {
+							const [name, ...value] = line.split(': ');
+							if (name === 'Status') status = Number.parseInt(value.join(': '), 10);
+							else if (name) headers.set(name, value.join(': '));
+						}
+						return new Response(output.subarray(split + 4), { status, headers });
+					}
+				});
+
+				// Route the public-looking host to the local server and trust its certificate
+				const originalEnv = { ...process.env };
+				process.env.GIT_CONFIG_COUNT = '1';
+				process.env.GIT_CONFIG_KEY_0 = 'http.curloptResolve';
+				process.env.GIT_CONFIG_VALUE_0 = `git.example.com:${server.port}:127.0.0.1`;
+				process.env.GIT_SSL_NO_VERIFY = '1';
+				process.env.BTCA_GIT_AUTH_PRIVATE_DOCS = 'secret';
+
+				try {
+					const args: BtcaGitResourceArgs = {
+						type: 'git',
+						name: 'private-docs',
+						url: `https://git.example.com:${server.port}/docs.git`,
+						branch: 'main',
+						auth: 'private-docs',
+						repoSubPaths: ['docs'],
+						resourcesDirectoryPath: testDir,
+						specialAgentInstructions: '',
+						refresh: 'always',
+						offline: false,
+						quiet: true
+					};
+
+					const resource = await loadGitResource(args);
+					const resourcePath = await resource.getAbsoluteDirectoryPath();
+
+					expect(await fs.readFile(path.join(resourcePath, 'docs', 'guide.md'), 'utf8')).toBe(
+						'# Guide\n'
+					);
+					expect(unauthorized).toEqual([]);
+				} finally {
+					process.env = originalEnv;
+					server.stop(true);
+				}
+			},
+			30000
+		);
+
 		it('throws error for path traversal attempt', async () => {
 			const args: BtcaGitResourceArgs = {
 				type: 'git',
@@ -110,10 +323,33 @@ describe('Git Resource', () => {
 				repoSubPaths: ['../../../etc'],
 				resourcesDirectoryPath: testDir,
 				specialAgentInstructions: '',
+				refresh: 'always',
+				offline: false,
 				quiet: true
 			};
 
 			expect(loadGitResource(args)).rejects.toThrow('path traversal');
 		});
 	});
+
+	describe('getGitCloneKey', () => {
+		it('shares one clone per repository and branch', () => {
+			const key = getGitCloneKey({ url: 'https://github.com/sveltejs/svelte.dev', branch: 'main' });
+
+			expect(key).toStartWith('svelte.dev-');
+			expect(
+				getGitCloneKey({ url: 'https://github.com/sveltejs/svelte.dev.git/', branch: 'main' })
+			).toBe(key);
+			expect(
+				getGitCloneKey({ url: 'https://github.com/sveltejs/svelte.dev', branch: 'next' })
+			).not.toBe(key);
+			expect(
+				getGitCloneKey({
+					url: 'https://github.com/sveltejs/svelte.dev',
+					branch: 'main',
+					ref: 'v1.0.0'
+				})
+			).not.toBe(key);
+		});
+	});
 });
@@ -1,3 +1,4 @@
+import { createHash } from 'node:crypto';
 import { promises as fs } from 'node:fs';
 import path from 'node:path';
 
@@ -5,9 +6,24 @@ import { Result } from 'better-result';
 
 import { Metrics } from '../../metrics/index.ts';
 import { CommonHints } from '../../errors.ts';
+import { TrigramIndex } from '../../search/trigram-index.ts';
 import { ResourceError, resourceNameToKey } from '../helpers.ts';
-import { GitResourceSchema } from '../schema.ts';
-import type { BtcaFsResource, BtcaGitResourceArgs } from '../types.ts';
+import { describeRefreshPolicy, isRefreshDue, markRefreshed, readLastRefresh } from '../refresh.ts';
+import { getGitAuthEnv } from '../git-auth.ts';
+import {
+	checkSearchPaths,
+	createHealthReport,
+	getDirectorySize,
+	issueFromError,
+	toIsoTime
+} from '../health.ts';
+import { GitResourceSchema, isSshGitUrl } from '../schema.ts';
+import type {
+	BtcaFsResource,
+	BtcaGitResourceArgs,
+	ResourceHealth,
+	ResourceHealthIssue
+} from '../types.ts';
 
 const validateGitUrl = (url: string): { success: true } | { success: false; error: string } => {
 	const result = GitResourceSchema.shape.url.safeParse(url);
@@ -21,6 +37,12 @@ const validateBranch = (branch: string): { success: true } | { success: false; e
 	return { success: false, error: result.error.errors[0]?.message ?? 'Invalid branch name' };
 };
 
+const validateRef = (ref: string): { success: true } | { success: false; error: string } => {
+	const result = GitResourceSchema.shape.ref.safeParse(ref);
+	if (result.success) return { success: true };
+	return { success: false, error: result.error.errors[0]?.message ?? 'Invalid ref' };
+};
+
 const validateSearchPath = (
 	searchPath: string
 ): { success: true } | { success: false; error: string } => {
@@ -41,6 +63,21 @@ const directoryExists = async (path: string): Promise<boolean> => {
  * Git error patterns and their user-friendly messages.
  */
 const GitErrorPatterns = {
+	// Authentication/Permission errors. Checked first: some hosts also print "not found"
+	// when credentials are rejected
+	AUTH_REQUIRED: [
+		/Authentication failed/i,
+		/could not read Username/i,
+		/could not read Password/i,
+		/terminal prompts disabled/i,
+		/Invalid username or (password|token)/i,
+		/Bad credentials/i,
+		/Permission denied/i,
+		/Host key verification failed/i,
+		/fatal: Authentication failed/i,
+		/remote: HTTP Basic: Access denied/i,
+		/The requested URL returned error: 40[13]/i
+	],
 	// Branch not found errors
 	BRANCH_NOT_FOUND: [
 		/couldn't find remote ref/i,
@@ -55,15 +92,6 @@ const GitErrorPatterns = {
 		/fatal: repository .* not found/i,
 		/ERROR: Repository not found/i
 	],
-	// Authentication/Permission errors
-	AUTH_REQUIRED: [
-		/Authentication failed/i,
-		/could not read Username/i,
-		/Permission denied/i,
-		/fatal: Authentication failed/i,
-		/remote: HTTP Basic: Access denied/i,
-		/The requested URL returned error: 403/i
-	],
 	// Network errors
 	NETWORK_ERROR: [
 		/Could not resolve host/i,
@@ -99,10 +127,16 @@ const detectGitErrorType = (stderr: string): GitErrorType | null => {
  */
 const getGitErrorDetails = (
 	errorType: GitErrorType | null,
-	context: { operation: string; branch?: string; url?: string }
+	context: { operation: string; branch?: string; ref?: string; url?: string; auth?: string }
 ): { message: string; hint: string } => {
 	switch (errorType) {
 		case 'BRANCH_NOT_FOUND':
+			if (context.ref) {
+				return {
+					message: `Ref "${context.ref}" not found in the repository`,
+					hint: 'Use an existing tag name or a full 40-character commit SHA. Abbreviated SHAs cannot be fetched.'
+				};
+			}
 			return {
 				message: context.branch
 					? `Branch "${context.branch}" not found in the repository`
@@ -111,15 +145,28 @@ const getGitErrorDetails = (
 			};
 
 		case 'REPO_NOT_FOUND':
+			// Hosts answer "not found" for private repositories the caller cannot see
+			if (context.auth) {
+				return {
+					message: `Repository not found, or credential "${context.auth}" cannot access it`,
+					hint: `${CommonHints.CHECK_URL} Make sure the token for "${context.auth}" has read access to this repository.`
+				};
+			}
 			return {
 				message: 'Repository not found',
-				hint: `${CommonHints.CHECK_URL} If this is a private repository, ${CommonHints.CHECK_PERMISSIONS.toLowerCase()}`
+				hint: `${CommonHints.CHECK_URL} If this is a private repository, set "auth" on the resource to a named credential.`
 			};
 
 		case 'AUTH_REQUIRED':
+			if (context.auth) {
+				return {
+					message: `Authentication failed using credential "${context.auth}"`,
+					hint: `The token for "${context.auth}" was rejected. Check that it has not expired and can read this repository.`
+				};
+			}
 			return {
 				message: 'Authentication required or access denied',
-				hint: CommonHints.CHECK_PERMISSIONS
+				hint: `${CommonHints.CHECK_PERMISSIONS} Set "auth" on the resource to a named credential, or for SSH URLs check your SSH agent and keys.`
 			};
 
 		case 'NETWORK_ERROR':
@@ -147,9 +194,16 @@ interface GitRunResult {
 	stderr: string;
 }
 
+type GitRunOptions = {
+	cwd?: string;
+	quiet: boolean;
+	/** Extra environment, e.g. credentials from getGitAuthEnv */
+	env?: Record<string, string>;
+};
+
 const runGitChecked = async (
 	args: string[],
-	options: { cwd?: string; quiet: boolean },
+	options: GitRunOptions,
 	buildError: (result: GitRunResult) => ResourceError
 ) => {
 	const result = await Result.tryPromise(() => runGit(args, options));
@@ -158,13 +212,11 @@ const runGitChecked = async (
 	);
 };
 
-const runGit = async (
-	args: string[],
-	options: { cwd?: string; quiet: boolean }
-): Promise<GitRunResult> => {
+const runGit = async (args: string[], options: GitRunOptions): Promise<GitRunResult> => {
 	// Always capture stderr for error detection, but stdout can be ignored
 	const proc = Bun.spawn(['git', ...args], {
 		cwd: options.cwd,
+		env: options.env ? { ...process.env, ...options.env } : undefined,
 		stdout: options.quiet ? 'ignore' : 'inherit',
 		stderr: 'pipe'
 	});
@@ -200,9 +252,118 @@ const runGit = async (
 	return { exitCode, stderr };
 };
 
+/**
+ * Git config key recording the ref a clone is pinned to, so pinned clones are not
+ * fetched again on every load.
+ */
+const PINNED_REF_CONFIG_KEY = 'btca.ref';
+
+const getPinnedRef = async (cwd: string) => {
+	const result = await Result.tryPromise(async () => {
+		const proc = Bun.spawn(['git', 'config', '--get', PINNED_REF_CONFIG_KEY], {
+			cwd,
+			stdout: 'pipe',
+			stderr: 'ignore'
+		});
+		const stdout = await new Response(proc.stdout).text();
+		const exitCode = await proc.exited;
+		return exitCode === 0 ? stdout.trim() : '';
+	});
+	return result.match({
+		ok: (value) => value || null,
+		err: () => null
+	});
+};
+
+/**
+ * Fetch a single tag or commit and check it out as a detached HEAD.
+ */
+const checkoutRef = (args: {
+	localAbsolutePath: string;
+	ref: string;
+	url?: string;
+	auth?: string;
+	env: Record<string, string>;
+	quiet: boolean;
+}) =>
+	Result.gen(async function* () {
+		yield* Result.await(
+			runGitChecked(
+				['fetch', '--depth', '1', 'origin', args.ref],
+				{ cwd: args.localAbsolutePath, quiet: args.quiet, env: args.env },
+				(fetchResult) => {
+					const errorType = detectGitErrorType(fetchResult.stderr);
+					const { message, hint } = getGitErrorDetails(errorType, {
+						operation: 'fetch',
+						ref: args.ref,
+						url: args.url,
+						auth: args.auth
+					});
+
+					return new ResourceError({
+						message,
+						hint,
+						cause: new Error(
+							`git fetch failed with exit code ${fetchResult.exitCode}: ${fetchResult.stderr}`
+						)
+					});
+				}
+			)
+		);
+
+		yield* Result.await(
+			runGitChecked(
+				['checkout', '--force', '--detach', 'FETCH_HEAD'],
+				{ cwd: args.localAbsolutePath, quiet: args.quiet, env: args.env },
+				(checkoutResult) =>
+					new ResourceError({
+						message: `Failed to checkout ref "${args.ref}"`,
+						hint: CommonHints.CLEAR_CACHE,
+						cause: new Error(
+							`git checkout failed with exit code ${checkoutResult.exitCode}: ${checkoutResult.stderr}`
+						)
+					})
+			)
+		);
+
+		yield* Result.await(
+			runGitChecked(
+				['config', PINNED_REF_CONFIG_KEY, args.ref],
+				{ cwd: args.localAbsolutePath, quiet: args.quiet },
+				(configResult) =>
+					new ResourceError({
+						message: 'Failed to record the pinned ref',
+						hint: CommonHints.CLEAR_CACHE,
+						cause: new Error(
+							`git config failed with exit code ${configResult.exitCode}: ${configResult.stderr}`
+						)
+					})
+			)
+		);
+
+		return Result.ok(undefined);
+	});
+
+/**
+ * Environment for git commands that talk to the remote. SSH URLs only work when the
+ * config opts in with "allowSshGitUrls".
+ */
+const getRemoteEnv = async (args: { url: string; auth?: string; allowSsh: boolean }) => {
+	if (isSshGitUrl(args.url) && !args.allowSsh) {
+		throw new ResourceError({
+			message: 'SSH git URLs are disabled',
+			hint: 'Set "allowSshGitUrls": true in your btca config to clone over SSH with your SSH agent and keys, or use the HTTPS URL with "auth".'
+		});
+	}
+	return getGitAuthEnv({ url: args.url, auth: args.auth });
+};
+
 const gitClone = async (args: {
 	repoUrl: string;
 	repoBranch: string;
+	ref?: string;
+	auth?: string;
+	allowSsh: boolean;
 	repoSubPaths: readonly string[];
 	localAbsolutePath: string;
 	quiet: boolean;
@@ -223,6 +384,16 @@ const gitClone = async (args: {
 			cause: new Error('Branch validation failed')
 		});
 	}
+	if (args.ref) {
+		const refValidation = validateRef(args.ref);
+		if (!refValidation.success) {
+			throw new ResourceError({
+				message: refValidation.error,
+				hint: 'Refs must be a tag name or commit SHA using letters, numbers, hyphens, underscores, dots, and forward slashes.',
+				cause: new Error('Ref validation failed')
+			});
+		}
+	}
 	for (const repoSubPath of args.repoSubPaths) {
 		const pathValidation = validateSearchPath(repoSubPath);
 		if (!pathValidation.success) {
@@ -233,6 +404,7 @@ const gitClone = async (args: {
 			});
 		}
 	}
+	const env = await getRemoteEnv({ url: args.repoUrl, auth: args.auth, allowSsh: args.allowSsh });
 
 	const needsSparseCheckout = args.repoSubPaths.length > 0;
 	const cloneArgs = needsSparseCheckout
@@ -246,16 +418,27 @@ const gitClone = async (args: {
 				args.repoUrl,
 				args.localAbsolutePath
 			]
-		: ['clone', '--depth', '1', '-b', args.repoBranch, args.repoUrl, args.localAbsolutePath];
+		: [
+				'clone',
+				'--depth',
+				'1',
+				// Pinned clones check out the ref instead of the branch tip
+				...(args.ref ? ['--no-checkout'] : []),
+				'-b',
+				args.repoBranch,
+				args.repoUrl,
+				args.localAbsolutePath
+			];
 
 	const result = await Result.gen(async function* () {
 		yield* Result.await(
-			runGitChecked(cloneArgs, { quiet: args.quiet }, (cloneResult) => {
+			runGitChecked(cloneArgs, { quiet: args.quiet, env }, (cloneResult) => {
 				const errorType = detectGitErrorType(cloneResult.stderr);
 				const { message, hint } = getGitErrorDetails(errorType, {
 					operation: 'clone',
 					branch: args.repoBranch,
-					url: args.repoUrl
+					url: args.repoUrl,
+					auth: args.auth
 				});
 
 				return new ResourceError({
@@ -272,7 +455,7 @@ const gitClone = async (args: {
 			yield* Result.await(
 				runGitChecked(
 					['sparse-checkout', 'set', ...args.repoSubPaths],
-					{ cwd: args.localAbsolutePath, quiet: args.quiet },
+					{ cwd: args.localAbsolutePath, quiet: args.quiet, env },
 					(sparseResult) =>
 						new ResourceError({
 							message: `Failed to set sparse-checkout path(s): "${args.repoSubPaths.join(', ')}"`,
@@ -283,11 +466,24 @@ const gitClone = async (args: {
 						})
 				)
 			);
+		}
 
+		if (args.ref) {
+			yield* Result.await(
+				checkoutRef({
+					localAbsolutePath: args.localAbsolutePath,
+					ref: args.ref,
+					url: args.repoUrl,
+					auth: args.auth,
+					env,
+					quiet: args.quiet
+				})
+			);
+		} else if (needsSparseCheckout) {
 			yield* Result.await(
 				runGitChecked(
 					['checkout'],
-					{ cwd: args.localAbsolutePath, quiet: args.quiet },
+					{ cwd: args.localAbsolutePath, quiet: args.quiet, env },
 					(checkout) =>
 						new ResourceError({
 							message: 'Failed to checkout repository',
@@ -313,78 +509,89 @@ const gitClone = async (args: {
 
 const gitUpdate = async (args: {
 	localAbsolutePath: string;
+	url: string;
 	branch: string;
-	repoSubPaths: readonly string[];
+	ref?: string;
+	auth?: string;
+	allowSsh: boolean;
 	quiet: boolean;
 }) => {
+	const pinnedRef = await getPinnedRef(args.localAbsolutePath);
+	// Tags and commits do not move, so an existing pin needs no network access
+	const needsFetch = !args.ref || pinnedRef !== args.ref;
+	const env = needsFetch
+		? await getRemoteEnv({ url: args.url, auth: args.auth, allowSsh: args.allowSsh })
+		: {};
 	const result = await Result.gen(async function* () {
-		yield* Result.await(
-			runGitChecked(
-				['fetch', '--depth', '1', 'origin', args.branch],
-				{ cwd: args.localAbsolutePath, quiet: args.quiet },
-				(fetchResult) => {
-					const errorType = detectGitErrorType(fetchResult.stderr);
-					const { message, hint } = getGitErrorDetails(errorType, {
-						operation: 'fetch',
-						branch: args.branch
-					});
-
-					return new ResourceError({
-						message,
-						hint,
-						cause: new Error(
-							`git fetch failed with exit code ${fetchResult.exitCode}: ${fetchResult.stderr}`
-						)
-					});
-				}
-			)
-		);
-
-		yield* Result.await(
-			runGitChecked(
-				['reset', '--hard', `origin/${args.branch}`],
-				{ cwd: args.localAbsolutePath, quiet: args.quiet },
-				(resetResult) =>
-					new ResourceError({
-						message: 'Failed to update local repository',
-						hint: `${CommonHints.CLEAR_CACHE} This will re-clone the repository from scratch.`,
-						cause: new Error(
-							`git reset failed with exit code ${resetResult.exitCode}: ${resetResult.stderr}`
-						)
+		if (args.ref) {
+			if (needsFetch) {
+				yield* Result.await(
+					checkoutRef({
+						localAbsolutePath: args.localAbsolutePath,
+						ref: args.ref,
+						url: args.url,
+						auth: args.auth,
+						env,
+						quiet: args.quiet
 					})
-			)
-		);
-
-		if (args.repoSubPaths.length > 0) {
+				);
+			}
+		} else {
 			yield* Result.await(
 				runGitChecked(
-					['sparse-checkout', 'set', ...args.repoSubPaths],
-					{ cwd: args.localAbsolutePath, quiet: args.quiet },
-					(sparseResult) =>
-						new ResourceError({
-							message: `Failed to set sparse-checkout path(s): "${args.repoSubPaths.join(', ')}"`,
-							hint: 'Verify the search paths exist in the repository. Check the repository structure to find the correct path.',
+					['fetch', '--depth', '1', 'origin', args.branch],
+					{ cwd: args.localAbsolutePath, quiet: args.quiet, env },
+					(fetchResult) => {
+						const errorType = detectGitErrorType(fetchResult.stderr);
+						const { message, hint } = getGitErrorDetails(errorType, {
+							operation: 'fetch',
+							branch: args.branch,
+							auth: args.auth
+						});
+
+						return new ResourceError({
+							message,
+							hint,
 							cause: new Error(
-								`git sparse-checkout failed with exit code ${sparseResult.exitCode}: ${sparseResult.stderr}`
+								`git fetch failed with exit code ${fetchResult.exitCode}: ${fetchResult.stderr}`
 							)
-						})
+						});
+					}
 				)
 			);
 
 			yield* Result.await(
 				runGitChecked(
-					['checkout'],
-					{ cwd: args.localAbsolutePath, quiet: args.quiet },
-					(checkoutResult) =>
+					['reset', '--hard', `origin/${args.branch}`],
+					{ cwd: args.localAbsolutePath, quiet: args.quiet, env },
+					(resetResult) =>
 						new ResourceError({
-							message: 'Failed to checkout repository',
-							hint: CommonHints.CLEAR_CACHE,
+							message: 'Failed to update local repository',
+							hint: `${CommonHints.CLEAR_CACHE} This will re-clone the repository from scratch.`,
 							cause: new Error(
-								`git checkout failed with exit code ${checkoutResult.exitCode}: ${checkoutResult.stderr}`
+								`git reset failed with exit code ${resetResult.exitCode}: ${resetResult.stderr}`
 							)
 						})
 				)
 			);
+
+			if (pinnedRef) {
+				// The resource was unpinned; follow the branch again from now on
+				yield* Result.await(
+					runGitChecked(
+						['config', '--unset', PINNED_REF_CONFIG_KEY],
+						{ cwd: args.localAbsolutePath, quiet: args.quiet },
+						(configResult) =>
+							new ResourceError({
+								message: 'Failed to clear the pinned ref',
+								hint: CommonHints.CLEAR_CACHE,
+								cause: new Error(
+									`git config failed with exit code ${configResult.exitCode}: ${configResult.stderr}`
+								)
+							})
+					)
+				);
+			}
 		}
 
 		return Result.ok(undefined);
@@ -398,6 +605,221 @@ const gitUpdate = async (args: {
 	});
 };
 
+const readGitOutput = async (args: string[], cwd: string) => {
+	const result = await Result.tryPromise(async () => {
+		const proc = Bun.spawn(['git', ...args], { cwd, stdout: 'pipe', stderr: 'ignore' });
+		const stdout = await new Response(proc.stdout).text();
+		const exitCode = await proc.exited;
+		return exitCode === 0 ? stdout.trim() : null;
+	});
+	return result.match({
+		ok: (value) => value,
+		err: () => null
+	});
+};
+
+/**
+ * Folders currently checked out by a sparse clone, or null for a full checkout.
+ */
+const getSparsePaths = async (cwd: string) => {
+	if ((await readGitOutput(['config', '--get', 'core.sparseCheckout'], cwd)) !== 'true') {
+		return null;
+	}
+	const list = await readGitOutput(['sparse-checkout', 'list'], cwd);
+	return list === null ? null : list.split('\n').filter((line) => line.length > 0);
+};
+
+/**
+ * Make a shared clone check out exactly the folders its resources need. The set changes
+ * when a resource on the same clone is added or edited, without any new commits to fetch.
+ * Returns whether the checkout changed.
+ */
+const syncSparseCheckout = async (args: {
+	localAbsolutePath: string;
+	subPaths: readonly string[];
+	getEnv: () => Promise<Record<string, string>>;
+	quiet: boolean;
+}) => {
+	const current = await getSparsePaths(args.localAbsolutePath);
+	const wanted = [...args.subPaths].sort();
+	if (current === null && wanted.length === 0) return false;
+	if (current !== null && [...current].sort().join('\n') === wanted.join('\n')) return false;
+
+	// Blobless clones download the newly checked out files, so this may need credentials
+	const env = await args.getEnv();
+	const gitArgs =
+		wanted.length === 0 ? ['sparse-checkout', 'disable'] : ['sparse-checkout', 'set', ...wanted];
+	const result = await runGitChecked(
+		gitArgs,
+		{ cwd: args.localAbsolutePath, quiet: args.quiet, env },
+		(sparseResult) =>
+			new ResourceError({
+				message:
+					wanted.length === 0
+						? 'Failed to check out the full repository'
+						: `Failed to set sparse-checkout path(s): "${wanted.join(', ')}"`,
+				hint: 'Verify the search paths exist in the repository. Check the repository structure to find the correct path.',
+				cause: new Error(
+					`git sparse-checkout failed with exit code ${sparseResult.exitCode}: ${sparseResult.stderr}`
+				)
+			})
+	);
+	if (Result.isError(result)) throw result.error;
+	return true;
+};
+
+/**
+ * Git config keys recording which checked out folders already have their submodules
+ * and LFS files, so an unchanged clone does not fetch them again on every load.
+ */
+const SUBMODULES_CONFIG_KEY = 'btca.submodules';
+const LFS_CONFIG_KEY = 'btca.lfs';
+
+/**
+ * The first submodule URL in .gitmodules that a resource could not use as its own URL
+ * (plain http, local paths, credentials, private hosts). Relative URLs resolve against
+ * the already validated origin, so they are allowed.
+ */
+const findUnsafeSubmoduleUrl = async (cwd: string) => {
+	const output = await readGitOutput(
+		['config', '--file', '.gitmodules', '--get-regexp', '^submodule\\..*\\.url$'],
+		cwd
+	);
+	const urls = (output ?? '')
+		.split('\n')
+		.map((line) => line.slice(line.indexOf(' ') + 1).trim())
+		.filter((url) => url && !url.startsWith('./') && !url.startsWith('../'));
+	return urls.find((url) => !validateGitUrl(url).success) ?? null;
+};
+
+/**
+ * Initialize submodules and download LFS files for the checked out folders, when the
+ * resource asks for them. Runs after a clone or update, or when the folders changed.
+ */
+const syncGitExtras = async (args: {
+	localAbsolutePath: string;
+	subPaths: readonly string[];
+	submodules: boolean;
+	lfs: boolean;
+	/** The checkout just changed, so submodules and LFS files may be out of date */
+	changed: boolean;
+	allowSsh: boolean;
+	auth?: string;
+	getEnv: () => Promise<Record<string, string>>;
+	quiet: boolean;
+}) => {
+	const cwd = args.localAbsolutePath;
+	const marker = args.subPaths.length > 0 ? [...args.subPaths].sort().join(',') : '.';
+	const isDone = async (key: string) =>
+		!args.changed && (await readGitOutput(['config', '--get', key], cwd)) === marker;
+	const wantsSubmodules = args.submodules && !(await isDone(SUBMODULES_CONFIG_KEY));
+	const wantsLfs = args.lfs && !(await isDone(LFS_CONFIG_KEY));
+	if (!wantsSubmodules && !wantsLfs) return;
+
+	if (args.lfs && (await readGitOutput(['lfs', 'version'], cwd)) === null) {
+		throw new ResourceError({
+			message: 'Git LFS is not installed',
+			hint: 'Install Git LFS (https://git-lfs.com) and run "git lfs install", or remove "lfs" from the resource.'
+		});
+	}
+
+	if (wantsSubmodules) {
+		const unsafeUrl = await findUnsafeSubmoduleUrl(cwd);
+		if (unsafeUrl) {
+			throw new ResourceError({
+				message: `Submodule URL is not allowed: "${unsafeUrl}"`,
+				hint: 'Submodules follow the same rules as resource URLs: HTTPS (or SSH when enabled) and no private hosts. Remove "submodules" from the resource to skip them.'
+			});
+		}
+	}
+
+	const env = await args.getEnv();
+	const buildError = (operation: string) => (result: GitRunResult) => {
+		const { message, hint } = getGitErrorDetails(detectGitErrorType(result.stderr), {
+			operation,
+			auth: args.auth
+		});
+		return new ResourceError({
+			message,
+			hint,
+			cause: new Error(
+				`git ${operation} failed with exit code ${result.exitCode}: ${result.stderr}`
+			)
+		});
+	};
+	const pathspec = args.subPaths.length > 0 ? ['--', ...args.subPaths] : [];
+
+	const result = await Result.gen(async function* () {
+		if (wantsSubmodules) {
+			// Submodule URLs come from the repository, so hold them to the same rules as
+			// resource URLs: no local paths or plain http, and SSH only when enabled. These also
+			// apply to nested submodules, whose URLs are not checked up front
+			const protocols = [
+				'-c',
+				'protocol.file.allow=never',
+				'-c',
+				'protocol.http.allow=never',
+				'-c',
+				'protocol.git.allow=never'
+			];
+			if (!args.allowSsh) protocols.push('-c', 'protocol.ssh.allow=never');
+			yield* Result.await(
+				runGitChecked(
+					[
+						...protocols,
+						'submodule',
+						'update',
+						'--init',
+						'--recursive',
+						'--depth',
+						'1',
+						...pathspec
+					],
+					{ cwd, quiet: args.quiet, env },
+					buildError('submodule update')
+				)
+			);
+			yield* Result.await(
+				runGitChecked(
+					['config', SUBMODULES_CONFIG_KEY, marker],
+					{ cwd, quiet: args.quiet },
+					buildError('config')
+				)
+			);
+		}
+
+		if (wantsLfs) {
+			const include = args.subPaths.length > 0 ? [`--include=${args.subPaths.join(',')}`] : [];
+			yield* Result.await(
+				runGitChecked(
+					['lfs', 'pull', ...include],
+					{ cwd, quiet: args.quiet, env },
+					buildError('lfs pull')
+				)
+			);
+			if (args.submodules) {
+				yield* Result.await(
+					runGitChecked(
+						['submodule', 'foreach', '--recursive', 'git lfs pull'],
+						{ cwd, quiet: args.quiet, env },
+						buildError('lfs pull')
+					)
+				);
+			}
+			yield* Result.await(
+				runGitChecked(
+					['config', LFS_CONFIG_KEY, marker],
+					{ cwd, quiet: args.quiet },
+					buildError('config')
+				)
+			);
+		}
+
+		return Result.ok(undefined);
+	});
+	if (Result.isError(result)) throw result.error;
+};
+
 /**
  * Detect common mistakes in searchPath and provide helpful hints.
  */
@@ -442,68 +864,266 @@ const ensureSearchPathsExist = async (
 	}
 };
 
+/**
+ * Shared clones live in this folder of the resources directory. Resource names cannot
+ * start with "_", so it never collides with another resource's data.
+ */
+export const GIT_CLONES_DIRECTORY = '_clones';
+
+const normalizeCloneUrl = (url: string) => {
+	const trimmed = url
+		.trim()
+		.replace(/\/+$/, '')
+		.replace(/\.git$/i, '');
+	if (!URL.canParse(trimmed)) return trimmed;
+	const parsed = new URL(trimmed);
+	return `${parsed.protocol}//${parsed.host}${parsed.pathname}`;
+};
+
+/**
+ * Folder name of the clone for a repository at a branch or pinned ref. Resources that
+ * only differ in searchPaths, notes, or filters share it.
+ */
+export const getGitCloneKey = (args: { url: string; branch: string; ref?: string }) => {
+	const url = normalizeCloneUrl(args.url);
+	const target = args.ref ? `ref:${args.ref}` : `branch:${args.branch}`;
+	const repoName = (url.split(/[/:]/).at(-1) ?? '').replace(/[^a-zA-Z0-9._-]/g, '-') || 'repo';
+	const hash = createHash('sha256').update(`${url}\n${target}`).digest('hex').slice(0, 12);
+	return `${repoName}-${hash}`;
+};
+
+const getClonesDirectory = (config: BtcaGitResourceArgs) =>
+	path.join(config.resourcesDirectoryPath, GIT_CLONES_DIRECTORY);
+
+export const getGitClonePath = (config: BtcaGitResourceArgs) =>
+	path.join(getClonesDirectory(config), getGitCloneKey(config));
+
+const getSearchIndexPath = (config: BtcaGitResourceArgs) =>
+	path.join(getClonesDirectory(config), `${getGitCloneKey(config)}.trigrams`);
+
+const cloneLocks = new Map<string, Promise<void>>();
+
+/**
+ * Run `fn` while holding the lock for one clone, so concurrent loads of resources that
+ * share it never run git in the same folder at the same time.
+ */
+export const withCloneLock = async <T>(clonePath: string, fn: () => Promise<T>): Promise<T> => {
+	const previous = cloneLocks.get(clonePath) ?? Promise.resolve();
+	let release = () => {};
+	const held = previous.then(
+		() =>
+			new Promise<void>((resolve) => {
+				release = resolve;
+			})
+	);
+	cloneLocks.set(clonePath, held);
+	await previous;
+	try {
+		return await fn();
+	} finally {
+		release();
+		if (cloneLocks.get(clonePath) === held) cloneLocks.delete(clonePath);
+	}
+};
+
+/**
+ * Clones used to be kept per resource name. Move an old clone of the same repository to
+ * its shared location instead of cloning it again.
+ */
+const migrateLegacyClone = async (config: BtcaGitResourceArgs, clonePath: string) => {
+	const legacyKey = resourceNameToKey(config.name);
+	const legacyPath = path.join(config.resourcesDirectoryPath, legacyKey);
+	if (!(await directoryExists(path.join(legacyPath, '.git')))) return false;
+	const origin = await readGitOutput(['config', '--get', 'remote.origin.url'], legacyPath);
+	if (!origin || normalizeCloneUrl(origin) !== normalizeCloneUrl(config.url)) return false;
+
+	const moved = await Result.tryPromise(async () => {
+		await fs.mkdir(path.dirname(clonePath), { recursive: true });
+		await fs.rename(legacyPath, clonePath);
+		for (const suffix of ['.trigrams', '.refresh.json']) {
+			await fs.rm(path.join(config.resourcesDirectoryPath, `${legacyKey}${suffix}`), {
+				force: true
+			});
+		}
+	});
+	if (Result.isError(moved)) {
+		Metrics.error('resource.git.migrate.error', {
+			name: config.name,
+			error: Metrics.errorInfo(moved.error)
+		});
+		return false;
+	}
+	Metrics.info('resource.git.migrated', { name: config.name, path: clonePath });
+	return true;
+};
+
+const getHeadCommit = async (cwd: string) =>
+	(await readGitOutput(['rev-parse', 'HEAD'], cwd)) || null;
+
+/**
+ * Rebuild the grep index next to the clone when HEAD has moved. Failures are logged and
+ * otherwise ignored - grep falls back to scanning every file.
+ */
+const ensureSearchIndex = async (config: BtcaGitResourceArgs, localPath: string) => {
+	const indexPath = getSearchIndexPath(config);
+	const result = await Result.tryPromise(async () => {
+		const commit = await getHeadCommit(localPath);
+		if (!commit) return;
+		if ((await TrigramIndex.readCommit(indexPath)) === commit) return;
+		const index = await TrigramIndex.build(localPath, commit);
+		await TrigramIndex.write(indexPath, index);
+		Metrics.info('resource.git.index', {
+			name: config.name,
+			commit,
+			files: index.files.size,
+			trigrams: index.trigrams.size
+		});
+	});
+	result.match({
+		ok: () => undefined,
+		err: (cause) =>
+			Metrics.error('resource.git.index.error', {
+				name: config.name,
+				error: Metrics.errorInfo(cause)
+			})
+	});
+};
+
+/**
+ * Whether an existing clone should be fetched before use. Pinned clones always go
+ * through the update, which only touches the network when the pinned ref changed.
+ */
+const shouldUpdate = async (config: BtcaGitResourceArgs) => {
+	if (config.offline) return false;
+	if (config.ref) return true;
+	const lastRefresh = await readLastRefresh(getClonesDirectory(config), getGitCloneKey(config));
+	return isRefreshDue(config.refresh, lastRefresh);
+};
+
 const ensureGitResource = async (config: BtcaGitResourceArgs): Promise<string> => {
-	const resourceKey = resourceNameToKey(config.name);
-	const localPath = path.join(config.resourcesDirectoryPath, resourceKey);
+	const localPath = getGitClonePath(config);
+	const cloneKey = getGitCloneKey(config);
+	const clonesDirectory = getClonesDirectory(config);
+	const cloneSubPaths = config.cloneSubPaths ?? config.repoSubPaths;
+	const getEnv = () =>
+		getRemoteEnv({ url: config.url, auth: config.auth, allowSsh: config.allowSsh ?? false });
+	const syncExtras = (changed: boolean) =>
+		syncGitExtras({
+			localAbsolutePath: localPath,
+			subPaths: cloneSubPaths,
+			submodules: config.submodules ?? false,
+			lfs: config.lfs ?? false,
+			changed,
+			allowSsh: config.allowSsh ?? false,
+			auth: config.auth,
+			getEnv,
+			quiet: config.quiet
+		});
 
 	return Metrics.span(
 		'resource.git.ensure',
-		async () => {
-			const exists = await directoryExists(localPath);
+		() =>
+			withCloneLock(localPath, async () => {
+				const migrated =
+					!(await directoryExists(localPath)) && (await migrateLegacyClone(config, localPath));
+				const exists = migrated || (await directoryExists(localPath));
+
+				if (exists) {
+					let updated = false;
+					// A migrated clone may be on another branch, so bring it up to date once
+					if ((migrated && !config.offline) || (await shouldUpdate(config))) {
+						Metrics.info('resource.git.update', {
+							name: config.name,
+							clone: cloneKey,
+							branch: config.branch,
+							ref: config.ref,
+							repoSubPaths: config.repoSubPaths
+						});
+						await gitUpdate({
+							localAbsolutePath: localPath,
+							url: config.url,
+							branch: config.branch,
+							ref: config.ref,
+							auth: config.auth,
+							allowSsh: config.allowSsh ?? false,
+							quiet: config.quiet
+						});
+						await markRefreshed(clonesDirectory, cloneKey);
+						updated = true;
+					} else {
+						Metrics.info('resource.git.update.skipped', {
+							name: config.name,
+							clone: cloneKey,
+							refresh: describeRefreshPolicy(config.refresh),
+							offline: config.offline
+						});
+					}
+					const resparsed = await syncSparseCheckout({
+						localAbsolutePath: localPath,
+						subPaths: cloneSubPaths,
+						getEnv,
+						quiet: config.quiet
+					});
+					if (config.repoSubPaths.length > 0) {
+						await ensureSearchPathsExist(localPath, config.repoSubPaths, config.name);
+					}
+					if (!config.offline) await syncExtras(updated || resparsed);
+					await ensureSearchIndex(config, localPath);
+					return localPath;
+				}
+
+				if (config.offline) {
+					throw new ResourceError({
+						message: `Resource "${config.name}" has not been downloaded yet`,
+						hint: 'The server is running offline. Restart it without --offline (or unset BTCA_OFFLINE) to clone it.'
+					});
+				}
 
-			if (exists) {
-				Metrics.info('resource.git.update', {
+				Metrics.info('resource.git.clone', {
 					name: config.name,
+					clone: cloneKey,
 					branch: config.branch,
-					repoSubPaths: config.repoSubPaths
+					ref: config.ref,
+					repoSubPaths: cloneSubPaths,
+					submodules: config.submodules,
+					lfs: config.lfs
 				});
-				await gitUpdate({
+
+				const mkdirResult = await Result.tryPromise({
+					try: () => fs.mkdir(clonesDirectory, { recursive: true }),
+					catch: (cause) =>
+						new ResourceError({
+							message: 'Failed to create resources directory',
+							hint: 'Check that you have write permissions to the btca data directory.',
+							cause
+						})
+				});
+				mkdirResult.match({
+					ok: () => undefined,
+					err: (error) => {
+						throw error;
+					}
+				});
+
+				await gitClone({
+					repoUrl: config.url,
+					repoBranch: config.branch,
+					ref: config.ref,
+					auth: config.auth,
+					allowSsh: config.allowSsh ?? false,
+					repoSubPaths: cloneSubPaths,
 					localAbsolutePath: localPath,
-					branch: config.branch,
-					repoSubPaths: config.repoSubPaths,
 					quiet: config.quiet
 				});
+				await markRefreshed(clonesDirectory, cloneKey);
 				if (config.repoSubPaths.length > 0) {
 					await ensureSearchPathsExist(localPath, config.repoSubPaths, config.name);
 				}
-				return localPath;
-			}
-
-			Metrics.info('resource.git.clone', {
-				name: config.name,
-				branch: config.branch,
-				repoSubPaths: config.repoSubPaths
-			});
-
-			const mkdirResult = await Result.tryPromise({
-				try: () => fs.mkdir(config.resourcesDirectoryPath, { recursive: true }),
-				catch: (cause) =>
-					new ResourceError({
-						message: 'Failed to create resources directory',
-						hint: 'Check that you have write permissions to the btca data directory.',
-						cause
-					})
-			});
-			mkdirResult.match({
-				ok: () => undefined,
-				err: (error) => {
-					throw error;
-				}
-			});
+				await syncExtras(true);
+				await ensureSearchIndex(config, localPath);
 
-			await gitClone({
-				repoUrl: config.url,
-				repoBranch: config.branch,
-				repoSubPaths: config.repoSubPaths,
-				localAbsolutePath: localPath,
-				quiet: config.quiet
-			});
-			if (config.repoSubPaths.length > 0) {
-				await ensureSearchPathsExist(localPath, config.repoSubPaths, config.name);
-			}
-
-			return localPath;
-		},
+				return localPath;
+			}),
 		{ resource: config.name }
 	);
 };
@@ -516,7 +1136,198 @@ export const loadGitResource = async (config: BtcaGitResourceArgs): Promise<Btca
 		fsName: resourceNameToKey(config.name),
 		type: 'git',
 		repoSubPaths: config.repoSubPaths,
+		include: config.include,
+		exclude: config.exclude,
+		submodules: config.submodules,
+		lfs: config.lfs,
 		specialAgentInstructions: config.specialAgentInstructions,
+		searchIndexPath: getSearchIndexPath(config),
+		version: config.ref ?? config.branch,
 		getAbsoluteDirectoryPath: async () => localPath
 	};
 };
+
+/**
+ * Fetch the latest commit for the resource now, regardless of its refresh policy.
+ */
+export const refreshGitResource = async (config: BtcaGitResourceArgs) => {
+	const localPath = getGitClonePath(config);
+	const previous = (await directoryExists(localPath)) ? await getHeadCommit(localPath) : null;
+	await loadGitResource({ ...config, refresh: 'always' });
+	return { previous, current: await getHeadCommit(localPath) };
+};
+
+const REMOTE_CHECK_TIMEOUT_MS = 30_000;
+
+/**
+ * Look up a branch or tag on the remote without cloning. Returns the commit it points
+ * at, or null when the remote has no such ref.
+ */
+const lsRemote = async (args: { url: string; ref: string; env: Record<string, string> }) => {
+	const proc = Bun.spawn(['git', 'ls-remote', '--exit-code', args.url, args.ref], {
+		env: { ...process.env, ...args.env },
+		stdout: 'pipe',
+		stderr: 'pipe',
+		timeout: REMOTE_CHECK_TIMEOUT_MS
+	});
+	const [stdout, stderr, exitCode] = await Promise.all([
+		new Response(proc.stdout).text(),
+		new Response(proc.stderr).text(),
+		proc.exited
+	]);
+	// --exit-code exits with 2 when no ref matched
+	if (exitCode === 2) return null;
+	if (exitCode !== 0) {
+		const { message, hint } = getGitErrorDetails(detectGitErrorType(stderr), {
+			operation: 'ls-remote',
+			url: args.url
+		});
+		throw new ResourceError({
+			message,
+			hint,
+			cause: new Error(`git ls-remote failed with exit code ${exitCode}: ${stderr}`)
+		});
+	}
+	return stdout.split('\t')[0]?.trim() || null;
+};
+
+const isFullCommitSha = (ref: string) => /^[0-9a-f]{40}$/i.test(ref);
+
+/**
+ * Check the clone behind a git resource without changing it: that it exists, is on the
+ * configured branch or ref, and contains its search paths. With `remote`, also ask the
+ * remote whether the branch or tag still exists and whether it has moved.
+ */
+export const checkGitResourceHealth = async (
+	config: BtcaGitResourceArgs,
+	options: { remote: boolean }
+): Promise<ResourceHealth> => {
+	const localPath = getGitClonePath(config);
+	const expected = config.ref ?? config.branch;
+	const issues: ResourceHealthIssue[] = [];
+	const updateHint = `Run "btca update ${config.name}" to fetch it again.`;
+
+	// Catches SSH URLs that are not allowed and credentials that cannot be found
+	const envResult = await Result.tryPromise(() =>
+		getRemoteEnv({ url: config.url, auth: config.auth, allowSsh: config.allowSsh ?? false })
+	);
+	if (Result.isError(envResult)) issues.push(issueFromError('error', envResult.error));
+
+	const downloaded = await directoryExists(path.join(localPath, '.git'));
+	const current = downloaded ? await getHeadCommit(localPath) : null;
+
+	if (!downloaded) {
+		issues.push({
+			level: config.offline ? 'error' : 'warning',
+			message: 'Not downloaded yet',
+			hint: `It is cloned the first time it is used. Run "btca update ${config.name}" to clone it now.`
+		});
+	} else {
+		const pinnedRef = await getPinnedRef(localPath);
+		if (config.ref && pinnedRef !== config.ref) {
+			issues.push({
+				level: 'warning',
+				message: `Checked out ${pinnedRef ? `"${pinnedRef}"` : `branch "${config.branch}"`} instead of ref "${config.ref}"`,
+				hint: updateHint
+			});
+		} else if (config.ref && isFullCommitSha(config.ref) && current !== config.ref.toLowerCase()) {
+			issues.push({
+				level: 'error',
+				message: `HEAD is ${current ?? 'missing'}, not the pinned commit ${config.ref}`,
+				hint: CommonHints.CLEAR_CACHE
+			});
+		} else if (!config.ref) {
+			const tracked = await readGitOutput(
+				['rev-parse', '--verify', '--quiet', `refs/remotes/origin/${config.branch}`],
+				localPath
+			);
+			if (pinnedRef) {
+				issues.push({
+					level: 'warning',
+					message: `Still pinned to "${pinnedRef}" instead of following branch "${config.branch}"`,
+					hint: updateHint
+				});
+			} else if (!tracked || tracked !== current) {
+				issues.push({
+					level: 'warning',
+					message: `HEAD is not on the last fetched commit of branch "${config.branch}"`,
+					hint: updateHint
+				});
+			}
+		}
+
+		// A search path added since the last load is checked out the next time it is used
+		const sparsePaths = await getSparsePaths(localPath);
+		const normalize = (folder: string) => folder.replace(/^\.\/|\/+$/g, '');
+		const checkedOut = config.repoSubPaths.filter((searchPath) => {
+			const folder = normalize(searchPath);
+			const isCovered =
+				sparsePaths === null ||
+				sparsePaths.some(
+					(sparse) => folder === normalize(sparse) || folder.startsWith(`${normalize(sparse)}/`)
+				);
+			if (!isCovered) {
+				issues.push({
+					level: 'warning',
+					message: `Search path "${searchPath}" is not checked out yet`,
+					hint: 'It is checked out the next time the resource is used.'
+				});
+			}
+			return isCovered;
+		});
+		issues.push(
+			...(await checkSearchPaths(checkedOut, (searchPath) =>
+				ensureSearchPathsExist(localPath, [searchPath], config.name)
+			))
+		);
+	}
+
+	// Full SHAs cannot be looked up with ls-remote; they are checked when fetched
+	const remoteRef = config.ref ? (isFullCommitSha(config.ref) ? null : config.ref) : config.branch;
+	if (options.remote && !config.offline && remoteRef && Result.isOk(envResult)) {
+		const remote = await Result.tryPromise(() =>
+			lsRemote({
+				url: config.url,
+				ref: config.ref ? `refs/tags/${config.ref}` : `refs/heads/${config.branch}`,
+				env: envResult.value
+			})
+		);
+		if (Result.isError(remote)) {
+			issues.push(issueFromError('error', remote.error));
+		} else if (remote.value === null) {
+			issues.push(
+				config.ref
+					? {
+							level: 'error',
+							message: `Tag "${config.ref}" not found on the remote`,
+							hint: 'Use an existing tag name or a full 40-character commit SHA.'
+						}
+					: {
+							level: 'error',
+							message: `Branch "${config.branch}" not found on the remote`,
+							hint: `${CommonHints.CHECK_BRANCH} The branch may have been renamed.`
+						}
+			);
+		} else if (!config.ref && downloaded && current && remote.value !== current) {
+			issues.push({
+				level: 'warning',
+				message: `Branch "${config.branch}" has new commits (${remote.value.slice(0, 12)})`,
+				hint: updateHint
+			});
+		}
+	}
+
+	return createHealthReport({
+		name: config.name,
+		type: 'git',
+		path: localPath,
+		downloaded,
+		expected,
+		current,
+		sizeBytes: downloaded ? await getDirectorySize(localPath) : null,
+		lastFetchedAt: toIsoTime(
+			await readLastRefresh(getClonesDirectory(config), getGitCloneKey(config))
+		),
+		issues
+	});
+};
@@ -0,0 +1,185 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { createHash } from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+
+import { loadNpmResource, refreshNpmResource, resolveVersion } from './npm.ts';
+import type { BtcaNpmResourceArgs } from '../types.ts';
+
+const packTarball = async (workDir: string, version: string, outFile: string) => {
+	const packageDir = path.join(workDir, `src-${version}`, 'package');
+	await fs.mkdir(path.join(packageDir, 'dist'), { recursive: true });
+	await fs.writeFile(
+		path.join(packageDir, 'package.json'),
+		JSON.stringify({ name: 'tiny-lib', version })
+	);
+	await fs.writeFile(path.join(packageDir, 'README.md'), `# tiny-lib ${version}\n`);
+	await fs.writeFile(path.join(packageDir, 'dist', 'index.d.ts'), 'export declare const x: 1;\n');
+	const proc = Bun.spawn(['tar', '-czf', outFile, '-C', path.dirname(packageDir), 'package']);
+	expect(await proc.exited).toBe(0);
+	return outFile;
+};
+
+describe('npm Resource', () => {
+	let testDir: string;
+
+	beforeEach(async () => {
+		testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'btca-npm-test-'));
+	});
+
+	afterEach(async () => {
+		await fs.rm(testDir, { recursive: true, force: true });
+	});
+
+	const baseArgs = (overrides: Partial<BtcaNpmResourceArgs>): BtcaNpmResourceArgs => ({
+		type: 'npm',
+		name: 'tiny',
+		packageName: 'tiny-lib',
+		version: 'latest',
+		registry: 'http://127.0.0.1:9',
+		repoSubPaths: [],
+		resourcesDirectoryPath: path.join(testDir, 'resources'),
+		specialAgentInstructions: '',
+		refresh: 'always',
+		offline: false,
+		...overrides
+	});
+
+	it('resolves dist-tags, exact versions, and ranges', () => {
+		const versions = ['1.0.0', '1.2.0', '2.0.0', '2.1.0-beta.1'];
+		expect(resolveVersion('latest', versions, { latest: '2.0.0' })).toBe('2.0.0');
+		expect(resolveVersion('1.0.0', versions)).toBe('1.0.0');
+		expect(resolveVersion('^1.0.0', versions)).toBe('1.2.0');
+		expect(resolveVersion('^3.0.0', versions)).toBeNull();
+	});
+
+	it('unpacks the best matching tarball from a local directory', async () => {
+		const tarballs = path.join(testDir, 'tarballs');
+		await fs.mkdir(tarballs);
+		await packTarball(testDir, '1.0.0', path.join(tarballs, 'tiny-lib-1.0.0.tgz'));
+		await packTarball(testDir, '1.4.0', path.join(tarballs, 'tiny-lib-1.4.0.tgz'));
+		await packTarball(testDir, '2.0.0', path.join(tarballs, 'tiny-lib-2.0.0.tgz'));
+
+		const resource = await loadNpmResource(
+			baseArgs({ version: '^1.0.0', tarball: tarballs, repoSubPaths: ['dist'] })
+		);
+
+		expect(resource.type).toBe('npm');
+		expect(resource.revision).toBe('tiny-lib@1.4.0');
+		const resourcePath = await resource.getAbsoluteDirectoryPath();
+		expect(await fs.readFile(path.join(resourcePath, 'README.md'), 'utf8')).toContain('1.4.0');
+		expect(await Bun.file(path.join(resourcePath, 'dist', 'index.d.ts')).exists()).toBe(true);
+	});
+
+	it('downloads from a registry and keeps working once it is unreachable', async () => {
+		const tarballPath = await packTarball(testDir, '1.2.3', path.join(testDir, 'registry.tgz'));
+		const data = await fs.readFile(tarballPath);
+		const integrity = `sha512-${createHash('sha512').update(data).digest('base64')}`;
+
+		const server = Bun.serve({
+			port: 0,
+			fetch: (req): Response => {
+				const { pathname } = new URL(req.url);
+				if (pathname === '/tiny-lib') {
+					return Response.json({
+						'dist-tags': { latest: '1.2.3' },
+						versions: {
+							'1.2.3': {
+								dist: { tarball: `${server.url.origin}/tiny-lib-1.2.3.tgz`, integrity }
+							}
+						}
+					});
+				}
+				if (pathname === '/tiny-lib-1.2.3.tgz') return new Response(data);
+				return new Response('not found', { status: 404 });
+			}
+		});
+		const registry = server.url.origin;
+
+		const first = await loadNpmResource(baseArgs({ registry }));
+		expect(first.revision).toBe('tiny-lib@1.2.3');
+		await server.stop(true);
+
+		// Exact pins are reused without contacting the registry
+		const pinned = await loadNpmResource(baseArgs({ registry, version: '1.2.3' }));
+		expect(pinned.revision).toBe('tiny-lib@1.2.3');
+
+		// Tags fall back to the installed version when the registry is down
+		const offline = await loadNpmResource(baseArgs({ registry }));
+		expect(offline.revision).toBe('tiny-lib@1.2.3');
+		expect(
+			await Bun.file(path.join(await offline.getAbsoluteDirectoryPath(), 'README.md')).exists()
+		).toBe(true);
+	});
+
+	it('follows the refresh policy and reports old and new versions on refresh', async () => {
+		const tarballs = new Map<string, Uint8Array>();
+		for (const version of ['1.0.0', '1.1.0']) {
+			const file = await packTarball(testDir, version, path.join(testDir, `${version}.tgz`));
+			tarballs.set(version, await fs.readFile(file));
+		}
+		let latest = '1.0.0';
+
+		const server = Bun.serve({
+			port: 0,
+			fetch: (req): Response => {
+				const { pathname } = new URL(req.url);
+				if (pathname === '/tiny-lib') {
+					const published = [...tarballs.keys()].filter((v) => Bun.semver.order(v, latest) <= 0);
+					return Response.json({
+						'dist-tags': { latest },
+						versions: Object.fromEntries(
+							published.map((v) => [v, { dist: { tarball: `${server.url.origin}/${v}.tgz` } }])
+						)
+					});
+				}
+				const data = tarballs.get(pathname.slice(1, -'.tgz'.length));
+				return data ? new Response(data) : new Response('not found', { status: 404 });
+			}
+		});
+		const registry = server.url.origin;
+
+		const first = await loadNpmResource(baseArgs({ registry, refresh: 'manual' }));
+		expect(first.revision).toBe('tiny-lib@1.0.0');
+
+		latest = '1.1.0';
+		const manual = await loadNpmResource(baseArgs({ registry, refresh: 'manual' }));
+		expect(manual.revision).toBe('tiny-lib@1.0.0');
+		const fresh = await loadNpmResource(baseArgs({ registry, refresh: { interval: '1h' } }));
+		expect(fresh.revision).toBe('tiny-lib@1.0.0');
+
+		const refreshed = await refreshNpmResource(baseArgs({ registry, refresh: 'manual' }));
+		expect(refreshed).toEqual({ previous: 'tiny-lib@1.0.0', current: 'tiny-lib@1.1.0' });
+		await server.stop(true);
+
+		const offline = await loadNpmResource(baseArgs({ registry, offline: true }));
+		expect(offline.revision).toBe('tiny-lib@1.1.0');
+		const missing = loadNpmResource(baseArgs({ registry, name: 'other', offline: true }));
+		await expect(missing).rejects.toThrow('has not been downloaded yet');
+	});
+
+	it('rejects tarballs that do not match the registry integrity', async () => {
+		const tarballPath = await packTarball(testDir, '1.0.0', path.join(testDir, 'bad.tgz'));
+		const data = await fs.readFile(tarballPath);
+
+		const server = Bun.serve({
+			port: 0,
+			fetch: (req): Response =>
+				new URL(req.url).pathname === '/tiny-lib'
+					? Response.json({
+							'dist-tags': { latest: '1.0.0' },
+							versions: {
+								'1.0.0': {
+									dist: { tarball: `${server.url.origin}/bad.tgz`, integrity: 'sha512-AAAA' }
+								}
+							}
+						})
+					: new Response(data)
+		});
+
+		const result = loadNpmResource(baseArgs({ registry: server.url.origin }));
+		await expect(result).rejects.toThrow('Integrity check failed');
+		await server.stop(true);
+	});
+});
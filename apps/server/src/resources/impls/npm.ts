@@ -0,0 +1,517 @@
+import { createHash } from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+
+import { Result } from 'better-result';
+
+import { Metrics } from '../../metrics/index.ts';
+import { CommonHints } from '../../errors.ts';
+import { TrigramIndex } from '../../search/trigram-index.ts';
+import { checkSearchPaths, createHealthReport, getDirectorySize, toIsoTime } from '../health.ts';
+import { pathExists, ResourceError, resourceNameToKey, unwrapCause } from '../helpers.ts';
+import { describeRefreshPolicy, isRefreshDue, markRefreshed, readLastRefresh } from '../refresh.ts';
+import type {
+	BtcaFsResource,
+	BtcaNpmResourceArgs,
+	ResourceHealth,
+	ResourceHealthIssue
+} from '../types.ts';
+
+export const DEFAULT_NPM_REGISTRY = 'https://registry.npmjs.org';
+
+type Packument = {
+	'dist-tags'?: Record<string, string>;
+	versions?: Record<string, { dist?: { tarball?: string; integrity?: string } }>;
+};
+
+/**
+ * A concrete package version and where to get its tarball from.
+ */
+type ResolvedTarball = {
+	version: string;
+	source: string;
+	integrity?: string;
+};
+
+/**
+ * Written next to the extracted package so unchanged versions are not downloaded again.
+ */
+type InstallManifest = {
+	package: string;
+	/** The configured version selector this install was resolved from */
+	requested?: string;
+	version: string;
+	source: string;
+	installedAt: string;
+};
+
+const unwrap = <T>(result: Result<T, ResourceError>): T => {
+	if (Result.isError(result)) throw result.error;
+	return result.value;
+};
+
+const getLocalPath = (config: BtcaNpmResourceArgs) =>
+	path.join(config.resourcesDirectoryPath, resourceNameToKey(config.name));
+
+const getManifestPath = (config: BtcaNpmResourceArgs) =>
+	path.join(config.resourcesDirectoryPath, `${resourceNameToKey(config.name)}.npm.json`);
+
+const getSearchIndexPath = (config: BtcaNpmResourceArgs) =>
+	path.join(config.resourcesDirectoryPath, `${resourceNameToKey(config.name)}.trigrams`);
+
+const getRevision = (packageName: string, version: string) => `${packageName}@${version}`;
+
+const isExactVersion = (selector: string) =>
+	/^\d+\.\d+\.\d+(?:[-+][0-9A-Za-z.+-]+)?$/.test(selector);
+
+/**
+ * Resolve a version selector (dist-tag, exact version, or semver range) against the
+ * versions available. Ranges pick the highest satisfying version.
+ */
+export const resolveVersion = (
+	selector: string,
+	versions: readonly string[],
+	distTags: Record<string, string> = {}
+): string | null => {
+	const tagged = distTags[selector];
+	if (tagged) return tagged;
+	if (versions.includes(selector)) return selector;
+
+	const satisfying = versions
+		.filter((version) =>
+			Result.try(() => Bun.semver.satisfies(version, selector)).match({
+				ok: (matches) => matches,
+				err: () => false
+			})
+		)
+		.sort((a, b) => Bun.semver.order(a, b));
+	return satisfying.at(-1) ?? null;
+};
+
+/**
+ * File name prefix `npm pack` uses for a package: "@scope/pkg" becomes "scope-pkg".
+ */
+const getPackFilePrefix = (packageName: string) =>
+	`${packageName.replace(/^@/, '').replace('/', '-')}-`;
+
+const readManifest = async (config: BtcaNpmResourceArgs) =>
+	(await Result.tryPromise(() => fs.readFile(getManifestPath(config), 'utf8'))).match({
+		ok: (content) =>
+			Result.try(() => JSON.parse(content) as InstallManifest).match({
+				ok: (manifest) => (manifest.package === config.packageName ? manifest : null),
+				err: () => null
+			}),
+		err: () => null
+	});
+
+const resolveFromTarballPath = async (
+	config: BtcaNpmResourceArgs,
+	tarballPath: string
+): Promise<ResolvedTarball> => {
+	const stat = unwrap(
+		await Result.tryPromise({
+			try: () => fs.stat(tarballPath),
+			catch: (cause) =>
+				new ResourceError({
+					message: `Tarball path not found: "${tarballPath}"`,
+					hint: 'Point "tarball" at a .tgz file or a directory of `npm pack` tarballs.',
+					cause
+				})
+		})
+	);
+
+	const prefix = getPackFilePrefix(config.packageName);
+	const versionFromFile = (file: string) =>
+		file.startsWith(prefix) && file.endsWith('.tgz')
+			? file.slice(prefix.length, -'.tgz'.length)
+			: null;
+
+	if (stat.isFile()) {
+		const version = versionFromFile(path.basename(tarballPath)) ?? config.version;
+		return { version, source: tarballPath };
+	}
+
+	const files = await fs.readdir(tarballPath);
+	const available = new Map<string, string>();
+	for (const file of files) {
+		const version = versionFromFile(file);
+		if (version) available.set(version, file);
+	}
+
+	const version = resolveVersion(config.version, [...available.keys()]);
+	const file = version ? available.get(version) : undefined;
+	if (!version || !file) {
+		throw new ResourceError({
+			message: `No tarball for ${config.packageName}@${config.version} in "${tarballPath}"`,
+			hint: `Expected a file named like "${prefix}<version>.tgz", as produced by \`npm pack ${config.packageName}\`.`
+		});
+	}
+	return { version, source: path.join(tarballPath, file) };
+};
+
+const fetchPackument = async (config: BtcaNpmResourceArgs): Promise<Packument> => {
+	const registry = config.registry.replace(/\/+$/, '');
+	const url = `${registry}/${config.packageName.replace('/', '%2f')}`;
+
+	const response = unwrap(
+		await Result.tryPromise({
+			try: () =>
+				fetch(url, {
+					headers: { accept: 'application/vnd.npm.install-v1+json, application/json' }
+				}),
+			catch: (cause) =>
+				new ResourceError({
+					message: `Could not reach npm registry ${registry}`,
+					hint: `${CommonHints.CHECK_NETWORK} To work offline, set "tarball" to a local .tgz file or directory.`,
+					cause
+				})
+		})
+	);
+
+	if (response.status === 404) {
+		throw new ResourceError({
+			message: `Package "${config.packageName}" not found in ${registry}`,
+			hint: 'Check the package name. Scoped packages need their scope, e.g. "@tanstack/query-core".'
+		});
+	}
+	if (!response.ok) {
+		throw new ResourceError({
+			message: `npm registry request failed with status ${response.status}`,
+			hint:
+				response.status === 401 || response.status === 403
+					? 'The registry requires authentication, which is not supported yet. Use "tarball" with a locally packed copy instead.'
+					: CommonHints.CHECK_NETWORK
+		});
+	}
+
+	return (await response.json()) as Packument;
+};
+
+const resolveFromRegistry = async (config: BtcaNpmResourceArgs): Promise<ResolvedTarball> => {
+	const packument = await fetchPackument(config);
+	const versions = Object.keys(packument.versions ?? {});
+	const version = resolveVersion(config.version, versions, packument['dist-tags']);
+	const dist = version ? packument.versions?.[version]?.dist : undefined;
+
+	if (!version || !dist?.tarball) {
+		throw new ResourceError({
+			message: `No version of "${config.packageName}" matches "${config.version}"`,
+			hint: `Published dist-tags: ${Object.keys(packument['dist-tags'] ?? {}).join(', ') || 'none'}. Use an exact version, a semver range, or a dist-tag.`
+		});
+	}
+	return {
+		version,
+		source: dist.tarball,
+		...(dist.integrity ? { integrity: dist.integrity } : {})
+	};
+};
+
+/**
+ * Check a downloaded tarball against the registry's Subresource Integrity string.
+ */
+const verifyIntegrity = (data: Uint8Array, integrity: string) => {
+	const candidates = integrity.split(/\s+/).filter(Boolean);
+	return candidates.some((candidate) => {
+		const [algorithm, expected] = candidate.split('-', 2) as [string, string | undefined];
+		if (!expected || !['sha512', 'sha384', 'sha256', 'sha1'].includes(algorithm)) return false;
+		return createHash(algorithm).update(data).digest('base64') === expected;
+	});
+};
+
+const downloadTarball = async (resolved: ResolvedTarball, destination: string) => {
+	const response = unwrap(
+		await Result.tryPromise({
+			try: () => fetch(resolved.source),
+			catch: (cause) =>
+				new ResourceError({
+					message: `Failed to download ${resolved.source}`,
+					hint: CommonHints.CHECK_NETWORK,
+					cause
+				})
+		})
+	);
+	if (!response.ok) {
+		throw new ResourceError({
+			message: `Failed to download ${resolved.source}: status ${response.status}`,
+			hint: CommonHints.CHECK_NETWORK
+		});
+	}
+
+	const data = new Uint8Array(await response.arrayBuffer());
+	if (resolved.integrity && !verifyIntegrity(data, resolved.integrity)) {
+		throw new ResourceError({
+			message: `Integrity check failed for ${resolved.source}`,
+			hint: 'The downloaded tarball does not match the registry checksum. Try again, or check for a proxy rewriting responses.'
+		});
+	}
+	await fs.writeFile(destination, data);
+};
+
+const extractTarball = async (tarballPath: string, destination: string) => {
+	await fs.mkdir(destination, { recursive: true });
+	// npm tarballs wrap their contents in a single top-level folder (usually "package/")
+	const proc = Bun.spawn(['tar', '-xzf', tarballPath, '-C', destination, '--strip-components=1'], {
+		stdout: 'ignore',
+		stderr: 'pipe'
+	});
+	const stderr = await new Response(proc.stderr).text();
+	const exitCode = await proc.exited;
+	if (exitCode !== 0) {
+		throw new ResourceError({
+			message: `Failed to extract tarball "${tarballPath}"`,
+			hint: 'Check that the file is a valid gzipped npm package tarball.',
+			cause: new Error(`tar failed with exit code ${exitCode}: ${stderr}`)
+		});
+	}
+};
+
+/**
+ * Download (or copy) and unpack the tarball into a staging folder, then swap it into place
+ * so a failed install never leaves a half-extracted package behind.
+ */
+const installTarball = async (config: BtcaNpmResourceArgs, resolved: ResolvedTarball) => {
+	const localPath = getLocalPath(config);
+	const stagingPath = `${localPath}.staging-${crypto.randomUUID()}`;
+	const isRemote = /^https?:\/\//.test(resolved.source);
+	const tarballPath = isRemote ? `${stagingPath}.tgz` : resolved.source;
+
+	const result = await Result.tryPromise(async () => {
+		await fs.mkdir(config.resourcesDirectoryPath, { recursive: true });
+		if (isRemote) await downloadTarball(resolved, tarballPath);
+		await extractTarball(tarballPath, stagingPath);
+		await fs.rm(localPath, { recursive: true, force: true });
+		await fs.rename(stagingPath, localPath);
+
+		const manifest: InstallManifest = {
+			package: config.packageName,
+			requested: config.version,
+			version: resolved.version,
+			source: resolved.source,
+			installedAt: new Date().toISOString()
+		};
+		await fs.writeFile(getManifestPath(config), JSON.stringify(manifest, null, 2));
+	});
+
+	await fs.rm(stagingPath, { recursive: true, force: true });
+	if (isRemote) await fs.rm(tarballPath, { force: true });
+
+	if (Result.isError(result)) {
+		const error = unwrapCause(result.error);
+		throw error instanceof ResourceError
+			? error
+			: new ResourceError({
+					message: `Failed to install ${config.packageName}@${resolved.version}`,
+					hint: `${CommonHints.CLEAR_CACHE} Check that you have write permissions to the btca data directory.`,
+					cause: error
+				});
+	}
+};
+
+/**
+ * Rebuild the grep index when the installed version changed. Failures are logged and
+ * otherwise ignored - grep falls back to scanning every file.
+ */
+const ensureSearchIndex = async (
+	config: BtcaNpmResourceArgs,
+	localPath: string,
+	revision: string
+) => {
+	const indexPath = getSearchIndexPath(config);
+	const result = await Result.tryPromise(async () => {
+		if ((await TrigramIndex.readCommit(indexPath)) === revision) return;
+		const index = await TrigramIndex.build(localPath, revision);
+		await TrigramIndex.write(indexPath, index);
+		Metrics.info('resource.npm.index', {
+			name: config.name,
+			revision,
+			files: index.files.size,
+			trigrams: index.trigrams.size
+		});
+	});
+	result.match({
+		ok: () => undefined,
+		err: (cause) =>
+			Metrics.error('resource.npm.index.error', {
+				name: config.name,
+				error: Metrics.errorInfo(cause)
+			})
+	});
+};
+
+/**
+ * Resolve and install the configured version. Unless `strict` is set, a registry that
+ * cannot be reached falls back to the installed version instead of failing.
+ */
+const ensureNpmResource = async (config: BtcaNpmResourceArgs, strict: boolean): Promise<string> => {
+	const localPath = getLocalPath(config);
+
+	return Metrics.span(
+		'resource.npm.ensure',
+		async () => {
+			const installed = (await pathExists(localPath)) ? await readManifest(config) : null;
+
+			// Published versions are immutable, so an exact pin never needs the network again
+			if (
+				installed &&
+				!config.tarball &&
+				isExactVersion(config.version) &&
+				installed.version === config.version
+			) {
+				return installed.version;
+			}
+
+			if (installed && !config.tarball) {
+				if (config.offline) return installed.version;
+				const lastRefresh = await readLastRefresh(config.resourcesDirectoryPath, config.name);
+				if (installed.requested === config.version && !isRefreshDue(config.refresh, lastRefresh)) {
+					Metrics.info('resource.npm.update.skipped', {
+						name: config.name,
+						version: installed.version,
+						refresh: describeRefreshPolicy(config.refresh)
+					});
+					return installed.version;
+				}
+			}
+
+			if (config.offline && !config.tarball) {
+				throw new ResourceError({
+					message: `Resource "${config.name}" has not been downloaded yet`,
+					hint: 'The server is running offline. Restart it without --offline (or unset BTCA_OFFLINE), or set "tarball" to a local copy.'
+				});
+			}
+
+			const resolution = await Result.tryPromise(() =>
+				config.tarball
+					? resolveFromTarballPath(config, config.tarball)
+					: resolveFromRegistry(config)
+			);
+			if (Result.isError(resolution)) {
+				const error = unwrapCause(resolution.error);
+				if (!installed || config.tarball || strict) throw error;
+				// Offline: keep answering from the last installed version
+				Metrics.error('resource.npm.offline', {
+					name: config.name,
+					version: installed.version,
+					error: Metrics.errorInfo(error)
+				});
+				return installed.version;
+			}
+			const resolved = resolution.value;
+			if (!config.tarball) await markRefreshed(config.resourcesDirectoryPath, config.name);
+
+			if (installed?.version === resolved.version && installed.source === resolved.source) {
+				return installed.version;
+			}
+
+			Metrics.info('resource.npm.install', {
+				name: config.name,
+				package: config.packageName,
+				version: resolved.version,
+				source: resolved.source
+			});
+			await installTarball(config, resolved);
+			return resolved.version;
+		},
+		{ resource: config.name }
+	);
+};
+
+const ensureSearchPathsExist = async (localPath: string, config: BtcaNpmResourceArgs) => {
+	for (const repoSubPath of config.repoSubPaths) {
+		if (await pathExists(path.join(localPath, repoSubPath))) continue;
+		throw new ResourceError({
+			message: `Invalid searchPath for resource "${config.name}"\n\nPath not found: "${repoSubPath}"\nPackage: ${localPath}`,
+			hint: `Verify the path exists in the published package. To see available directories, run:\n  ls ${localPath}`
+		});
+	}
+};
+
+const loadResource = async (
+	config: BtcaNpmResourceArgs,
+	strict: boolean
+): Promise<BtcaFsResource> => {
+	const version = await ensureNpmResource(config, strict);
+	const localPath = getLocalPath(config);
+	const revision = getRevision(config.packageName, version);
+
+	await ensureSearchPathsExist(localPath, config);
+	await ensureSearchIndex(config, localPath, revision);
+
+	return {
+		_tag: 'fs-based',
+		name: config.name,
+		fsName: resourceNameToKey(config.name),
+		type: 'npm',
+		repoSubPaths: config.repoSubPaths,
+		specialAgentInstructions: config.specialAgentInstructions,
+		searchIndexPath: getSearchIndexPath(config),
+		revision,
+		version: revision,
+		getAbsoluteDirectoryPath: async () => localPath
+	};
+};
+
+export const loadNpmResource = (config: BtcaNpmResourceArgs) => loadResource(config, false);
+
+/**
+ * Resolve the version selector against the registry now, regardless of the refresh policy.
+ */
+export const refreshNpmResource = async (config: BtcaNpmResourceArgs) => {
+	const installed = (await pathExists(getLocalPath(config))) ? await readManifest(config) : null;
+	const resource = await loadResource({ ...config, refresh: 'always' }, true);
+	return {
+		previous: installed ? getRevision(config.packageName, installed.version) : null,
+		current: resource.revision ?? null
+	};
+};
+
+/**
+ * Check the installed package without touching the registry: that it is installed, that
+ * an exact version matches the config, and that its search paths exist.
+ */
+export const checkNpmResourceHealth = async (
+	config: BtcaNpmResourceArgs
+): Promise<ResourceHealth> => {
+	const localPath = getLocalPath(config);
+	const installed = (await pathExists(localPath)) ? await readManifest(config) : null;
+	const issues: ResourceHealthIssue[] = [];
+
+	if (!installed) {
+		issues.push({
+			level: config.offline && !config.tarball ? 'error' : 'warning',
+			message: 'Not downloaded yet',
+			hint: `It is installed the first time it is used. Run "btca update ${config.name}" to install it now.`
+		});
+	} else {
+		const requested = installed.requested ?? installed.version;
+		if (
+			isExactVersion(config.version)
+				? installed.version !== config.version
+				: requested !== config.version
+		) {
+			issues.push({
+				level: 'warning',
+				message: `Installed version ${installed.version} was resolved from "${requested}", but the config asks for "${config.version}"`,
+				hint: `Run "btca update ${config.name}" to install the configured version.`
+			});
+		}
+		issues.push(
+			...(await checkSearchPaths(config.repoSubPaths, (searchPath) =>
+				ensureSearchPathsExist(localPath, { ...config, repoSubPaths: [searchPath] })
+			))
+		);
+	}
+
+	const lastRefresh = await readLastRefresh(config.resourcesDirectoryPath, config.name);
+	return createHealthReport({
+		name: config.name,
+		type: 'npm',
+		path: localPath,
+		downloaded: installed !== null,
+		expected: `${config.packageName}@${config.version}`,
+		current: installed ? getRevision(config.packageName, installed.version) : null,
+		sizeBytes: installed ? await getDirectorySize(localPath) : null,
+		lastFetchedAt: toIsoTime(lastRefresh) ?? installed?.installedAt ?? null,
+		issues
+	});
+};
@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'bun:test';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+
+import { loadWebResource } from './web.ts';
+import type { BtcaWebResourceArgs } from '../types.ts';
+
+const html = (title: string, body: string) =>
+	`<!DOCTYPE html><html><head><title>${title}</title></head><body>` +
+	`<nav><a href="/docs/">Home</a> <a href="/docs/guide">Guide</a> <a href="/blog">Blog</a></nav>` +
+	`<main>${body}</main></body></html>`;
+
+const PAGES: Record<string, { type: string; body: string }> = {
+	'/docs/': {
+		type: 'text/html',
+		body: html('Docs', '<h1>Docs</h1><p>Start with the <a href="guide">guide</a>.</p>')
+	},
+	'/docs/guide': {
+		type: 'text/html',
+		body: html(
+			'Guide',
+			'<h1>Guide</h1><pre><code class="language-ts">load();</code></pre><a href="deep/one">Next</a>'
+		)
+	},
+	'/docs/deep/one': {
+		type: 'text/html',
+		body: html('One', '<h1>One</h1><a href="two">Next</a>')
+	},
+	'/docs/deep/two': { type: 'text/html', body: html('Two', '<h1>Two</h1>') },
+	'/blog': { type: 'text/html', body: html('Blog', '<h1>Blog</h1>') },
+	'/llms/llms.txt': {
+		type: 'text/plain',
+		body: '# Example\n\n- [Intro](/llms/intro.md): Getting started\n- [API](api.md)\n'
+	},
+	'/llms/intro.md': { type: 'text/markdown', body: '# Intro\n\nHello from markdown.\n' },
+	'/llms/api.md': { type: 'text/markdown', body: '# API\n\n`load()` loads things.\n' }
+};
+
+describe('Web Resource', () => {
+	let server: ReturnType<typeof Bun.serve>;
+	let testDir: string;
+
+	beforeAll(() => {
+		server = Bun.serve({
+			port: 0,
+			fetch: (request) => {
+				const page = PAGES[new URL(request.url).pathname];
+				if (!page) return new Response('Not found', { status: 404 });
+				return new Response(page.body, { headers: { 'content-type': page.type } });
+			}
+		});
+	});
+
+	afterAll(() => {
+		server.stop(true);
+	});
+
+	beforeEach(async () => {
+		testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'btca-web-test-'));
+	});
+
+	afterEach(async () => {
+		await fs.rm(testDir, { recursive: true, force: true });
+	});
+
+	const baseArgs = (overrides: Partial<BtcaWebResourceArgs>): BtcaWebResourceArgs => ({
+		type: 'web',
+		name: 'example-docs',
+		url: `${server.url.origin}/docs/`,
+		maxPages: 50,
+		maxDepth: 3,
+		repoSubPaths: [],
+		resourcesDirectoryPath: path.join(testDir, 'resources'),
+		specialAgentInstructions: '',
+		refresh: 'always',
+		offline: false,
+		allowPrivateHosts: true,
+		...overrides
+	});
+
+	const listFiles = async (root: string) =>
+		(await fs.readdir(root, { recursive: true, withFileTypes: true }))
+			.filter((entry) => entry.isFile())
+			.map((entry) => path.relative(root, path.join(entry.parentPath, entry.name)))
+			.sort();
+
+	it('crawls pages under the root path and stores them as markdown', async () => {
+		const resource = await loadWebResource(baseArgs({}));
+
+		expect(resource.type).toBe('web');
+		expect(resource.revision).toHaveLength(64);
+		const resourcePath = await resource.getAbsoluteDirectoryPath();
+		expect(await listFiles(resourcePath)).toEqual([
+			'deep/one.md',
+			'deep/two.md',
+			'guide.md',
+			'index.md'
+		]);
+
+		const guide = await fs.readFile(path.join(resourcePath, 'guide.md'), 'utf8');
+		expect(guide).toContain(`Source: ${server.url.origin}/docs/guide`);
+		expect(guide).toContain('# Guide');
+		expect(guide).toContain('```ts\nload();\n```');
+	});
+
+	it('stops at the configured depth and page limits', async () => {
+		const shallow = await loadWebResource(baseArgs({ maxDepth: 1 }));
+		expect(await listFiles(await shallow.getAbsoluteDirectoryPath())).toEqual([
+			'guide.md',
+			'index.md'
+		]);
+
+		const limited = await loadWebResource(baseArgs({ name: 'limited', maxPages: 1 }));
+		expect(await listFiles(await limited.getAbsoluteDirectoryPath())).toEqual(['index.md']);
+	});
+
+	it('follows the links in an llms.txt index', async () => {
+		const resource = await loadWebResource(baseArgs({ url: `${server.url.origin}/llms/llms.txt` }));
+
+		const resourcePath = await resource.getAbsoluteDirectoryPath();
+		expect(await listFiles(resourcePath)).toEqual(['api.md', 'intro.md', 'llms.txt']);
+		expect(await fs.readFile(path.join(resourcePath, 'intro.md'), 'utf8')).toBe(
+			'# Intro\n\nHello from markdown.\n'
+		);
+	});
+
+	it('refuses private hosts unless explicitly allowed', async () => {
+		await expect(loadWebResource(baseArgs({ allowPrivateHosts: false }))).rejects.toThrow(
+			'Website URL must be a valid HTTPS URL'
+		);
+		await expect(
+			loadWebResource(baseArgs({ url: 'https://localhost/docs/', allowPrivateHosts: false }))
+		).rejects.toThrow('must not point to localhost');
+	});
+});
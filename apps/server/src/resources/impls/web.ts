@@ -0,0 +1,491 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+
+import { Result } from 'better-result';
+
+import { Metrics } from '../../metrics/index.ts';
+import { CommonHints } from '../../errors.ts';
+import { TrigramIndex } from '../../search/trigram-index.ts';
+import { checkSearchPaths, createHealthReport, getDirectorySize } from '../health.ts';
+import { pathExists, ResourceError, resourceNameToKey, unwrapCause } from '../helpers.ts';
+import {
+	extractHtmlLinks,
+	extractHtmlTitle,
+	extractMarkdownLinks,
+	htmlToMarkdown
+} from '../html-to-markdown.ts';
+import { describeRefreshPolicy, isRefreshDue, markRefreshed, readLastRefresh } from '../refresh.ts';
+import { WebResourceSchema } from '../schema.ts';
+import type {
+	BtcaFsResource,
+	BtcaWebResourceArgs,
+	ResourceHealth,
+	ResourceHealthIssue
+} from '../types.ts';
+
+export const DEFAULT_WEB_MAX_PAGES = 200;
+export const DEFAULT_WEB_MAX_DEPTH = 3;
+// A crawl is far more expensive than a git fetch, so "always" is not a sensible default
+export const DEFAULT_WEB_REFRESH = { interval: '1d' } as const;
+
+const USER_AGENT = 'btca (documentation crawler)';
+const PAGE_TIMEOUT_MS = 30_000;
+const MAX_PAGE_BYTES = 5 * 1024 * 1024;
+const MAX_REDIRECTS = 5;
+const CONCURRENCY = 4;
+
+// Links to anything else (images, scripts, downloads) are not documentation pages
+const PAGE_EXTENSION_REGEX = /\.(html?|md|mdx|txt)$/i;
+const LLMS_INDEX_REGEX = /(^|\/)llms(-full)?\.txt$/i;
+
+/**
+ * Written next to the crawled pages. `url`, `maxPages`, and `maxDepth` are what the crawl
+ * was asked for, so changing any of them crawls again regardless of the refresh policy.
+ */
+type WebManifest = {
+	url: string;
+	maxPages: number;
+	maxDepth: number;
+	revision: string;
+	pages: number;
+	crawledAt: string;
+};
+
+type CrawlScope = { origin: string; prefix: string };
+
+type CrawlResult = { revision: string; pages: number };
+
+const getLocalPath = (config: BtcaWebResourceArgs) =>
+	path.join(config.resourcesDirectoryPath, resourceNameToKey(config.name));
+
+const getManifestPath = (config: BtcaWebResourceArgs) =>
+	path.join(config.resourcesDirectoryPath, `${resourceNameToKey(config.name)}.web.json`);
+
+const getSearchIndexPath = (config: BtcaWebResourceArgs) =>
+	path.join(config.resourcesDirectoryPath, `${resourceNameToKey(config.name)}.trigrams`);
+
+const readManifest = async (config: BtcaWebResourceArgs) =>
+	(await Result.tryPromise(() => fs.readFile(getManifestPath(config), 'utf8'))).match({
+		ok: (content) =>
+			Result.try(() => JSON.parse(content) as WebManifest).match({
+				ok: (manifest) =>
+					manifest.url === config.url &&
+					manifest.maxPages === config.maxPages &&
+					manifest.maxDepth === config.maxDepth
+						? manifest
+						: null,
+				err: () => null
+			}),
+		err: () => null
+	});
+
+/**
+ * Config URLs are validated on load, but the crawler is also reachable directly. Only
+ * `allowPrivateHosts` (used by tests against a local server) relaxes the rules.
+ */
+const validateRootUrl = (config: BtcaWebResourceArgs) => {
+	if (config.allowPrivateHosts) {
+		const parsed = Result.try(() => new URL(config.url));
+		if (Result.isOk(parsed) && ['http:', 'https:'].includes(parsed.value.protocol)) return;
+		throw new ResourceError({
+			message: 'Website URL must be a valid HTTP(S) URL',
+			hint: 'Example: https://svelte.dev/docs/'
+		});
+	}
+	const result = WebResourceSchema.shape.url.safeParse(config.url);
+	if (result.success) return;
+	throw new ResourceError({
+		message: result.error.errors[0]?.message ?? 'Invalid website URL',
+		hint: 'Website URLs must be public HTTPS URLs. Example: https://svelte.dev/docs/',
+		cause: new Error('URL validation failed')
+	});
+};
+
+const normalizeUrl = (url: URL) => {
+	const normalized = new URL(url);
+	normalized.hash = '';
+	normalized.search = '';
+	return normalized;
+};
+
+/**
+ * "/docs", "/docs/", and "/docs/llms.txt" all limit the crawl to pages under "/docs/".
+ */
+const getScope = (root: URL): CrawlScope => {
+	const segments = root.pathname.split('/');
+	const last = segments.at(-1) ?? '';
+	const prefix = last.includes('.')
+		? `${segments.slice(0, -1).join('/')}/`
+		: root.pathname.endsWith('/')
+			? root.pathname
+			: `${root.pathname}/`;
+	return { origin: root.origin, prefix };
+};
+
+const isInScope = (url: URL, scope: CrawlScope) =>
+	url.origin === scope.origin &&
+	(url.pathname.startsWith(scope.prefix) || `${url.pathname}/` === scope.prefix);
+
+const isPageUrl = (url: URL) => {
+	const last = url.pathname.split('/').at(-1) ?? '';
+	return !last.includes('.') || PAGE_EXTENSION_REGEX.test(last);
+};
+
+const sanitizeSegment = (segment: string) => {
+	const decoded = Result.try(() => decodeURIComponent(segment)).match({
+		ok: (value) => value,
+		err: () => segment
+	});
+	const safe = decoded.replace(/[^a-zA-Z0-9._-]/g, '-');
+	return safe === '.' || safe === '..' ? '_' : safe;
+};
+
+/**
+ * Where a page is stored inside the resource folder, relative to the crawl prefix:
+ * "/docs/" becomes "index.md", "/docs/guide/routing" becomes "guide/routing.md".
+ */
+const toFilePath = (url: URL, scope: CrawlScope) => {
+	const relative =
+		url.pathname.length > scope.prefix.length ? url.pathname.slice(scope.prefix.length) : '';
+	const segments = relative.split('/').filter(Boolean).map(sanitizeSegment);
+	const last = segments.pop();
+	if (!last || relative.endsWith('/'))
+		return path.join(...segments, ...(last ? [last] : []), 'index.md');
+	if (/\.(md|mdx|txt)$/i.test(last)) return path.join(...segments, last);
+	return path.join(...segments, `${last.replace(/\.html?$/i, '')}.md`);
+};
+
+/**
+ * Fetch a page, following redirects only while they stay inside the crawl scope.
+ */
+const fetchPage = async (url: URL, scope: CrawlScope) => {
+	let current = url;
+	for (let redirects = 0; redirects <= MAX_REDIRECTS; redirects++) {
+		const response = await fetch(current, {
+			redirect: 'manual',
+			headers: {
+				'user-agent': USER_AGENT,
+				accept: 'text/html, text/markdown, text/plain;q=0.9'
+			},
+			signal: AbortSignal.timeout(PAGE_TIMEOUT_MS)
+		});
+		const location = response.headers.get('location');
+		if (response.status < 300 || response.status >= 400 || !location) {
+			return { url: current, response };
+		}
+		const next = normalizeUrl(new URL(location, current));
+		if (!isInScope(next, scope)) return null;
+		current = next;
+	}
+	return null;
+};
+
+/**
+ * Convert a fetched page to the markdown stored on disk, plus the links it contains.
+ */
+const readPage = async (url: URL, response: Response) => {
+	const contentType = response.headers.get('content-type') ?? '';
+	const length = Number(response.headers.get('content-length') ?? 0);
+	if (length > MAX_PAGE_BYTES) return null;
+
+	const body = await response.text();
+	if (body.length > MAX_PAGE_BYTES) return null;
+
+	if (/text\/html|application\/xhtml/i.test(contentType)) {
+		const markdown = htmlToMarkdown(body, url.href);
+		const title = extractHtmlTitle(body);
+		const heading = title && !markdown.startsWith('# ') ? `# ${title}\n\n` : '';
+		return {
+			content: `Source: ${url.href}\n\n${heading}${markdown}\n`,
+			links: extractHtmlLinks(body, url.href)
+		};
+	}
+	if (/text\/(markdown|plain|x-markdown)/i.test(contentType) || !contentType) {
+		return { content: body, links: extractMarkdownLinks(body, url.href) };
+	}
+	return null;
+};
+
+/**
+ * Breadth-first crawl from the root URL into `destination`. Pages that fail are skipped;
+ * the crawl only fails when nothing at all could be fetched.
+ */
+const crawlSite = async (
+	config: BtcaWebResourceArgs,
+	destination: string
+): Promise<CrawlResult> => {
+	validateRootUrl(config);
+
+	const root = normalizeUrl(new URL(config.url));
+	const scope = getScope(root);
+	const seen = new Set<string>([root.href]);
+	const files = new Map<string, string>();
+	let frontier = [root];
+	let failures = 0;
+
+	// Sites that publish an llms.txt list their pages there
+	if (!LLMS_INDEX_REGEX.test(root.pathname)) {
+		const index = new URL(`${scope.prefix}llms.txt`, root.origin);
+		seen.add(index.href);
+		frontier.push(index);
+	}
+
+	await fs.mkdir(destination, { recursive: true });
+
+	for (let depth = 0; depth <= config.maxDepth && frontier.length > 0; depth++) {
+		const next: URL[] = [];
+		for (let start = 0; start < frontier.length; start += CONCURRENCY) {
+			if (files.size >= config.maxPages) break;
+			const batch = frontier.slice(start, start + CONCURRENCY);
+			const pages = await Promise.all(
+				batch.map(async (url) => {
+					const result = await Result.tryPromise(async () => {
+						const fetched = await fetchPage(url, scope);
+						if (!fetched?.response.ok) return null;
+						const page = await readPage(fetched.url, fetched.response);
+						return page ? { url: fetched.url, ...page } : null;
+					});
+					if (Result.isOk(result) && result.value) return result.value;
+					failures += 1;
+					return null;
+				})
+			);
+
+			for (const page of pages) {
+				if (!page || files.size >= config.maxPages) continue;
+				const file = toFilePath(page.url, scope);
+				if (files.has(file)) continue;
+				files.set(file, page.content);
+				await fs.mkdir(path.dirname(path.join(destination, file)), { recursive: true });
+				await fs.writeFile(path.join(destination, file), page.content);
+
+				if (depth === config.maxDepth) continue;
+				for (const link of page.links) {
+					const url = Result.try(() => normalizeUrl(new URL(link))).match({
+						ok: (value) => value,
+						err: () => null
+					});
+					if (!url || seen.has(url.href) || !isInScope(url, scope) || !isPageUrl(url)) continue;
+					seen.add(url.href);
+					next.push(url);
+				}
+			}
+		}
+		frontier = next;
+	}
+
+	if (files.size === 0) {
+		throw new ResourceError({
+			message: `Failed to crawl ${config.url}: no pages could be downloaded`,
+			hint: `${CommonHints.CHECK_NETWORK} Verify the URL serves HTML, markdown, or an llms.txt index.`
+		});
+	}
+
+	const hasher = new Bun.CryptoHasher('sha256');
+	for (const file of [...files.keys()].sort()) {
+		hasher.update(`${file}\0${files.get(file)}\0`);
+	}
+
+	Metrics.info('resource.web.crawl', {
+		name: config.name,
+		url: config.url,
+		pages: files.size,
+		failures
+	});
+	return { revision: hasher.digest('hex'), pages: files.size };
+};
+
+/**
+ * Crawl the site when the refresh policy says so. Unless `strict` is set, a crawl that
+ * fails falls back to the pages from the last successful crawl.
+ */
+const ensureWebResource = async (
+	config: BtcaWebResourceArgs,
+	strict: boolean
+): Promise<WebManifest> => {
+	const localPath = getLocalPath(config);
+
+	return Metrics.span(
+		'resource.web.ensure',
+		async () => {
+			const installed = (await pathExists(localPath)) ? await readManifest(config) : null;
+
+			if (installed && config.offline) return installed;
+			if (installed) {
+				const lastRefresh = await readLastRefresh(config.resourcesDirectoryPath, config.name);
+				if (!isRefreshDue(config.refresh, lastRefresh)) {
+					Metrics.info('resource.web.update.skipped', {
+						name: config.name,
+						refresh: describeRefreshPolicy(config.refresh)
+					});
+					return installed;
+				}
+			}
+			if (config.offline) {
+				throw new ResourceError({
+					message: `Resource "${config.name}" has not been downloaded yet`,
+					hint: 'The server is running offline. Restart it without --offline (or unset BTCA_OFFLINE) to crawl it once.'
+				});
+			}
+
+			const stagingPath = `${localPath}.staging-${crypto.randomUUID()}`;
+			const result = await Result.tryPromise(async () => {
+				const crawled = await crawlSite(config, stagingPath);
+				await markRefreshed(config.resourcesDirectoryPath, config.name);
+
+				// Same pages as last time: keep the existing folder and its search index
+				if (installed?.revision !== crawled.revision) {
+					await fs.rm(localPath, { recursive: true, force: true });
+					await fs.rename(stagingPath, localPath);
+				}
+				const manifest: WebManifest = {
+					url: config.url,
+					maxPages: config.maxPages,
+					maxDepth: config.maxDepth,
+					revision: crawled.revision,
+					pages: crawled.pages,
+					crawledAt: new Date().toISOString()
+				};
+				await fs.writeFile(getManifestPath(config), JSON.stringify(manifest, null, 2));
+				return manifest;
+			});
+			await fs.rm(stagingPath, { recursive: true, force: true });
+
+			if (Result.isError(result)) {
+				const error = unwrapCause(result.error);
+				if (!installed || strict) throw error;
+				// Keep answering from the last crawl
+				Metrics.error('resource.web.unavailable', {
+					name: config.name,
+					revision: installed.revision,
+					error: Metrics.errorInfo(error)
+				});
+				return installed;
+			}
+			return result.value;
+		},
+		{ resource: config.name }
+	);
+};
+
+const ensureSearchPathsExist = async (localPath: string, config: BtcaWebResourceArgs) => {
+	for (const repoSubPath of config.repoSubPaths) {
+		if (await pathExists(path.join(localPath, repoSubPath))) continue;
+		throw new ResourceError({
+			message: `Invalid searchPath for resource "${config.name}"\n\nPath not found: "${repoSubPath}"\nCrawled pages: ${localPath}`,
+			hint: `Search paths are relative to the crawl root URL. To see the crawled folders, run:\n  ls ${localPath}`
+		});
+	}
+};
+
+/**
+ * Rebuild the grep index when the pages changed. Failures are logged and otherwise
+ * ignored - grep falls back to scanning every file.
+ */
+const ensureSearchIndex = async (
+	config: BtcaWebResourceArgs,
+	localPath: string,
+	revision: string
+) => {
+	const indexPath = getSearchIndexPath(config);
+	const result = await Result.tryPromise(async () => {
+		if ((await TrigramIndex.readCommit(indexPath)) === revision) return;
+		const index = await TrigramIndex.build(localPath, revision);
+		await TrigramIndex.write(indexPath, index);
+		Metrics.info('resource.web.index', {
+			name: config.name,
+			revision,
+			files: index.files.size,
+			trigrams: index.trigrams.size
+		});
+	});
+	result.match({
+		ok: () => undefined,
+		err: (cause) =>
+			Metrics.error('resource.web.index.error', {
+				name: config.name,
+				error: Metrics.errorInfo(cause)
+			})
+	});
+};
+
+const loadResource = async (
+	config: BtcaWebResourceArgs,
+	strict: boolean
+): Promise<BtcaFsResource> => {
+	const manifest = await ensureWebResource(config, strict);
+	const localPath = getLocalPath(config);
+
+	await ensureSearchPathsExist(localPath, config);
+	await ensureSearchIndex(config, localPath, manifest.revision);
+
+	return {
+		_tag: 'fs-based',
+		name: config.name,
+		fsName: resourceNameToKey(config.name),
+		type: 'web',
+		repoSubPaths: config.repoSubPaths,
+		specialAgentInstructions: config.specialAgentInstructions,
+		searchIndexPath: getSearchIndexPath(config),
+		revision: manifest.revision,
+		version: `${manifest.pages} pages crawled ${manifest.crawledAt.slice(0, 10)}`,
+		getAbsoluteDirectoryPath: async () => localPath
+	};
+};
+
+export const loadWebResource = (config: BtcaWebResourceArgs) => loadResource(config, false);
+
+/**
+ * Crawl the site now, regardless of the refresh policy.
+ */
+export const refreshWebResource = async (config: BtcaWebResourceArgs) => {
+	const installed = (await pathExists(getLocalPath(config))) ? await readManifest(config) : null;
+	const resource = await loadResource({ ...config, refresh: 'always' }, true);
+	return { previous: installed?.revision ?? null, current: resource.revision ?? null };
+};
+
+/**
+ * Check the crawled pages without crawling: that they were crawled with the configured
+ * URL and limits and that the search paths exist.
+ */
+export const checkWebResourceHealth = async (
+	config: BtcaWebResourceArgs
+): Promise<ResourceHealth> => {
+	const localPath = getLocalPath(config);
+	const crawled = await pathExists(localPath);
+	const manifest = crawled ? await readManifest(config) : null;
+	const issues: ResourceHealthIssue[] = [];
+
+	if (!crawled) {
+		issues.push({
+			level: config.offline ? 'error' : 'warning',
+			message: 'Not downloaded yet',
+			hint: `The site is crawled the first time it is used. Run "btca update ${config.name}" to crawl it now.`
+		});
+	} else {
+		if (!manifest) {
+			issues.push({
+				level: 'warning',
+				message: 'Crawled with a different URL, maxPages, or maxDepth than the config',
+				hint: `Run "btca update ${config.name}" to crawl the site again.`
+			});
+		}
+		issues.push(
+			...(await checkSearchPaths(config.repoSubPaths, (searchPath) =>
+				ensureSearchPathsExist(localPath, { ...config, repoSubPaths: [searchPath] })
+			))
+		);
+	}
+
+	return createHealthReport({
+		name: config.name,
+		type: 'web',
+		path: localPath,
+		downloaded: crawled,
+		expected: config.url,
+		current: manifest?.revision ?? null,
+		sizeBytes: crawled ? await getDirectorySize(localPath) : null,
+		lastFetchedAt: manifest?.crawledAt ?? null,
+		issues
+	});
+};
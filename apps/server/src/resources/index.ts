@@ -1,10 +1,26 @@
 export { ResourceError } from './helpers.ts';
 export { Resources } from './service.ts';
 export {
+	ArchiveResourceSchema,
 	GitResourceSchema,
+	NpmResourceSchema,
+	RefreshPolicySchema,
 	ResourceDefinitionSchema,
+	WebResourceSchema,
+	isArchiveResource,
 	isGitResource,
+	isNpmResource,
+	isWebResource,
+	type ArchiveResource,
 	type GitResource,
-	type ResourceDefinition
+	type NpmResource,
+	type RefreshPolicy,
+	type ResourceDefinition,
+	type WebResource
 } from './schema.ts';
-export { FS_RESOURCE_SYSTEM_NOTE, type BtcaFsResource, type BtcaGitResourceArgs } from './types.ts';
+export {
+	FS_RESOURCE_SYSTEM_NOTE,
+	type BtcaFsResource,
+	type BtcaGitResourceArgs,
+	type ResourceRefreshResult
+} from './types.ts';
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'bun:test';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import { VirtualFs } from '../vfs/virtual-fs.ts';
+import { createPathFilter, getPathFilterKey, readGitignore } from './path-filter.ts';
+import { GitResourceSchema } from './schema.ts';
+
+describe('Path filter', () => {
+	it('excludes names at any depth and anchored paths from the root', () => {
+		const isIgnored = createPathFilter({
+			exclude: ['*.png', 'pnpm-lock.yaml', 'test/fixtures/', 'fixtures-*/', '!keep.png']
+		});
+
+		expect(isIgnored('docs/logo.png', false)).toBe(true);
+		expect(isIgnored('docs/keep.png', false)).toBe(false);
+		expect(isIgnored('packages/app/pnpm-lock.yaml', false)).toBe(true);
+		expect(isIgnored('test/fixtures', true)).toBe(true);
+		expect(isIgnored('packages/test/fixtures', true)).toBe(false);
+		expect(isIgnored('fixtures-big', true)).toBe(true);
+		expect(isIgnored('fixtures-big', false)).toBe(false);
+		expect(isIgnored('.git', true)).toBe(true);
+		expect(isIgnored('docs/submodule/.git', false)).toBe(true);
+		expect(isIgnored('docs/guide.md', false)).toBe(false);
+	});
+
+	it('limits files to include globs but still walks every folder', () => {
+		const isIgnored = createPathFilter({
+			include: ['docs/**', '*.{md,mdx}'],
+			exclude: ['docs/internal/']
+		});
+
+		expect(isIgnored('src', true)).toBe(false);
+		expect(isIgnored('src/index.ts', false)).toBe(true);
+		expect(isIgnored('src/README.md', false)).toBe(false);
+		expect(isIgnored('packages/ui/intro.mdx', false)).toBe(false);
+		expect(isIgnored('docs/api/client.ts', false)).toBe(false);
+		expect(isIgnored('docs/internal', true)).toBe(true);
+	});
+
+	it('honors .gitignore when importing a folder', async () => {
+		const root = await fs.mkdtemp(path.join(os.tmpdir(), 'btca-path-filter-test-'));
+		const vfsId = VirtualFs.create();
+		try {
+			await fs.mkdir(path.join(root, 'node_modules/pkg'), { recursive: true });
+			await fs.mkdir(path.join(root, 'docs'), { recursive: true });
+			await fs.writeFile(path.join(root, '.gitignore'), '# deps\nnode_modules/\n*.log\n');
+			await fs.writeFile(path.join(root, 'node_modules/pkg/index.js'), 'ignored');
+			await fs.writeFile(path.join(root, 'debug.log'), 'ignored');
+			await fs.writeFile(path.join(root, 'docs/guide.md'), '# Guide');
+			await fs.writeFile(path.join(root, 'docs/draft.md'), '# Draft');
+
+			const imported = await VirtualFs.importDirectoryFromDisk({
+				sourcePath: root,
+				destinationPath: '/local',
+				vfsId,
+				ignore: createPathFilter({
+					exclude: ['draft.md'],
+					gitignore: await readGitignore(root)
+				})
+			});
+
+			expect(imported.files).toBe(2);
+			expect((await VirtualFs.listFilesRecursive('/local', vfsId)).sort()).toEqual([
+				'/local/.gitignore',
+				'/local/docs/guide.md'
+			]);
+		} finally {
+			VirtualFs.dispose(vfsId);
+			await fs.rm(root, { recursive: true, force: true });
+		}
+	});
+
+	it('limits a shared clone to the resource search paths', () => {
+		const isIgnored = createPathFilter({ searchPaths: ['apps/site/'] });
+
+		expect(isIgnored('README.md', false)).toBe(false);
+		expect(isIgnored('apps', true)).toBe(false);
+		expect(isIgnored('apps/package.json', false)).toBe(false);
+		expect(isIgnored('apps/site/docs/intro.md', false)).toBe(false);
+		expect(isIgnored('apps/other', true)).toBe(true);
+		expect(isIgnored('packages', true)).toBe(true);
+		expect(isIgnored('packages/package.json', false)).toBe(true);
+	});
+
+	it('keys cached collections by their filters', () => {
+		expect(getPathFilterKey({})).toBe('');
+		expect(getPathFilterKey({ include: ['docs/**'], exclude: ['*.png'] })).toBe(
+			'{+docs/**;-*.png}'
+		);
+	});
+
+	it('rejects globs that escape the resource', () => {
+		expect(GitResourceSchema.shape.exclude.safeParse(['../secrets']).success).toBe(false);
+		expect(GitResourceSchema.shape.include.safeParse(['docs/**/*.md']).success).toBe(true);
+	});
+});
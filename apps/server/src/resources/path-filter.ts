@@ -0,0 +1,197 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+
+import { Result } from 'better-result';
+
+/**
+ * Decides which files of a resource are imported into the virtual filesystem. `exclude`
+ * patterns and `.gitignore` files share the same syntax: a pattern without a slash matches
+ * a file or folder name at any depth, a pattern with a slash is relative to the resource
+ * root, a trailing slash only matches folders, and `!` re-includes an earlier match.
+ * `include` patterns use the same glob rules and, when present, limit the import to
+ * matching files.
+ */
+export type PathFilter = (relativePath: string, isDirectory: boolean) => boolean;
+
+type Rule = { regex: RegExp; negate: boolean; directoryOnly: boolean };
+
+const toPosix = (relativePath: string) => relativePath.split(path.sep).join('/');
+
+// Also matches the ".git" file at the root of a checked out submodule
+const isGitPath = (relativePath: string) =>
+	relativePath === '.git' ||
+	relativePath.startsWith('.git/') ||
+	relativePath.endsWith('/.git') ||
+	relativePath.includes('/.git/');
+
+/**
+ * Translate one glob into a regular expression over a posix path relative to the root.
+ * Supports `*`, `**`, `?`, `[...]`, and `{a,b}`.
+ */
+const globToRegExpSource = (glob: string) => {
+	let source = '';
+	let braceDepth = 0;
+	for (let i = 0; i < glob.length; i++) {
+		const char = glob[i] ?? '';
+		if (char === '*') {
+			if (glob[i + 1] !== '*') {
+				source += '[^/]*';
+				continue;
+			}
+			i += 1;
+			if (glob[i + 1] === '/') {
+				// "**/" matches zero or more folders
+				source += '(?:.*/)?';
+				i += 1;
+			} else {
+				source += '.*';
+			}
+			continue;
+		}
+		if (char === '?') {
+			source += '[^/]';
+			continue;
+		}
+		if (char === '[') {
+			const end = glob.indexOf(']', i + 2);
+			if (end === -1) {
+				source += '\\[';
+				continue;
+			}
+			const body = glob.slice(i + 1, end).replace(/\\/g, '\\\\');
+			source += `[${body.startsWith('!') ? `^${body.slice(1)}` : body}]`;
+			i = end;
+			continue;
+		}
+		if (char === '{') {
+			braceDepth += 1;
+			source += '(?:';
+			continue;
+		}
+		if (char === '}' && braceDepth > 0) {
+			braceDepth -= 1;
+			source += ')';
+			continue;
+		}
+		if (char === ',' && braceDepth > 0) {
+			source += '|';
+			continue;
+		}
+		if (char === '\\' && i + 1 < glob.length) {
+			i += 1;
+			source += `\\${glob[i]}`;
+			continue;
+		}
+		source += /[.+^$()|\\\]{}]/.test(char) ? `\\${char}` : char;
+	}
+	return source + ')'.repeat(braceDepth);
+};
+
+const compileRule = (pattern: string): Rule | null => {
+	let glob = pattern;
+	const negate = glob.startsWith('!');
+	if (negate) glob = glob.slice(1);
+	const directoryOnly = glob.endsWith('/');
+	glob = glob.replace(/\/+$/, '');
+	if (!glob) return null;
+
+	// Only a slash before the end anchors the pattern; "build/" still matches at any depth
+	const anchored = glob.includes('/');
+	glob = glob.replace(/^\//, '');
+	const prefix = anchored || glob.startsWith('**') ? '' : '(?:.*/)?';
+	return {
+		regex: new RegExp(`^${prefix}${globToRegExpSource(glob)}$`),
+		negate,
+		directoryOnly
+	};
+};
+
+/**
+ * Parse `.gitignore` content into rules. Blank lines and comments are skipped.
+ */
+const parseIgnoreLines = (lines: readonly string[]) =>
+	lines.flatMap((line) => {
+		const trimmed = line.replace(/(?<!\\)\s+$/, '');
+		if (!trimmed || trimmed.startsWith('#')) return [];
+		const rule = compileRule(trimmed.replace(/^\\([#!])/, '$1'));
+		return rule ? [rule] : [];
+	});
+
+/**
+ * Whether a path is inside git's sparse-checkout cone for these folders: the folders,
+ * everything below them, and the files directly inside the root or any parent folder.
+ */
+const isInCone = (relativePath: string, isDirectory: boolean, folders: readonly string[]) => {
+	for (const folder of folders) {
+		if (relativePath === folder || relativePath.startsWith(`${folder}/`)) return true;
+		if (isDirectory && folder.startsWith(`${relativePath}/`)) return true;
+	}
+	if (isDirectory) return false;
+	const parent = path.posix.dirname(relativePath);
+	return parent === '.' || folders.some((folder) => folder.startsWith(`${parent}/`));
+};
+
+/**
+ * Read the `.gitignore` at the root of a folder, if there is one. Nested `.gitignore` files
+ * are not read.
+ */
+export const readGitignore = async (rootPath: string) =>
+	(await Result.tryPromise(() => fs.readFile(path.join(rootPath, '.gitignore'), 'utf8'))).match({
+		ok: (content) => content,
+		err: () => undefined
+	});
+
+/**
+ * Build the filter for a resource. `.git` is always skipped. Returns true for paths that
+ * should not be imported. `searchPaths` limit a git resource to its own folders when its
+ * clone is shared with resources that check out other folders.
+ */
+export const createPathFilter = (args: {
+	include?: readonly string[];
+	exclude?: readonly string[];
+	gitignore?: string;
+	searchPaths?: readonly string[];
+}): PathFilter => {
+	const cone = (args.searchPaths ?? [])
+		.map((folder) => toPosix(folder).replace(/^\.\/|\/+$/g, ''))
+		.filter((folder) => folder.length > 0 && folder !== '.');
+	const ignoreRules = [
+		...parseIgnoreLines(args.gitignore?.split(/\r?\n/) ?? []),
+		...parseIgnoreLines(args.exclude ?? [])
+	];
+	const includeRules = (args.include ?? []).flatMap((pattern) => {
+		const rule = compileRule(pattern);
+		return rule ? [rule] : [];
+	});
+
+	return (relativePath, isDirectory) => {
+		const normalized = toPosix(relativePath);
+		if (isGitPath(normalized)) return true;
+		if (cone.length > 0 && !isInCone(normalized, isDirectory, cone)) return true;
+
+		// Last matching rule wins, as in git
+		let ignored = false;
+		for (const rule of ignoreRules) {
+			if (rule.directoryOnly && !isDirectory) continue;
+			if (rule.regex.test(normalized)) ignored = !rule.negate;
+		}
+		if (ignored) return true;
+
+		// Folders are always walked so include patterns can match the files inside them
+		if (isDirectory || includeRules.length === 0) return false;
+		return !includeRules.some((rule) => !rule.negate && rule.regex.test(normalized));
+	};
+};
+
+/**
+ * Stable description of a resource's filters, used to key cached collections.
+ */
+export const getPathFilterKey = (args: {
+	include?: readonly string[];
+	exclude?: readonly string[];
+}) => {
+	const include = args.include ?? [];
+	const exclude = args.exclude ?? [];
+	if (include.length === 0 && exclude.length === 0) return '';
+	return `{+${include.join(',')};-${exclude.join(',')}}`;
+};
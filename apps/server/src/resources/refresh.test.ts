@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'bun:test';
+
+import { isRefreshDue, parseDurationMs } from './refresh.ts';
+import { RefreshPolicySchema } from './schema.ts';
+
+describe('Refresh policy', () => {
+	it('parses interval durations', () => {
+		expect(parseDurationMs('30s')).toBe(30_000);
+		expect(parseDurationMs('15m')).toBe(15 * 60_000);
+		expect(parseDurationMs('6h')).toBe(6 * 3_600_000);
+		expect(parseDurationMs('7d')).toBe(7 * 86_400_000);
+		expect(parseDurationMs('6 hours')).toBeNull();
+	});
+
+	it('validates policies', () => {
+		expect(RefreshPolicySchema.safeParse('always').success).toBe(true);
+		expect(RefreshPolicySchema.safeParse('manual').success).toBe(true);
+		expect(RefreshPolicySchema.safeParse({ interval: '12h' }).success).toBe(true);
+		expect(RefreshPolicySchema.safeParse({ interval: '0h' }).success).toBe(false);
+		expect(RefreshPolicySchema.safeParse({ interval: 'daily' }).success).toBe(false);
+		expect(RefreshPolicySchema.safeParse('never').success).toBe(false);
+	});
+
+	it('decides when an existing copy is due for a refresh', () => {
+		const now = Date.parse('2026-01-01T12:00:00Z');
+		const hourAgo = now - 3_600_000;
+
+		expect(isRefreshDue('always', now, now)).toBe(true);
+		expect(isRefreshDue('manual', null, now)).toBe(false);
+		expect(isRefreshDue({ interval: '2h' }, hourAgo, now)).toBe(false);
+		expect(isRefreshDue({ interval: '30m' }, hourAgo, now)).toBe(true);
+		// Copies with no recorded refresh are fetched once to start the clock
+		expect(isRefreshDue({ interval: '2h' }, null, now)).toBe(true);
+	});
+});
@@ -0,0 +1,74 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+
+import { Result } from 'better-result';
+
+import { resourceNameToKey } from './helpers.ts';
+import { DURATION_REGEX, type RefreshPolicy } from './schema.ts';
+
+const DURATION_UNIT_MS = {
+	s: 1000,
+	m: 60 * 1000,
+	h: 60 * 60 * 1000,
+	d: 24 * 60 * 60 * 1000
+} as const;
+
+/**
+ * Written next to a downloaded resource each time it is fetched from its remote.
+ */
+type RefreshState = {
+	refreshedAt: string;
+};
+
+const getRefreshStatePath = (resourcesDirectoryPath: string, name: string) =>
+	path.join(resourcesDirectoryPath, `${resourceNameToKey(name)}.refresh.json`);
+
+export const parseDurationMs = (duration: string): number | null => {
+	const match = DURATION_REGEX.exec(duration);
+	if (!match) return null;
+	const unit = match[2] as keyof typeof DURATION_UNIT_MS;
+	return parseInt(match[1] ?? '0', 10) * DURATION_UNIT_MS[unit];
+};
+
+export const describeRefreshPolicy = (policy: RefreshPolicy) =>
+	typeof policy === 'string' ? policy : `interval:${policy.interval}`;
+
+/**
+ * When the resource was last fetched from its remote, or null if that is unknown.
+ */
+export const readLastRefresh = async (resourcesDirectoryPath: string, name: string) => {
+	const result = await Result.tryPromise(async () => {
+		const content = await fs.readFile(getRefreshStatePath(resourcesDirectoryPath, name), 'utf8');
+		const state = JSON.parse(content) as RefreshState;
+		const time = Date.parse(state.refreshedAt);
+		return Number.isNaN(time) ? null : time;
+	});
+	return result.match({
+		ok: (time) => time,
+		err: () => null
+	});
+};
+
+export const markRefreshed = async (resourcesDirectoryPath: string, name: string) => {
+	const state: RefreshState = { refreshedAt: new Date().toISOString() };
+	await fs.mkdir(resourcesDirectoryPath, { recursive: true });
+	await fs.writeFile(
+		getRefreshStatePath(resourcesDirectoryPath, name),
+		JSON.stringify(state, null, 2)
+	);
+};
+
+/**
+ * Whether a resource that is already on disk should be fetched again before use.
+ */
+export const isRefreshDue = (
+	policy: RefreshPolicy,
+	lastRefreshedAt: number | null,
+	now = Date.now()
+) => {
+	if (policy === 'always') return true;
+	if (policy === 'manual') return false;
+	const intervalMs = parseDurationMs(policy.interval);
+	if (lastRefreshedAt === null || intervalMs === null) return true;
+	return now - lastRefreshedAt >= intervalMs;
+};
@@ -1,6 +1,7 @@
 import { Result } from 'better-result';
 import { z } from 'zod';
 
+import { AgentProfileNameSchema } from '../agent/profiles.ts';
 import { LIMITS } from '../validation/index.ts';
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -19,12 +20,78 @@ const RESOURCE_NAME_REGEX = /^@?[a-zA-Z0-9][a-zA-Z0-9._-]*(\/[a-zA-Z0-9][a-zA-Z0
  */
 const BRANCH_NAME_REGEX = /^[a-zA-Z0-9/_.-]+$/;
 
+/**
+ * npm package name: optional @scope/ prefix, lowercase URL-safe characters.
+ */
+const NPM_PACKAGE_NAME_REGEX = /^(@[a-z0-9-~][a-z0-9-._~]*\/)?[a-z0-9-~][a-z0-9-._~]*$/;
+
+/**
+ * npm version selector: an exact version, a semver range, or a dist-tag such as "latest".
+ */
+const NPM_VERSION_REGEX = /^[a-zA-Z0-9.^~<>=|*+ -]+$/;
+
+/**
+ * Named credential for private git repositories: letters, numbers, dots, underscores, and
+ * hyphens, starting with a letter or number.
+ */
+const CREDENTIAL_NAME_REGEX = /^[a-zA-Z0-9][a-zA-Z0-9._-]*$/;
+
+/**
+ * SCP-style SSH git URL, e.g. "git@github.com:acme/docs.git". The user, host, and path
+ * must not start with "-" so none of them can be read as an ssh option.
+ */
+const SCP_GIT_URL_REGEX =
+	/^([a-zA-Z0-9._][a-zA-Z0-9._-]*)@([a-zA-Z0-9.][a-zA-Z0-9.-]*):([a-zA-Z0-9._~][a-zA-Z0-9._~/-]*)$/;
+
+/**
+ * Refresh interval: a whole number followed by a unit, e.g. "30m", "6h", or "7d".
+ */
+export const DURATION_REGEX = /^(\d+)(s|m|h|d)$/;
+
+/**
+ * Archive formats btca can extract, matched on the file name or URL path.
+ */
+export const ARCHIVE_EXTENSION_REGEX = /\.(zip|tar\.gz|tgz)$/i;
+
+const isAbsoluteLocalPath = (value: string) => value.startsWith('/') || /^[a-zA-Z]:\\/.test(value);
+
 const parseUrl = (value: string) =>
 	Result.try(() => new URL(value)).match({
 		ok: (url) => url,
 		err: () => null
 	});
 
+/**
+ * Host of an SSH git URL ("ssh://git@host/path" or "git@host:path"), or null if the URL
+ * is not a well-formed SSH URL.
+ */
+const getSshGitHost = (url: string) => {
+	const scp = SCP_GIT_URL_REGEX.exec(url);
+	if (scp) return scp[2] ?? null;
+	const parsed = parseUrl(url);
+	if (!parsed || parsed.protocol !== 'ssh:' || parsed.password) return null;
+	if (parsed.hostname.startsWith('-') || parsed.pathname.length <= 1) return null;
+	return parsed.hostname;
+};
+
+export const isSshGitUrl = (url: string) => getSshGitHost(url) !== null;
+
+/**
+ * Hosts btca refuses to fetch from, so a config cannot be used to probe the local network.
+ */
+export const isPrivateHostname = (hostname: string) => {
+	const host = hostname.toLowerCase().replace(/^\[|\]$/g, '');
+	return Boolean(
+		host === 'localhost' ||
+		host.startsWith('127.') ||
+		host.startsWith('192.168.') ||
+		host.startsWith('10.') ||
+		host.match(/^172\.(1[6-9]|2[0-9]|3[0-1])\./) ||
+		host === '::1' ||
+		host === '0.0.0.0'
+	);
+};
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Field Schemas
 // ─────────────────────────────────────────────────────────────────────────────
@@ -52,44 +119,122 @@ const ResourceNameSchema = z
 
 /**
  * Git URL field with security validation.
- * Only allows HTTPS URLs, no credentials, no private IPs.
+ * Allows HTTPS URLs without credentials, and SSH URLs (which only clone when
+ * "allowSshGitUrls" is enabled). No private IPs either way.
  */
 const GitUrlSchema = z
 	.string()
 	.min(1, 'Git URL cannot be empty')
 	.refine(
 		(url) => {
+			if (isSshGitUrl(url)) return true;
 			const parsed = parseUrl(url);
 			return parsed ? parsed.protocol === 'https:' : false;
 		},
-		{ message: 'Git URL must be a valid HTTPS URL' }
+		{ message: 'Git URL must be a valid HTTPS URL (or an SSH URL when allowSshGitUrls is enabled)' }
 	)
 	.refine(
 		(url) => {
+			if (isSshGitUrl(url)) return true;
 			const parsed = parseUrl(url);
 			if (!parsed) return true;
 			return !parsed.username && !parsed.password;
 		},
-		{ message: 'Git URL must not contain embedded credentials' }
+		{
+			message:
+				'Git URL must not contain embedded credentials. Use "auth" with a named credential instead'
+		}
+	)
+	.refine(
+		(url) => {
+			const hostname = getSshGitHost(url) ?? parseUrl(url)?.hostname;
+			if (!hostname) return true;
+			return !isPrivateHostname(hostname);
+		},
+		{ message: 'Git URL must not point to localhost or private IP addresses' }
+	);
+
+/**
+ * Name of a credential in the OpenCode auth store or a BTCA_GIT_AUTH_<NAME> environment
+ * variable. Only the name is stored in config, never the secret.
+ */
+const CredentialNameSchema = z
+	.string()
+	.min(1, 'Credential name cannot be empty')
+	.max(LIMITS.RESOURCE_NAME_MAX, `Credential name too long (max ${LIMITS.RESOURCE_NAME_MAX} chars)`)
+	.regex(
+		CREDENTIAL_NAME_REGEX,
+		'Credential name must start with a letter or number and contain only letters, numbers, ., _, and -'
+	);
+
+/**
+ * Documentation site URL for web resources. Same rules as git URLs: HTTPS only,
+ * no credentials, no private IPs.
+ */
+export const WebUrlSchema = z
+	.string()
+	.min(1, 'Website URL cannot be empty')
+	.refine(
+		(url) => {
+			const parsed = parseUrl(url);
+			return parsed ? parsed.protocol === 'https:' : false;
+		},
+		{ message: 'Website URL must be a valid HTTPS URL' }
 	)
 	.refine(
 		(url) => {
 			const parsed = parseUrl(url);
 			if (!parsed) return true;
-			const hostname = parsed.hostname.toLowerCase();
-			return !(
-				hostname === 'localhost' ||
-				hostname.startsWith('127.') ||
-				hostname.startsWith('192.168.') ||
-				hostname.startsWith('10.') ||
-				hostname.match(/^172\.(1[6-9]|2[0-9]|3[0-1])\./) ||
-				hostname === '::1' ||
-				hostname === '0.0.0.0'
-			);
+			return !parsed.username && !parsed.password;
 		},
-		{ message: 'Git URL must not point to localhost or private IP addresses' }
+		{ message: 'Website URL must not contain embedded credentials' }
+	)
+	.refine(
+		(url) => {
+			const parsed = parseUrl(url);
+			if (!parsed) return true;
+			return !isPrivateHostname(parsed.hostname);
+		},
+		{ message: 'Website URL must not point to localhost or private IP addresses' }
 	);
 
+/**
+ * npm registry URL field. Plain HTTP is allowed for private mirrors; credentials are not.
+ */
+const NpmRegistryUrlSchema = z
+	.string()
+	.min(1, 'Registry URL cannot be empty')
+	.refine(
+		(url) => {
+			const parsed = parseUrl(url);
+			return parsed ? parsed.protocol === 'https:' || parsed.protocol === 'http:' : false;
+		},
+		{ message: 'Registry URL must be a valid HTTP(S) URL' }
+	)
+	.refine(
+		(url) => {
+			const parsed = parseUrl(url);
+			if (!parsed) return true;
+			return !parsed.username && !parsed.password;
+		},
+		{ message: 'Registry URL must not contain embedded credentials' }
+	);
+
+const NpmPackageNameSchema = z
+	.string()
+	.min(1, 'Package name cannot be empty')
+	.max(214, 'Package name too long (max 214 chars)')
+	.regex(NPM_PACKAGE_NAME_REGEX, 'Invalid npm package name');
+
+const NpmVersionSchema = z
+	.string()
+	.min(1, 'Version cannot be empty')
+	.max(LIMITS.BRANCH_NAME_MAX, `Version too long (max ${LIMITS.BRANCH_NAME_MAX} chars)`)
+	.regex(NPM_VERSION_REGEX, 'Version must be a semver version, range, or dist-tag')
+	.refine((version) => !version.startsWith('-'), {
+		message: "Version must not start with '-'"
+	});
+
 /**
  * Branch name field with security validation.
  */
@@ -121,6 +266,75 @@ const SearchPathSchema = z
 		message: 'Search path must not be an absolute path'
 	});
 
+/**
+ * Git ref field (tag name or commit SHA) with the same rules as branch names.
+ */
+const GitRefSchema = z
+	.string()
+	.min(1, 'Ref cannot be empty')
+	.max(LIMITS.BRANCH_NAME_MAX, `Ref too long (max ${LIMITS.BRANCH_NAME_MAX} chars)`)
+	.regex(
+		BRANCH_NAME_REGEX,
+		'Ref must contain only alphanumeric characters, forward slashes, dots, underscores, and hyphens'
+	)
+	.refine((ref) => !ref.startsWith('-'), {
+		message: "Ref must not start with '-' to prevent git option injection"
+	});
+
+/**
+ * How often a downloaded resource is refreshed from its remote: before every question
+ * ("always"), at most once per interval, or only on request ("manual").
+ */
+export const RefreshPolicySchema = z.union([
+	z.literal('always'),
+	z.literal('manual'),
+	z
+		.object({
+			interval: z
+				.string()
+				.regex(DURATION_REGEX, 'Refresh interval must look like "30m", "6h", or "7d"')
+				.refine((value) => parseInt(value, 10) > 0, {
+					message: 'Refresh interval must be greater than zero'
+				})
+		})
+		.strict()
+]);
+
+/**
+ * Path of an entry inside an archive. Uses the same traversal rules as search paths so
+ * extraction can never write outside the resource folder.
+ */
+export const ArchiveEntryPathSchema = z
+	.string()
+	.refine((entry) => !entry.includes('\n') && !entry.includes('\r') && !entry.includes('\0'), {
+		message: 'Archive entry must not contain newline or null characters'
+	})
+	.refine((entry) => !entry.split(/[/\\]/).includes('..'), {
+		message: 'Archive entry must not contain path traversal sequences (..)'
+	})
+	.refine((entry) => !isAbsoluteLocalPath(entry) && !entry.startsWith('\\'), {
+		message: 'Archive entry must not be an absolute path'
+	});
+
+/**
+ * Include/exclude glob, relative to the resource root (e.g. "*.md", "docs/**", "test/fixtures/").
+ */
+const PathGlobSchema = z
+	.string()
+	.min(1, 'Glob pattern cannot be empty')
+	.max(LIMITS.SEARCH_PATH_MAX, `Glob pattern too long (max ${LIMITS.SEARCH_PATH_MAX} chars)`)
+	.refine((glob) => !glob.includes('\n') && !glob.includes('\r') && !glob.includes('\0'), {
+		message: 'Glob pattern must not contain newline or null characters'
+	})
+	.refine((glob) => !glob.split('/').includes('..'), {
+		message: 'Glob pattern must not contain path traversal sequences (..)'
+	});
+
+const PathGlobsSchema = z
+	.array(PathGlobSchema)
+	.max(LIMITS.PATH_GLOBS_MAX, `Too many glob patterns (max ${LIMITS.PATH_GLOBS_MAX})`)
+	.optional();
+
 const OptionalSearchPathSchema = SearchPathSchema.optional();
 
 const SearchPathsSchema = z
@@ -141,6 +355,42 @@ const LocalPathSchema = z
 		message: 'Local path must be an absolute path'
 	});
 
+/**
+ * Archive location: an HTTPS URL or an absolute path to a .zip, .tar.gz, or .tgz file.
+ */
+const ArchiveSourceSchema = z
+	.string()
+	.min(1, 'Archive source cannot be empty')
+	.refine((source) => !source.includes('\0'), {
+		message: 'Archive source must not contain null bytes'
+	})
+	.refine((source) => isAbsoluteLocalPath(source) || parseUrl(source)?.protocol === 'https:', {
+		message: 'Archive source must be an HTTPS URL or an absolute file path'
+	})
+	.refine(
+		(source) => {
+			if (isAbsoluteLocalPath(source)) return true;
+			const parsed = parseUrl(source);
+			return !parsed || (!parsed.username && !parsed.password);
+		},
+		{ message: 'Archive URL must not contain embedded credentials' }
+	)
+	.refine(
+		(source) => {
+			if (isAbsoluteLocalPath(source)) return true;
+			const parsed = parseUrl(source);
+			return !parsed || !isPrivateHostname(parsed.hostname);
+		},
+		{ message: 'Archive URL must not point to localhost or private IP addresses' }
+	)
+	.refine(
+		(source) =>
+			ARCHIVE_EXTENSION_REGEX.test(
+				isAbsoluteLocalPath(source) ? source : (parseUrl(source)?.pathname ?? source)
+			),
+		{ message: 'Archive must be a .zip, .tar.gz, or .tgz file' }
+	);
+
 /**
  * Special notes field with length and content validation.
  */
@@ -163,29 +413,115 @@ export const GitResourceSchema = z.object({
 	name: ResourceNameSchema,
 	url: GitUrlSchema,
 	branch: BranchNameSchema,
+	// Tag or full commit SHA to pin to instead of following the branch tip
+	ref: GitRefSchema.optional(),
+	// Named credential used to clone private HTTPS repositories
+	auth: CredentialNameSchema.optional(),
+	// Overrides the global refresh policy for this resource
+	refresh: RefreshPolicySchema.optional(),
 	searchPath: OptionalSearchPathSchema,
 	searchPaths: SearchPathsSchema,
-	specialNotes: SpecialNotesSchema
+	// Only import files matching these globs, and skip files matching the exclude globs
+	include: PathGlobsSchema,
+	exclude: PathGlobsSchema,
+	// Check out submodules and download Git LFS files, which are skipped by default
+	submodules: z.boolean().optional(),
+	lfs: z.boolean().optional(),
+	specialNotes: SpecialNotesSchema,
+	// Agent profile preset used for questions about this resource
+	profile: AgentProfileNameSchema.optional()
 });
 
 export const LocalResourceSchema = z.object({
 	type: z.literal('local'),
 	name: ResourceNameSchema,
 	path: LocalPathSchema,
-	specialNotes: SpecialNotesSchema
+	// Applied on top of the folder's .gitignore
+	include: PathGlobsSchema,
+	exclude: PathGlobsSchema,
+	specialNotes: SpecialNotesSchema,
+	profile: AgentProfileNameSchema.optional()
+});
+
+export const NpmResourceSchema = z.object({
+	type: z.literal('npm'),
+	name: ResourceNameSchema,
+	package: NpmPackageNameSchema,
+	version: NpmVersionSchema,
+	// Registry to download from (default: https://registry.npmjs.org)
+	registry: NpmRegistryUrlSchema.optional(),
+	// Local .tgz file, or a directory of `npm pack` tarballs, used instead of the registry
+	tarball: LocalPathSchema.optional(),
+	// Overrides the global refresh policy for this resource
+	refresh: RefreshPolicySchema.optional(),
+	searchPaths: SearchPathsSchema,
+	specialNotes: SpecialNotesSchema,
+	profile: AgentProfileNameSchema.optional()
+});
+
+export const ArchiveResourceSchema = z.object({
+	type: z.literal('archive'),
+	name: ResourceNameSchema,
+	// HTTPS URL or absolute path of a .zip, .tar.gz, or .tgz file
+	source: ArchiveSourceSchema,
+	// Overrides the global refresh policy for this resource (remote archives only)
+	refresh: RefreshPolicySchema.optional(),
+	searchPaths: SearchPathsSchema,
+	specialNotes: SpecialNotesSchema,
+	profile: AgentProfileNameSchema.optional()
+});
+
+export const WebResourceSchema = z.object({
+	type: z.literal('web'),
+	name: ResourceNameSchema,
+	// Root page or llms.txt index; only pages under its directory are crawled
+	url: WebUrlSchema,
+	maxPages: z
+		.number()
+		.int()
+		.min(1, 'maxPages must be at least 1')
+		.max(LIMITS.WEB_MAX_PAGES, `maxPages must be at most ${LIMITS.WEB_MAX_PAGES}`)
+		.optional(),
+	maxDepth: z
+		.number()
+		.int()
+		.min(0, 'maxDepth must not be negative')
+		.max(LIMITS.WEB_MAX_DEPTH, `maxDepth must be at most ${LIMITS.WEB_MAX_DEPTH}`)
+		.optional(),
+	// Overrides the global refresh policy for this resource
+	refresh: RefreshPolicySchema.optional(),
+	searchPaths: SearchPathsSchema,
+	specialNotes: SpecialNotesSchema,
+	profile: AgentProfileNameSchema.optional()
 });
 
 export const ResourceDefinitionSchema = z.discriminatedUnion('type', [
 	GitResourceSchema,
-	LocalResourceSchema
+	LocalResourceSchema,
+	NpmResourceSchema,
+	ArchiveResourceSchema,
+	WebResourceSchema
 ]);
 
 export type GitResource = z.infer<typeof GitResourceSchema>;
 export type LocalResource = z.infer<typeof LocalResourceSchema>;
+export type NpmResource = z.infer<typeof NpmResourceSchema>;
+export type ArchiveResource = z.infer<typeof ArchiveResourceSchema>;
+export type WebResource = z.infer<typeof WebResourceSchema>;
 export type ResourceDefinition = z.infer<typeof ResourceDefinitionSchema>;
+export type RefreshPolicy = z.infer<typeof RefreshPolicySchema>;
 
 export const isGitResource = (value: ResourceDefinition): value is GitResource =>
 	value.type === 'git';
 
 export const isLocalResource = (value: ResourceDefinition): value is LocalResource =>
 	value.type === 'local';
+
+export const isNpmResource = (value: ResourceDefinition): value is NpmResource =>
+	value.type === 'npm';
+
+export const isArchiveResource = (value: ResourceDefinition): value is ArchiveResource =>
+	value.type === 'archive';
+
+export const isWebResource = (value: ResourceDefinition): value is WebResource =>
+	value.type === 'web';
@@ -0,0 +1,152 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import type { Config } from '../config/index.ts';
+import { GIT_CLONES_DIRECTORY, getGitCloneKey, withCloneLock } from './impls/git.ts';
+import type { ResourceDefinition } from './schema.ts';
+import { Resources } from './service.ts';
+
+describe('Resources.clear', () => {
+	let resourcesDirectory: string;
+
+	const svelte: ResourceDefinition = {
+		type: 'git',
+		name: 'svelte',
+		url: 'https://github.com/sveltejs/svelte.dev',
+		branch: 'main',
+		searchPaths: ['apps/svelte.dev']
+	};
+	const kit: ResourceDefinition = { ...svelte, name: 'svelteKit', searchPaths: ['packages/kit'] };
+
+	const createService = (resources: ResourceDefinition[]) =>
+		Resources.create({
+			resources,
+			getResource: (name: string) => resources.find((resource) => resource.name === name),
+			resourcesDirectory,
+			refresh: 'always',
+			allowSshGitUrls: false
+		} as unknown as Config.Service);
+
+	beforeEach(async () => {
+		resourcesDirectory = await fs.mkdtemp(path.join(os.tmpdir(), 'btca-resources-test-'));
+	});
+
+	afterEach(async () => {
+		await fs.rm(resourcesDirectory, { recursive: true, force: true });
+	});
+
+	it('keeps shared clones that are still configured and removes the rest', async () => {
+		const cloneKey = getGitCloneKey(svelte);
+		const clonesDirectory = path.join(resourcesDirectory, GIT_CLONES_DIRECTORY);
+		await fs.mkdir(path.join(clonesDirectory, cloneKey), { recursive: true });
+		await fs.writeFile(path.join(clonesDirectory, `${cloneKey}.trigrams`), '');
+		await fs.mkdir(path.join(clonesDirectory, 'removed-0123456789ab'), { recursive: true });
+		await fs.mkdir(path.join(resourcesDirectory, 'oldPackage'), { recursive: true });
+		await fs.writeFile(path.join(resourcesDirectory, 'oldPackage.npm.json'), '{}');
+
+		const { cleared } = await createService([svelte, kit]).clear();
+
+		expect(cleared).toBe(2);
+		expect((await fs.readdir(clonesDirectory)).sort()).toEqual([cloneKey, `${cloneKey}.trigrams`]);
+		expect(await fs.readdir(resourcesDirectory)).toEqual([GIT_CLONES_DIRECTORY]);
+	});
+
+	it('removes everything with all', async () => {
+		await fs.mkdir(path.join(resourcesDirectory, GIT_CLONES_DIRECTORY, getGitCloneKey(svelte)), {
+			recursive: true
+		});
+
+		const { cleared } = await createService([svelte]).clear({ all: true });
+
+		expect(cleared).toBe(1);
+		expect(await fs.readdir(resourcesDirectory)).toEqual([]);
+	});
+
+	it('leaves the staging folders and downloads of running installs', async () => {
+		const id = crypto.randomUUID();
+		const temporary = [
+			`oldPackage.staging-${id}`,
+			`oldPackage.staging-${id}.tgz`,
+			`docs.download-${id}`
+		];
+		for (const entry of temporary) await fs.mkdir(path.join(resourcesDirectory, entry));
+		await fs.mkdir(path.join(resourcesDirectory, 'oldPackage'));
+
+		const { cleared } = await createService([svelte]).clear();
+
+		expect(cleared).toBe(1);
+		expect((await fs.readdir(resourcesDirectory)).sort()).toEqual(temporary.sort());
+	});
+
+	it('waits for loads holding a clone before removing it', async () => {
+		const clonePath = path.join(resourcesDirectory, GIT_CLONES_DIRECTORY, getGitCloneKey(svelte));
+		await fs.mkdir(clonePath, { recursive: true });
+
+		let finishLoad = () => {};
+		const load = withCloneLock(
+			clonePath,
+			() => new Promise<void>((resolve) => (finishLoad = resolve))
+		);
+		const clearing = createService([svelte]).clear({ all: true });
+		await Bun.sleep(10);
+		expect(await fs.readdir(clonePath)).toEqual([]);
+
+		finishLoad();
+		await load;
+		expect((await clearing).cleared).toBe(1);
+		expect(await fs.readdir(resourcesDirectory)).toEqual([]);
+	});
+
+	it('reports resource health without fetching', async () => {
+		const clonePath = path.join(resourcesDirectory, GIT_CLONES_DIRECTORY, getGitCloneKey(svelte));
+		await fs.mkdir(path.join(clonePath, 'apps/svelte.dev'), { recursive: true });
+		await fs.writeFile(path.join(clonePath, 'apps/svelte.dev/README.md'), '# Svelte');
+		const git = (...args: string[]) =>
+			Bun.spawnSync(['git', '-c', 'user.name=btca', '-c', 'user.email=btca@test', ...args], {
+				cwd: clonePath
+			});
+		git('init', '-q', '-b', 'main');
+		git('add', '.');
+		git('commit', '-q', '-m', 'docs');
+		git('update-ref', 'refs/remotes/origin/main', 'HEAD');
+
+		const reports = await createService([
+			svelte,
+			{ ...kit, searchPaths: ['apps/svelte.dev', 'packages/kit'] },
+			{ type: 'local', name: 'gone', path: path.join(resourcesDirectory, 'missing') }
+		]).health({ remote: false });
+
+		expect(reports.map((report) => [report.name, report.status])).toEqual([
+			['svelte', 'ok'],
+			['svelteKit', 'error'],
+			['gone', 'error']
+		]);
+		expect(reports[0]?.downloaded).toBe(true);
+		expect(reports[0]?.current).toMatch(/^[0-9a-f]{40}$/);
+		expect(reports[0]?.sizeBytes).toBeGreaterThan(0);
+		expect(reports[1]?.issues[0]?.message).toContain('Path not found: "packages/kit"');
+		expect(reports[1]?.issues[0]?.hint).toContain('ls ');
+		expect(reports[2]?.issues[0]?.message).toContain('Folder not found');
+	});
+
+	it('resolves revisions under the refresh policy without fetching a manual resource', async () => {
+		const manual: ResourceDefinition = { ...svelte, refresh: 'manual' };
+		const clonePath = path.join(resourcesDirectory, GIT_CLONES_DIRECTORY, getGitCloneKey(manual));
+		await fs.mkdir(path.join(clonePath, 'apps/svelte.dev'), { recursive: true });
+		await fs.writeFile(path.join(clonePath, 'apps/svelte.dev/README.md'), '# Svelte');
+		const git = (...args: string[]) =>
+			Bun.spawnSync(['git', '-c', 'user.name=btca', '-c', 'user.email=btca@test', ...args], {
+				cwd: clonePath
+			});
+		git('init', '-q', '-b', 'main');
+		git('add', '.');
+		git('commit', '-q', '-m', 'docs');
+
+		const result = await createService([manual]).refresh('svelte', { quiet: true, policy: true });
+
+		expect(result.current).toMatch(/^[0-9a-f]{40}$/);
+		expect(result).toMatchObject({ previous: result.current, updated: false });
+	});
+});
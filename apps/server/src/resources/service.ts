@@ -1,14 +1,61 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+
+import { Result } from 'better-result';
+
 import { Config } from '../config/index.ts';
+import { Metrics } from '../metrics/index.ts';
 
 import { ResourceError, resourceNameToKey } from './helpers.ts';
-import { loadGitResource } from './impls/git.ts';
+import { createHealthReport } from './health.ts';
+import {
+	checkArchiveResourceHealth,
+	loadArchiveResource,
+	refreshArchiveResource
+} from './impls/archive.ts';
+import {
+	GIT_CLONES_DIRECTORY,
+	checkGitResourceHealth,
+	getGitCloneKey,
+	loadGitResource,
+	refreshGitResource,
+	withCloneLock
+} from './impls/git.ts';
 import {
+	DEFAULT_NPM_REGISTRY,
+	checkNpmResourceHealth,
+	loadNpmResource,
+	refreshNpmResource
+} from './impls/npm.ts';
+import {
+	DEFAULT_WEB_MAX_DEPTH,
+	DEFAULT_WEB_MAX_PAGES,
+	DEFAULT_WEB_REFRESH,
+	checkWebResourceHealth,
+	loadWebResource,
+	refreshWebResource
+} from './impls/web.ts';
+import {
+	ResourceDefinitionSchema,
 	isGitResource,
+	type ArchiveResource,
 	type ResourceDefinition,
 	type GitResource,
-	type LocalResource
+	type LocalResource,
+	type NpmResource,
+	type RefreshPolicy,
+	type WebResource
 } from './schema.ts';
-import type { BtcaFsResource, BtcaGitResourceArgs, BtcaLocalResourceArgs } from './types.ts';
+import type {
+	BtcaArchiveResourceArgs,
+	BtcaFsResource,
+	BtcaGitResourceArgs,
+	BtcaLocalResourceArgs,
+	BtcaNpmResourceArgs,
+	BtcaWebResourceArgs,
+	ResourceHealth,
+	ResourceRefreshResult
+} from './types.ts';
 
 export namespace Resources {
 	export type Service = {
@@ -18,6 +65,51 @@ export namespace Resources {
 				quiet?: boolean;
 			}
 		) => Promise<BtcaFsResource>;
+		/**
+		 * Fetch a resource from its remote now, ignoring its refresh policy. With `policy`,
+		 * only fetch when the policy says it is due, the way loading it for a question would.
+		 */
+		refresh: (
+			name: string,
+			options?: {
+				quiet?: boolean;
+				policy?: boolean;
+			}
+		) => Promise<ResourceRefreshResult>;
+		/**
+		 * Delete downloaded data no configured resource uses anymore, or everything with `all`.
+		 * Returns how many clones, packages, archives, and sites were removed.
+		 */
+		clear: (options?: { all?: boolean }) => Promise<{ cleared: number }>;
+		/**
+		 * Check configured resources on disk without changing them. `remote` also asks git
+		 * remotes whether the branch or tag still exists (skipped while offline).
+		 */
+		health: (options?: { names?: string[]; remote?: boolean }) => Promise<ResourceHealth[]>;
+		offline: boolean;
+	};
+
+	/**
+	 * Files kept next to a resource's folder: manifests, grep indexes, and refresh times.
+	 */
+	const SIDECAR_SUFFIXES = [
+		'.npm.json',
+		'.archive.json',
+		'.web.json',
+		'.trigrams',
+		'.refresh.json'
+	];
+
+	/**
+	 * Folders and downloads of installs still in progress: `<key>.staging-<uuid>`,
+	 * `<key>.staging-<uuid>.tgz`, and `<key>.download-<uuid>`.
+	 */
+	const TEMPORARY_ENTRY = /\.(staging|download)-[0-9a-f-]{36}(\.tgz)?$/;
+
+	type FetchOptions = {
+		refresh: RefreshPolicy;
+		offline: boolean;
+		allowSshGitUrls: boolean;
 	};
 
 	const normalizeSearchPaths = (definition: GitResource): string[] => {
@@ -28,39 +120,190 @@ export namespace Resources {
 		return paths.filter((path) => path.trim().length > 0);
 	};
 
+	/**
+	 * Resources on the same repository and branch or ref share one clone, so its sparse
+	 * checkout has to cover all of them. Any of them without searchPaths needs everything.
+	 */
+	const getCloneSubPaths = (
+		definition: GitResource,
+		resources: readonly ResourceDefinition[]
+	): string[] => {
+		const cloneKey = getGitCloneKey(definition);
+		const sharing = resources.filter(
+			(resource): resource is GitResource =>
+				isGitResource(resource) &&
+				resource.name !== definition.name &&
+				getGitCloneKey(resource) === cloneKey
+		);
+		const subPaths = [definition, ...sharing].map(normalizeSearchPaths);
+		if (subPaths.some((paths) => paths.length === 0)) return [];
+		return [...new Set(subPaths.flat())].sort();
+	};
+
+	/**
+	 * Names in the resources directory (and its clones folder) that configured resources
+	 * still use. Everything else is left over from removed or edited resources.
+	 */
+	const getReferencedEntries = (resources: readonly ResourceDefinition[]) => {
+		const clones = new Set<string>();
+		const entries = new Set<string>();
+		for (const resource of resources) {
+			if (resource.type === 'local') continue;
+			const key = isGitResource(resource)
+				? getGitCloneKey(resource)
+				: resourceNameToKey(resource.name);
+			const target = isGitResource(resource) ? clones : entries;
+			target.add(key);
+			for (const suffix of SIDECAR_SUFFIXES) target.add(`${key}${suffix}`);
+		}
+		return { clones, resources: entries };
+	};
+
 	const definitionToGitArgs = (
 		definition: GitResource,
 		resourcesDirectory: string,
-		quiet: boolean
+		fetch: FetchOptions,
+		quiet: boolean,
+		cloneSubPaths: readonly string[]
 	): BtcaGitResourceArgs => ({
 		type: 'git',
 		name: definition.name,
 		url: definition.url,
 		branch: definition.branch,
+		...(definition.ref ? { ref: definition.ref } : {}),
+		...(definition.auth ? { auth: definition.auth } : {}),
+		allowSsh: fetch.allowSshGitUrls,
 		repoSubPaths: normalizeSearchPaths(definition),
+		cloneSubPaths,
+		...(definition.submodules ? { submodules: true } : {}),
+		...(definition.lfs ? { lfs: true } : {}),
+		...(definition.include ? { include: definition.include } : {}),
+		...(definition.exclude ? { exclude: definition.exclude } : {}),
 		resourcesDirectoryPath: resourcesDirectory,
 		specialAgentInstructions: definition.specialNotes ?? '',
+		refresh: definition.refresh ?? fetch.refresh,
+		offline: fetch.offline,
 		quiet
 	});
 
+	const definitionToNpmArgs = (
+		definition: NpmResource,
+		resourcesDirectory: string,
+		fetch: FetchOptions
+	): BtcaNpmResourceArgs => ({
+		type: 'npm',
+		name: definition.name,
+		packageName: definition.package,
+		version: definition.version,
+		registry: definition.registry ?? DEFAULT_NPM_REGISTRY,
+		...(definition.tarball ? { tarball: definition.tarball } : {}),
+		repoSubPaths: (definition.searchPaths ?? []).filter((path) => path.trim().length > 0),
+		resourcesDirectoryPath: resourcesDirectory,
+		specialAgentInstructions: definition.specialNotes ?? '',
+		refresh: definition.refresh ?? fetch.refresh,
+		offline: fetch.offline
+	});
+
+	const definitionToArchiveArgs = (
+		definition: ArchiveResource,
+		resourcesDirectory: string,
+		fetch: FetchOptions
+	): BtcaArchiveResourceArgs => ({
+		type: 'archive',
+		name: definition.name,
+		source: definition.source,
+		repoSubPaths: (definition.searchPaths ?? []).filter((path) => path.trim().length > 0),
+		resourcesDirectoryPath: resourcesDirectory,
+		specialAgentInstructions: definition.specialNotes ?? '',
+		refresh: definition.refresh ?? fetch.refresh,
+		offline: fetch.offline
+	});
+
+	const definitionToWebArgs = (
+		definition: WebResource,
+		resourcesDirectory: string,
+		fetch: FetchOptions
+	): BtcaWebResourceArgs => ({
+		type: 'web',
+		name: definition.name,
+		url: definition.url,
+		maxPages: definition.maxPages ?? DEFAULT_WEB_MAX_PAGES,
+		maxDepth: definition.maxDepth ?? DEFAULT_WEB_MAX_DEPTH,
+		repoSubPaths: (definition.searchPaths ?? []).filter((path) => path.trim().length > 0),
+		resourcesDirectoryPath: resourcesDirectory,
+		specialAgentInstructions: definition.specialNotes ?? '',
+		refresh:
+			definition.refresh ?? (fetch.refresh === 'always' ? DEFAULT_WEB_REFRESH : fetch.refresh),
+		offline: fetch.offline
+	});
+
 	const definitionToLocalArgs = (definition: LocalResource): BtcaLocalResourceArgs => ({
 		type: 'local',
 		name: definition.name,
 		path: definition.path,
+		...(definition.include ? { include: definition.include } : {}),
+		...(definition.exclude ? { exclude: definition.exclude } : {}),
 		specialAgentInstructions: definition.specialNotes ?? ''
 	});
 
+	const checkLocalResourceHealth = async (args: BtcaLocalResourceArgs): Promise<ResourceHealth> => {
+		const stat = await Result.tryPromise(() => fs.stat(args.path));
+		const exists = stat.match({
+			ok: (value) => value.isDirectory(),
+			err: () => false
+		});
+		return createHealthReport({
+			name: args.name,
+			type: 'local',
+			path: args.path,
+			downloaded: exists,
+			expected: null,
+			current: null,
+			// Local folders are not downloaded, and walking a large project would be slow
+			sizeBytes: null,
+			lastFetchedAt: null,
+			issues: exists
+				? []
+				: [
+						{
+							level: 'error',
+							message: `Folder not found: ${args.path}`,
+							hint: 'Update "path" in the config to an existing directory, or remove the resource.'
+						}
+					]
+		});
+	};
+
 	const loadLocalResource = (args: BtcaLocalResourceArgs): BtcaFsResource => ({
 		_tag: 'fs-based',
 		name: args.name,
 		fsName: resourceNameToKey(args.name),
 		type: 'local',
 		repoSubPaths: [],
+		include: args.include,
+		exclude: args.exclude,
+		useGitignore: true,
 		specialAgentInstructions: args.specialAgentInstructions,
 		getAbsoluteDirectoryPath: async () => args.path
 	});
 
-	export const create = (config: Config.Service): Service => {
+	export const create = (config: Config.Service, options: { offline?: boolean } = {}): Service => {
+		const offline = options.offline ?? false;
+		const getFetchOptions = (): FetchOptions => ({
+			refresh: config.refresh,
+			offline,
+			allowSshGitUrls: config.allowSshGitUrls
+		});
+
+		const toGitArgs = (definition: GitResource, quiet: boolean) =>
+			definitionToGitArgs(
+				definition,
+				config.resourcesDirectory,
+				getFetchOptions(),
+				quiet,
+				getCloneSubPaths(definition, config.resources)
+			);
+
 		const getDefinition = (name: string): ResourceDefinition => {
 			const definition = config.getResource(name);
 			if (!definition)
@@ -68,17 +311,198 @@ export namespace Resources {
 			return definition;
 		};
 
-		return {
+		const service: Service = {
 			load: async (name, options) => {
 				const quiet = options?.quiet ?? false;
 				const definition = getDefinition(name);
 
-				if (isGitResource(definition)) {
-					return loadGitResource(definitionToGitArgs(definition, config.resourcesDirectory, quiet));
-				} else {
-					return loadLocalResource(definitionToLocalArgs(definition));
+				switch (definition.type) {
+					case 'git':
+						return loadGitResource(toGitArgs(definition, quiet));
+					case 'npm':
+						return loadNpmResource(
+							definitionToNpmArgs(definition, config.resourcesDirectory, getFetchOptions())
+						);
+					case 'archive':
+						return loadArchiveResource(
+							definitionToArchiveArgs(definition, config.resourcesDirectory, getFetchOptions())
+						);
+					case 'web':
+						return loadWebResource(
+							definitionToWebArgs(definition, config.resourcesDirectory, getFetchOptions())
+						);
+					case 'local':
+						return loadLocalResource(definitionToLocalArgs(definition));
 				}
-			}
+			},
+
+			refresh: async (name, options) => {
+				const quiet = options?.quiet ?? false;
+				const definition = getDefinition(name);
+				if (options?.policy) {
+					const readRevision = async () =>
+						(await service.health({ names: [name], remote: false }))[0]?.current ?? null;
+					const previous = await readRevision();
+					await service.load(name, { quiet });
+					const current = await readRevision();
+					Metrics.info('resource.refresh', { name, type: definition.type, previous, current });
+					return { name, type: definition.type, previous, current, updated: previous !== current };
+				}
+				if (offline) {
+					throw new ResourceError({
+						message: `Cannot refresh "${name}" while the server is offline`,
+						hint: 'Restart the server without --offline (or unset BTCA_OFFLINE) to fetch updates.'
+					});
+				}
+
+				const revisions = await (async () => {
+					switch (definition.type) {
+						case 'git':
+							return refreshGitResource(toGitArgs(definition, quiet));
+						case 'npm':
+							return refreshNpmResource(
+								definitionToNpmArgs(definition, config.resourcesDirectory, getFetchOptions())
+							);
+						case 'archive':
+							return refreshArchiveResource(
+								definitionToArchiveArgs(definition, config.resourcesDirectory, getFetchOptions())
+							);
+						case 'web':
+							return refreshWebResource(
+								definitionToWebArgs(definition, config.resourcesDirectory, getFetchOptions())
+							);
+						case 'local':
+							// Local resources are read straight from disk
+							return { previous: null, current: null };
+					}
+				})();
+
+				Metrics.info('resource.refresh', { name, type: definition.type, ...revisions });
+				return {
+					name,
+					type: definition.type,
+					...revisions,
+					updated: revisions.previous !== revisions.current
+				};
+			},
+
+			clear: async (options) => {
+				const all = options?.all ?? false;
+				const referenced = getReferencedEntries(config.resources);
+				const clonesDirectory = path.join(config.resourcesDirectory, GIT_CLONES_DIRECTORY);
+				let cleared = 0;
+
+				const listEntries = async (directory: string) => {
+					const result = await Result.tryPromise(() => fs.readdir(directory));
+					return result.match({
+						ok: (entries) => entries,
+						err: () => []
+					});
+				};
+				const remove = async (entryPath: string) => {
+					const result = await Result.tryPromise(() =>
+						fs.rm(entryPath, { recursive: true, force: true })
+					);
+					return result.match({
+						ok: () => true,
+						err: () => false
+					});
+				};
+				// Sidecar files are removed with their folder but not counted separately
+				const isCounted = (entry: string) =>
+					!SIDECAR_SUFFIXES.some((suffix) => entry.endsWith(suffix));
+				const getCloneKey = (entry: string) =>
+					SIDECAR_SUFFIXES.reduce(
+						(key, suffix) => (key.endsWith(suffix) ? key.slice(0, -suffix.length) : key),
+						entry
+					);
+
+				for (const entry of await listEntries(clonesDirectory)) {
+					if (!all && referenced.clones.has(entry)) continue;
+					// Wait for loads using the clone, so git never runs in a folder being removed
+					const removed = await withCloneLock(path.join(clonesDirectory, getCloneKey(entry)), () =>
+						remove(path.join(clonesDirectory, entry))
+					);
+					if (removed && isCounted(entry)) cleared++;
+				}
+				for (const entry of await listEntries(config.resourcesDirectory)) {
+					if (entry === GIT_CLONES_DIRECTORY) {
+						// Clones started while clearing are kept, so only an empty folder goes
+						if (all) await Result.tryPromise(() => fs.rmdir(clonesDirectory));
+						continue;
+					}
+					if (!all && referenced.resources.has(entry)) continue;
+					// Without --all, leave the staging folders and downloads of running installs
+					if (!all && TEMPORARY_ENTRY.test(entry)) continue;
+					if ((await remove(path.join(config.resourcesDirectory, entry))) && isCounted(entry)) {
+						cleared++;
+					}
+				}
+
+				Metrics.info('resources.cleared', { cleared, all });
+				return { cleared };
+			},
+
+			health: async (options) => {
+				const remote = (options?.remote ?? true) && !offline;
+				const definitions = options?.names?.map(getDefinition) ?? config.resources;
+
+				const checkDefinition = async (definition: ResourceDefinition) => {
+					// Definitions are validated when the config loads; recheck in case the rules
+					// changed since, so CI catches a config that the next version rejects
+					const parsed = ResourceDefinitionSchema.safeParse(definition);
+					if (!parsed.success) {
+						return createHealthReport({
+							name: definition.name,
+							type: definition.type,
+							path: null,
+							downloaded: false,
+							expected: null,
+							current: null,
+							sizeBytes: null,
+							lastFetchedAt: null,
+							issues: parsed.error.errors.map((issue) => ({
+								level: 'error' as const,
+								message: `Invalid definition: ${issue.path.join('.') || 'resource'}: ${issue.message}`
+							}))
+						});
+					}
+
+					switch (definition.type) {
+						case 'git':
+							return checkGitResourceHealth(toGitArgs(definition, true), { remote });
+						case 'npm':
+							return checkNpmResourceHealth(
+								definitionToNpmArgs(definition, config.resourcesDirectory, getFetchOptions())
+							);
+						case 'archive':
+							return checkArchiveResourceHealth(
+								definitionToArchiveArgs(definition, config.resourcesDirectory, getFetchOptions())
+							);
+						case 'web':
+							return checkWebResourceHealth(
+								definitionToWebArgs(definition, config.resourcesDirectory, getFetchOptions())
+							);
+						case 'local':
+							return checkLocalResourceHealth(definitionToLocalArgs(definition));
+					}
+				};
+
+				// One at a time: each check may run git and walk a large folder
+				const reports: ResourceHealth[] = [];
+				for (const definition of definitions) {
+					reports.push(await checkDefinition(definition));
+				}
+				Metrics.info('resources.health', {
+					resources: reports.length,
+					errors: reports.filter((report) => report.status === 'error').length,
+					warnings: reports.filter((report) => report.status === 'warning').length
+				});
+				return reports;
+			},
+
+			offline
 		};
+		return service;
 	};
 }
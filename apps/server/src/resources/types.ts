@@ -1,3 +1,5 @@
+import type { RefreshPolicy } from './schema.ts';
+
 export const FS_RESOURCE_SYSTEM_NOTE =
 	'This is a btca resource - a searchable knowledge source the agent can reference.';
 
@@ -5,9 +7,27 @@ export type BtcaFsResource = {
 	readonly _tag: 'fs-based';
 	readonly name: string;
 	readonly fsName: string;
-	readonly type: 'git' | 'local';
+	readonly type: 'git' | 'local' | 'npm' | 'archive' | 'web';
 	readonly repoSubPaths: readonly string[];
+	/** Globs limiting which files are imported, relative to the resource root */
+	readonly include?: readonly string[];
+	/** Globs (.gitignore syntax) for files that are never imported */
+	readonly exclude?: readonly string[];
+	/**
+	 * Also skip files matched by the .gitignore at the resource root. Only that file is read;
+	 * .gitignore files in subfolders are not applied.
+	 */
+	readonly useGitignore?: boolean;
+	/** Git resources with submodules or LFS files checked out */
+	readonly submodules?: boolean;
+	readonly lfs?: boolean;
 	readonly specialAgentInstructions: string;
+	/** On-disk trigram index used to speed up grep, when the resource type builds one */
+	readonly searchIndexPath?: string;
+	/** Immutable identifier of the contents (e.g. "react@19.0.0"), for resources without git */
+	readonly revision?: string;
+	/** Version shown to the agent: the pinned git ref or tracked branch, or the npm version */
+	readonly version?: string;
 	readonly getAbsoluteDirectoryPath: () => Promise<string>;
 };
 
@@ -16,9 +36,28 @@ export type BtcaGitResourceArgs = {
 	readonly name: string;
 	readonly url: string;
 	readonly branch: string;
+	readonly ref?: string;
+	/** Named credential for private HTTPS repositories */
+	readonly auth?: string;
+	/** Allow SSH URLs ("allowSshGitUrls" in config) */
+	readonly allowSsh?: boolean;
 	readonly repoSubPaths: readonly string[];
+	/**
+	 * Folders the shared clone checks out for every resource on the same repository and
+	 * branch or ref; empty for a full checkout. Defaults to repoSubPaths.
+	 */
+	readonly cloneSubPaths?: readonly string[];
+	/** Initialize submodules inside the checked out folders */
+	readonly submodules?: boolean;
+	/** Download Git LFS files instead of leaving pointer files */
+	readonly lfs?: boolean;
+	readonly include?: readonly string[];
+	readonly exclude?: readonly string[];
 	readonly resourcesDirectoryPath: string;
 	readonly specialAgentInstructions: string;
+	readonly refresh: RefreshPolicy;
+	/** Never touch the network; use whatever is already on disk */
+	readonly offline: boolean;
 	readonly quiet: boolean;
 };
 
@@ -26,5 +65,94 @@ export type BtcaLocalResourceArgs = {
 	readonly type: 'local';
 	readonly name: string;
 	readonly path: string;
+	readonly include?: readonly string[];
+	readonly exclude?: readonly string[];
+	readonly specialAgentInstructions: string;
+};
+
+export type BtcaNpmResourceArgs = {
+	readonly type: 'npm';
+	readonly name: string;
+	readonly packageName: string;
+	readonly version: string;
+	readonly registry: string;
+	readonly tarball?: string;
+	readonly repoSubPaths: readonly string[];
+	readonly resourcesDirectoryPath: string;
+	readonly specialAgentInstructions: string;
+	readonly refresh: RefreshPolicy;
+	/** Never touch the network; use whatever is already on disk */
+	readonly offline: boolean;
+};
+
+export type BtcaArchiveResourceArgs = {
+	readonly type: 'archive';
+	readonly name: string;
+	/** HTTPS URL or absolute path of the archive */
+	readonly source: string;
+	readonly repoSubPaths: readonly string[];
+	readonly resourcesDirectoryPath: string;
 	readonly specialAgentInstructions: string;
+	readonly refresh: RefreshPolicy;
+	/** Never touch the network; use whatever is already on disk */
+	readonly offline: boolean;
+};
+
+export type BtcaWebResourceArgs = {
+	readonly type: 'web';
+	readonly name: string;
+	/** Root page or llms.txt index the crawl starts from */
+	readonly url: string;
+	readonly maxPages: number;
+	readonly maxDepth: number;
+	readonly repoSubPaths: readonly string[];
+	readonly resourcesDirectoryPath: string;
+	readonly specialAgentInstructions: string;
+	readonly refresh: RefreshPolicy;
+	/** Never touch the network; use whatever is already on disk */
+	readonly offline: boolean;
+	/** Allow plain HTTP and private hosts, e.g. a local fixture server. Never set from config */
+	readonly allowPrivateHosts?: boolean;
+};
+
+/**
+ * Outcome of refreshing a resource on demand. Revisions are commits for git resources,
+ * "package@version" for npm resources, the SHA-256 of the file for archives, and a hash
+ * of the crawled pages for web resources; local resources have none.
+ */
+export type ResourceRefreshResult = {
+	name: string;
+	type: BtcaFsResource['type'];
+	previous: string | null;
+	current: string | null;
+	updated: boolean;
+};
+
+/**
+ * Problem found by a health check. Errors mean questions about the resource will fail;
+ * warnings mean it still works but is stale or is fixed the next time it is used.
+ */
+export type ResourceHealthIssue = {
+	level: 'error' | 'warning';
+	message: string;
+	hint?: string;
+};
+
+/**
+ * State of a configured resource on disk, as reported by `btca doctor`.
+ */
+export type ResourceHealth = {
+	name: string;
+	type: BtcaFsResource['type'];
+	status: 'ok' | 'warning' | 'error';
+	/** Folder the resource is read from */
+	path: string | null;
+	downloaded: boolean;
+	/** What the config asks for: branch or ref, version selector, archive source, or URL */
+	expected: string | null;
+	/** What is on disk: the commit, "package@version", or a content hash */
+	current: string | null;
+	sizeBytes: number | null;
+	lastFetchedAt: string | null;
+	issues: ResourceHealthIssue[];
 };
@@ -0,0 +1,165 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import {
+	clearVirtualCollectionMetadata,
+	setVirtualCollectionMetadata
+} from '../collections/virtual-metadata.ts';
+import { GrepTool } from '../tools/grep.ts';
+import { VirtualFs } from '../vfs/virtual-fs.ts';
+import { TrigramIndex } from './trigram-index.ts';
+
+const FILES: Record<string, string> = {
+	'README.md': '# Hono\n\nUltrafast web framework.\n',
+	'docs/routing.md': 'app.get("/user/:id", handler)\nRouting is fast.\n',
+	'docs/middleware.md': 'app.use(logger())\nMiddleware runs before handlers.\n',
+	'src/index.ts': 'export const createApp = () => new Hono();\n// TODO: routing\n',
+	'.git/HEAD': 'ref: refs/heads/main\n'
+};
+
+describe('TrigramIndex', () => {
+	let testDir: string;
+
+	beforeEach(async () => {
+		testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'btca-trigram-test-'));
+		for (const [relativePath, content] of Object.entries(FILES)) {
+			const filePath = path.join(testDir, 'repo', relativePath);
+			await fs.mkdir(path.dirname(filePath), { recursive: true });
+			await fs.writeFile(filePath, content);
+		}
+	});
+
+	afterEach(async () => {
+		await fs.rm(testDir, { recursive: true, force: true });
+	});
+
+	describe('parsePattern', () => {
+		it('extracts required literals', () => {
+			expect(TrigramIndex.parsePattern('createApp')).toEqual({
+				type: 'literal',
+				value: 'createApp'
+			});
+			expect(TrigramIndex.parsePattern('app\\.get\\(')).toEqual({
+				type: 'literal',
+				value: 'app.get('
+			});
+			expect(TrigramIndex.parsePattern('foo.*bar')).toEqual({
+				type: 'and',
+				parts: [
+					{ type: 'literal', value: 'foo' },
+					{ type: 'literal', value: 'bar' }
+				]
+			});
+		});
+
+		it('drops optional atoms and keeps alternations', () => {
+			expect(TrigramIndex.parsePattern('colou?r')).toEqual({
+				type: 'and',
+				parts: [
+					{ type: 'literal', value: 'colo' },
+					{ type: 'literal', value: 'r' }
+				]
+			});
+			expect(TrigramIndex.parsePattern('(routing|middleware)')).toEqual({
+				type: 'or',
+				parts: [
+					{ type: 'literal', value: 'routing' },
+					{ type: 'literal', value: 'middleware' }
+				]
+			});
+			expect(TrigramIndex.parsePattern('(?:abc)?def')).toEqual({ type: 'literal', value: 'def' });
+		});
+
+		it('falls back to all files for patterns it cannot narrow', () => {
+			expect(TrigramIndex.parsePattern('.*')).toEqual({ type: 'all' });
+			expect(TrigramIndex.parsePattern('foo|.')).toEqual({ type: 'all' });
+			expect(TrigramIndex.parsePattern('(a)\\1')).toEqual({ type: 'all' });
+			expect(TrigramIndex.parsePattern('\\x41bc')).toEqual({ type: 'all' });
+		});
+	});
+
+	it('round-trips through disk', async () => {
+		const indexPath = path.join(testDir, 'repo.trigrams');
+		const built = await TrigramIndex.build(path.join(testDir, 'repo'), 'abc123');
+		expect(built.files.has('.git/HEAD')).toBe(false);
+		expect(built.files.size).toBe(4);
+
+		await TrigramIndex.write(indexPath, built);
+		expect(await TrigramIndex.readCommit(indexPath)).toBe('abc123');
+
+		const loaded = await TrigramIndex.read(indexPath);
+		expect(loaded?.commit).toBe('abc123');
+		expect(loaded?.files).toEqual(built.files);
+		expect(loaded?.trigrams).toEqual(built.trigrams);
+	});
+
+	it('narrows candidates to files containing the literals', async () => {
+		const index = await TrigramIndex.build(path.join(testDir, 'repo'), 'abc123');
+		const idsFor = (pattern: string) => {
+			const ids = TrigramIndex.candidates(index, TrigramIndex.parsePattern(pattern));
+			if (!ids) return null;
+			return Array.from(index.files)
+				.filter(([, entry]) => ids.has(entry.id))
+				.map(([relativePath]) => relativePath)
+				.sort();
+		};
+
+		expect(idsFor('createApp')).toEqual(['src/index.ts']);
+		expect(idsFor('[Rr]outing')).toEqual(['docs/routing.md', 'src/index.ts']);
+		expect(idsFor('Middleware|Ultrafast')).toEqual(['README.md', 'docs/middleware.md']);
+		expect(idsFor('nowhere to be found')).toEqual([]);
+		expect(idsFor('a.b')).toBeNull();
+	});
+
+	it('does not change grep output', async () => {
+		const vfsId = VirtualFs.create();
+		try {
+			await VirtualFs.importDirectoryFromDisk({
+				sourcePath: path.join(testDir, 'repo'),
+				destinationPath: '/hono',
+				vfsId
+			});
+			const index = await TrigramIndex.build(path.join(testDir, 'repo'), 'abc123');
+			// Edited after indexing - must still be searched
+			await VirtualFs.writeFile(
+				'/hono/README.md',
+				'# Hono\n\ncreateApp is documented here too\n',
+				vfsId
+			);
+
+			const patterns = ['createApp', 'app\\.(get|use)', 'Routing|routing', 'handlers?', 'x{2}'];
+			const context = { basePath: '/', vfsId };
+			const withoutIndex = await Promise.all(
+				patterns.map((pattern) => GrepTool.execute({ pattern }, context))
+			);
+
+			setVirtualCollectionMetadata({
+				vfsId,
+				collectionKey: 'hono',
+				createdAt: new Date().toISOString(),
+				resources: [
+					{
+						name: 'hono',
+						fsName: 'hono',
+						type: 'git',
+						path: path.join(testDir, 'repo'),
+						repoSubPaths: [],
+						loadedAt: new Date().toISOString(),
+						searchIndex: index
+					}
+				]
+			});
+			const withIndex = await Promise.all(
+				patterns.map((pattern) => GrepTool.execute({ pattern }, context))
+			);
+
+			expect(withIndex).toEqual(withoutIndex);
+			expect(withIndex[0]?.output).toContain('README.md');
+		} finally {
+			clearVirtualCollectionMetadata(vfsId);
+			VirtualFs.dispose(vfsId);
+		}
+	});
+});
@@ -0,0 +1,360 @@
+/**
+ * Trigram Index
+ * Inverted index from three-character substrings to the files that contain them.
+ * Used to narrow the files a regex has to be run against. Narrowing is conservative:
+ * any file the index cannot vouch for stays a candidate.
+ */
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+
+import { Result } from 'better-result';
+
+export namespace TrigramIndex {
+	const VERSION = 1;
+	// Larger files are left out of the index and always scanned
+	const MAX_FILE_BYTES = 1024 * 1024;
+
+	export type Index = {
+		commit: string;
+		/** Indexed files by path relative to the resource root */
+		files: Map<string, { id: number; size: number }>;
+		trigrams: Map<string, number[]>;
+	};
+
+	export type Query =
+		| { type: 'all' }
+		| { type: 'literal'; value: string }
+		| { type: 'and'; parts: Query[] }
+		| { type: 'or'; parts: Query[] };
+
+	type Header = { version: number; commit: string };
+
+	type Body = {
+		files: Array<[string, number]>;
+		trigrams: Record<string, number[]>;
+	};
+
+	const ALL: Query = { type: 'all' };
+
+	const isBinaryBuffer = (bytes: Uint8Array) => bytes.includes(0);
+
+	const addTrigrams = (text: string, target: Set<string>) => {
+		for (let i = 0; i + 3 <= text.length; i++) {
+			target.add(text.slice(i, i + 3));
+		}
+	};
+
+	/**
+	 * Build an index of every text file under rootPath, skipping .git directories.
+	 */
+	export const build = async (rootPath: string, commit: string): Promise<Index> => {
+		const files = new Map<string, { id: number; size: number }>();
+		const trigrams = new Map<string, number[]>();
+		const decoder = new TextDecoder();
+
+		const walk = async (currentPath: string): Promise<void> => {
+			const direntsResult = await Result.tryPromise(() =>
+				fs.readdir(currentPath, { withFileTypes: true })
+			);
+			const dirents = direntsResult.match({
+				ok: (value) => value,
+				err: () => []
+			});
+
+			for (const dirent of dirents) {
+				if (dirent.name === '.git') continue;
+				const entryPath = path.join(currentPath, dirent.name);
+				if (dirent.isDirectory()) {
+					await walk(entryPath);
+					continue;
+				}
+				if (!dirent.isFile()) continue;
+
+				const bufferResult = await Result.tryPromise(() => fs.readFile(entryPath));
+				const buffer = bufferResult.match({
+					ok: (value) => value,
+					err: () => null
+				});
+				if (!buffer || buffer.byteLength > MAX_FILE_BYTES || isBinaryBuffer(buffer)) continue;
+
+				const id = files.size;
+				const relativePath = path.relative(rootPath, entryPath).split(path.sep).join('/');
+				files.set(relativePath, { id, size: buffer.byteLength });
+
+				const fileTrigrams = new Set<string>();
+				addTrigrams(decoder.decode(buffer), fileTrigrams);
+				for (const trigram of fileTrigrams) {
+					const postings = trigrams.get(trigram);
+					if (postings) postings.push(id);
+					else trigrams.set(trigram, [id]);
+				}
+			}
+		};
+
+		await walk(rootPath);
+		return { commit, files, trigrams };
+	};
+
+	/**
+	 * Write an index to disk. The first line is a small header so the commit can be
+	 * checked without parsing the whole index.
+	 */
+	export const write = async (filePath: string, index: Index) => {
+		const header: Header = { version: VERSION, commit: index.commit };
+		const body: Body = {
+			files: Array.from(index.files, ([relativePath, { size }]) => [relativePath, size]),
+			trigrams: Object.fromEntries(index.trigrams)
+		};
+		const tempPath = `${filePath}.tmp`;
+		await Bun.write(tempPath, `${JSON.stringify(header)}\n${JSON.stringify(body)}`);
+		await fs.rename(tempPath, filePath);
+	};
+
+	const parseHeader = (line: string): Header | null => {
+		const parsed = Result.try(() => JSON.parse(line) as Partial<Header>).match({
+			ok: (value) => value,
+			err: () => null
+		});
+		if (!parsed || parsed.version !== VERSION || typeof parsed.commit !== 'string') return null;
+		return { version: parsed.version, commit: parsed.commit };
+	};
+
+	/**
+	 * Read only the commit an index on disk was built for. Returns null if there is no usable index.
+	 */
+	export const readCommit = async (filePath: string) => {
+		const result = await Result.tryPromise(() => Bun.file(filePath).slice(0, 512).text());
+		const head = result.match({
+			ok: (value) => value,
+			err: () => null
+		});
+		if (!head) return null;
+		const newline = head.indexOf('\n');
+		if (newline === -1) return null;
+		return parseHeader(head.slice(0, newline))?.commit ?? null;
+	};
+
+	/**
+	 * Read an index from disk. Returns null if it is missing, unreadable, or in an older format.
+	 */
+	export const read = async (filePath: string): Promise<Index | null> => {
+		const result = await Result.tryPromise(() => Bun.file(filePath).text());
+		const text = result.match({
+			ok: (value) => value,
+			err: () => null
+		});
+		if (!text) return null;
+
+		const newline = text.indexOf('\n');
+		if (newline === -1) return null;
+		const header = parseHeader(text.slice(0, newline));
+		if (!header) return null;
+
+		const body = Result.try(() => JSON.parse(text.slice(newline + 1)) as Body).match({
+			ok: (value) => value,
+			err: () => null
+		});
+		if (!body || !Array.isArray(body.files) || typeof body.trigrams !== 'object') return null;
+
+		return {
+			commit: header.commit,
+			files: new Map(body.files.map(([relativePath, size], id) => [relativePath, { id, size }])),
+			trigrams: new Map(Object.entries(body.trigrams))
+		};
+	};
+
+	class UnsupportedPattern extends Error {}
+
+	/**
+	 * Derive the literals any match of a regex must contain.
+	 * Anything the parser does not understand widens the query to all files.
+	 */
+	export const parsePattern = (pattern: string): Query => {
+		let i = 0;
+
+		const parseQuantifier = (): number | null => {
+			const char = pattern[i];
+			let min: number | null = null;
+			if (char === '*' || char === '?') {
+				min = 0;
+				i += 1;
+			} else if (char === '+') {
+				min = 1;
+				i += 1;
+			} else if (char === '{') {
+				const match = /^\{(\d+)(,\d*)?\}/.exec(pattern.slice(i));
+				if (!match) return null;
+				min = Number(match[1]);
+				i += match[0].length;
+			}
+			if (min !== null && pattern[i] === '?') i += 1;
+			return min;
+		};
+
+		const parseEscape = (): string | null => {
+			const next = pattern[i + 1];
+			if (next === undefined) throw new UnsupportedPattern();
+			i += 2;
+			if ('dDwWsSbB'.includes(next)) return null;
+			const controls: Record<string, string> = { t: '\t', n: '\n', r: '\r', f: '\f', v: '\v' };
+			if (controls[next]) return controls[next];
+			// Backreferences, \x, \u, \p, \c, \k and friends
+			if (/[A-Za-z0-9]/.test(next)) throw new UnsupportedPattern();
+			return next;
+		};
+
+		const skipClass = () => {
+			i += 1;
+			while (i < pattern.length && pattern[i] !== ']') {
+				i += pattern[i] === '\\' ? 2 : 1;
+			}
+			if (i >= pattern.length) throw new UnsupportedPattern();
+			i += 1;
+		};
+
+		const parseSequence = (): Query => {
+			const parts: Query[] = [];
+			let run = '';
+			const flush = () => {
+				if (run) parts.push({ type: 'literal', value: run });
+				run = '';
+			};
+
+			while (i < pattern.length && pattern[i] !== '|' && pattern[i] !== ')') {
+				const char = pattern[i] ?? '';
+
+				if (char === '^' || char === '$') {
+					flush();
+					i += 1;
+					continue;
+				}
+
+				if (char === '*' || char === '+' || char === '?') throw new UnsupportedPattern();
+
+				if (char === '(') {
+					flush();
+					const lookaround = /^\(\?(=|!|<=|<!)/.exec(pattern.slice(i));
+					if (lookaround) {
+						i += lookaround[0].length;
+					} else if (pattern.startsWith('(?:', i)) {
+						i += 3;
+					} else if (pattern.startsWith('(?<', i)) {
+						const close = pattern.indexOf('>', i);
+						if (close === -1) throw new UnsupportedPattern();
+						i = close + 1;
+					} else if (pattern[i + 1] === '?') {
+						throw new UnsupportedPattern();
+					} else {
+						i += 1;
+					}
+					const inner = parseAlternation();
+					if (pattern[i] !== ')') throw new UnsupportedPattern();
+					i += 1;
+					const min = parseQuantifier();
+					if (!lookaround && (min === null || min > 0)) parts.push(inner);
+					continue;
+				}
+
+				let literal: string | null;
+				if (char === '\\') {
+					literal = parseEscape();
+				} else if (char === '[') {
+					skipClass();
+					literal = null;
+				} else if (char === '.') {
+					i += 1;
+					literal = null;
+				} else {
+					// Outside unicode mode, braces that are not a quantifier are literal characters
+					if (char === '{' && parseQuantifier() !== null) throw new UnsupportedPattern();
+					i += 1;
+					literal = char;
+				}
+
+				const min = parseQuantifier();
+				if (literal === null || min === 0) {
+					flush();
+					continue;
+				}
+				run += literal;
+				if (min !== null) flush();
+			}
+
+			flush();
+			if (parts.length === 0) return ALL;
+			if (parts.length === 1) return parts[0] ?? ALL;
+			return { type: 'and', parts };
+		};
+
+		const parseAlternation = (): Query => {
+			const branches = [parseSequence()];
+			while (pattern[i] === '|') {
+				i += 1;
+				branches.push(parseSequence());
+			}
+			if (branches.length === 1) return branches[0] ?? ALL;
+			if (branches.some((branch) => branch.type === 'all')) return ALL;
+			return { type: 'or', parts: branches };
+		};
+
+		const result = Result.try(() => {
+			const query = parseAlternation();
+			if (i !== pattern.length) throw new UnsupportedPattern();
+			return query;
+		});
+		return result.match({
+			ok: (value) => value,
+			err: () => ALL
+		});
+	};
+
+	const intersect = (a: Set<number>, b: Set<number>) => {
+		const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+		const result = new Set<number>();
+		for (const id of small) if (large.has(id)) result.add(id);
+		return result;
+	};
+
+	/**
+	 * Resolve a query to the ids of indexed files that may match. Null means every file.
+	 */
+	export const candidates = (index: Index, query: Query): Set<number> | null => {
+		switch (query.type) {
+			case 'all':
+				return null;
+
+			case 'literal': {
+				if (query.value.length < 3) return null;
+				const grams = new Set<string>();
+				addTrigrams(query.value, grams);
+				let result: Set<number> | null = null;
+				for (const gram of grams) {
+					const postings = new Set(index.trigrams.get(gram) ?? []);
+					result = result ? intersect(result, postings) : postings;
+					if (result.size === 0) break;
+				}
+				return result;
+			}
+
+			case 'and': {
+				let result: Set<number> | null = null;
+				for (const part of query.parts) {
+					const ids = candidates(index, part);
+					if (!ids) continue;
+					result = result ? intersect(result, ids) : ids;
+				}
+				return result;
+			}
+
+			case 'or': {
+				const result = new Set<number>();
+				for (const part of query.parts) {
+					const ids = candidates(index, part);
+					if (!ids) return null;
+					for (const id of ids) result.add(id);
+				}
+				return result;
+			}
+		}
+	};
+}
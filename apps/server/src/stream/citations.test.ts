@@ -0,0 +1,138 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+
+import {
+	clearVirtualCollectionMetadata,
+	setVirtualCollectionMetadata
+} from '../collections/virtual-metadata.ts';
+import { VirtualFs } from '../vfs/virtual-fs.ts';
+import { Citations } from './citations.ts';
+
+const COMMIT = '0123456789abcdef0123456789abcdef01234567';
+
+describe('Citations', () => {
+	let vfsId: string;
+
+	beforeEach(async () => {
+		vfsId = VirtualFs.create();
+		await VirtualFs.mkdir('/hono/docs', { recursive: true }, vfsId);
+		await VirtualFs.writeFile(
+			'/hono/docs/middleware.md',
+			'# Middleware\n\nOrder matters.\n',
+			vfsId
+		);
+		await VirtualFs.mkdir('/notes', { recursive: true }, vfsId);
+		await VirtualFs.writeFile('/notes/todo.md', 'local notes\n', vfsId);
+		setVirtualCollectionMetadata({
+			vfsId,
+			collectionKey: 'hono+notes',
+			createdAt: new Date().toISOString(),
+			resources: [
+				{
+					name: 'hono',
+					fsName: 'hono',
+					type: 'git',
+					path: '/tmp/hono',
+					repoSubPaths: [],
+					url: 'https://github.com/honojs/website.git',
+					branch: 'main',
+					commit: COMMIT,
+					loadedAt: new Date().toISOString()
+				},
+				{
+					name: 'notes',
+					fsName: 'notes',
+					type: 'local',
+					path: '/tmp/notes',
+					repoSubPaths: [],
+					loadedAt: new Date().toISOString()
+				}
+			]
+		});
+	});
+
+	afterEach(() => {
+		clearVirtualCollectionMetadata(vfsId);
+		VirtualFs.dispose(vfsId);
+	});
+
+	it('builds permalinks for known git hosts', () => {
+		const range = { startLine: 3, endLine: 9 };
+		expect(
+			Citations.buildPermalink({
+				url: 'https://github.com/honojs/website',
+				commit: COMMIT,
+				filePath: 'docs/a b.md',
+				range
+			})
+		).toBe(`https://github.com/honojs/website/blob/${COMMIT}/docs/a%20b.md#L3-L9`);
+		expect(
+			Citations.buildPermalink({
+				url: 'https://gitlab.com/group/project.git',
+				commit: COMMIT,
+				filePath: 'README.md',
+				range: { startLine: 3 }
+			})
+		).toBe(`https://gitlab.com/group/project/-/blob/${COMMIT}/README.md#L3`);
+		expect(
+			Citations.buildPermalink({
+				url: 'https://git.example.com/repo',
+				commit: COMMIT,
+				filePath: 'README.md',
+				range
+			})
+		).toBeUndefined();
+	});
+
+	it('cites the lines returned by the read tool', async () => {
+		const citation = await Citations.fromRead({
+			input: { path: 'hono/docs/middleware.md' },
+			output: '    1\t# Middleware\n    2\t\n    3\tOrder matters.',
+			collectionPath: '/',
+			vfsId
+		});
+
+		expect(citation).toEqual({
+			resource: 'hono',
+			path: 'docs/middleware.md',
+			startLine: 1,
+			endLine: 3,
+			commit: COMMIT,
+			url: `https://github.com/honojs/website/blob/${COMMIT}/docs/middleware.md#L1-L3`,
+			source: 'read'
+		});
+
+		const missing = await Citations.fromRead({
+			input: { path: 'hono/docs/missing.md' },
+			output: 'File not found: hono/docs/missing.md',
+			collectionPath: '/',
+			vfsId
+		});
+		expect(missing).toBeNull();
+	});
+
+	it('cites files referenced in the answer', async () => {
+		const citations = await Citations.fromAnswer({
+			text: [
+				'See `./hono/docs/middleware.md:2-3` for ordering,',
+				'and docs/middleware.md#L1 for the heading.',
+				'Also notes/todo.md, but not docs/unknown.md.'
+			].join('\n'),
+			vfsId
+		});
+
+		expect(
+			citations.map(({ resource, path, startLine, endLine }) => ({
+				resource,
+				path,
+				startLine,
+				endLine
+			}))
+		).toEqual([
+			{ resource: 'hono', path: 'docs/middleware.md', startLine: 2, endLine: 3 },
+			{ resource: 'hono', path: 'docs/middleware.md', startLine: 1, endLine: undefined },
+			{ resource: 'notes', path: 'todo.md', startLine: undefined, endLine: undefined }
+		]);
+		expect(citations[2]?.url).toBeUndefined();
+		expect(citations.every((citation) => citation.source === 'answer')).toBe(true);
+	});
+});
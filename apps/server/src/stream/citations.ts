@@ -0,0 +1,189 @@
+import * as path from 'node:path';
+
+import { Result } from 'better-result';
+
+import {
+	getVirtualCollectionMetadata,
+	type VirtualResourceMetadata
+} from '../collections/virtual-metadata.ts';
+import { VirtualSandbox } from '../tools/virtual-sandbox.ts';
+import { VirtualFs } from '../vfs/virtual-fs.ts';
+import type { BtcaCitation } from './types.ts';
+
+const posix = path.posix;
+
+/**
+ * Turns files the agent read, and files its answer references, into structured citations
+ * with permalinks for git resources.
+ */
+export namespace Citations {
+	type LineRange = { startLine?: number; endLine?: number };
+
+	// Read tool output lines look like "   12\tcontent"
+	const READ_LINE_PATTERN = /^\s*(\d+)\t/;
+
+	// Relative file paths with an extension, optionally followed by a line range
+	// ("path/to/file.md:12-30" or "path/to/file.md#L12-L30")
+	const ANSWER_PATH_PATTERN =
+		/(?:\.\/)?((?:[\w@.-]+\/)+[\w@.-]+\.[A-Za-z0-9]+)(?::(\d+)(?:-(\d+))?|#L(\d+)(?:-L(\d+))?)?/g;
+
+	const toLine = (value?: string) => {
+		if (!value) return undefined;
+		const line = Number.parseInt(value, 10);
+		return Number.isFinite(line) && line > 0 ? line : undefined;
+	};
+
+	const isFile = async (vfsPath: string, vfsId?: string) => {
+		const result = await Result.tryPromise(() => VirtualFs.stat(vfsPath, vfsId));
+		return result.match({
+			ok: (stat) => stat.isFile,
+			err: () => false
+		});
+	};
+
+	const lineFragment = (
+		host: 'github' | 'gitlab' | 'bitbucket',
+		{ startLine, endLine }: LineRange
+	) => {
+		if (!startLine) return '';
+		const end = endLine && endLine !== startLine ? endLine : undefined;
+		if (host === 'bitbucket') return `#lines-${startLine}${end ? `:${end}` : ''}`;
+		if (host === 'gitlab') return `#L${startLine}${end ? `-${end}` : ''}`;
+		return `#L${startLine}${end ? `-L${end}` : ''}`;
+	};
+
+	/**
+	 * Build a commit-pinned link to a file on GitHub, GitLab, or Bitbucket.
+	 * Other hosts have no known URL scheme and get no permalink.
+	 */
+	export const buildPermalink = (args: {
+		url?: string;
+		commit?: string;
+		filePath: string;
+		range: LineRange;
+	}) => {
+		if (!args.url || !args.commit) return undefined;
+		const parsed = Result.try(() => new URL(args.url!)).match({
+			ok: (value) => value,
+			err: () => null
+		});
+		if (!parsed) return undefined;
+
+		const base = `${parsed.origin}${parsed.pathname.replace(/\.git$/, '').replace(/\/$/, '')}`;
+		const filePath = args.filePath.split('/').map(encodeURIComponent).join('/');
+		const hostname = parsed.hostname.toLowerCase();
+
+		if (hostname === 'github.com' || hostname.endsWith('.github.com')) {
+			return `${base}/blob/${args.commit}/${filePath}${lineFragment('github', args.range)}`;
+		}
+		if (hostname === 'gitlab.com' || hostname.startsWith('gitlab.')) {
+			return `${base}/-/blob/${args.commit}/${filePath}${lineFragment('gitlab', args.range)}`;
+		}
+		if (hostname === 'bitbucket.org') {
+			return `${base}/src/${args.commit}/${filePath}${lineFragment('bitbucket', args.range)}`;
+		}
+		return undefined;
+	};
+
+	const findResource = (vfsPath: string, vfsId?: string) => {
+		const resources = vfsId ? (getVirtualCollectionMetadata(vfsId)?.resources ?? []) : [];
+		return resources.find((resource) => vfsPath.startsWith(`/${resource.fsName}/`));
+	};
+
+	const toCitation = (
+		resource: VirtualResourceMetadata,
+		vfsPath: string,
+		range: LineRange,
+		source: BtcaCitation['source']
+	): BtcaCitation => {
+		const filePath = posix.relative(`/${resource.fsName}`, vfsPath);
+		const url = buildPermalink({ url: resource.url, commit: resource.commit, filePath, range });
+		return {
+			resource: resource.name,
+			path: filePath,
+			...(range.startLine ? { startLine: range.startLine } : {}),
+			...(range.endLine ? { endLine: range.endLine } : {}),
+			...(resource.commit ? { commit: resource.commit } : {}),
+			...(url ? { url } : {}),
+			source
+		};
+	};
+
+	/**
+	 * Cite the file and line range returned by a completed `read` tool call.
+	 */
+	export const fromRead = async (args: {
+		input: unknown;
+		output: string;
+		collectionPath: string;
+		vfsId?: string;
+	}): Promise<BtcaCitation | null> => {
+		const input = args.input as { path?: unknown } | null;
+		if (!input || typeof input.path !== 'string') return null;
+		const requestedPath = input.path;
+
+		const vfsPath = Result.try(() =>
+			VirtualSandbox.resolvePath(args.collectionPath, requestedPath)
+		).match({
+			ok: (value) => value,
+			err: () => null
+		});
+		if (!vfsPath) return null;
+
+		const resource = findResource(vfsPath, args.vfsId);
+		if (!resource || !(await isFile(vfsPath, args.vfsId))) return null;
+
+		const lineNumbers = args.output
+			.split('\n')
+			.map((line) => toLine(READ_LINE_PATTERN.exec(line)?.[1]))
+			.filter((line): line is number => line !== undefined);
+		const range = {
+			startLine: lineNumbers[0],
+			endLine: lineNumbers[lineNumbers.length - 1]
+		};
+		return toCitation(resource, vfsPath, range, 'read');
+	};
+
+	/**
+	 * Cite every collection file the answer text refers to. Paths may be given relative to
+	 * the collection root or to a resource root.
+	 */
+	export const fromAnswer = async (args: {
+		text: string;
+		vfsId?: string;
+	}): Promise<BtcaCitation[]> => {
+		const resources = args.vfsId ? (getVirtualCollectionMetadata(args.vfsId)?.resources ?? []) : [];
+		if (resources.length === 0) return [];
+
+		const citations: BtcaCitation[] = [];
+		for (const match of args.text.matchAll(ANSWER_PATH_PATTERN)) {
+			const reference = match[1] ?? '';
+			const range = {
+				startLine: toLine(match[2] ?? match[4]),
+				endLine: toLine(match[3] ?? match[5])
+			};
+
+			const candidates = [
+				`/${reference}`,
+				...resources.map((resource) => `/${resource.fsName}/${reference}`)
+			].map((candidate) => posix.normalize(candidate));
+
+			for (const candidate of candidates) {
+				const resource = findResource(candidate, args.vfsId);
+				if (!resource || !(await isFile(candidate, args.vfsId))) continue;
+				citations.push(toCitation(resource, candidate, range, 'answer'));
+				break;
+			}
+		}
+		return citations;
+	};
+
+	export const key = (citation: BtcaCitation) =>
+		[
+			citation.source,
+			citation.resource,
+			citation.path,
+			citation.startLine ?? '',
+			citation.endLine ?? ''
+		].join(':');
+}
@@ -5,6 +5,9 @@ export {
 	BtcaStreamTextDeltaEventSchema,
 	BtcaStreamReasoningDeltaEventSchema,
 	BtcaStreamToolUpdatedEventSchema,
+	BtcaCitationSchema,
+	BtcaStreamCitationEventSchema,
+	BtcaUsageSchema,
 	BtcaStreamDoneEventSchema,
 	BtcaStreamErrorEventSchema
 } from './types.ts';
@@ -14,6 +17,9 @@ export type {
 	BtcaStreamTextDeltaEvent,
 	BtcaStreamReasoningDeltaEvent,
 	BtcaStreamToolUpdatedEvent,
+	BtcaCitation,
+	BtcaStreamCitationEvent,
+	BtcaUsage,
 	BtcaStreamDoneEvent,
 	BtcaStreamErrorEvent
 } from './types.ts';
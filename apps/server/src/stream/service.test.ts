@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'bun:test';
+
+import type { AgentLoop } from '../agent/loop.ts';
+import { ActiveQuestions } from '../agent/questions.ts';
+import { StreamService } from './service.ts';
+import type { BtcaStreamEvent, BtcaStreamMetaEvent } from './types.ts';
+
+const meta: BtcaStreamMetaEvent = {
+	type: 'meta',
+	model: { provider: 'anthropic', model: 'claude-sonnet-4' },
+	resources: ['svelte'],
+	collection: { key: 'svelte', path: '/' }
+};
+
+const readEvents = async (stream: ReadableStream<Uint8Array>) => {
+	const text = await new Response(stream).text();
+	return text
+		.split('\n\n')
+		.map((block) => block.split('\n').find((line) => line.startsWith('data: ')))
+		.filter((line): line is string => Boolean(line))
+		.map((line) => JSON.parse(line.slice('data: '.length)) as BtcaStreamEvent);
+};
+
+describe('StreamService', () => {
+	it('finishes a canceled question with a canceled done event', async () => {
+		const questions = ActiveQuestions.create();
+		const question = questions.start({ collectionKey: 'svelte' });
+		const completed: string[] = [];
+		let closed = false;
+
+		async function* eventStream(): AsyncGenerator<AgentLoop.AgentEvent> {
+			yield { type: 'text-delta', text: 'Partial answer' };
+			expect(questions.cancel(question.id)).toBe(true);
+			if (question.signal.aborted) yield { type: 'canceled' };
+		}
+
+		const events = await readEvents(
+			StreamService.createSseStream({
+				meta: { ...meta, questionId: question.id },
+				eventStream: eventStream(),
+				signal: question.signal,
+				onComplete: (answer) => completed.push(answer.text),
+				onClose: () => {
+					closed = true;
+					question.finish();
+				}
+			})
+		);
+
+		expect(events.map((event) => event.type)).toEqual(['meta', 'text.delta', 'done']);
+		expect(events.at(-1)).toMatchObject({ type: 'done', text: 'Partial answer', canceled: true });
+		expect(completed).toEqual([]);
+		expect(closed).toBe(true);
+		expect(questions.cancel(question.id)).toBe(false);
+	});
+
+	it('treats an abort thrown by the agent as a cancellation', async () => {
+		const controller = new AbortController();
+
+		async function* eventStream(): AsyncGenerator<AgentLoop.AgentEvent> {
+			yield { type: 'text-delta', text: 'Partial' };
+			controller.abort();
+			controller.signal.throwIfAborted();
+		}
+
+		const events = await readEvents(
+			StreamService.createSseStream({
+				meta,
+				eventStream: eventStream(),
+				signal: controller.signal
+			})
+		);
+
+		expect(events.some((event) => event.type === 'error')).toBe(false);
+		expect(events.at(-1)).toMatchObject({ type: 'done', canceled: true });
+	});
+
+	it('reports the usage of finished steps when the agent fails', async () => {
+		const usages: number[] = [];
+
+		async function* eventStream(): AsyncGenerator<AgentLoop.AgentEvent> {
+			yield { type: 'usage', usage: { inputTokens: 100, outputTokens: 20 } };
+			yield { type: 'text-delta', text: 'Partial' };
+			throw new Error('Provider overloaded');
+		}
+
+		const events = await readEvents(
+			StreamService.createSseStream({
+				meta,
+				eventStream: eventStream(),
+				onUsage: (usage) => usages.push(usage.totalTokens)
+			})
+		);
+
+		expect(events.at(-1)?.type).toBe('error');
+		expect(usages).toEqual([120]);
+	});
+
+	it('reports usage once when the agent finishes', async () => {
+		const usages: number[] = [];
+
+		async function* eventStream(): AsyncGenerator<AgentLoop.AgentEvent> {
+			yield { type: 'usage', usage: { inputTokens: 100, outputTokens: 20 } };
+			yield { type: 'text-delta', text: 'Done' };
+			yield {
+				type: 'finish',
+				finishReason: 'stop',
+				usage: { inputTokens: 150, outputTokens: 30 }
+			};
+		}
+
+		await readEvents(
+			StreamService.createSseStream({
+				meta,
+				eventStream: eventStream(),
+				onUsage: (usage) => usages.push(usage.totalTokens)
+			})
+		);
+
+		expect(usages).toEqual([180]);
+	});
+});
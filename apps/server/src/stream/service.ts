@@ -4,14 +4,18 @@ import { Result } from 'better-result';
 import { getErrorMessage, getErrorTag } from '../errors.ts';
 import { Metrics } from '../metrics/index.ts';
 import type { AgentLoop } from '../agent/loop.ts';
+import { UsageLedger } from '../usage/ledger.ts';
+import { Citations } from './citations.ts';
 
 import type {
+	BtcaCitation,
 	BtcaStreamDoneEvent,
 	BtcaStreamErrorEvent,
 	BtcaStreamEvent,
 	BtcaStreamMetaEvent,
 	BtcaStreamTextDeltaEvent,
-	BtcaStreamToolUpdatedEvent
+	BtcaStreamToolUpdatedEvent,
+	BtcaUsage
 } from './types.ts';
 
 const toSse = (event: BtcaStreamEvent): string => {
@@ -24,13 +28,27 @@ export namespace StreamService {
 		meta: BtcaStreamMetaEvent;
 		eventStream: AsyncIterable<AgentLoop.AgentEvent>;
 		question?: string; // Original question - used to filter echoed user message
+		vfsId?: string; // Collection filesystem - used to resolve citations
+		onComplete?: (answer: {
+			text: string;
+			tools: BtcaStreamDoneEvent['tools'];
+			citations: BtcaCitation[];
+			usage: BtcaUsage;
+		}) => void; // Called once a stream finishes without errors or cancellation
+		signal?: AbortSignal; // Question abort signal - an aborted stream finishes as canceled
+		onDisconnect?: () => void; // Called when the client goes away before the stream finishes
+		onClose?: () => void; // Called once the stream has closed, for any reason
+		onUsage?: (usage: BtcaUsage) => void; // Called once with the token usage, also when canceled or failed part way
 	}): ReadableStream<Uint8Array> => {
 		const encoder = new TextEncoder();
+		let closed = false;
 
 		const emit = (
 			controller: ReadableStreamDefaultController<Uint8Array>,
 			event: BtcaStreamEvent
 		) => {
+			// The client may have disconnected while the agent was still winding down
+			if (closed) return;
 			controller.enqueue(encoder.encode(toSse(event)));
 		};
 
@@ -40,6 +58,13 @@ export namespace StreamService {
 		const toolsByCallId = new Map<string, Omit<BtcaStreamToolUpdatedEvent, 'type'>>();
 		let textEvents = 0;
 		let toolEvents = 0;
+		const citations: BtcaCitation[] = [];
+		const citedKeys = new Set<string>();
+		let hadError = false;
+		let finished = false;
+		// Usage of the finished steps, reported on close if the agent never finishes
+		let usageSoFar: AgentLoop.Usage | undefined;
+		let usageReported = false;
 
 		// Extract the core question for stripping echoed user message from final response
 		const coreQuestion = extractCoreQuestion(args.question);
@@ -54,6 +79,34 @@ export namespace StreamService {
 
 				emit(controller, args.meta);
 
+				const emitCitation = (citation: BtcaCitation | null) => {
+					if (!citation) return;
+					const key = Citations.key(citation);
+					if (citedKeys.has(key)) return;
+					citedKeys.add(key);
+					citations.push(citation);
+					emit(controller, { type: 'citation', ...citation });
+				};
+
+				const emitCanceled = () => {
+					if (finished) return;
+					finished = true;
+					const tools = Array.from(toolsByCallId.values());
+					const finalText = stripUserQuestionFromStart(accumulatedText, coreQuestion);
+					Metrics.info('stream.canceled', {
+						collectionKey: args.meta.collection.key,
+						textLength: finalText.length,
+						toolCount: tools.length
+					});
+					emit(controller, {
+						type: 'done',
+						text: finalText,
+						reasoning: '',
+						tools,
+						canceled: true
+					});
+				};
+
 				(async () => {
 					const result = await Result.tryPromise(async () => {
 						for await (const event of args.eventStream) {
@@ -119,39 +172,78 @@ export namespace StreamService {
 												state: tool.state
 											};
 											emit(controller, update);
+
+											if (event.toolName === 'read') {
+												emitCitation(
+													await Citations.fromRead({
+														input: tool.state.input,
+														output: event.output,
+														collectionPath: args.meta.collection.path,
+														vfsId: args.vfsId
+													})
+												);
+											}
 											break;
 										}
 									}
 									break;
 								}
 
+								case 'usage': {
+									usageSoFar = event.usage;
+									break;
+								}
+
+								case 'canceled': {
+									emitCanceled();
+									break;
+								}
+
 								case 'finish': {
+									if (finished) break;
+									finished = true;
 									const tools = Array.from(toolsByCallId.values());
 
 									// Strip the echoed user question from the final text
 									const finalText = stripUserQuestionFromStart(accumulatedText, coreQuestion);
 									emittedText = finalText;
 
+									const answerCitations = await Citations.fromAnswer({
+										text: finalText,
+										vfsId: args.vfsId
+									});
+									for (const citation of answerCitations) emitCitation(citation);
+
+									const usage = UsageLedger.summarize(args.meta.model, event.usage);
+
 									Metrics.info('stream.done', {
 										collectionKey: args.meta.collection.key,
 										textLength: finalText.length,
 										toolCount: tools.length,
+										citationCount: citations.length,
 										textEvents,
 										toolEvents,
-										finishReason: event.finishReason
+										finishReason: event.finishReason,
+										totalTokens: usage.totalTokens,
+										costUsd: usage.costUsd
 									});
 
 									const done: BtcaStreamDoneEvent = {
 										type: 'done',
 										text: finalText,
 										reasoning: '', // We don't have reasoning in the new format
-										tools
+										tools,
+										usage
 									};
 									emit(controller, done);
+									usageReported = true;
+									args.onUsage?.(usage);
+									if (!hadError) args.onComplete?.({ text: finalText, tools, citations, usage });
 									break;
 								}
 
 								case 'error': {
+									hadError = true;
 									Metrics.error('stream.error', {
 										collectionKey: args.meta.collection.key,
 										error: Metrics.errorInfo(event.error)
@@ -171,6 +263,10 @@ export namespace StreamService {
 					result.match({
 						ok: () => undefined,
 						err: (cause) => {
+							if (args.signal?.aborted) {
+								emitCanceled();
+								return;
+							}
 							Metrics.error('stream.error', {
 								collectionKey: args.meta.collection.key,
 								error: Metrics.errorInfo(cause)
@@ -184,11 +280,51 @@ export namespace StreamService {
 						}
 					});
 
+					if (!usageReported && usageSoFar) {
+						args.onUsage?.(UsageLedger.summarize(args.meta.model, usageSoFar));
+					}
+
 					{
 						Metrics.info('stream.closed', { collectionKey: args.meta.collection.key });
-						controller.close();
+						if (!closed) {
+							closed = true;
+							controller.close();
+						}
+						args.onClose?.();
 					}
 				})();
+			},
+			cancel() {
+				closed = true;
+				Metrics.info('stream.disconnected', { collectionKey: args.meta.collection.key });
+				args.onDisconnect?.();
+			}
+		});
+	};
+
+	/**
+	 * Replay a previously completed answer as a regular event stream.
+	 */
+	export const createReplayStream = (args: {
+		meta: BtcaStreamMetaEvent;
+		answer: { text: string; tools: BtcaStreamDoneEvent['tools']; citations: BtcaCitation[] };
+	}): ReadableStream<Uint8Array> => {
+		const encoder = new TextEncoder();
+		const events: BtcaStreamEvent[] = [
+			args.meta,
+			{ type: 'text.delta', delta: args.answer.text },
+			...args.answer.citations.map((citation) => ({ type: 'citation' as const, ...citation })),
+			{ type: 'done', text: args.answer.text, reasoning: '', tools: args.answer.tools }
+		];
+
+		return new ReadableStream<Uint8Array>({
+			start(controller) {
+				Metrics.info('stream.replay', {
+					collectionKey: args.meta.collection.key,
+					textLength: args.answer.text.length
+				});
+				for (const event of events) controller.enqueue(encoder.encode(toSse(event)));
+				controller.close();
 			}
 		});
 	};
@@ -14,7 +14,13 @@ export const BtcaStreamMetaEventSchema = z.object({
 	type: z.literal('meta'),
 	model: BtcaModelSchema,
 	resources: z.array(z.string()),
-	collection: BtcaCollectionInfoSchema
+	collection: BtcaCollectionInfoSchema,
+	/** Commit (or version) of each resource, omitted when a resource has none */
+	commits: z.record(z.string()).optional(),
+	/** True when the answer is replayed from the answer cache */
+	cached: z.boolean().optional(),
+	/** Id for canceling the question with `DELETE /question/:id` */
+	questionId: z.string().optional()
 });
 
 export const BtcaStreamTextDeltaEventSchema = z.object({
@@ -66,6 +72,33 @@ export const BtcaStreamToolUpdatedEventSchema = z.object({
 	state: BtcaToolStateSchema
 });
 
+export const BtcaCitationSchema = z.object({
+	resource: z.string(),
+	/** File path relative to the resource root */
+	path: z.string(),
+	startLine: z.number().int().positive().optional(),
+	endLine: z.number().int().positive().optional(),
+	commit: z.string().optional(),
+	/** Commit-pinned permalink, when the resource is hosted somewhere we know how to link to */
+	url: z.string().optional(),
+	/** 'read' for files the agent read, 'answer' for files referenced in the final answer */
+	source: z.enum(['read', 'answer'])
+});
+
+export const BtcaStreamCitationEventSchema = BtcaCitationSchema.extend({
+	type: z.literal('citation')
+});
+
+export const BtcaUsageSchema = z.object({
+	inputTokens: z.number().int().nonnegative(),
+	outputTokens: z.number().int().nonnegative(),
+	/** Reasoning tokens, already included in outputTokens */
+	reasoningTokens: z.number().int().nonnegative(),
+	totalTokens: z.number().int().nonnegative(),
+	/** Estimated cost in USD, omitted when the model has no known price */
+	costUsd: z.number().nonnegative().optional()
+});
+
 export const BtcaStreamDoneEventSchema = z.object({
 	type: z.literal('done'),
 	text: z.string(),
@@ -76,7 +109,10 @@ export const BtcaStreamDoneEventSchema = z.object({
 			tool: z.string(),
 			state: BtcaToolStateSchema
 		})
-	)
+	),
+	/** True when the question was canceled before the agent finished */
+	canceled: z.boolean().optional(),
+	usage: BtcaUsageSchema.optional()
 });
 
 export const BtcaStreamErrorEventSchema = z.object({
@@ -90,6 +126,7 @@ export const BtcaStreamEventSchema = z.union([
 	BtcaStreamTextDeltaEventSchema,
 	BtcaStreamReasoningDeltaEventSchema,
 	BtcaStreamToolUpdatedEventSchema,
+	BtcaStreamCitationEventSchema,
 	BtcaStreamDoneEventSchema,
 	BtcaStreamErrorEventSchema
 ]);
@@ -98,6 +135,9 @@ export type BtcaStreamMetaEvent = z.infer<typeof BtcaStreamMetaEventSchema>;
 export type BtcaStreamTextDeltaEvent = z.infer<typeof BtcaStreamTextDeltaEventSchema>;
 export type BtcaStreamReasoningDeltaEvent = z.infer<typeof BtcaStreamReasoningDeltaEventSchema>;
 export type BtcaStreamToolUpdatedEvent = z.infer<typeof BtcaStreamToolUpdatedEventSchema>;
+export type BtcaCitation = z.infer<typeof BtcaCitationSchema>;
+export type BtcaStreamCitationEvent = z.infer<typeof BtcaStreamCitationEventSchema>;
+export type BtcaUsage = z.infer<typeof BtcaUsageSchema>;
 export type BtcaStreamDoneEvent = z.infer<typeof BtcaStreamDoneEventSchema>;
 export type BtcaStreamErrorEvent = z.infer<typeof BtcaStreamErrorEventSchema>;
 export type BtcaStreamEvent = z.infer<typeof BtcaStreamEventSchema>;
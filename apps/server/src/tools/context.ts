@@ -1,4 +1,8 @@
 export type ToolContext = {
 	basePath: string;
 	vfsId?: string;
+	/** Aborted when the question is canceled; long-running tools stop between files */
+	signal?: AbortSignal;
+	/** Result cap from the agent profile (lines for read); each tool has its own default */
+	maxResults?: number;
 };
@@ -50,6 +50,7 @@ export namespace GlobTool {
 	 */
 	export async function execute(params: ParametersType, context: ToolContext): Promise<Result> {
 		const { basePath, vfsId } = context;
+		const maxResults = context.maxResults ?? MAX_RESULTS;
 
 		// Resolve search path within sandbox
 		const searchPath = params.path ? VirtualSandbox.resolvePath(basePath, params.path) : basePath;
@@ -84,7 +85,8 @@ export namespace GlobTool {
 		const patternRegex = globToRegExp(params.pattern);
 		const allFiles = await VirtualFs.listFilesRecursive(searchPath, vfsId);
 		for (const file of allFiles) {
-			if (files.length >= MAX_RESULTS) {
+			context.signal?.throwIfAborted();
+			if (files.length >= maxResults) {
 				truncated = true;
 				break;
 			}
@@ -115,7 +117,7 @@ export namespace GlobTool {
 		if (truncated) {
 			outputLines.push('');
 			outputLines.push(
-				`[Truncated: Results limited to ${MAX_RESULTS} files. Use a more specific pattern for more targeted results.]`
+				`[Truncated: Results limited to ${maxResults} files. Use a more specific pattern for more targeted results.]`
 			);
 		}
 
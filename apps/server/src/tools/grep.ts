@@ -8,6 +8,8 @@ import { Result } from 'better-result';
 
 import type { ToolContext } from './context.ts';
 import { VirtualSandbox } from './virtual-sandbox.ts';
+import { getVirtualCollectionMetadata } from '../collections/virtual-metadata.ts';
+import { TrigramIndex } from '../search/trigram-index.ts';
 import { VirtualFs } from '../vfs/virtual-fs.ts';
 
 export namespace GrepTool {
@@ -62,11 +64,37 @@ export namespace GrepTool {
 			err: () => null
 		});
 
+	/**
+	 * Use the collection's trigram indexes to rule out files that cannot match.
+	 * Files an index does not know about, or that changed since indexing, are always scanned.
+	 */
+	const buildCandidateFilter = (pattern: string, vfsId?: string) => {
+		const resources = vfsId ? (getVirtualCollectionMetadata(vfsId)?.resources ?? []) : [];
+		const query = TrigramIndex.parsePattern(pattern);
+		const scopes = resources.flatMap((resource) => {
+			if (!resource.searchIndex) return [];
+			const ids = TrigramIndex.candidates(resource.searchIndex, query);
+			if (!ids) return [];
+			return [{ root: path.posix.join('/', resource.fsName), index: resource.searchIndex, ids }];
+		});
+		if (scopes.length === 0) return null;
+
+		return async (filePath: string) => {
+			const scope = scopes.find(({ root }) => filePath.startsWith(`${root}/`));
+			if (!scope) return true;
+			const entry = scope.index.files.get(path.posix.relative(scope.root, filePath));
+			if (!entry || scope.ids.has(entry.id)) return true;
+			const fileStats = await safeStat(filePath, vfsId);
+			return fileStats?.size !== entry.size;
+		};
+	};
+
 	/**
 	 * Execute the grep tool
 	 */
 	export async function execute(params: ParametersType, context: ToolContext): Promise<Result> {
 		const { basePath, vfsId } = context;
+		const maxResults = context.maxResults ?? MAX_RESULTS;
 
 		// Resolve search path within sandbox
 		const searchPath = params.path ? VirtualSandbox.resolvePath(basePath, params.path) : basePath;
@@ -110,14 +138,17 @@ export namespace GrepTool {
 		}
 
 		const includeMatcher = params.include ? buildIncludeMatcher(params.include) : null;
+		const isCandidate = buildCandidateFilter(params.pattern, vfsId);
 		const allFiles = await VirtualFs.listFilesRecursive(searchPath, vfsId);
 		const results: Array<{ path: string; lineNumber: number; lineText: string; mtime: number }> =
 			[];
 
 		for (const filePath of allFiles) {
-			if (results.length > MAX_RESULTS) break;
+			context.signal?.throwIfAborted();
+			if (results.length > maxResults) break;
 			const relative = path.posix.relative(searchPath, filePath);
 			if (includeMatcher && !includeMatcher(relative)) continue;
+			if (isCandidate && !(await isCandidate(filePath))) continue;
 			const buffer = await safeReadBuffer(filePath, vfsId);
 			if (!buffer) continue;
 			if (isBinaryBuffer(buffer)) continue;
@@ -134,7 +165,7 @@ export namespace GrepTool {
 					lineText,
 					mtime
 				});
-				if (results.length > MAX_RESULTS) break;
+				if (results.length > maxResults) break;
 			}
 		}
 
@@ -150,8 +181,8 @@ export namespace GrepTool {
 			};
 		}
 
-		const truncated = results.length > MAX_RESULTS;
-		const displayResults = truncated ? results.slice(0, MAX_RESULTS) : results;
+		const truncated = results.length > maxResults;
+		const displayResults = truncated ? results.slice(0, maxResults) : results;
 		displayResults.sort((a, b) => b.mtime - a.mtime);
 
 		const fileGroups = new Map<string, Array<{ lineNumber: number; lineText: string }>>();
@@ -179,7 +210,7 @@ export namespace GrepTool {
 
 		if (truncated) {
 			outputLines.push(
-				`[Truncated: Results limited to ${MAX_RESULTS} matches. Narrow your search pattern for more specific results.]`
+				`[Truncated: Results limited to ${maxResults} matches. Narrow your search pattern for more specific results.]`
 			);
 		}
 
@@ -6,3 +6,4 @@ export { ReadTool } from './read.ts';
 export { GrepTool } from './grep.ts';
 export { GlobTool } from './glob.ts';
 export { ListTool } from './list.ts';
+export { SearchTool } from './search.ts';
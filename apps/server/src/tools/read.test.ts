@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'bun:test';
+
+import { VirtualFs } from '../vfs/virtual-fs.ts';
+import { ReadTool } from './read.ts';
+
+const LFS_POINTER = [
+	'version https://git-lfs.github.com/spec/v1',
+	`oid sha256:${'4d7a'.repeat(16)}`,
+	'size 132735',
+	''
+].join('\n');
+
+describe('ReadTool', () => {
+	it('reports Git LFS pointers instead of returning the pointer text', async () => {
+		const vfsId = VirtualFs.create();
+		try {
+			await VirtualFs.mkdir('/docs/assets', { recursive: true }, vfsId);
+			await VirtualFs.writeFile('/docs/assets/diagram.png', LFS_POINTER, vfsId);
+			await VirtualFs.writeFile(
+				'/docs/lfs.md',
+				`Pointer files look like:\n\n${LFS_POINTER}`,
+				vfsId
+			);
+
+			const pointer = await ReadTool.execute(
+				{ path: 'assets/diagram.png' },
+				{ basePath: '/docs', vfsId }
+			);
+			expect(pointer.metadata.isLfsPointer).toBe(true);
+			expect(pointer.attachments).toBeUndefined();
+			expect(pointer.output).toContain('Git LFS file not downloaded: diagram.png (132735 bytes)');
+
+			const text = await ReadTool.execute({ path: 'lfs.md' }, { basePath: '/docs', vfsId });
+			expect(text.metadata.isLfsPointer).toBeUndefined();
+			expect(text.output).toContain('oid sha256:');
+		} finally {
+			VirtualFs.dispose(vfsId);
+		}
+	});
+});
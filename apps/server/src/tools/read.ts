@@ -40,6 +40,7 @@ export namespace ReadTool {
 			isImage?: boolean;
 			isPdf?: boolean;
 			isBinary?: boolean;
+			isLfsPointer?: boolean;
 		};
 		// For images/PDFs, we return attachments
 		attachments?: Array<{
@@ -74,6 +75,20 @@ export namespace ReadTool {
 		return false;
 	}
 
+	// Git LFS pointer files are a few lines of text; anything larger is real content
+	const LFS_POINTER_MAX_BYTES = 1024;
+	const LFS_POINTER_PATTERN =
+		/^version https:\/\/git-lfs\.github\.com\/spec\/v1\n(?:[a-z0-9.-]+ .*\n)*?oid sha256:[0-9a-f]{64}\nsize (\d+)\n/;
+
+	/**
+	 * Size of the real file if these bytes are a Git LFS pointer that was never downloaded
+	 */
+	export function getLfsPointerSize(bytes: Uint8Array): number | null {
+		if (bytes.length > LFS_POINTER_MAX_BYTES) return null;
+		const match = new TextDecoder().decode(bytes).match(LFS_POINTER_PATTERN);
+		return match ? Number(match[1]) : null;
+	}
+
 	/**
 	 * Execute the read tool
 	 */
@@ -117,9 +132,24 @@ export namespace ReadTool {
 
 		const ext = path.extname(resolvedPath).toLowerCase();
 
+		const bytes = await VirtualFs.readFileBuffer(resolvedPath, vfsId);
+
+		// Handle LFS pointers before images and PDFs, which are often stored in LFS
+		const lfsSize = getLfsPointerSize(bytes);
+		if (lfsSize !== null) {
+			return {
+				title: params.path,
+				output: `[Git LFS file not downloaded: ${path.basename(resolvedPath)} (${lfsSize} bytes). Only the LFS pointer is available; set "lfs": true on the resource to download LFS files.]`,
+				metadata: {
+					lines: 0,
+					truncated: false,
+					isLfsPointer: true
+				}
+			};
+		}
+
 		// Handle images
 		if (IMAGE_EXTENSIONS.has(ext)) {
-			const bytes = await VirtualFs.readFileBuffer(resolvedPath, vfsId);
 			const base64 = Buffer.from(bytes).toString('base64');
 			const mime = getImageMime(ext);
 
@@ -143,7 +173,6 @@ export namespace ReadTool {
 
 		// Handle PDFs
 		if (PDF_EXTENSIONS.has(ext)) {
-			const bytes = await VirtualFs.readFileBuffer(resolvedPath, vfsId);
 			const base64 = Buffer.from(bytes).toString('base64');
 
 			return {
@@ -165,7 +194,7 @@ export namespace ReadTool {
 		}
 
 		// Check for binary files
-		if (isBinaryBuffer(await VirtualFs.readFileBuffer(resolvedPath, vfsId))) {
+		if (isBinaryBuffer(bytes)) {
 			return {
 				title: params.path,
 				output: `[Binary file: ${path.basename(resolvedPath)}]`,
@@ -182,7 +211,8 @@ export namespace ReadTool {
 		const allLines = text.split('\n');
 
 		const offset = params.offset ?? 0;
-		const limit = params.limit ?? MAX_LINES;
+		const maxLines = context.maxResults ?? MAX_LINES;
+		const limit = Math.min(params.limit ?? maxLines, maxLines);
 
 		// Apply truncation
 		let truncatedByLines = false;
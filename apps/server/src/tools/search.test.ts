@@ -0,0 +1,151 @@
+import { describe, it, expect } from 'bun:test';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import { VirtualFs } from '../vfs/virtual-fs.ts';
+import { SearchTool } from './search.ts';
+
+const FILES: Record<string, string> = {
+	'/hono/docs/middleware.md': [
+		'---',
+		'title: Middleware',
+		'description: Run code before and after handlers',
+		'---',
+		'',
+		'# Middleware',
+		'',
+		'Middleware wraps handlers.',
+		'',
+		'## Execution order',
+		'',
+		'Middleware registered first runs first.',
+		'```md',
+		'# not a heading',
+		'```'
+	].join('\n'),
+	'/hono/docs/routing.md': '# Routing\n\nDefine routes with app.get and app.post.\n',
+	'/hono/src/compose.ts':
+		'export const compose = (middleware: Middleware[]) => {\n\treturn middleware;\n};\n',
+	'/hono/assets/logo.png': '\u0000binary'
+};
+
+const createVfs = async () => {
+	const vfsId = VirtualFs.create();
+	for (const [filePath, content] of Object.entries(FILES)) {
+		await VirtualFs.mkdir(filePath.slice(0, filePath.lastIndexOf('/')), { recursive: true }, vfsId);
+		await VirtualFs.writeFile(filePath, content, vfsId);
+	}
+	return vfsId;
+};
+
+describe('SearchTool', () => {
+	it('tokenizes identifiers and drops stop words', () => {
+		expect(SearchTool.tokenize('How do I configure the createApp routes?')).toEqual([
+			'configure',
+			'createapp',
+			'create',
+			'app',
+			'route'
+		]);
+	});
+
+	it('ranks markdown sections with headings and line ranges', async () => {
+		const vfsId = await createVfs();
+		try {
+			const result = await SearchTool.execute(
+				{ query: 'middleware execution order' },
+				{ basePath: '/', vfsId }
+			);
+
+			const [first] = result.output.split('\n');
+			expect(first).toStartWith('1. hono/docs/middleware.md:10-15');
+			expect(result.output).toContain('# Middleware > Execution order');
+			expect(result.output).not.toContain('logo.png');
+			expect(result.metadata.resultCount).toBe(3);
+		} finally {
+			VirtualFs.dispose(vfsId);
+		}
+	});
+
+	it('limits results to the requested directory', async () => {
+		const vfsId = await createVfs();
+		try {
+			const result = await SearchTool.execute(
+				{ query: 'middleware', path: 'hono/src' },
+				{ basePath: '/', vfsId }
+			);
+			expect(result.output).toStartWith('1. hono/src/compose.ts:1-4');
+			expect(result.metadata.resultCount).toBe(1);
+
+			const empty = await SearchTool.execute({ query: 'the of' }, { basePath: '/', vfsId });
+			expect(empty.metadata.resultCount).toBe(0);
+		} finally {
+			VirtualFs.dispose(vfsId);
+		}
+	});
+
+	it('rebuilds the corpus after it is cleared', async () => {
+		const vfsId = await createVfs();
+		try {
+			const query = { query: 'websocket upgrade' };
+			expect((await SearchTool.execute(query, { basePath: '/', vfsId })).metadata.resultCount).toBe(
+				0
+			);
+
+			await VirtualFs.writeFile('/hono/docs/websocket.md', '# WebSocket upgrade\n', vfsId);
+			// Cached until the virtual filesystem is released
+			expect((await SearchTool.execute(query, { basePath: '/', vfsId })).metadata.resultCount).toBe(
+				0
+			);
+
+			SearchTool.clearCorpora(vfsId);
+			const result = await SearchTool.execute(query, { basePath: '/', vfsId });
+			expect(result.output).toStartWith('1. hono/docs/websocket.md:1-2');
+		} finally {
+			VirtualFs.dispose(vfsId);
+			SearchTool.clearCorpora(vfsId);
+		}
+	});
+
+	it('keeps building a shared corpus when one caller cancels', async () => {
+		const vfsId = await createVfs();
+		try {
+			const controller = new AbortController();
+			const query = { query: 'routes' };
+			const canceled = SearchTool.execute(query, {
+				basePath: '/',
+				vfsId,
+				signal: controller.signal
+			});
+			const other = SearchTool.execute(query, { basePath: '/', vfsId });
+			controller.abort();
+
+			await expect(canceled).rejects.toThrow();
+			expect((await other).output).toStartWith('1. hono/docs/routing.md');
+		} finally {
+			VirtualFs.dispose(vfsId);
+			SearchTool.clearCorpora(vfsId);
+		}
+	});
+
+	it('searches a collection directory on disk', async () => {
+		const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'btca-search-test-'));
+		try {
+			await fs.mkdir(path.join(directory, 'docs'));
+			await fs.writeFile(
+				path.join(directory, 'docs', 'routing.md'),
+				FILES['/hono/docs/routing.md']!
+			);
+			await fs.mkdir(path.join(directory, '.opencode', 'tool'), { recursive: true });
+			await fs.writeFile(path.join(directory, '.opencode', 'tool', 'search.ts'), '// routes');
+
+			const result = await SearchTool.executeOnDisk({ query: 'routes' }, { directory });
+
+			expect(result.metadata.resultCount).toBe(1);
+			expect(result.output).toStartWith('1. docs/routing.md:1-4');
+		} finally {
+			await fs.rm(directory, { recursive: true, force: true });
+		}
+	});
+});
@@ -0,0 +1,492 @@
+/**
+ * Search Tool
+ * Ranks file chunks against a free-text query using BM25, in-memory
+ */
+import * as path from 'node:path';
+import { z } from 'zod';
+import { Result } from 'better-result';
+
+import type { ToolContext } from './context.ts';
+import { VirtualSandbox } from './virtual-sandbox.ts';
+import { VirtualFs } from '../vfs/virtual-fs.ts';
+
+export namespace SearchTool {
+	// Configuration
+	const DEFAULT_LIMIT = 10;
+	const MAX_LIMIT = 25;
+	const MAX_FILE_BYTES = 1024 * 1024;
+	const MAX_CHUNK_LINES = 80;
+	const CODE_CHUNK_LINES = 50;
+	const PREVIEW_LINES = 3;
+	const MAX_CACHED_CORPORA = 8;
+
+	// BM25 parameters
+	const K1 = 1.2;
+	const B = 0.75;
+
+	// Term weights by where the term appears
+	const HEADING_WEIGHT = 3;
+	const FRONT_MATTER_WEIGHT = 2;
+	const FILE_NAME_WEIGHT = 2;
+
+	const MARKDOWN_EXTENSIONS = new Set(['.md', '.mdx', '.markdown']);
+
+	const STOP_WORDS = new Set([
+		'a',
+		'an',
+		'and',
+		'are',
+		'as',
+		'at',
+		'be',
+		'by',
+		'do',
+		'does',
+		'for',
+		'from',
+		'how',
+		'i',
+		'if',
+		'in',
+		'is',
+		'it',
+		'of',
+		'on',
+		'or',
+		'that',
+		'the',
+		'this',
+		'to',
+		'what',
+		'when',
+		'where',
+		'which',
+		'with',
+		'why',
+		'you'
+	]);
+
+	// Schema for tool parameters
+	export const Parameters = z.object({
+		query: z
+			.string()
+			.describe('Natural-language or keyword query (e.g. "configure middleware order")'),
+		path: z
+			.string()
+			.optional()
+			.describe('The directory to search in. Defaults to the collection root.'),
+		limit: z.coerce
+			.number()
+			.optional()
+			.describe(`Maximum number of results to return (defaults to ${DEFAULT_LIMIT})`)
+	});
+
+	export type ParametersType = z.infer<typeof Parameters>;
+
+	// Result type
+	export type Result = {
+		title: string;
+		output: string;
+		metadata: {
+			resultCount: number;
+			chunkCount: number;
+		};
+	};
+
+	type Chunk = {
+		path: string;
+		startLine: number;
+		endLine: number;
+		heading?: string;
+		preview: string[];
+		terms: Map<string, number>;
+		length: number;
+	};
+
+	type Corpus = {
+		chunks: Chunk[];
+	};
+
+	// Corpora by vfsId and root, most recently used last
+	const corpora = new Map<string, Promise<Corpus>>();
+
+	const safeStat = async (filePath: string, vfsId?: string) => {
+		const result = await Result.tryPromise(() => VirtualFs.stat(filePath, vfsId));
+		return result.match({
+			ok: (value) => value,
+			err: () => null
+		});
+	};
+
+	const safeReadBuffer = async (filePath: string, vfsId?: string) => {
+		const result = await Result.tryPromise(() => VirtualFs.readFileBuffer(filePath, vfsId));
+		return result.match({
+			ok: (value) => value,
+			err: () => null
+		});
+	};
+
+	/**
+	 * Split text into lowercase terms. camelCase and snake_case identifiers also
+	 * contribute their parts, and a trailing plural "s" is dropped.
+	 */
+	export function tokenize(text: string): string[] {
+		const terms: string[] = [];
+		for (const word of text.match(/[\p{L}\p{N}_]+/gu) ?? []) {
+			const parts = word
+				.replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+				.split(/[\s_]+/)
+				.filter(Boolean);
+			const candidates = parts.length > 1 ? [word, ...parts] : parts;
+			for (const candidate of candidates) {
+				const term = normalizeTerm(candidate.toLowerCase());
+				if (term) terms.push(term);
+			}
+		}
+		return terms;
+	}
+
+	function normalizeTerm(term: string): string | null {
+		if (term.length < 2 || STOP_WORDS.has(term)) return null;
+		if (term.length > 3 && term.endsWith('s') && !term.endsWith('ss')) return term.slice(0, -1);
+		return term;
+	}
+
+	function addTerms(target: Map<string, number>, text: string, weight: number) {
+		let added = 0;
+		for (const term of tokenize(text)) {
+			target.set(term, (target.get(term) ?? 0) + weight);
+			added += weight;
+		}
+		return added;
+	}
+
+	function buildChunk(args: {
+		path: string;
+		lines: string[];
+		startIndex: number;
+		endIndex: number;
+		heading?: string;
+		boosts: Array<{ text: string; weight: number }>;
+	}): Chunk {
+		const terms = new Map<string, number>();
+		const body = args.lines.slice(args.startIndex, args.endIndex + 1);
+		let length = addTerms(terms, body.join('\n'), 1);
+		if (args.heading) length += addTerms(terms, args.heading, HEADING_WEIGHT);
+		for (const boost of args.boosts) length += addTerms(terms, boost.text, boost.weight);
+
+		return {
+			path: args.path,
+			startLine: args.startIndex + 1,
+			endLine: args.endIndex + 1,
+			heading: args.heading,
+			preview: body
+				.map((line) => line.trim())
+				.filter((line) => line.length > 0 && !/^#{1,6}\s/.test(line))
+				.slice(0, PREVIEW_LINES),
+			terms,
+			length
+		};
+	}
+
+	/**
+	 * Split a line range into chunks of at most maxLines lines.
+	 */
+	function windowed(startIndex: number, endIndex: number, maxLines: number) {
+		const windows: Array<{ startIndex: number; endIndex: number }> = [];
+		for (let start = startIndex; start <= endIndex; start += maxLines) {
+			windows.push({ startIndex: start, endIndex: Math.min(endIndex, start + maxLines - 1) });
+		}
+		return windows;
+	}
+
+	/**
+	 * Chunk a markdown file by heading. Each chunk is weighted with its heading trail
+	 * and the file's front-matter.
+	 */
+	function chunkMarkdown(filePath: string, lines: string[], fileNameBoost: string): Chunk[] {
+		let bodyStart = 0;
+		let frontMatter = '';
+		if (lines[0]?.trim() === '---') {
+			const close = lines.findIndex((line, index) => index > 0 && /^(---|\.\.\.)\s*$/.test(line));
+			if (close > 0) {
+				frontMatter = lines.slice(1, close).join('\n');
+				bodyStart = close + 1;
+			}
+		}
+
+		const boosts = [
+			{ text: frontMatter, weight: FRONT_MATTER_WEIGHT },
+			{ text: fileNameBoost, weight: FILE_NAME_WEIGHT }
+		];
+
+		const sections: Array<{ startIndex: number; heading?: string }> = [{ startIndex: bodyStart }];
+		const trail: Array<{ level: number; text: string }> = [];
+		let fence: string | null = null;
+		for (let i = bodyStart; i < lines.length; i++) {
+			const line = lines[i] ?? '';
+			const fenceMatch = /^\s*(```|~~~)/.exec(line);
+			if (fenceMatch) {
+				if (!fence) fence = fenceMatch[1] ?? null;
+				else if (fence === fenceMatch[1]) fence = null;
+				continue;
+			}
+			if (fence) continue;
+
+			const headingMatch = /^(#{1,6})\s+(.*?)\s*#*\s*$/.exec(line);
+			if (!headingMatch) continue;
+			const level = headingMatch[1]?.length ?? 1;
+			while (trail.length > 0 && (trail[trail.length - 1]?.level ?? 0) >= level) trail.pop();
+			trail.push({ level, text: headingMatch[2] ?? '' });
+			sections.push({ startIndex: i, heading: trail.map((entry) => entry.text).join(' > ') });
+		}
+
+		const chunks: Chunk[] = [];
+		for (const [index, section] of sections.entries()) {
+			const endIndex = (sections[index + 1]?.startIndex ?? lines.length) - 1;
+			if (endIndex < section.startIndex) continue;
+			const hasContent = lines
+				.slice(section.startIndex, endIndex + 1)
+				.some((line) => line.trim().length > 0);
+			if (!hasContent) continue;
+			for (const window of windowed(section.startIndex, endIndex, MAX_CHUNK_LINES)) {
+				chunks.push(
+					buildChunk({ path: filePath, lines, ...window, heading: section.heading, boosts })
+				);
+			}
+		}
+		return chunks;
+	}
+
+	function chunkPlain(filePath: string, lines: string[], fileNameBoost: string): Chunk[] {
+		const boosts = [{ text: fileNameBoost, weight: FILE_NAME_WEIGHT }];
+		return windowed(0, lines.length - 1, CODE_CHUNK_LINES).map((window) =>
+			buildChunk({ path: filePath, lines, ...window, boosts })
+		);
+	}
+
+	async function buildCorpus(rootPath: string, vfsId?: string): Promise<Corpus> {
+		const chunks: Chunk[] = [];
+		const files = await VirtualFs.listFilesRecursive(rootPath, vfsId);
+		for (const filePath of files) {
+			const buffer = await safeReadBuffer(filePath, vfsId);
+			if (!buffer || buffer.byteLength > MAX_FILE_BYTES || buffer.includes(0)) continue;
+			const lines = new TextDecoder().decode(buffer).split('\n');
+			const extension = path.posix.extname(filePath).toLowerCase();
+			const fileNameBoost = path.posix.basename(filePath, extension);
+			chunks.push(
+				...(MARKDOWN_EXTENSIONS.has(extension)
+					? chunkMarkdown(filePath, lines, fileNameBoost)
+					: chunkPlain(filePath, lines, fileNameBoost))
+			);
+		}
+		return { chunks };
+	}
+
+	/**
+	 * Wait for a corpus that other questions may share. Canceling one caller stops only its
+	 * own wait; the build keeps going for everyone else.
+	 */
+	function waitForCorpus(corpus: Promise<Corpus>, signal?: AbortSignal) {
+		if (!signal) return corpus;
+		signal.throwIfAborted();
+		return new Promise<Corpus>((resolve, reject) => {
+			const onAbort = () => reject(signal.reason);
+			signal.addEventListener('abort', onAbort, { once: true });
+			corpus.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+		});
+	}
+
+	function getCorpus(rootPath: string, vfsId?: string) {
+		const key = `${vfsId ?? 'default'}:${rootPath}`;
+		const existing = corpora.get(key);
+		if (existing) {
+			corpora.delete(key);
+			corpora.set(key, existing);
+			return existing;
+		}
+
+		const created = buildCorpus(rootPath, vfsId);
+		corpora.set(key, created);
+		// A failed build must not stay cached for later questions
+		created.catch(() => {
+			if (corpora.get(key) === created) corpora.delete(key);
+		});
+		while (corpora.size > MAX_CACHED_CORPORA) {
+			const oldest = corpora.keys().next().value;
+			if (oldest === undefined) break;
+			corpora.delete(oldest);
+		}
+		return created;
+	}
+
+	/**
+	 * Drop the corpora built from a virtual filesystem once it is disposed
+	 */
+	export const clearCorpora = (vfsId: string) => {
+		for (const key of Array.from(corpora.keys())) {
+			if (key.startsWith(`${vfsId}:`)) corpora.delete(key);
+		}
+	};
+
+	export const clearAllCorpora = () => {
+		corpora.clear();
+	};
+
+	/**
+	 * Score chunks with BM25. Document statistics are computed over the chunks passed in,
+	 * so results are ranked relative to the directory being searched.
+	 */
+	function rank(chunks: Chunk[], queryTerms: string[]) {
+		const averageLength =
+			chunks.reduce((sum, chunk) => sum + chunk.length, 0) / Math.max(chunks.length, 1);
+		const uniqueTerms = Array.from(new Set(queryTerms));
+		const idf = new Map<string, number>();
+		for (const term of uniqueTerms) {
+			const documentFrequency = chunks.filter((chunk) => chunk.terms.has(term)).length;
+			idf.set(
+				term,
+				Math.log(1 + (chunks.length - documentFrequency + 0.5) / (documentFrequency + 0.5))
+			);
+		}
+
+		const scored: Array<{ chunk: Chunk; score: number }> = [];
+		for (const chunk of chunks) {
+			let score = 0;
+			for (const term of uniqueTerms) {
+				const frequency = chunk.terms.get(term);
+				if (!frequency) continue;
+				const normalization = K1 * (1 - B + (B * chunk.length) / (averageLength || 1));
+				score += (idf.get(term) ?? 0) * ((frequency * (K1 + 1)) / (frequency + normalization));
+			}
+			if (score > 0) scored.push({ chunk, score });
+		}
+
+		return scored.sort(
+			(a, b) =>
+				b.score - a.score ||
+				a.chunk.path.localeCompare(b.chunk.path) ||
+				a.chunk.startLine - b.chunk.startLine
+		);
+	}
+
+	/**
+	 * Execute the search tool
+	 */
+	export async function execute(params: ParametersType, context: ToolContext): Promise<Result> {
+		const { basePath, vfsId } = context;
+
+		// Resolve search path within sandbox
+		const searchPath = params.path ? VirtualSandbox.resolvePath(basePath, params.path) : basePath;
+
+		// Validate the search path exists and is a directory
+		const stats = await safeStat(searchPath, vfsId);
+		if (!stats) {
+			return {
+				title: params.query,
+				output: `Directory not found: ${params.path || '.'}`,
+				metadata: {
+					resultCount: 0,
+					chunkCount: 0
+				}
+			};
+		}
+		if (!stats.isDirectory) {
+			return {
+				title: params.query,
+				output: `Path is not a directory: ${params.path || '.'}`,
+				metadata: {
+					resultCount: 0,
+					chunkCount: 0
+				}
+			};
+		}
+
+		const queryTerms = tokenize(params.query);
+		if (queryTerms.length === 0) {
+			return {
+				title: params.query,
+				output: 'Query has no searchable terms. Use more specific words.',
+				metadata: {
+					resultCount: 0,
+					chunkCount: 0
+				}
+			};
+		}
+
+		const corpus = await waitForCorpus(
+			getCorpus(path.posix.resolve('/', basePath), vfsId),
+			context.signal
+		);
+		const rootPrefix = searchPath === '/' ? '/' : `${searchPath}/`;
+		const chunks = corpus.chunks.filter((chunk) => chunk.path.startsWith(rootPrefix));
+		const maxLimit = context.maxResults ?? MAX_LIMIT;
+		const requested = params.limit ?? Math.min(DEFAULT_LIMIT, maxLimit);
+		const limit = Math.min(Math.max(1, Math.floor(requested)), maxLimit);
+		const results = rank(chunks, queryTerms).slice(0, limit);
+
+		if (results.length === 0) {
+			return {
+				title: params.query,
+				output: 'No matches found.',
+				metadata: {
+					resultCount: 0,
+					chunkCount: chunks.length
+				}
+			};
+		}
+
+		const outputLines: string[] = [];
+		for (const [index, { chunk, score }] of results.entries()) {
+			const relativePath = path.posix.relative(basePath, chunk.path);
+			outputLines.push(
+				`${index + 1}. ${relativePath}:${chunk.startLine}-${chunk.endLine} (score ${score.toFixed(2)})`
+			);
+			if (chunk.heading) outputLines.push(`   # ${chunk.heading}`);
+			for (const line of chunk.preview) {
+				outputLines.push(`   ${line.length > 200 ? line.substring(0, 200) + '...' : line}`);
+			}
+			outputLines.push('');
+		}
+
+		return {
+			title: params.query,
+			output: outputLines.join('\n').trim(),
+			metadata: {
+				resultCount: results.length,
+				chunkCount: chunks.length
+			}
+		};
+	}
+
+	// Virtual copies of on-disk collection directories, by directory
+	const diskCollections = new Map<string, Promise<string>>();
+
+	/**
+	 * Search a collection directory on disk. OpenCode's custom search tool calls this, since
+	 * OpenCode works on the real collection directory instead of a virtual filesystem.
+	 */
+	export async function executeOnDisk(
+		params: ParametersType,
+		context: { directory: string; signal?: AbortSignal }
+	): Promise<Result> {
+		let loaded = diskCollections.get(context.directory);
+		if (!loaded) {
+			const vfsId = VirtualFs.create();
+			loaded = VirtualFs.importDirectoryFromDisk({
+				sourcePath: context.directory,
+				destinationPath: '/',
+				vfsId,
+				ignore: (relativePath) => relativePath.split(path.sep)[0] === '.opencode'
+			}).then(() => vfsId);
+			diskCollections.set(context.directory, loaded);
+			loaded.catch(() => {
+				if (diskCollections.get(context.directory) === loaded) {
+					diskCollections.delete(context.directory);
+				}
+				VirtualFs.dispose(vfsId);
+			});
+		}
+		return execute(params, { basePath: '/', vfsId: await loaded, signal: context.signal });
+	}
+}
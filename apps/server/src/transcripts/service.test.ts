@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import type { AgentLoop } from '../agent/loop.ts';
+import { Context } from '../context/index.ts';
+import { Transcripts } from './service.ts';
+
+const meta: Transcripts.Meta = {
+	question: 'How do I define a route?',
+	historyLength: 0,
+	collectionKey: 'hono',
+	resources: ['hono'],
+	model: { provider: 'opencode', model: 'gpt-5' },
+	profile: 'default',
+	stream: true
+};
+
+const events: AgentLoop.AgentEvent[] = [
+	{ type: 'start', system: 'You are btca.', initialContext: '<collection>hono</collection>' },
+	{ type: 'tool-call', toolCallId: 'call-1', toolName: 'grep', input: { pattern: 'app.get' } },
+	{ type: 'tool-call', toolCallId: 'call-2', toolName: 'grep', input: { pattern: 'app.post' } },
+	{ type: 'tool-result', toolCallId: 'call-2', toolName: 'grep', output: 'src/hono.ts:20' },
+	{ type: 'tool-result', toolCallId: 'call-1', toolName: 'grep', output: 'src/hono.ts:12' },
+	{ type: 'text-delta', text: 'Use ' },
+	{ type: 'text-delta', text: '`app.get`.' },
+	{
+		type: 'finish',
+		finishReason: 'stop',
+		usage: { inputTokens: 100, outputTokens: 10 }
+	}
+];
+
+async function* fromArray<T>(items: T[]) {
+	for (const item of items) yield item;
+}
+
+describe('Transcripts', () => {
+	let dataDirectory: string;
+
+	beforeEach(async () => {
+		dataDirectory = await fs.mkdtemp(path.join(os.tmpdir(), 'btca-transcripts-'));
+	});
+
+	afterEach(async () => {
+		await fs.rm(dataDirectory, { recursive: true, force: true });
+	});
+
+	it('records prompts, tool calls, spans and the answer', async () => {
+		const transcript = await Context.run(
+			{ requestId: 'req-1', txDepth: 0, spans: [{ name: 'tool.grep', ms: 3, ok: true }] },
+			() => {
+				const recorder = Transcripts.createRecorder(meta);
+				events.forEach(recorder.observe);
+				return recorder.finish();
+			}
+		);
+
+		expect(transcript.id).toBe('req-1');
+		expect(transcript.systemPrompt).toBe('You are btca.');
+		expect(transcript.initialContext).toBe('<collection>hono</collection>');
+		// Results are matched to their call by id, even when they arrive out of order
+		expect(transcript.toolCalls).toHaveLength(2);
+		expect(transcript.toolCalls[0]).toMatchObject({
+			tool: 'grep',
+			input: { pattern: 'app.get' },
+			output: 'src/hono.ts:12'
+		});
+		expect(transcript.toolCalls[1]).toMatchObject({
+			input: { pattern: 'app.post' },
+			output: 'src/hono.ts:20'
+		});
+		expect(transcript.answer).toBe('Use `app.get`.');
+		expect(transcript.finishReason).toBe('stop');
+		expect(transcript.usage?.totalTokens).toBe(110);
+		expect(transcript.spans).toEqual([{ name: 'tool.grep', ms: 3, ok: true }]);
+	});
+
+	it('saves recorded streams and lists them newest first', async () => {
+		const service = Transcripts.create({ dataDirectory, isEnabled: () => true });
+
+		for (const requestId of ['first', 'second']) {
+			await Context.run({ requestId, txDepth: 0, spans: [] }, async () => {
+				for await (const _ of service.record({ events: fromArray(events), meta })) {
+					// drain
+				}
+			});
+			// Keep creation timestamps distinct so the ordering is deterministic
+			await Bun.sleep(5);
+		}
+
+		const listed = await service.list();
+		expect(listed.map((item) => item.id)).toEqual(['second', 'first']);
+		expect(listed[0]).toMatchObject({ toolCallCount: 2, answerLength: 14 });
+
+		const saved = await service.get('first');
+		expect(saved?.question).toBe(meta.question);
+		expect(await service.get('../first')).toBeNull();
+		expect(await service.get('missing')).toBeNull();
+	});
+
+	it('passes events through untouched when disabled', async () => {
+		const service = Transcripts.create({ dataDirectory, isEnabled: () => false });
+		const source = fromArray(events);
+
+		expect(service.record({ events: source, meta })).toBe(source);
+		expect(await service.list()).toEqual([]);
+	});
+});
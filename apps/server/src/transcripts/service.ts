@@ -0,0 +1,214 @@
+import { promises as fs } from 'node:fs';
+import * as path from 'node:path';
+
+import { Result } from 'better-result';
+
+import type { AgentLoop } from '../agent/loop.ts';
+import { Context } from '../context/index.ts';
+import { getErrorMessage, getErrorTag } from '../errors.ts';
+import { Metrics } from '../metrics/index.ts';
+import { UsageLedger } from '../usage/ledger.ts';
+import type { Transcript, TranscriptSummary, TranscriptToolCall } from './types.ts';
+
+const TRANSCRIPT_ID_REGEX = /^[A-Za-z0-9-]+$/;
+
+/**
+ * Debug transcripts of answered questions.
+ *
+ * When enabled, every question's agent events are recorded (system prompt, initial context,
+ * tool calls with their output and timings, and the final answer) and written to
+ * `<dataDirectory>/transcripts/<requestId>.json`.
+ */
+export namespace Transcripts {
+	export type Meta = Pick<
+		Transcript,
+		'question' | 'historyLength' | 'collectionKey' | 'resources' | 'model' | 'profile' | 'stream'
+	>;
+
+	export type Recorder = {
+		observe: (event: AgentLoop.AgentEvent) => void;
+		fail: (cause: unknown) => void;
+		finish: () => Transcript;
+	};
+
+	export type Service = {
+		isEnabled: () => boolean;
+		/** Pass events through unchanged, saving a transcript once the stream ends */
+		record: (args: {
+			events: AsyncIterable<AgentLoop.AgentEvent>;
+			meta: Meta;
+		}) => AsyncIterable<AgentLoop.AgentEvent>;
+		save: (transcript: Transcript) => Promise<void>;
+		list: (args?: { limit?: number }) => Promise<TranscriptSummary[]>;
+		get: (id: string) => Promise<Transcript | null>;
+	};
+
+	export const createRecorder = (meta: Meta): Recorder => {
+		const requestId = Context.requestId();
+		const id = requestId === 'unknown' ? crypto.randomUUID() : requestId;
+		const startedAt = Date.now();
+		// Calls still waiting for their result, by tool call id
+		const running = new Map<string, { call: TranscriptToolCall; startedAt: number }>();
+
+		const transcript: Transcript = {
+			id,
+			createdAt: new Date(startedAt).toISOString(),
+			durationMs: 0,
+			...meta,
+			systemPrompt: '',
+			initialContext: '',
+			toolCalls: [],
+			answer: '',
+			spans: []
+		};
+
+		return {
+			observe: (event) => {
+				switch (event.type) {
+					case 'start':
+						transcript.systemPrompt = event.system;
+						transcript.initialContext = event.initialContext;
+						break;
+					case 'text-delta':
+						transcript.answer += event.text;
+						break;
+					case 'tool-call': {
+						const call: TranscriptToolCall = {
+							tool: event.toolName,
+							input: event.input,
+							startedAt: new Date().toISOString()
+						};
+						transcript.toolCalls.push(call);
+						running.set(event.toolCallId, { call, startedAt: Date.now() });
+						break;
+					}
+					case 'tool-result': {
+						const entry = running.get(event.toolCallId);
+						if (!entry) break;
+						running.delete(event.toolCallId);
+						entry.call.output = event.output;
+						entry.call.durationMs = Date.now() - entry.startedAt;
+						break;
+					}
+					case 'usage':
+						transcript.usage = UsageLedger.summarize(meta.model, event.usage);
+						break;
+					case 'finish':
+						transcript.finishReason = event.finishReason;
+						transcript.usage = UsageLedger.summarize(meta.model, event.usage);
+						break;
+					case 'canceled':
+						transcript.canceled = true;
+						break;
+					case 'error':
+						transcript.error = { tag: getErrorTag(event.error), message: event.error.message };
+						break;
+				}
+			},
+
+			fail: (cause) => {
+				transcript.error = { tag: getErrorTag(cause), message: getErrorMessage(cause) };
+			},
+
+			finish: () => ({
+				...transcript,
+				answer: transcript.answer.trim(),
+				durationMs: Date.now() - startedAt,
+				spans: [...(Context.get()?.spans ?? [])]
+			})
+		};
+	};
+
+	const summarize = (transcript: Transcript): TranscriptSummary => ({
+		id: transcript.id,
+		createdAt: transcript.createdAt,
+		durationMs: transcript.durationMs,
+		question: transcript.question,
+		collectionKey: transcript.collectionKey,
+		model: transcript.model,
+		profile: transcript.profile,
+		...(transcript.canceled ? { canceled: true } : {}),
+		...(transcript.error ? { error: transcript.error } : {}),
+		toolCallCount: transcript.toolCalls.length,
+		answerLength: transcript.answer.length
+	});
+
+	const readTranscript = async (filePath: string) =>
+		(await Result.tryPromise(() => fs.readFile(filePath, 'utf8'))).match({
+			ok: (content) =>
+				Result.try(() => JSON.parse(content) as Transcript).match({
+					ok: (transcript) => transcript,
+					err: () => null
+				}),
+			err: () => null
+		});
+
+	export const create = (args: { dataDirectory: string; isEnabled: () => boolean }): Service => {
+		const directory = path.join(args.dataDirectory, 'transcripts');
+
+		const save: Service['save'] = async (transcript) => {
+			const filePath = path.join(directory, `${transcript.id}.json`);
+			const result = await Result.tryPromise(async () => {
+				await fs.mkdir(directory, { recursive: true });
+				await fs.writeFile(filePath, JSON.stringify(transcript, null, '\t'));
+			});
+			result.match({
+				ok: () =>
+					Metrics.info('transcripts.save', {
+						id: transcript.id,
+						toolCalls: transcript.toolCalls.length
+					}),
+				// A transcript is a debugging aid; failing to write one must not fail the question
+				err: (error) =>
+					Metrics.error('transcripts.save.error', {
+						id: transcript.id,
+						error: Metrics.errorInfo(error)
+					})
+			});
+		};
+
+		return {
+			isEnabled: args.isEnabled,
+
+			record: ({ events, meta }) => {
+				if (!args.isEnabled()) return events;
+				const recorder = createRecorder(meta);
+				return (async function* () {
+					try {
+						for await (const event of events) {
+							recorder.observe(event);
+							yield event;
+						}
+					} catch (cause) {
+						recorder.fail(cause);
+						throw cause;
+					} finally {
+						await save(recorder.finish());
+					}
+				})();
+			},
+
+			save,
+
+			list: async ({ limit = 50 } = {}) => {
+				const files = (await Result.tryPromise(() => fs.readdir(directory))).match({
+					ok: (entries) => entries.filter((entry) => entry.endsWith('.json')),
+					err: () => [] as string[]
+				});
+				const transcripts = await Promise.all(
+					files.map((file) => readTranscript(path.join(directory, file)))
+				);
+				return transcripts
+					.filter((transcript): transcript is Transcript => transcript !== null)
+					.sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+					.slice(0, limit)
+					.map(summarize);
+			},
+
+			get: async (id) => {
+				if (!TRANSCRIPT_ID_REGEX.test(id)) return null;
+				return readTranscript(path.join(directory, `${id}.json`));
+			}
+		};
+	};
+}
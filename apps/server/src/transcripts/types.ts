@@ -0,0 +1,54 @@
+import type { BtcaUsage } from '../stream/types.ts';
+
+export type TranscriptToolCall = {
+	tool: string;
+	input: unknown;
+	output?: string;
+	startedAt: string;
+	durationMs?: number;
+};
+
+export type TranscriptSpan = {
+	name: string;
+	ms: number;
+	ok: boolean;
+	[field: string]: unknown;
+};
+
+export type Transcript = {
+	id: string;
+	createdAt: string;
+	durationMs: number;
+	question: string;
+	historyLength: number;
+	collectionKey: string;
+	resources: string[];
+	model: { provider: string; model: string };
+	profile: string;
+	stream: boolean;
+	systemPrompt: string;
+	initialContext: string;
+	toolCalls: TranscriptToolCall[];
+	answer: string;
+	finishReason?: string;
+	usage?: BtcaUsage;
+	canceled?: boolean;
+	error?: { tag: string; message: string };
+	spans: TranscriptSpan[];
+};
+
+export type TranscriptSummary = Pick<
+	Transcript,
+	| 'id'
+	| 'createdAt'
+	| 'durationMs'
+	| 'question'
+	| 'collectionKey'
+	| 'model'
+	| 'profile'
+	| 'canceled'
+	| 'error'
+> & {
+	toolCallCount: number;
+	answerLength: number;
+};
@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import { UsageLedger } from './ledger.ts';
+
+describe('UsageLedger', () => {
+	let dataDirectory: string;
+
+	beforeEach(async () => {
+		dataDirectory = await fs.mkdtemp(path.join(os.tmpdir(), 'btca-usage-'));
+	});
+
+	afterEach(async () => {
+		await fs.rm(dataDirectory, { recursive: true, force: true });
+	});
+
+	it('estimates cost from the model price table', () => {
+		expect(
+			UsageLedger.summarize(
+				{ provider: 'anthropic', model: 'claude-sonnet-4-5-20250929' },
+				{ inputTokens: 10_000, outputTokens: 2_000, reasoningTokens: 500 }
+			)
+		).toEqual({
+			inputTokens: 10_000,
+			outputTokens: 2_000,
+			reasoningTokens: 500,
+			totalTokens: 12_000,
+			costUsd: 0.06
+		});
+
+		const unknown = UsageLedger.summarize(
+			{ provider: 'ollama', model: 'llama3' },
+			{ inputTokens: 5 }
+		);
+		expect(unknown.costUsd).toBeUndefined();
+		expect(unknown.totalTokens).toBe(5);
+	});
+
+	it('records entries and filters them by date and resource', async () => {
+		const ledger = UsageLedger.create({ dataDirectory });
+		const base = {
+			provider: 'opencode',
+			model: 'gpt-5',
+			stream: true,
+			inputTokens: 1000,
+			outputTokens: 100,
+			reasoningTokens: 0,
+			totalTokens: 1100,
+			costUsd: 0.00225
+		};
+
+		await ledger.record({ ...base, collectionKey: 'svelte', resources: ['svelte'] });
+		await ledger.record({ ...base, collectionKey: 'hono+svelte', resources: ['hono', 'svelte'] });
+		await fs.appendFile(ledger.filePath, 'not json\n');
+
+		const all = await ledger.query();
+		expect(all.totals).toEqual({
+			questions: 2,
+			inputTokens: 2000,
+			outputTokens: 200,
+			reasoningTokens: 0,
+			totalTokens: 2200,
+			costUsd: 0.0045
+		});
+
+		const hono = await ledger.query({ resource: 'hono' });
+		expect(hono.entries.map((entry) => entry.collectionKey)).toEqual(['hono+svelte']);
+
+		const future = await ledger.query({ from: new Date(Date.now() + 60_000) });
+		expect(future.totals.questions).toBe(0);
+	});
+
+	it('returns empty totals when nothing has been recorded', async () => {
+		const ledger = UsageLedger.create({ dataDirectory: path.join(dataDirectory, 'missing') });
+		const result = await ledger.query();
+		expect(result.entries).toEqual([]);
+		expect(result.totals.questions).toBe(0);
+	});
+});
@@ -0,0 +1,142 @@
+import { promises as fs } from 'node:fs';
+import * as path from 'node:path';
+
+import { Result } from 'better-result';
+
+import { Metrics } from '../metrics/index.ts';
+import { estimateCost } from '../providers/index.ts';
+import type { BtcaUsage } from '../stream/types.ts';
+
+/**
+ * Local token usage ledger.
+ *
+ * Every answered question appends one JSON line with its token counts and estimated cost to
+ * `usage.jsonl` in the data directory. The ledger is read back on demand for `GET /usage`.
+ */
+export namespace UsageLedger {
+	export type Entry = BtcaUsage & {
+		timestamp: string;
+		collectionKey: string;
+		resources: string[];
+		provider: string;
+		model: string;
+		stream: boolean;
+	};
+
+	export type Filter = {
+		from?: Date;
+		to?: Date;
+		resource?: string;
+	};
+
+	export type Totals = {
+		questions: number;
+		inputTokens: number;
+		outputTokens: number;
+		reasoningTokens: number;
+		totalTokens: number;
+		costUsd: number;
+	};
+
+	export type Service = {
+		filePath: string;
+		record: (entry: Omit<Entry, 'timestamp'>) => Promise<void>;
+		query: (filter?: Filter) => Promise<{ entries: Entry[]; totals: Totals }>;
+	};
+
+	/**
+	 * Turn the token counts reported by the model into a usage summary with an estimated cost.
+	 */
+	export const summarize = (
+		model: { provider: string; model: string },
+		tokens?: {
+			inputTokens?: number;
+			outputTokens?: number;
+			reasoningTokens?: number;
+			totalTokens?: number;
+		}
+	): BtcaUsage => {
+		const inputTokens = tokens?.inputTokens ?? 0;
+		const outputTokens = tokens?.outputTokens ?? 0;
+		const costUsd = estimateCost(model.model, { inputTokens, outputTokens });
+		return {
+			inputTokens,
+			outputTokens,
+			reasoningTokens: tokens?.reasoningTokens ?? 0,
+			totalTokens: tokens?.totalTokens ?? inputTokens + outputTokens,
+			...(costUsd !== undefined ? { costUsd } : {})
+		};
+	};
+
+	const matches = (entry: Entry, filter: Filter) => {
+		const timestamp = Date.parse(entry.timestamp);
+		if (filter.from && timestamp < filter.from.getTime()) return false;
+		if (filter.to && timestamp > filter.to.getTime()) return false;
+		if (filter.resource && !entry.resources.includes(filter.resource)) return false;
+		return true;
+	};
+
+	const parseLine = (line: string) =>
+		Result.try(() => JSON.parse(line) as Entry).match({
+			ok: (entry) => (typeof entry?.timestamp === 'string' ? entry : null),
+			err: () => null
+		});
+
+	export const create = (args: { dataDirectory: string }): Service => {
+		const filePath = path.join(args.dataDirectory, 'usage.jsonl');
+
+		return {
+			filePath,
+
+			record: async (entry) => {
+				const line = JSON.stringify({ timestamp: new Date().toISOString(), ...entry });
+				const result = await Result.tryPromise(async () => {
+					await fs.mkdir(args.dataDirectory, { recursive: true });
+					await fs.appendFile(filePath, `${line}\n`);
+				});
+				result.match({
+					ok: () =>
+						Metrics.info('usage.record', {
+							collectionKey: entry.collectionKey,
+							totalTokens: entry.totalTokens,
+							costUsd: entry.costUsd
+						}),
+					// Usage accounting must never fail a question
+					err: (error) => Metrics.error('usage.record.error', { error: Metrics.errorInfo(error) })
+				});
+			},
+
+			query: async (filter = {}) => {
+				const content = (await Result.tryPromise(() => fs.readFile(filePath, 'utf8'))).match({
+					ok: (value) => value,
+					err: () => ''
+				});
+
+				const entries = content
+					.split('\n')
+					.filter((line) => line.trim())
+					.map(parseLine)
+					.filter((entry): entry is Entry => entry !== null && matches(entry, filter));
+
+				const totals: Totals = {
+					questions: entries.length,
+					inputTokens: 0,
+					outputTokens: 0,
+					reasoningTokens: 0,
+					totalTokens: 0,
+					costUsd: 0
+				};
+				for (const entry of entries) {
+					totals.inputTokens += entry.inputTokens;
+					totals.outputTokens += entry.outputTokens;
+					totals.reasoningTokens += entry.reasoningTokens;
+					totals.totalTokens += entry.totalTokens;
+					totals.costUsd += entry.costUsd ?? 0;
+				}
+				totals.costUsd = Math.round(totals.costUsd * 1_000_000) / 1_000_000;
+
+				return { entries, totals };
+			}
+		};
+	};
+}
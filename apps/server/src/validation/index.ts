@@ -48,10 +48,20 @@ export const LIMITS = {
 	NOTES_MAX: 500,
 	/** Maximum length for search paths */
 	SEARCH_PATH_MAX: 256,
-	/** Maximum length for questions (includes conversation history when formatted) */
+	/** Maximum number of include or exclude globs on a resource */
+	PATH_GLOBS_MAX: 100,
+	/** Maximum length for questions */
 	QUESTION_MAX: 100_000,
+	/** Maximum number of prior messages sent as conversation history */
+	MAX_MESSAGES_PER_REQUEST: 200,
+	/** Maximum total characters of conversation history, including replayed tool output */
+	HISTORY_CHARS_MAX: 400_000,
 	/** Maximum number of resources per request */
-	MAX_RESOURCES_PER_REQUEST: 20
+	MAX_RESOURCES_PER_REQUEST: 20,
+	/** Maximum number of pages crawled for a web resource */
+	WEB_MAX_PAGES: 2000,
+	/** Maximum link depth followed from a web resource's root URL */
+	WEB_MAX_DEPTH: 10
 } as const;
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -64,8 +74,7 @@ export type ValidationResult = { valid: true } | { valid: false; error: string }
  * Validation result that includes a normalized value.
  */
 export type ValidationResultWithValue<T> =
-	| { valid: true; value: T }
-	| { valid: false; error: string };
+	{ valid: true; value: T } | { valid: false; error: string };
 
 const ok = (): ValidationResult => ({ valid: true });
 const okWithValue = <T>(value: T): ValidationResultWithValue<T> => ({ valid: true, value });
@@ -176,6 +185,8 @@ export const normalizeGitHubUrl = (url: string): string => {
 		err: () => null
 	});
 	if (!parsed) return url;
+	// SSH URLs are kept as written
+	if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') return url;
 
 	const hostname = parsed.hostname.toLowerCase();
 	if (hostname !== 'github.com') {
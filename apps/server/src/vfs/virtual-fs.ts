@@ -202,17 +202,19 @@ export namespace VirtualFs {
 	export async function importDirectoryFromDisk(args: {
 		sourcePath: string;
 		destinationPath: string;
-		ignore?: (relativePath: string) => boolean;
+		ignore?: (relativePath: string, isDirectory: boolean) => boolean;
 		vfsId?: string;
-	}) {
+	}): Promise<{ files: number; bytes: number }> {
 		const base = path.resolve(args.sourcePath);
 		const dest = normalize(args.destinationPath);
 		const ignore = args.ignore ?? (() => false);
 		const vfsId = args.vfsId;
+		let files = 0;
+		let bytes = 0;
 
 		const walk = async (currentPath: string): Promise<void> => {
 			const relative = path.relative(base, currentPath);
-			if (relative && ignore(relative)) return;
+			if (relative && ignore(relative, true)) return;
 			const direntsResult = await Result.tryPromise(() =>
 				fs.readdir(currentPath, { withFileTypes: true })
 			);
@@ -225,7 +227,7 @@ export namespace VirtualFs {
 			for (const dirent of dirents) {
 				const srcPath = path.join(currentPath, dirent.name);
 				const relPath = path.relative(base, srcPath);
-				if (ignore(relPath)) continue;
+				if (ignore(relPath, dirent.isDirectory())) continue;
 				const destPath = normalize(posix.join(dest, relPath.split(path.sep).join('/')));
 
 				if (dirent.isDirectory()) {
@@ -259,7 +261,10 @@ export namespace VirtualFs {
 					if (buffer) {
 						const writeResult = await Result.tryPromise(() => writeFile(destPath, buffer, vfsId));
 						writeResult.match({
-							ok: () => undefined,
+							ok: () => {
+								files += 1;
+								bytes += buffer.byteLength;
+							},
 							err: () => undefined
 						});
 					}
@@ -269,5 +274,6 @@ export namespace VirtualFs {
 
 		await mkdir(dest, { recursive: true }, vfsId);
 		await walk(base);
+		return { files, bytes };
 	}
 }
@@ -1,4 +1,4 @@
-import { formatConversationHistory, type BtcaChunk, type ThreadMessage } from '@btca/shared';
+import { extractMessageText, type BtcaChunk, type ThreadMessage } from '@btca/shared';
 import { httpRouter } from 'convex/server';
 import { nanoid } from 'nanoid';
 import { z } from 'zod';
@@ -108,6 +108,16 @@ type BtcaStreamEvent =
 			tool: string;
 			state?: BtcaToolState;
 	  }
+	| {
+			type: 'citation';
+			resource: string;
+			path: string;
+			startLine?: number;
+			endLine?: number;
+			commit?: string;
+			url?: string;
+			source: 'read' | 'answer';
+	  }
 	| BtcaStreamDoneEvent
 	| BtcaStreamErrorEvent;
 
@@ -241,7 +251,6 @@ const chatStream = httpAction(async (ctx, request) => {
 			canceled: messageItem.canceled
 		})
 	);
-	const questionWithHistory = formatConversationHistory(threadMessages, message);
 
 	if (!ctx.runAction) {
 		return corsTextResponse(request, 'Convex runAction is unavailable in HTTP actions', 500);
@@ -249,7 +258,8 @@ const chatStream = httpAction(async (ctx, request) => {
 
 	const usageCheck = await ctx.runAction(usageActions.ensureUsageAvailable, {
 		instanceId: instance._id,
-		question: questionWithHistory,
+		question: message,
+		messages: threadMessages.map(extractMessageText),
 		resources: updatedResources
 	});
 
@@ -344,7 +354,8 @@ const chatStream = httpAction(async (ctx, request) => {
 						'Content-Type': 'application/json'
 					},
 					body: JSON.stringify({
-						question: questionWithHistory,
+						question: message,
+						messages: threadMessages,
 						resources: updatedResources,
 						quiet: true
 					})
@@ -352,6 +352,8 @@ export const ensureUsageAvailable = action({
 	args: {
 		instanceId: v.id('instances'),
 		question: v.string(),
+		// Text of the prior thread messages, sent to the model alongside the question
+		messages: v.optional(v.array(v.string())),
 		resources: v.array(v.string())
 	},
 	returns: v.union(
@@ -436,7 +438,9 @@ export const ensureUsageAvailable = action({
 		}
 
 		if (isProPlan) {
-			const inputTokens = estimateTokensFromText(args.question);
+			const inputTokens = estimateTokensFromText(
+				[...(args.messages ?? []), args.question].join('\n')
+			);
 			const now = Date.now();
 			const sandboxUsageHours = args.resources.length
 				? estimateSandboxUsageHours({ lastActiveAt: instance.lastActiveAt, now })
@@ -19,11 +19,18 @@ import type { BtcaChunk, AssistantContent } from '@btca/shared';
 // Resource types
 export interface Resource {
 	name: string;
-	type: 'git' | 'local';
+	type: 'git' | 'local' | 'npm' | 'archive' | 'web';
 	url?: string;
 	branch?: string;
 	path?: string;
+	package?: string;
+	version?: string;
+	source?: string;
 	searchPath?: string;
+	include?: string[];
+	exclude?: string[];
+	submodules?: boolean;
+	lfs?: boolean;
 	specialNotes?: string;
 }
 
@@ -109,6 +116,16 @@ export const BtcaStreamEventSchema = z.discriminatedUnion('type', [
 		tool: z.string(),
 		state: BtcaToolStateSchema
 	}),
+	z.object({
+		type: z.literal('citation'),
+		resource: z.string(),
+		path: z.string(),
+		startLine: z.number().optional(),
+		endLine: z.number().optional(),
+		commit: z.string().optional(),
+		url: z.string().optional(),
+		source: z.enum(['read', 'answer'])
+	}),
 	z.object({
 		type: z.literal('done'),
 		text: z.string(),
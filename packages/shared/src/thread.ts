@@ -19,6 +19,10 @@ export interface ToolChunk {
 	id: string;
 	toolName: string;
 	state: 'pending' | 'running' | 'completed';
+	/** Tool input, when known. Used to replay prior tool calls as conversation history. */
+	input?: unknown;
+	/** Tool output, once completed. */
+	output?: string;
 }
 
 export interface FileChunk {